@@ -6,6 +6,8 @@ import Header from './components/Header';
 import CreatePoll from './components/CreatePoll';
 import PollCard from './components/PollCard';
 import UserProfile from './components/UserProfile';
+import Sessions from './components/Sessions';
+import EmailLogin from './components/EmailLogin';
 
 function App() {
   const [message, setMessage] = useState<string | null>(null);
@@ -95,6 +97,8 @@ function App() {
             <Route path="/create" element={<CreatePoll />} />
             <Route path="/poll/:id" element={<PollPage />} />
             <Route path="/user/:id" element={<UserProfile />} />
+            <Route path="/user/:id/sessions" element={<Sessions />} />
+            <Route path="/login/email" element={<EmailLogin />} />
             {/* Redirect any other routes to the home page */}
             <Route path="*" element={<Navigate to="/" />} />
           </Routes>
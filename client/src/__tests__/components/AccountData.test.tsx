@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import AccountData from '../../components/AccountData';
+
+// Mock the fetch API
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+// Mock window.location so downloads and reloads can be observed
+Object.defineProperty(window, 'location', {
+  value: { href: 'http://localhost:3000/user/user-1' },
+  writable: true
+});
+
+describe('AccountData Component', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    window.location.href = 'http://localhost:3000/user/user-1';
+  });
+
+  it('downloads the export only after it is confirmed', () => {
+    render(<AccountData />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download my data' }));
+    expect(window.location.href).toBe('http://localhost:3000/user/user-1');
+    expect(screen.getByText(/will be downloaded as a JSON file/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }));
+    expect(window.location.href).toBe('/api/auth/me/export');
+  });
+
+  it('deletes the account once the email address is entered', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ success: true }) });
+    render(<AccountData />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete account' }));
+    const deleteButton = screen.getByRole('button', { name: 'Delete my account' });
+    expect(deleteButton).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.change(screen.getByLabelText(/Type your email address/), { target: { value: 'me@example.com' } });
+    fireEvent.click(deleteButton);
+
+    await waitFor(() => {
+      expect(window.location.href).toBe('/');
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/me', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ confirmEmail: 'me@example.com', deletePolls: true })
+    });
+  });
+
+  it('shows why a deletion was refused', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ message: 'Enter the email address of the account to confirm its deletion' })
+    });
+    render(<AccountData />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete account' }));
+    fireEvent.change(screen.getByLabelText(/Type your email address/), { target: { value: 'wrong@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Delete my account' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/Enter the email address of the account/)).toBeInTheDocument();
+    });
+    expect(window.location.href).toBe('http://localhost:3000/user/user-1');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import ApiKeys from '../../components/ApiKeys';
+
+// Mock the fetch API
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+const apiKeysResponse = {
+  apiKeys: [
+    {
+      id: 'key-1',
+      name: 'Nightly export',
+      prefix: 'ep_abcdefg',
+      scopes: ['polls:read'],
+      createdAt: '2025-04-01T12:00:00Z',
+      lastUsedAt: null
+    }
+  ],
+  availableScopes: ['polls:read', 'polls:write', 'votes:write']
+};
+
+describe('ApiKeys Component', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('lists the user\'s keys', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(apiKeysResponse) });
+    render(<ApiKeys />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Nightly export')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/Never used/)).toBeInTheDocument();
+    expect(screen.getByLabelText('votes:write')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/api-keys');
+  });
+
+  it('creates a key and shows it once', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(apiKeysResponse) });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: () => Promise.resolve({
+        apiKey: { ...apiKeysResponse.apiKeys[0], id: 'key-2', name: 'Voting bot', scopes: ['votes:write'] },
+        key: 'ep_secret-key-value'
+      })
+    });
+    render(<ApiKeys />);
+
+    const createButton = await screen.findByRole('button', { name: 'Create API key' });
+    expect(createButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Key name'), { target: { value: 'Voting bot' } });
+    fireEvent.click(screen.getByLabelText('votes:write'));
+    fireEvent.click(createButton);
+
+    await waitFor(() => {
+      expect(screen.getByText('ep_secret-key-value')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Voting bot')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/api-keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ name: 'Voting bot', scopes: ['votes:write'] })
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    expect(screen.queryByText('ep_secret-key-value')).not.toBeInTheDocument();
+  });
+
+  it('revokes a key and removes it from the list', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(apiKeysResponse) });
+    render(<ApiKeys />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Revoke Nightly export' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Nightly export')).not.toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/api-keys/key-1', {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+  });
+});
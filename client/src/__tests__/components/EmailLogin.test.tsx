@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import EmailLogin from '../../components/EmailLogin';
+
+// Mock the fetch API
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+// Mock window.location so the reload after logging in can be observed
+Object.defineProperty(window, 'location', {
+  value: { href: 'http://localhost:3000/login/email?token=token-1' },
+  writable: true
+});
+
+const renderEmailLogin = (path = '/login/email?token=token-1') => render(
+  <MemoryRouter initialEntries={[path]}>
+    <Routes>
+      <Route path="/login/email" element={<EmailLogin />} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('EmailLogin Component', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    window.location.href = 'http://localhost:3000/login/email?token=token-1';
+  });
+
+  it('only uses the link once the login is confirmed', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ success: true, returnTo: '/poll/poll-1?auth=success' })
+    });
+    renderEmailLogin();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Log in' }));
+
+    await waitFor(() => {
+      expect(window.location.href).toBe('/poll/poll-1?auth=success');
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/magic-link/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ token: 'token-1' })
+    });
+  });
+
+  it('shows why a link cannot be used', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({
+        error: 'Invalid login link',
+        message: 'This login link is unknown, has expired or was already used'
+      })
+    });
+    renderEmailLogin();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Log in' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/This login link is unknown, has expired or was already used/)).toBeInTheDocument();
+    });
+    expect(window.location.href).toBe('http://localhost:3000/login/email?token=token-1');
+  });
+
+  it('does not offer to log in without a token', () => {
+    renderEmailLogin('/login/email');
+
+    expect(screen.getByText('This login link is incomplete.')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Log in' })).not.toBeInTheDocument();
+  });
+});
@@ -1,13 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
 import Feed from '../../components/Feed';
 
-// Mock the IntersectionObserver
+// Mock the IntersectionObserver, recording each observed element with its observer's callback
 const mockIntersectionObserver = vi.fn();
-mockIntersectionObserver.mockReturnValue({
-  observe: () => vi.fn(),
-  unobserve: () => vi.fn(),
-  disconnect: () => vi.fn()
+const observedElements: { element: Element; callback: IntersectionObserverCallback }[] = [];
+const mockObserverInstance = () => mockIntersectionObserver.mockImplementation(function (callback: IntersectionObserverCallback) {
+  return {
+    observe: (element: Element) => observedElements.push({ element, callback }),
+    unobserve: () => vi.fn(),
+    disconnect: () => vi.fn()
+  };
 });
 window.IntersectionObserver = mockIntersectionObserver;
 
@@ -42,6 +45,7 @@ interface FeedResponse {
     total: number;
     limit: number;
     offset: number;
+    nextCursor: string | null;
     hasMore: boolean;
   };
 }
@@ -81,6 +85,7 @@ const createMockFeedResponse = (pollCount: number, hasMore: boolean): FeedRespon
       total: hasMore ? pollCount + 5 : pollCount,
       limit: 5,
       offset: 0,
+      nextCursor: hasMore ? 'cursor-page-2' : null,
       hasMore
     }
   };
@@ -97,6 +102,7 @@ const mockFeedFetch = (pollCount: number, hasMore: boolean) => {
 describe('Feed Component', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockObserverInstance();
   });
 
   it('renders loading state initially', () => {
@@ -122,7 +128,7 @@ describe('Feed Component', () => {
     
     // Check if fetch was called correctly
     expect(mockFetch).toHaveBeenCalledTimes(1);
-    expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&offset=0');
+    expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&sort=hot');
   });
 
   it('shows empty state when no polls are found', async () => {
@@ -157,7 +163,7 @@ describe('Feed Component', () => {
     render(<Feed searchQuery="test query" />);
     
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&offset=0&q=test%20query');
+      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&q=test%20query');
     });
   });
 
@@ -167,7 +173,7 @@ describe('Feed Component', () => {
     const { rerender } = render(<Feed />);
     
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&offset=0');
+      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&sort=hot');
     });
     
     // Update with search query
@@ -176,10 +182,29 @@ describe('Feed Component', () => {
     rerender(<Feed searchQuery="new search" />);
     
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&offset=0&q=new%20search');
+      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&q=new%20search');
     });
   });
 
+  it('refetches the feed in the sort order picked from the switcher', async () => {
+    mockFeedFetch(3, false);
+    render(<Feed />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Hot' })).toHaveAttribute('aria-pressed', 'true');
+    });
+    expect(screen.queryByRole('button', { name: 'Best match' })).not.toBeInTheDocument();
+
+    mockFetch.mockReset();
+    mockFeedFetch(3, false);
+    fireEvent.click(screen.getByRole('button', { name: 'Most voted' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&sort=most_voted');
+    });
+    expect(screen.getByRole('button', { name: 'Most voted' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
   it('loads more polls when intersection observer triggers', async () => {
     // Setup with initial polls and more available
     mockFeedFetch(5, true);
@@ -200,19 +225,26 @@ describe('Feed Component', () => {
         pagination: {
           total: 7,
           limit: 5,
-          offset: 5,
+          offset: 0,
+          nextCursor: null,
           hasMore: false
         }
       })
     });
     
-    // Trigger intersection observer
-    const [observerCallback] = mockIntersectionObserver.mock.calls[0];
-    observerCallback([{ isIntersecting: true }]);
+    // Trigger the latest observer of the element that loads more polls
+    const loader = observedElements.filter(({ element }) => element.classList.contains('feed-loading-more')).pop()!;
+    act(() => {
+      loader.callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+    });
     
-    // Check that fetch was called with the correct offset
+    // Check that fetch was called with the cursor of the next page
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&cursor=cursor-page-2&sort=hot');
+    });
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith('/api/feed?limit=5&offset=5');
+      expect(screen.getByText('Test Poll Question 7')).toBeInTheDocument();
     });
+    expect(screen.getByText('Test Poll Question 1')).toBeInTheDocument();
   });
 });
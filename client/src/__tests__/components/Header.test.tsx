@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
 import Header from '../../components/Header';
 
 // Mock fetch
@@ -10,7 +11,9 @@ globalThis.fetch = mockFetch as unknown as typeof fetch;
 const mockWindowLocation = vi.fn();
 Object.defineProperty(window, 'location', {
   value: {
-    href: 'http://localhost:3000',
+    href: 'http://localhost:3000/poll/poll-123',
+    pathname: '/poll/poll-123',
+    search: '',
     reload: mockWindowLocation
   },
   writable: true
@@ -20,6 +23,13 @@ describe('Header Component', () => {
   const mockSearchQuery = '';
   const mockOnSearchChange = vi.fn();
 
+  // Header reads the router's location, so it is rendered inside a router
+  const renderHeader = (path = '/') => render(
+    <MemoryRouter initialEntries={[path]}>
+      <Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />
+    </MemoryRouter>
+  );
+
   beforeEach(() => {
     vi.resetAllMocks();
   });
@@ -31,7 +41,7 @@ describe('Header Component', () => {
       json: async () => ({ id: '123', name: 'Test User', email: 'test@example.com', isAuthenticated: true })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Check for main header elements
     expect(screen.getByText('EveryPoll')).toBeInTheDocument();
@@ -46,7 +56,7 @@ describe('Header Component', () => {
       json: async () => ({ id: 'anon-123', name: null, email: null, isAuthenticated: false })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Wait for login button to appear
     const loginButton = await screen.findByText('Login with Google');
@@ -56,6 +66,89 @@ describe('Header Component', () => {
     expect(screen.queryByText('Create Poll')).not.toBeInTheDocument();
   });
 
+  it('shows a login button for each identity provider', async () => {
+    // Mock unauthenticated user response, then the providers
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'anon-123', name: null, email: null, isAuthenticated: false })
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        providers: [
+          { id: 'google', displayName: 'Google' },
+          { id: 'sso', displayName: 'Company SSO' }
+        ]
+      })
+    });
+
+    renderHeader();
+
+    const ssoButton = await screen.findByText('Login with Company SSO');
+    expect(screen.getByText('Login with Google')).toBeInTheDocument();
+
+    fireEvent.click(ssoButton);
+    expect(window.location.href).toBe('/api/auth/login/sso?returnTo=%2Fpoll%2Fpoll-123');
+  });
+
+  it('emails a login link', async () => {
+    // Mock unauthenticated user response, the providers, then the link request
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'anon-123', name: null, email: null, isAuthenticated: false })
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ providers: [{ id: 'google', displayName: 'Google' }] })
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true, message: 'Check your email for a login link' })
+    });
+
+    renderHeader();
+
+    fireEvent.click(await screen.findByText('Login with email'));
+    fireEvent.change(screen.getByLabelText('Email address'), { target: { value: 'voter@example.com' } });
+    fireEvent.click(screen.getByText('Send link'));
+
+    expect(await screen.findByText('Check your email for a login link')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/magic-link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'voter@example.com', returnTo: '/poll/poll-123' })
+    });
+  });
+
+  it('shows why a login link could not be sent', async () => {
+    // Mock unauthenticated user response, the providers, then a rate-limited link request
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'anon-123', name: null, email: null, isAuthenticated: false })
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ providers: [{ id: 'google', displayName: 'Google' }] })
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      json: async () => ({ error: 'Too many requests', message: 'Too many login links were sent to this address. Try again later.' })
+    });
+
+    renderHeader();
+
+    fireEvent.click(await screen.findByText('Login with email'));
+    fireEvent.change(screen.getByLabelText('Email address'), { target: { value: 'voter@example.com' } });
+    fireEvent.click(screen.getByText('Send link'));
+
+    expect(await screen.findByText('Too many login links were sent to this address. Try again later.')).toBeInTheDocument();
+    expect(screen.queryByText('Check your email for a login link')).not.toBeInTheDocument();
+
+    // The form stays open to try again
+    expect(screen.getByText('Send link')).not.toBeDisabled();
+  });
+
   it('shows avatar and create poll button for authenticated users', async () => {
     // Mock authenticated user response
     mockFetch.mockResolvedValueOnce({
@@ -63,7 +156,7 @@ describe('Header Component', () => {
       json: async () => ({ id: '123', name: 'Test User', email: 'test@example.com', isAuthenticated: true })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Wait for create poll button to appear
     const createPollButton = await screen.findByText('Create Poll');
@@ -80,14 +173,14 @@ describe('Header Component', () => {
       json: async () => ({ id: 'anon-123', name: null, email: null, isAuthenticated: false })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Wait for login button and click it
     const loginButton = await screen.findByText('Login with Google');
     fireEvent.click(loginButton);
     
-    // Check if window.location.href was set to the login URL
-    expect(window.location.href).toBe('/api/auth/login');
+    // Check if window.location.href was set to the login URL, returning to the current page
+    expect(window.location.href).toBe('/api/auth/login/google?returnTo=%2Fpoll%2Fpoll-123');
   });
 
   it('handles search input correctly', async () => {
@@ -97,7 +190,7 @@ describe('Header Component', () => {
       json: async () => ({ id: '123', name: 'Test User', email: 'test@example.com', isAuthenticated: true })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Find search input and change its value
     const searchInput = screen.getByPlaceholderText('Search polls...');
@@ -111,7 +204,7 @@ describe('Header Component', () => {
     // Mock API error
     mockFetch.mockRejectedValueOnce(new Error('API Error'));
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Wait for error message to appear
     await waitFor(() => {
@@ -132,7 +225,7 @@ describe('Header Component', () => {
       json: async () => ({ success: true, message: 'Logged out successfully' })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader('/poll/poll-123');
     
     // Wait for avatar to appear and click it to logout
     await waitFor(() => {
@@ -149,8 +242,8 @@ describe('Header Component', () => {
       });
     });
     
-    // Check if page was reloaded
-    expect(mockWindowLocation).toHaveBeenCalled();
+    // Check that we were taken to the home page, which has the search bar
+    expect(await screen.findByPlaceholderText('Search polls...')).toBeInTheDocument();
   });
 
   it('should stick to the top of the page', () => {
@@ -160,7 +253,7 @@ describe('Header Component', () => {
       json: async () => ({ id: '123', name: null, email: null, isAuthenticated: false })
     });
 
-    render(<Header searchQuery={mockSearchQuery} onSearchChange={mockOnSearchChange} />);
+    renderHeader();
     
     // Check if header has the correct class for sticky positioning
     const header = screen.getByRole('banner');
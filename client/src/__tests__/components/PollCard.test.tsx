@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import PollCard from '../../components/PollCard';
 
 // Define types for the mock data
@@ -7,11 +7,43 @@ interface Poll {
   id: string;
   question: string;
   created_at: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  votes_locked?: boolean;
+  type?: 'single' | 'multiple' | 'ranked' | 'scale';
+  max_choices?: number | null;
+  scale_min?: number | null;
+  scale_max?: number | null;
+  scale_step?: number | null;
+  scale_min_label?: string | null;
+  scale_max_label?: string | null;
+}
+
+interface ScaleResults {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  histogram: { value: number; count: number }[];
+}
+
+interface RankedResults {
+  ballotCount: number;
+  instantRunoff: {
+    rounds: { counts: Record<string, number>; exhausted: number; eliminated: string[] }[];
+    winner: string | null;
+    tied: string[];
+  };
+  borda: {
+    scores: Record<string, number>;
+    ranking: string[];
+  };
 }
 
 interface Answer {
   id: string;
   text: string;
+  is_write_in?: boolean;
 }
 
 interface Author {
@@ -19,6 +51,11 @@ interface Author {
   name: string | null;
 }
 
+interface SearchSnippet {
+  question: { text: string; highlighted: boolean }[];
+  answers: { text: string; highlighted: boolean }[] | null;
+}
+
 interface CrossReference {
   pollId: string;
   answerId: string;
@@ -31,6 +68,25 @@ interface CrossReference {
     text: string;
   };
   voteCounts: Record<string, number>;
+  statistics?: {
+    sampleSize: number;
+    chiSquare: {
+      statistic: number;
+      degreesOfFreedom: number;
+      pValue: number;
+      significant: boolean;
+    } | null;
+    answers: Record<string, {
+      count: number;
+      proportion: number;
+      lower: number;
+      upper: number;
+      lift: number | null;
+    }>;
+  };
+  scaleResults?: ScaleResults;
+  suppressed?: boolean;
+  suppressedAnswerIds?: string[];
 }
 
 interface PollData {
@@ -38,8 +94,14 @@ interface PollData {
   answers: Answer[];
   author: Author;
   voteCounts: Record<string, number>;
-  userVote: { answerId: string } | null;
+  respondentCount?: number;
+  rankedResults?: RankedResults;
+  scaleResults?: ScaleResults;
+  userVote: { answerId: string | null; answerIds?: string[]; value?: number; writeIn?: string } | null;
+  isAuthor?: boolean;
+  status?: 'scheduled' | 'open' | 'closed';
   crossReferences?: CrossReference[];
+  snippet?: SearchSnippet;
 }
 
 interface VoteResponse {
@@ -47,11 +109,38 @@ interface VoteResponse {
   message: string;
   vote: {
     id: string;
-    answerId: string;
+    answerId: string | null;
+    answerIds?: string[];
+    value?: number;
+    writeIn?: string;
     pollId: string;
     createdAt: string;
   };
   voteCounts: Record<string, number>;
+  respondentCount?: number;
+  rankedResults?: RankedResults;
+  scaleResults?: ScaleResults;
+}
+
+interface EditResponse {
+  poll: Poll;
+  answers: Answer[];
+}
+
+interface RetractResponse {
+  success: boolean;
+  message: string;
+  voteCounts: Record<string, number>;
+}
+
+interface CloseResponse {
+  poll: Poll;
+  status: 'scheduled' | 'open' | 'closed';
+}
+
+interface DeleteResponse {
+  success: boolean;
+  message: string;
 }
 
 interface ErrorResponse {
@@ -64,6 +153,7 @@ interface SearchResponse {
     poll: Poll;
     answers: Answer[];
     author: Author;
+    snippet?: SearchSnippet;
   }>;
   pagination: {
     total: number;
@@ -73,10 +163,37 @@ interface SearchResponse {
   };
 }
 
+interface CorrelationsResponse {
+  correlations: Array<SearchResponse['polls'][number] & {
+    sharedVoters: number;
+    cramersV: number;
+    pValue: number | null;
+    effects: Array<{
+      answerId: string;
+      crossAnswerId: string;
+      answerText: string;
+      crossAnswerText: string;
+      count: number;
+      lift: number;
+    }>;
+  }>;
+}
+
+interface WriteInsResponse {
+  writeIns: Array<{ normalizedText: string; text: string; count: number }>;
+}
+
+interface PromoteResponse {
+  answer: Answer;
+  movedVotes: number;
+  answers: Answer[];
+  voteCounts: Record<string, number>;
+}
+
 // Type for the fetch response
 interface MockResponse {
   ok: boolean;
-  json: () => Promise<PollData | VoteResponse | ErrorResponse | SearchResponse>;
+  json: () => Promise<PollData | VoteResponse | RetractResponse | EditResponse | CloseResponse | DeleteResponse | ErrorResponse | SearchResponse | CorrelationsResponse | WriteInsResponse | PromoteResponse>;
 }
 
 // Mock the fetch function
@@ -168,7 +285,7 @@ const mockPollWithCrossRef: PollData = {
 
 // Mock response for fetch
 const mockFetchResponse = (
-  data: PollData | VoteResponse | ErrorResponse | SearchResponse, 
+  data: PollData | VoteResponse | RetractResponse | EditResponse | CloseResponse | DeleteResponse | ErrorResponse | SearchResponse | CorrelationsResponse | WriteInsResponse | PromoteResponse,
   ok = true
 ): MockResponse => {
   return {
@@ -352,6 +469,612 @@ describe('PollCard Component', () => {
 
   /* Cross-reference tests */
 
+  it('should only show edit and delete controls to the author', () => {
+    const { rerender } = render(<PollCard pollData={mockPollData} />);
+    expect(screen.queryByText('Edit')).not.toBeInTheDocument();
+
+    rerender(<PollCard key="author" pollData={{ ...mockPollData, isAuthor: true }} />);
+    expect(screen.getByText('Edit')).toBeInTheDocument();
+    expect(screen.getByText('Delete')).toBeInTheDocument();
+  });
+
+  it('should save edits to the question', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        poll: { ...mockPollData.poll, question: 'What is your favourite colour?' },
+        answers: mockPollData.answers,
+      })
+    );
+
+    render(<PollCard pollData={{ ...mockPollData, isAuthor: true }} />);
+
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Question'), {
+      target: { value: 'What is your favourite colour?' },
+    });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(screen.getByText('What is your favourite colour?')).toBeInTheDocument();
+    });
+
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/poll/poll-123',
+      expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ question: 'What is your favourite colour?' }),
+      })
+    );
+  });
+
+  it('should lock answer editing once the poll has votes', () => {
+    render(<PollCard pollData={{ ...pollDataWithVote, isAuthor: true }} />);
+
+    fireEvent.click(screen.getByText('Edit'));
+
+    expect(screen.getByLabelText('Answer 1')).toBeDisabled();
+    expect(screen.getByText(/Answers can't be changed/)).toBeInTheDocument();
+  });
+
+  it('should delete the poll after confirmation', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({ success: true, message: 'Poll deleted successfully' })
+    );
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const onDeleted = vi.fn();
+
+    render(<PollCard pollData={{ ...mockPollData, isAuthor: true }} onDeleted={onDeleted} />);
+
+    fireEvent.click(screen.getByText('Delete'));
+
+    await waitFor(() => {
+      expect(screen.getByText('This poll has been deleted.')).toBeInTheDocument();
+    });
+    expect(onDeleted).toHaveBeenCalledWith('poll-123');
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/poll/poll-123',
+      expect.objectContaining({ method: 'DELETE' })
+    );
+
+    confirmSpy.mockRestore();
+  });
+
+  it('should count down to a scheduled opening and disable voting', () => {
+    const opensAt = new Date(Date.now() + (2 * 24 + 3) * 60 * 60 * 1000 + 30 * 1000).toISOString();
+
+    render(<PollCard pollData={{ ...mockPollData, poll: { ...mockPollData.poll, opens_at: opensAt } }} />);
+
+    expect(screen.getByText('Opens in 2d 3h')).toBeInTheDocument();
+    expect(screen.getByText('Red')).toBeDisabled();
+  });
+
+  it('should count down to closing while open', () => {
+    const closesAt = new Date(Date.now() + (4 * 60 + 10) * 1000 + 500).toISOString();
+
+    render(<PollCard pollData={{ ...mockPollData, poll: { ...mockPollData.poll, closes_at: closesAt } }} />);
+
+    expect(screen.getByText('Closes in 4m 10s')).toBeInTheDocument();
+    expect(screen.getByText('Red')).not.toBeDisabled();
+  });
+
+  it('should show final results for a closed poll without a vote', () => {
+    const closedPoll: PollData = {
+      ...pollDataWithVote,
+      poll: { ...pollDataWithVote.poll, closes_at: '2025-04-02T12:00:00Z' },
+      userVote: null,
+    };
+
+    render(<PollCard pollData={closedPoll} />);
+
+    expect(screen.getByText('Closed · Final results')).toBeInTheDocument();
+    expect(screen.getByText('67%')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Red' })).not.toBeInTheDocument();
+  });
+
+  it('should let the author close the poll now', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        poll: { ...mockPollData.poll, closes_at: new Date().toISOString() },
+        status: 'closed',
+      })
+    );
+
+    render(<PollCard pollData={{ ...mockPollData, isAuthor: true }} />);
+
+    fireEvent.click(screen.getByText('Close now'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Closed · Final results')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Close now')).not.toBeInTheDocument();
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/poll/poll-123/close',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should let the user change their vote', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote changed successfully',
+        vote: {
+          id: 'vote-123',
+          answerId: 'answer-3',
+          pollId: 'poll-123',
+          createdAt: '2025-04-01T12:05:00Z',
+        },
+        voteCounts: { 'answer-1': 1, 'answer-2': 1, 'answer-3': 1 },
+      })
+    );
+
+    render(<PollCard pollData={pollDataWithVote} />);
+
+    fireEvent.click(screen.getByText('Change vote'));
+    fireEvent.click(screen.getByText('Green'));
+
+    await waitFor(() => {
+      expect(screen.getAllByText('33%')).toHaveLength(3);
+    });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/poll/poll-123/vote',
+      expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ answerId: 'answer-3' }),
+      })
+    );
+  });
+
+  it('should let the user retract their vote', async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote retracted successfully',
+        voteCounts: { 'answer-1': 1, 'answer-2': 1 },
+      })
+    );
+
+    render(<PollCard pollData={pollDataWithVote} />);
+
+    fireEvent.click(screen.getByText('Retract vote'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Red' })).toBeInTheDocument();
+    });
+    expect(screen.getByText('2 votes')).toBeInTheDocument();
+  });
+
+  it('should hide vote changes when the author has locked votes', () => {
+    render(
+      <PollCard pollData={{ ...pollDataWithVote, poll: { ...pollDataWithVote.poll, votes_locked: true } }} />
+    );
+
+    expect(screen.queryByText('Change vote')).not.toBeInTheDocument();
+    expect(screen.queryByText('Retract vote')).not.toBeInTheDocument();
+  });
+
+  it('should submit every ticked answer on multiple-choice polls', async () => {
+    const multipleChoicePoll: PollData = {
+      ...mockPollData,
+      poll: { ...mockPollData.poll, type: 'multiple', max_choices: 2 },
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote recorded successfully',
+        vote: {
+          id: 'vote-123',
+          answerId: 'answer-1',
+          answerIds: ['answer-1', 'answer-3'],
+          pollId: 'poll-123',
+          createdAt: '2025-04-01T12:05:00Z',
+        },
+        voteCounts: { 'answer-1': 1, 'answer-3': 1 },
+        respondentCount: 1,
+      })
+    );
+
+    render(<PollCard pollData={multipleChoicePoll} />);
+
+    expect(screen.getByText('Select up to 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Red'));
+    fireEvent.click(screen.getByLabelText('Green'));
+
+    // The limit is reached, so the remaining answer can't be ticked
+    expect(screen.getByLabelText('Blue')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Submit vote'));
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        '/api/poll/poll-123/vote',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ answerIds: ['answer-1', 'answer-3'] }),
+        })
+      );
+    });
+
+    // Each answer was chosen by the only voter
+    await waitFor(() => {
+      expect(screen.getAllByText('100%')).toHaveLength(2);
+    });
+    expect(screen.getByText('1 voter')).toBeInTheDocument();
+  });
+
+  it('should base multiple-choice percentages on the number of voters', () => {
+    const multipleChoiceResults: PollData = {
+      ...mockPollData,
+      poll: { ...mockPollData.poll, type: 'multiple' },
+      voteCounts: { 'answer-1': 2, 'answer-2': 1 },
+      respondentCount: 2,
+      userVote: { answerId: 'answer-1', answerIds: ['answer-1', 'answer-2'] },
+    };
+
+    const { container } = render(<PollCard pollData={multipleChoiceResults} />);
+
+    expect(screen.getByText('100%')).toBeInTheDocument();
+    expect(screen.getByText('50%')).toBeInTheDocument();
+    expect(screen.getByText('2 voters')).toBeInTheDocument();
+    expect(container.querySelectorAll('.poll-result-selected')).toHaveLength(2);
+  });
+
+  it('should submit the full ranking on ranked polls', async () => {
+    const rankedPoll: PollData = {
+      ...mockPollData,
+      poll: { ...mockPollData.poll, type: 'ranked' },
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote recorded successfully',
+        vote: {
+          id: 'vote-123',
+          answerId: 'answer-3',
+          answerIds: ['answer-3', 'answer-1', 'answer-2'],
+          pollId: 'poll-123',
+          createdAt: '2025-04-01T12:05:00Z',
+        },
+        voteCounts: { 'answer-3': 1 },
+        respondentCount: 1,
+        rankedResults: {
+          ballotCount: 1,
+          instantRunoff: {
+            rounds: [{ counts: { 'answer-1': 0, 'answer-2': 0, 'answer-3': 1 }, exhausted: 0, eliminated: [] }],
+            winner: 'answer-3',
+            tied: [],
+          },
+          borda: {
+            scores: { 'answer-1': 1, 'answer-2': 0, 'answer-3': 2 },
+            ranking: ['answer-3', 'answer-1', 'answer-2'],
+          },
+        },
+      })
+    );
+
+    render(<PollCard pollData={rankedPoll} />);
+
+    expect(screen.getByText('Drag to rank, most preferred first')).toBeInTheDocument();
+    expect(screen.getByLabelText('Move Red up')).toBeDisabled();
+
+    // Move Green from last to first
+    fireEvent.click(screen.getByLabelText('Move Green up'));
+    fireEvent.click(screen.getByLabelText('Move Green up'));
+
+    fireEvent.click(screen.getByText('Submit ranking'));
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        '/api/poll/poll-123/vote',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ answerIds: ['answer-3', 'answer-1', 'answer-2'] }),
+        })
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Winner: Green')).toBeInTheDocument();
+    });
+  });
+
+  it('should show instant-runoff rounds and Borda scores for ranked polls', () => {
+    const rankedResults: PollData = {
+      ...mockPollData,
+      poll: { ...mockPollData.poll, type: 'ranked' },
+      voteCounts: { 'answer-1': 2, 'answer-2': 2, 'answer-3': 1 },
+      respondentCount: 5,
+      userVote: { answerId: 'answer-3', answerIds: ['answer-3', 'answer-1', 'answer-2'] },
+      rankedResults: {
+        ballotCount: 5,
+        instantRunoff: {
+          rounds: [
+            { counts: { 'answer-1': 2, 'answer-2': 2, 'answer-3': 1 }, exhausted: 0, eliminated: ['answer-3'] },
+            { counts: { 'answer-1': 3, 'answer-2': 2 }, exhausted: 0, eliminated: [] },
+          ],
+          winner: 'answer-1',
+          tied: [],
+        },
+        borda: {
+          scores: { 'answer-1': 6, 'answer-2': 4, 'answer-3': 5 },
+          ranking: ['answer-1', 'answer-3', 'answer-2'],
+        },
+      },
+    };
+
+    const { container } = render(<PollCard pollData={rankedResults} />);
+
+    expect(screen.getByText('First preferences')).toBeInTheDocument();
+    expect(screen.getByText('Winner: Red')).toBeInTheDocument();
+    expect(screen.getByText('Round 1')).toBeInTheDocument();
+    expect(screen.getByText('Round 2')).toBeInTheDocument();
+    expect(screen.getByText('Eliminated: Green')).toBeInTheDocument();
+    expect(container.querySelectorAll('.runoff-round-count.is-eliminated')).toHaveLength(1);
+
+    const bordaItems = container.querySelectorAll('.borda-ranking li');
+    expect(Array.from(bordaItems).map(item => item.textContent)).toEqual([
+      'Red · 6 points',
+      'Green · 5 points',
+      'Blue · 4 points',
+    ]);
+  });
+
+  it('should submit the slider value on scale polls', async () => {
+    const scalePoll: PollData = {
+      ...mockPollData,
+      poll: {
+        ...mockPollData.poll,
+        type: 'scale',
+        scale_min: 1,
+        scale_max: 5,
+        scale_step: 1,
+        scale_min_label: 'Poor',
+        scale_max_label: 'Great',
+      },
+      answers: [],
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote recorded successfully',
+        vote: {
+          id: 'vote-123',
+          answerId: null,
+          answerIds: [],
+          value: 4,
+          pollId: 'poll-123',
+          createdAt: '2025-04-01T12:05:00Z',
+        },
+        voteCounts: {},
+        respondentCount: 2,
+        scaleResults: {
+          count: 2,
+          mean: 3,
+          median: 3,
+          standardDeviation: 1,
+          histogram: [
+            { value: 1, count: 0 },
+            { value: 2, count: 1 },
+            { value: 3, count: 0 },
+            { value: 4, count: 1 },
+            { value: 5, count: 0 },
+          ],
+        },
+      })
+    );
+
+    render(<PollCard pollData={scalePoll} />);
+
+    // The slider starts in the middle of the scale
+    const slider = screen.getByLabelText('Your rating');
+    expect(slider).toHaveValue('3');
+    expect(screen.getByText('Poor')).toBeInTheDocument();
+
+    fireEvent.change(slider, { target: { value: '4' } });
+    fireEvent.click(screen.getByText('Submit rating'));
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        '/api/poll/poll-123/vote',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ value: 4 }),
+        })
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Median')).toBeInTheDocument();
+    });
+    expect(screen.getByText('2 voters')).toBeInTheDocument();
+  });
+
+  it('should compare a cross-referenced segment of a scale poll against all voters', () => {
+    const scaleResults: PollData = {
+      ...mockPollData,
+      poll: { ...mockPollData.poll, type: 'scale', scale_min: 1, scale_max: 3, scale_step: 1 },
+      answers: [],
+      respondentCount: 12,
+      scaleResults: {
+        count: 12,
+        mean: 2.25,
+        median: 2,
+        standardDeviation: 0.6,
+        histogram: [
+          { value: 1, count: 1 },
+          { value: 2, count: 7 },
+          { value: 3, count: 4 },
+        ],
+      },
+      userVote: { answerId: null, answerIds: [], value: 2 },
+      crossReferences: [
+        {
+          pollId: 'poll-456',
+          answerId: 'answer-4',
+          poll: { id: 'poll-456', question: 'What is your favorite food?' },
+          answer: { id: 'answer-4', text: 'Pizza' },
+          voteCounts: {},
+          scaleResults: {
+            count: 6,
+            mean: 2.5,
+            median: 2.5,
+            standardDeviation: 0.5,
+            // The bin for 1 was withheld
+            histogram: [
+              { value: 2, count: 3 },
+              { value: 3, count: 3 },
+            ],
+          },
+          suppressed: true,
+          suppressedAnswerIds: [],
+        },
+      ],
+    };
+
+    const { container } = render(<PollCard pollData={scaleResults} />);
+
+    expect(screen.getByText('Results filtered by "Pizza" voters')).toBeInTheDocument();
+    expect(screen.getByText('(all voters 2.25)', { exact: false })).toBeInTheDocument();
+    expect(screen.getByText('Hidden')).toBeInTheDocument();
+    expect(screen.getByText('Some results are hidden because too few voters chose them to keep votes anonymous.'))
+      .toBeInTheDocument();
+    expect(container.querySelectorAll('.scale-histogram-bin.is-selected')).toHaveLength(2);
+  });
+
+  it('should send the write-in when voting for "Other"', async () => {
+    const writeInPoll: PollData = {
+      ...mockPollData,
+      answers: [...mockPollData.answers, { id: 'answer-other', text: 'Other', is_write_in: true }],
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        success: true,
+        message: 'Vote recorded successfully',
+        vote: {
+          id: 'vote-123',
+          answerId: 'answer-other',
+          answerIds: ['answer-other'],
+          writeIn: 'Teal',
+          pollId: 'poll-123',
+          createdAt: '2025-04-01T12:05:00Z',
+        },
+        voteCounts: { 'answer-other': 1 },
+      })
+    );
+
+    render(<PollCard pollData={writeInPoll} />);
+
+    // "Other" needs some text before it can be chosen
+    const otherButton = screen.getByRole('button', { name: 'Other' });
+    expect(otherButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: ' Teal ' } });
+    fireEvent.click(otherButton);
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        '/api/poll/poll-123/vote',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ answerId: 'answer-other', writeIn: 'Teal' }),
+        })
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('· you wrote “Teal”', { exact: false })).toBeInTheDocument();
+    });
+  });
+
+  it('should let the author promote a write-in to an answer', async () => {
+    const writeInPoll: PollData = {
+      ...mockPollData,
+      answers: [...mockPollData.answers, { id: 'answer-other', text: 'Other', is_write_in: true }],
+      isAuthor: true,
+    };
+    const promotedAnswers = [
+      ...mockPollData.answers,
+      { id: 'answer-teal', text: 'Teal', is_write_in: false },
+      { id: 'answer-other', text: 'Other', is_write_in: true },
+    ];
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        writeIns: [
+          { normalizedText: 'teal', text: 'Teal', count: 3 },
+          { normalizedText: 'mauve', text: 'Mauve', count: 1 },
+        ],
+      })
+    );
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({
+        answer: { id: 'answer-teal', text: 'Teal', is_write_in: false },
+        movedVotes: 3,
+        answers: promotedAnswers,
+        voteCounts: { 'answer-teal': 3, 'answer-other': 1 },
+      })
+    );
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse({ ...writeInPoll, answers: promotedAnswers })
+    );
+
+    render(<PollCard pollData={writeInPoll} />);
+
+    fireEvent.click(screen.getByText('Review write-ins'));
+
+    await waitFor(() => {
+      expect(screen.getByText('3 voters')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getAllByText('Add as answer')[0]);
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        '/api/poll/poll-123/write-ins/promote',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ normalizedText: 'teal' }),
+        })
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Teal' })).toBeInTheDocument();
+    });
+    expect(screen.getAllByText('Add as answer')).toHaveLength(1);
+  });
+
+  it('should highlight where a poll matched the search', () => {
+    const { container } = render(
+      <PollCard
+        pollData={{
+          ...mockPollData,
+          snippet: {
+            question: [
+              { text: 'What is your ', highlighted: false },
+              { text: 'favorite', highlighted: true },
+              { text: ' color?', highlighted: false },
+            ],
+            answers: [
+              { text: 'Red · ', highlighted: false },
+              { text: 'Blue', highlighted: true },
+              { text: ' · Green', highlighted: false },
+            ],
+          },
+        }}
+      />
+    );
+
+    expect(Array.from(container.querySelectorAll('mark')).map(mark => mark.textContent)).toEqual(['favorite', 'Blue']);
+    expect(container.querySelector('.poll-question')).toHaveTextContent('What is your favorite color?');
+    expect(container.querySelector('.search-snippet')).toHaveTextContent('Answers: Red · Blue · Green');
+  });
+
   it('should display cross-reference button after voting', async () => {
     render(<PollCard pollData={pollDataWithVote} />);
     
@@ -404,6 +1127,54 @@ describe('PollCard Component', () => {
     });
   });
 
+  it('should show suggested cross-references on request', async () => {
+    const mockCorrelations: CorrelationsResponse = {
+      correlations: [
+        {
+          ...mockSearchResults.polls[0],
+          sharedVoters: 12,
+          cramersV: 0.42,
+          pValue: 0.01,
+          effects: [
+            {
+              answerId: 'answer-1',
+              crossAnswerId: 'answer-4',
+              answerText: 'Red',
+              crossAnswerText: 'Pizza',
+              count: 6,
+              lift: 1.8,
+            },
+          ],
+        },
+      ],
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      mockFetchResponse(mockCorrelations)
+    );
+
+    render(<PollCard pollData={pollDataWithVote} />);
+
+    fireEvent.click(screen.getByText('Cross-reference with another poll'));
+
+    // Suggestions are only loaded on request
+    expect(screen.getByText('Suggested cross-references')).toBeInTheDocument();
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Find polls with related answers'));
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith('/api/poll/poll-123/correlations');
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('What is your favorite food?')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/Association 0.42/)).toBeInTheDocument();
+    expect(screen.getByText('"Pizza" voters chose "Red" 1.80× as often')).toBeInTheDocument();
+    expect(screen.getByText('Pizza')).toBeInTheDocument();
+  });
+
   it('should add a cross-reference when a poll answer is selected', async () => {
     // First, mock the search response
     mockFetch.mockResolvedValueOnce(
@@ -461,6 +1232,59 @@ describe('PollCard Component', () => {
     expect(screen.getByText('100%')).toBeInTheDocument();
   });
 
+  it('should display significance, confidence intervals and lift for cross-referenced results', async () => {
+    const pollWithStatistics: PollData = {
+      ...mockPollWithCrossRef,
+      crossReferences: [
+        {
+          ...mockPollWithCrossRef.crossReferences![0],
+          statistics: {
+            sampleSize: 1,
+            chiSquare: {
+              statistic: 0.75,
+              degreesOfFreedom: 2,
+              pValue: 0.6873,
+              significant: false,
+            },
+            answers: {
+              'answer-1': { count: 1, proportion: 1, lower: 0.2065, upper: 1, lift: 1.5 },
+              'answer-2': { count: 0, proportion: 0, lower: 0, upper: 0.7935, lift: 0 },
+              'answer-3': { count: 0, proportion: 0, lower: 0, upper: 0.7935, lift: null },
+            },
+          },
+        },
+      ],
+    };
+
+    render(<PollCard pollData={pollWithStatistics} />);
+
+    expect(screen.getByText(/No statistically significant association/)).toBeInTheDocument();
+    expect(screen.getByText(/p = 0.687, n = 1/)).toBeInTheDocument();
+    expect(screen.getByText('95% CI 21–100%')).toBeInTheDocument();
+    expect(screen.getByText('1.50× baseline')).toBeInTheDocument();
+    expect(screen.getAllByText(/× baseline/)).toHaveLength(2); // No lift without a baseline
+  });
+
+  it('should hide suppressed cross-referenced counts', async () => {
+    const pollWithSuppression: PollData = {
+      ...mockPollWithCrossRef,
+      crossReferences: [
+        {
+          ...mockPollWithCrossRef.crossReferences![0],
+          voteCounts: {},
+          suppressed: true,
+          suppressedAnswerIds: ['answer-1', 'answer-2', 'answer-3'],
+        },
+      ],
+    };
+
+    const { container } = render(<PollCard pollData={pollWithSuppression} />);
+
+    expect(screen.getByText(/Too few voters match this cross-reference/)).toBeInTheDocument();
+    expect(screen.getAllByText('Hidden')).toHaveLength(3);
+    expect(container.querySelectorAll('.cross-reference-sub-chart.is-suppressed')).toHaveLength(3);
+  });
+
   it('should update main chart when clicking on a sub-chart', async () => {
     // Create the component and wait for it to render with the cross-reference data
     const { container } = render(<PollCard pollData={mockPollWithCrossRef} />);
@@ -548,6 +1372,67 @@ describe('PollCard Component', () => {
     expect(selectorItems.length).toBe(2);
   });
 
+  it('should update the results live while visible, refreshing cross-references', async () => {
+    // Minimal EventSource that lets the test push events
+    class MockEventSource {
+      static instances: MockEventSource[] = [];
+      url: string;
+      listeners: Record<string, (event: { data: string }) => void> = {};
+      close = vi.fn();
+
+      constructor(url: string) {
+        this.url = url;
+        MockEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: (event: { data: string }) => void) {
+        this.listeners[type] = listener;
+      }
+
+      emit(type: string, data: object) {
+        this.listeners[type]({ data: JSON.stringify(data) });
+      }
+    }
+    vi.stubGlobal('EventSource', MockEventSource);
+
+    try {
+      // The refreshed segment: a Blue voter among Pizza voters
+      mockFetch.mockResolvedValueOnce(mockFetchResponse({
+        ...mockPollWithCrossRef,
+        crossReferences: [{
+          ...mockPollWithCrossRef.crossReferences![0],
+          voteCounts: { 'answer-1': 1, 'answer-2': 1, 'answer-3': 0 },
+        }],
+      }));
+
+      const { unmount } = render(<PollCard pollData={mockPollWithCrossRef} />);
+      await waitFor(() => {
+        expect(MockEventSource.instances).toHaveLength(1);
+      });
+      const [source] = MockEventSource.instances;
+      expect(source.url).toBe('/api/poll/poll-123/stream');
+      expect(screen.getByText('100%')).toBeInTheDocument();
+
+      act(() => {
+        source.emit('snapshot', { voteCounts: { 'answer-1': 2, 'answer-2': 1 }, respondentCount: 3 });
+        source.emit('votes', { voteCounts: { 'answer-2': 1 }, respondentCount: 4 });
+      });
+
+      expect(screen.getByText('4 votes')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/poll/poll-123?p1=poll-456&a1=answer-4');
+      });
+      await waitFor(() => {
+        expect(screen.queryByText('100%')).not.toBeInTheDocument();
+      });
+
+      unmount();
+      expect(source.close).toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   it('should switch between cross-references when selector is clicked', async () => {
     // Create mock data with multiple cross-references
     const multiCrossRefData: PollData = {
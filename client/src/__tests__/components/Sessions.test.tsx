@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import Sessions from '../../components/Sessions';
+
+// Mock the fetch API
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+const sessionsResponse = {
+  sessions: [
+    {
+      id: 'session-1',
+      createdAt: '2025-04-01T12:00:00Z',
+      lastSeenAt: '2025-04-02T12:00:00Z',
+      userAgent: 'This Browser',
+      isCurrent: true
+    },
+    {
+      id: 'session-2',
+      createdAt: '2025-03-01T12:00:00Z',
+      lastSeenAt: '2025-03-02T12:00:00Z',
+      userAgent: 'Other Browser',
+      isCurrent: false
+    }
+  ]
+};
+
+const renderSessions = () => render(
+  <MemoryRouter initialEntries={['/user/user-1/sessions']}>
+    <Routes>
+      <Route path="/user/:id/sessions" element={<Sessions />} />
+      <Route path="/" element={<div>Home page</div>} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('Sessions Component', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('lists the user\'s sessions, marking this device', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(sessionsResponse) });
+    renderSessions();
+
+    await waitFor(() => {
+      expect(screen.getByText('Other Browser')).toBeInTheDocument();
+    });
+    expect(screen.getByText('This device')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Log out' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Revoke' })).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions');
+  });
+
+  it('revokes another session and removes it from the list', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(sessionsResponse) });
+    renderSessions();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Revoke' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Other Browser')).not.toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions/session-2', {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+  });
+
+  it('logs out everywhere and returns home', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(sessionsResponse) });
+    renderSessions();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Log out everywhere' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Home page')).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions', {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+  });
+
+  it('asks anonymous visitors to log in', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401, json: () => Promise.resolve({}) });
+    renderSessions();
+
+    await waitFor(() => {
+      expect(screen.getByText(/Log in to manage your sessions/)).toBeInTheDocument();
+    });
+  });
+});
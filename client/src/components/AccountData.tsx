@@ -0,0 +1,119 @@
+import { useState } from 'react';
+
+type Step = 'idle' | 'confirmExport' | 'confirmDelete';
+
+const AccountData: React.FC = () => {
+  const [step, setStep] = useState<Step>('idle');
+  const [confirmEmail, setConfirmEmail] = useState('');
+  const [deletePolls, setDeletePolls] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Go back to the two buttons, forgetting anything entered
+  const handleCancel = () => {
+    setStep('idle');
+    setConfirmEmail('');
+    setDeletePolls(false);
+    setError(null);
+  };
+
+  // The export is sent as an attachment, so the browser downloads it without leaving the page
+  const handleExport = () => {
+    window.location.href = '/api/auth/me/export';
+    setStep('idle');
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/me', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ confirmEmail, deletePolls })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || `Failed to delete account: ${response.status}`);
+      }
+
+      // Reload from the home page, which starts over as an anonymous visitor
+      window.location.href = '/';
+    } catch (err) {
+      console.error('Error deleting account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="account-data">
+      {step === 'idle' && (
+        <div className="account-data-actions">
+          <button className="account-data-button" onClick={() => setStep('confirmExport')}>
+            Download my data
+          </button>
+          <button className="account-data-button account-data-delete-button" onClick={() => setStep('confirmDelete')}>
+            Delete account
+          </button>
+        </div>
+      )}
+
+      {step === 'confirmExport' && (
+        <div className="account-data-confirm">
+          <p>
+            Your profile, polls, votes, write-ins, sessions, API keys and login links will be downloaded as a JSON file.
+          </p>
+          <div className="account-data-actions">
+            <button className="account-data-button" onClick={handleExport}>Download</button>
+            <button className="account-data-button" onClick={handleCancel}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {step === 'confirmDelete' && (
+        <div className="account-data-confirm">
+          <p>
+            Your account will be deleted and you will be logged out everywhere. Your votes
+            keep counting in poll totals, but are no longer linked to you. Write-ins you
+            entered are deleted. This can't be undone.
+          </p>
+          <label className="account-data-option account-data-option-checkbox">
+            <input
+              type="checkbox"
+              checked={deletePolls}
+              onChange={e => setDeletePolls(e.target.checked)}
+            />
+            Also delete my polls, with everyone's votes on them (otherwise they're kept under "Deleted user")
+          </label>
+          <label className="account-data-option">
+            Type your email address to confirm
+            <input
+              type="email"
+              className="account-data-email"
+              value={confirmEmail}
+              onChange={e => setConfirmEmail(e.target.value)}
+            />
+          </label>
+          {error && <div className="account-data-error">Error: {error}</div>}
+          <div className="account-data-actions">
+            <button
+              className="account-data-button account-data-delete-button"
+              onClick={handleDelete}
+              disabled={deleting || !confirmEmail.trim()}
+            >
+              {deleting ? 'Deleting...' : 'Delete my account'}
+            </button>
+            <button className="account-data-button" onClick={handleCancel}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountData;
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  // Start of the key, to recognize it by
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const ApiKeys: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  // A key that was just created, which is only shown until it is dismissed
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  // Fetch the current user's keys
+  useEffect(() => {
+    const fetchApiKeys = async () => {
+      try {
+        const response = await fetch('/api/auth/api-keys');
+        if (!response.ok) {
+          throw new Error(`Failed to fetch API keys: ${response.status}`);
+        }
+
+        const data = await response.json();
+        setApiKeys(data.apiKeys);
+        setAvailableScopes(data.availableScopes);
+      } catch (err) {
+        console.error('Error fetching API keys:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch API keys');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchApiKeys();
+  }, []);
+
+  const toggleScope = (scope: string) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(other => other !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name, scopes })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to create API key: ${response.status}`);
+      }
+
+      setApiKeys(prev => [data.apiKey, ...prev]);
+      setNewKey(data.key);
+      setName('');
+      setScopes([]);
+    } catch (err) {
+      console.error('Error creating API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    try {
+      const response = await fetch(`/api/auth/api-keys/${apiKey.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to revoke API key: ${response.status}`);
+      }
+
+      setApiKeys(prev => prev.filter(other => other.id !== apiKey.id));
+    } catch (err) {
+      console.error('Error revoking API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  if (loading) {
+    return <div className="api-keys">Loading API keys...</div>;
+  }
+
+  return (
+    <div className="api-keys">
+      <h2 className="user-polls-title">API keys</h2>
+      <p className="api-keys-description">
+        Scripts and integrations can call the API as you by sending a key in
+        an <code>Authorization: Bearer</code> header. Each key can only do what its scopes allow.
+      </p>
+
+      {error && <div className="api-keys-error">Error: {error}</div>}
+
+      {newKey && (
+        <div className="api-keys-new-key">
+          <p>Copy this key now. It won't be shown again.</p>
+          <code className="api-keys-new-key-value">{newKey}</code>
+          <button className="account-data-button" onClick={() => setNewKey(null)}>Done</button>
+        </div>
+      )}
+
+      {apiKeys.length > 0 && (
+        <ul className="api-keys-list">
+          {apiKeys.map(apiKey => (
+            <li key={apiKey.id} className="api-keys-item">
+              <div className="api-keys-item-details">
+                <span className="api-keys-item-name">
+                  {apiKey.name} <code>{apiKey.prefix}…</code>
+                </span>
+                <span className="api-keys-item-meta">
+                  {apiKey.scopes.join(', ')} · Created {new Date(apiKey.createdAt).toLocaleDateString()} · {apiKey.lastUsedAt
+                    ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                    : 'Never used'}
+                </span>
+              </div>
+              <button
+                className="account-data-button account-data-delete-button"
+                onClick={() => handleRevoke(apiKey)}
+                aria-label={`Revoke ${apiKey.name}`}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="api-keys-form" onSubmit={handleCreate}>
+        <label className="account-data-option">
+          Key name
+          <input
+            type="text"
+            className="account-data-email"
+            value={name}
+            maxLength={100}
+            onChange={e => setName(e.target.value)}
+          />
+        </label>
+        <div className="api-keys-scopes">
+          {availableScopes.map(scope => (
+            <label key={scope} className="api-keys-scope">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          className="account-data-button"
+          disabled={creating || !name.trim() || scopes.length === 0}
+        >
+          {creating ? 'Creating...' : 'Create API key'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ApiKeys;
@@ -13,6 +13,16 @@ const CreatePoll: React.FC = () => {
     { id: crypto.randomUUID(), text: '' },
     { id: crypto.randomUUID(), text: '' },
   ]);
+  // Single-choice, multiple-choice with an optional limit ('' allows every answer), ranked, or a numeric scale
+  const [pollType, setPollType] = useState<'single' | 'multiple' | 'ranked' | 'scale'>('single');
+  const [maxChoices, setMaxChoices] = useState('');
+  // Whether voters can write in their own answer (single- and multiple-choice polls)
+  const [allowWriteIns, setAllowWriteIns] = useState(false);
+  // Range, step and endpoint labels of scale polls, as input values
+  const [scale, setScale] = useState({ min: '1', max: '10', step: '1', minLabel: '', maxLabel: '' });
+  // Optional voting window, as datetime-local input values in the user's timezone
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -45,6 +55,36 @@ const CreatePoll: React.FC = () => {
     }
   };
 
+  // Handle scale input change
+  const handleScaleChange = (field: keyof typeof scale, value: string) => {
+    setScale({ ...scale, [field]: value });
+  };
+
+  // Validate the scale of a scale poll
+  const validateScale = (): boolean => {
+    const min = Number(scale.min);
+    const max = Number(scale.max);
+    const step = Number(scale.step);
+
+    if (!scale.min || !scale.max || !scale.step || [min, max, step].some(Number.isNaN)) {
+      setError('Scale minimum, maximum and step must be numbers');
+      return false;
+    }
+
+    if (max <= min || step <= 0) {
+      setError('Scale maximum must be greater than its minimum, and the step positive');
+      return false;
+    }
+
+    const steps = (max - min) / step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      setError('Scale range must be a whole number of steps');
+      return false;
+    }
+
+    return true;
+  };
+
   // Validate the form
   const validateForm = (): boolean => {
     setError(null);
@@ -54,6 +94,10 @@ const CreatePoll: React.FC = () => {
       return false;
     }
 
+    if (pollType === 'scale') {
+      return validateScale() && validateSchedule();
+    }
+
     if (answers.length < 2) {
       setError('Poll must have at least 2 answer options');
       return false;
@@ -70,6 +114,35 @@ const CreatePoll: React.FC = () => {
       return false;
     }
 
+    if (pollType === 'multiple' && maxChoices) {
+      const limit = Number(maxChoices);
+      if (!Number.isInteger(limit) || limit < 1 || limit > getChoiceCount()) {
+        setError(`Voters can select between 1 and ${getChoiceCount()} answers`);
+        return false;
+      }
+    }
+
+    return validateSchedule();
+  };
+
+  // Whether the chosen poll type can have an "Other (write in)" answer
+  const canWriteIn = pollType === 'single' || pollType === 'multiple';
+
+  // Number of answers voters can choose from, including "Other"
+  const getChoiceCount = () => answers.length + (canWriteIn && allowWriteIns ? 1 : 0);
+
+  // Validate the optional voting window
+  const validateSchedule = (): boolean => {
+    if (closesAt && new Date(closesAt).getTime() <= Date.now()) {
+      setError('Closing time must be in the future');
+      return false;
+    }
+
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      setError('Closing time must be after opening time');
+      return false;
+    }
+
     return true;
   };
 
@@ -93,7 +166,21 @@ const CreatePoll: React.FC = () => {
         },
         body: JSON.stringify({
           question,
-          answers: answers.map((answer) => answer.text),
+          answers: pollType === 'scale' ? [] : answers.map((answer) => answer.text),
+          type: pollType,
+          maxChoices: pollType === 'multiple' && maxChoices ? Number(maxChoices) : null,
+          allowWriteIns: canWriteIn && allowWriteIns,
+          scale: pollType === 'scale'
+            ? {
+                min: Number(scale.min),
+                max: Number(scale.max),
+                step: Number(scale.step),
+                minLabel: scale.minLabel.trim() || null,
+                maxLabel: scale.maxLabel.trim() || null,
+              }
+            : undefined,
+          opensAt: opensAt ? new Date(opensAt).toISOString() : null,
+          closesAt: closesAt ? new Date(closesAt).toISOString() : null,
         }),
         credentials: 'include', // Include cookies for authentication
       });
@@ -148,44 +235,206 @@ const CreatePoll: React.FC = () => {
           />
         </div>
         
-        <div className="form-group">
-          <label>Answer Options</label>
-          <p className="answer-count">
-            {answers.length}/10 options
-          </p>
+        {pollType !== 'scale' && (
+          <div className="form-group">
+            <label>Answer Options</label>
+            <p className="answer-count">
+              {answers.length}/10 options
+            </p>
           
-          <div className="answer-options">
-            {answers.map((answer, index) => (
-              <div key={answer.id} className="answer-option">
+            <div className="answer-options">
+              {answers.map((answer, index) => (
+                <div key={answer.id} className="answer-option">
+                  <input
+                    type="text"
+                    value={answer.text}
+                    onChange={(e) => handleAnswerChange(answer.id, e.target.value)}
+                    placeholder={`Answer option ${index + 1}`}
+                    disabled={isSubmitting}
+                    className="answer-input"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAnswer(answer.id)}
+                    disabled={isSubmitting || answers.length <= 2}
+                    className="remove-answer-button"
+                    aria-label="Remove answer option"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          
+            <button
+              type="button"
+              onClick={handleAddAnswer}
+              disabled={isSubmitting || answers.length >= 10}
+              className="add-answer-button"
+            >
+              + Add Answer Option
+            </button>
+
+            {canWriteIn && (
+              <label className="write-in-option">
+                <input
+                  type="checkbox"
+                  checked={allowWriteIns}
+                  onChange={(e) => setAllowWriteIns(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                Add an "Other (write in)" option
+              </label>
+            )}
+          </div>
+        )}
+        
+        <div className="form-group">
+          <label>Poll Type</label>
+          <div className="poll-type-inputs">
+            <label className="poll-type-option">
+              <input
+                type="radio"
+                name="pollType"
+                value="single"
+                checked={pollType === 'single'}
+                onChange={() => setPollType('single')}
+                disabled={isSubmitting}
+              />
+              Single choice
+            </label>
+            <label className="poll-type-option">
+              <input
+                type="radio"
+                name="pollType"
+                value="multiple"
+                checked={pollType === 'multiple'}
+                onChange={() => setPollType('multiple')}
+                disabled={isSubmitting}
+              />
+              Multiple choice
+            </label>
+            <label className="poll-type-option">
+              <input
+                type="radio"
+                name="pollType"
+                value="ranked"
+                checked={pollType === 'ranked'}
+                onChange={() => setPollType('ranked')}
+                disabled={isSubmitting}
+              />
+              Ranked choice
+            </label>
+            <label className="poll-type-option">
+              <input
+                type="radio"
+                name="pollType"
+                value="scale"
+                checked={pollType === 'scale'}
+                onChange={() => setPollType('scale')}
+                disabled={isSubmitting}
+              />
+              Rating scale
+            </label>
+            {pollType === 'multiple' && (
+              <label className="poll-type-option">
+                Select up to
+                <input
+                  type="number"
+                  min={1}
+                  max={getChoiceCount()}
+                  value={maxChoices}
+                  onChange={(e) => setMaxChoices(e.target.value)}
+                  placeholder={String(getChoiceCount())}
+                  disabled={isSubmitting}
+                  className="max-choices-input"
+                />
+              </label>
+            )}
+          </div>
+        </div>
+
+        {pollType === 'scale' && (
+          <div className="form-group">
+            <label>Scale</label>
+            <div className="scale-inputs">
+              <label className="scale-input">
+                From
+                <input
+                  type="number"
+                  value={scale.min}
+                  onChange={(e) => handleScaleChange('min', e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </label>
+              <label className="scale-input">
+                To
+                <input
+                  type="number"
+                  value={scale.max}
+                  onChange={(e) => handleScaleChange('max', e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </label>
+              <label className="scale-input">
+                Step
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={scale.step}
+                  onChange={(e) => handleScaleChange('step', e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </label>
+            </div>
+            <div className="scale-inputs">
+              <label className="scale-input">
+                Low label
+                <input
+                  type="text"
+                  value={scale.minLabel}
+                  onChange={(e) => handleScaleChange('minLabel', e.target.value)}
+                  placeholder="e.g. Not at all"
+                  disabled={isSubmitting}
+                />
+              </label>
+              <label className="scale-input">
+                High label
                 <input
                   type="text"
-                  value={answer.text}
-                  onChange={(e) => handleAnswerChange(answer.id, e.target.value)}
-                  placeholder={`Answer option ${index + 1}`}
+                  value={scale.maxLabel}
+                  onChange={(e) => handleScaleChange('maxLabel', e.target.value)}
+                  placeholder="e.g. Extremely"
                   disabled={isSubmitting}
-                  className="answer-input"
                 />
-                <button
-                  type="button"
-                  onClick={() => handleRemoveAnswer(answer.id)}
-                  disabled={isSubmitting || answers.length <= 2}
-                  className="remove-answer-button"
-                  aria-label="Remove answer option"
-                >
-                  ✕
-                </button>
-              </div>
-            ))}
+              </label>
+            </div>
+          </div>
+        )}
+        
+        <div className="form-group">
+          <label>Voting Window (optional)</label>
+          <div className="schedule-inputs">
+            <label className="schedule-input">
+              Opens
+              <input
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </label>
+            <label className="schedule-input">
+              Closes
+              <input
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </label>
           </div>
-          
-          <button
-            type="button"
-            onClick={handleAddAnswer}
-            disabled={isSubmitting || answers.length >= 10}
-            className="add-answer-button"
-          >
-            + Add Answer Option
-          </button>
         </div>
         
         <div className="form-actions">
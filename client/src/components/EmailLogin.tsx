@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+// Confirms the login of an emailed link. Opening the link only shows this page, since
+// mail scanners open links too; the link is used up when the button is pressed.
+const EmailLogin: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/magic-link/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ token })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to log in: ${response.status}`);
+      }
+
+      // Reload the app where the login started, so it picks up the new user
+      window.location.href = data.returnTo;
+    } catch (err) {
+      console.error('Error logging in with email link:', err);
+      setError(err instanceof Error ? err.message : 'Failed to log in');
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <div className="user-profile">
+      <div className="email-login">
+        <h1 className="user-polls-title">Log in with email</h1>
+
+        {!token ? (
+          <div className="email-login-error">This login link is incomplete.</div>
+        ) : (
+          <>
+            <p>Polls and votes from this browser will be moved to the account you log in to.</p>
+            {error && <div className="email-login-error">Error: {error}</div>}
+            <button className="login-button" onClick={handleConfirm} disabled={confirming}>
+              {confirming ? 'Logging in...' : 'Log in'}
+            </button>
+          </>
+        )}
+
+        <Link to="/" className="poll-author-link email-login-cancel">Cancel</Link>
+      </div>
+    </div>
+  );
+};
+
+export default EmailLogin;
@@ -22,7 +22,14 @@ interface PollData {
   answers: Answer[];
   author: Author;
   voteCounts: Record<string, number>;
-  userVote: { answerId: string } | null;
+  respondentCount?: number;
+  userVote: { answerId: string | null; answerIds?: string[]; value?: number } | null;
+  isAuthor?: boolean;
+  // Where the poll matched the search, if searching
+  snippet?: {
+    question: { text: string; highlighted: boolean }[];
+    answers: { text: string; highlighted: boolean }[] | null;
+  };
 }
 
 interface FeedResponse {
@@ -31,6 +38,8 @@ interface FeedResponse {
     total: number;
     limit: number;
     offset: number;
+    // Cursor of the next page, null on the last page
+    nextCursor: string | null;
     hasMore: boolean;
   };
 }
@@ -40,31 +49,60 @@ interface FeedProps {
   authorId?: string;
 }
 
+type FeedSort = 'hot' | 'trending' | 'most_voted' | 'newest' | 'relevance';
+
+// Sort orders offered by the switcher; "Best match" only applies to searches
+const SORT_OPTIONS: { value: FeedSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'hot', label: 'Hot' },
+  { value: 'trending', label: 'Trending' },
+  { value: 'most_voted', label: 'Most voted' },
+  { value: 'newest', label: 'Newest' },
+];
+
 const Feed: React.FC<FeedProps> = ({ searchQuery, authorId }) => {
   const [polls, setPolls] = useState<PollData[]>([]);
   const [loading, setLoading] = useState(true);
   const [initialLoading, setInitialLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const loadingRef = useRef<HTMLDivElement>(null);
+  // Cursor of the next page; unlike an offset, it doesn't repeat or skip polls created
+  // or deleted while scrolling
+  const cursorRef = useRef<string | null>(null);
   const limit = 5; // Number of polls to fetch per page
 
+  // Chosen sort order; until the user picks one, searches are ordered by relevance and
+  // the feed by what's hot, so active polls come first
+  const [chosenSort, setChosenSort] = useState<FeedSort | null>(null);
+  const sort: FeedSort = chosenSort && (chosenSort !== 'relevance' || searchQuery)
+    ? chosenSort
+    : searchQuery ? 'relevance' : 'hot';
+
   // Function to fetch polls from the API
   const fetchPolls = useCallback(async (isInitialFetch: boolean = false) => {
-    if (!hasMore && !isInitialFetch) return;
+    if (!cursorRef.current && !isInitialFetch) return;
 
     setLoading(true);
     setError(null);
 
     try {
       // Build URL with search parameters if provided
-      let url = `/api/feed?limit=${limit}&offset=${isInitialFetch ? 0 : offset}`;
+      let url = `/api/feed?limit=${limit}`;
+
+      if (!isInitialFetch) {
+        url += `&cursor=${encodeURIComponent(cursorRef.current!)}`;
+      }
       
       if (searchQuery) {
         url += `&q=${encodeURIComponent(searchQuery)}`;
       }
 
+      // Relevance is the server's default for searches
+      if (sort !== 'relevance') {
+        url += `&sort=${sort}`;
+      }
+
       if (authorId) {
         url += `&authorId=${encodeURIComponent(authorId)}`;
       }
@@ -80,13 +118,7 @@ const Feed: React.FC<FeedProps> = ({ searchQuery, authorId }) => {
       // If it's an initial fetch, replace polls, otherwise append
       setPolls(prev => isInitialFetch ? data.polls : [...prev, ...data.polls]);
       setHasMore(data.pagination.hasMore);
-      
-      // Update offset for next fetch
-      if (!isInitialFetch) {
-        setOffset(prev => prev + limit);
-      } else {
-        setOffset(limit);
-      }
+      cursorRef.current = data.pagination.nextCursor;
     } catch (err) {
       console.error('Error fetching feed:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch feed');
@@ -96,15 +128,15 @@ const Feed: React.FC<FeedProps> = ({ searchQuery, authorId }) => {
         setInitialLoading(false);
       }
     }
-  }, [hasMore, offset, searchQuery, authorId, limit]);
+  }, [searchQuery, authorId, limit, sort]);
 
-  // Fetch initial polls when component mounts or search/author params change
+  // Fetch initial polls when component mounts or search/author/sort params change
   useEffect(() => {
     setInitialLoading(true);
     setPolls([]);
-    setOffset(0);
+    cursorRef.current = null;
     fetchPolls(true);
-  }, [fetchPolls, searchQuery, authorId]);
+  }, [fetchPolls, searchQuery, authorId, sort]);
 
   // Set up intersection observer for infinite scrolling
   useEffect(() => {
@@ -130,12 +162,43 @@ const Feed: React.FC<FeedProps> = ({ searchQuery, authorId }) => {
     };
   }, [fetchPolls, loading, hasMore]);
 
+  // Remove a deleted poll
+  const handlePollDeleted = (pollId: string) => {
+    setPolls(prevPolls => prevPolls.filter(pollData => pollData.poll.id !== pollId));
+  };
+
+  // Render the buttons that switch the feed's sort order
+  const renderSortSwitcher = () => (
+    <div className="feed-sort" role="group" aria-label="Sort polls">
+      {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchQuery).map(option => (
+        <button
+          key={option.value}
+          className={`feed-sort-option ${sort === option.value ? 'is-active' : ''}`}
+          aria-pressed={sort === option.value}
+          onClick={() => setChosenSort(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
   if (initialLoading) {
-    return <div className="feed-loading">Loading polls...</div>;
+    return (
+      <>
+        {renderSortSwitcher()}
+        <div className="feed-loading">Loading polls...</div>
+      </>
+    );
   }
 
   if (error && polls.length === 0) {
-    return <div className="feed-error">Error: {error}</div>;
+    return (
+      <>
+        {renderSortSwitcher()}
+        <div className="feed-error">Error: {error}</div>
+      </>
+    );
   }
 
   if (polls.length === 0) {
@@ -152,18 +215,23 @@ const Feed: React.FC<FeedProps> = ({ searchQuery, authorId }) => {
     }
     
     return (
-      <div className="feed-empty">
-        <p>{emptyMessage}</p>
-      </div>
+      <>
+        {renderSortSwitcher()}
+        <div className="feed-empty">
+          <p>{emptyMessage}</p>
+        </div>
+      </>
     );
   }
 
   return (
     <div className="feed">
+      {renderSortSwitcher()}
       {polls.map((pollData) => (
         <PollCard 
           key={pollData.poll.id} 
           pollData={pollData} 
+          onDeleted={handlePollDeleted}
         />
       ))}
       
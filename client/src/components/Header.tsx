@@ -8,6 +8,14 @@ interface User {
   isAuthenticated: boolean;
 }
 
+interface IdentityProvider {
+  id: string;
+  displayName: string;
+}
+
+// Offered when the server's list of providers can't be loaded
+const DEFAULT_PROVIDERS: IdentityProvider[] = [{ id: 'google', displayName: 'Google' }];
+
 interface HeaderProps {
   searchQuery: string;
   onSearchChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -15,6 +23,11 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [providers, setProviders] = useState<IdentityProvider[]>(DEFAULT_PROVIDERS);
+  const [showEmailLogin, setShowEmailLogin] = useState(false);
+  const [loginEmail, setLoginEmail] = useState('');
+  const [emailLinkStatus, setEmailLinkStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [emailLinkError, setEmailLinkError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const location = useLocation();
@@ -25,6 +38,22 @@ const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange }) => {
 
   // Fetch user data when component mounts
   useEffect(() => {
+    // Fetch the identity providers to show a login button for each
+    const fetchProviders = async () => {
+      try {
+        const response = await fetch('/api/auth/providers');
+        if (!response.ok) {
+          throw new Error(`Failed to fetch login providers: ${response.status}`);
+        }
+        const data = await response.json();
+        if (data.providers?.length) {
+          setProviders(data.providers);
+        }
+      } catch (err) {
+        console.error('Error fetching login providers:', err);
+      }
+    };
+
     const fetchUser = async () => {
       try {
         const response = await fetch('/api/auth/me');
@@ -33,6 +62,10 @@ const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange }) => {
         }
         const userData = await response.json();
         setUser(userData);
+        // Only anonymous visitors are offered a login
+        if (!userData.isAuthenticated) {
+          fetchProviders();
+        }
       } catch (err) {
         console.error('Error fetching user:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch user data');
@@ -44,9 +77,39 @@ const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange }) => {
     fetchUser();
   }, []);
 
-  // Function to handle login
-  const handleLogin = () => {
-    window.location.href = '/api/auth/login';
+  // Function to handle login, coming back to the current page afterwards
+  const handleLogin = (provider: IdentityProvider) => {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `/api/auth/login/${provider.id}?returnTo=${encodeURIComponent(returnTo)}`;
+  };
+
+  // Email a login link, which comes back to the current page
+  const handleEmailLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailLinkStatus('sending');
+    setEmailLinkError(null);
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: loginEmail,
+          returnTo: window.location.pathname + window.location.search
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || `Failed to send login link: ${response.status}`);
+      }
+
+      setEmailLinkStatus('sent');
+    } catch (err) {
+      console.error('Error sending login link:', err);
+      setEmailLinkError(err instanceof Error ? err.message : 'Failed to send login link');
+      setEmailLinkStatus('idle');
+    }
   };
 
   // Function to handle logout
@@ -120,13 +183,51 @@ const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange }) => {
                 </div>
               </>
             ) : (
-              <button 
-                className="login-button"
-                onClick={handleLogin}
-                aria-label="Login with Google"
-              >
-                Login with Google
-              </button>
+              <>
+                {providers.map(provider => (
+                  <button
+                    key={provider.id}
+                    className="login-button"
+                    onClick={() => handleLogin(provider)}
+                    aria-label={`Login with ${provider.displayName}`}
+                  >
+                    Login with {provider.displayName}
+                  </button>
+                ))}
+                {emailLinkStatus === 'sent' ? (
+                  <div className="login-email-sent">Check your email for a login link</div>
+                ) : showEmailLogin ? (
+                  <form className="login-email-form" onSubmit={handleEmailLogin}>
+                    <input
+                      type="email"
+                      className="login-email-input"
+                      placeholder="you@example.com"
+                      value={loginEmail}
+                      onChange={e => setLoginEmail(e.target.value)}
+                      aria-label="Email address"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="login-button"
+                      disabled={emailLinkStatus === 'sending' || !loginEmail.trim()}
+                    >
+                      {emailLinkStatus === 'sending' ? 'Sending...' : 'Send link'}
+                    </button>
+                    {emailLinkError && (
+                      <span className="login-email-error" title={emailLinkError}>{emailLinkError}</span>
+                    )}
+                  </form>
+                ) : (
+                  <button
+                    className="login-button"
+                    onClick={() => setShowEmailLogin(true)}
+                    aria-label="Login with email"
+                  >
+                    Login with email
+                  </button>
+                )}
+              </>
             )}
           </>
         )}
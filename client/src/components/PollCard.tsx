@@ -3,12 +3,61 @@ import { useState, useEffect, useCallback } from 'react';
 interface Answer {
   id: string;
   text: string;
+  // The "Other" answer that voters write in
+  is_write_in?: boolean;
 }
 
 interface Poll {
   id: string;
   question: string;
   created_at: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  votes_locked?: boolean;
+  type?: 'single' | 'multiple' | 'ranked' | 'scale';
+  max_choices?: number | null;
+  scale_min?: number | null;
+  scale_max?: number | null;
+  scale_step?: number | null;
+  scale_min_label?: string | null;
+  scale_max_label?: string | null;
+}
+
+type PollStatus = 'scheduled' | 'open' | 'closed';
+
+// Runs of text from a search result, highlighted where they matched the query
+type HighlightedText = { text: string; highlighted: boolean }[];
+
+// Where a poll matched a search: its question, and an excerpt of its answers if they matched
+interface SearchSnippet {
+  question: HighlightedText;
+  answers: HighlightedText | null;
+}
+
+interface ScaleResults {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  // Bins withheld for privacy are missing from cross-referenced segments
+  histogram: { value: number; count: number }[];
+}
+
+interface RankedResults {
+  ballotCount: number;
+  instantRunoff: {
+    rounds: {
+      counts: Record<string, number>;
+      exhausted: number;
+      eliminated: string[];
+    }[];
+    winner: string | null;
+    tied: string[];
+  };
+  borda: {
+    scores: Record<string, number>;
+    ranking: string[];
+  };
 }
 
 interface Author {
@@ -16,6 +65,25 @@ interface Author {
   name: string | null;
 }
 
+interface AnswerStatistics {
+  count: number;
+  proportion: number;
+  lower: number;
+  upper: number;
+  lift: number | null;
+}
+
+interface CrossReferenceStatistics {
+  sampleSize: number;
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    significant: boolean;
+  } | null;
+  answers: Record<string, AnswerStatistics>;
+}
+
 interface CrossReference {
   pollId: string;
   answerId: string;
@@ -28,6 +96,14 @@ interface CrossReference {
     text: string;
   };
   voteCounts: Record<string, number>;
+  // Number of segment voters, the denominator for multiple-choice percentages
+  respondentCount?: number;
+  statistics?: CrossReferenceStatistics;
+  // Distribution of the segment's values on scale polls
+  scaleResults?: ScaleResults;
+  // Set when counts were withheld because too few voters chose them
+  suppressed?: boolean;
+  suppressedAnswerIds?: string[];
 }
 
 interface PollData {
@@ -35,22 +111,117 @@ interface PollData {
   answers: Answer[];
   author: Author;
   voteCounts: Record<string, number>;
-  userVote: { answerId: string } | null;
+  // Number of voters, which is lower than the vote total on multiple-choice polls
+  respondentCount?: number;
+  // Instant-runoff and Borda tallies of ranked polls
+  rankedResults?: RankedResults;
+  // Distribution of the values chosen on scale polls
+  scaleResults?: ScaleResults;
+  userVote: { answerId: string | null; answerIds?: string[]; value?: number; writeIn?: string } | null;
+  isAuthor?: boolean;
+  status?: PollStatus;
   crossReferences?: CrossReference[];
+  // Present when the poll was found by a search
+  snippet?: SearchSnippet;
+}
+
+// Write-ins equal once case and whitespace are folded, shown to the poll's author
+interface WriteInGroup {
+  normalizedText: string;
+  text: string;
+  count: number;
 }
 
 interface PollCardProps {
   pollId?: string;
   pollData?: PollData;
+  onDeleted?: (pollId: string) => void;
 }
 
 interface SearchResult {
   poll: Poll;
   answers: Answer[];
   author: Author;
+  snippet?: SearchSnippet;
+}
+
+interface Correlation extends SearchResult {
+  sharedVoters: number;
+  cramersV: number;
+  pValue: number | null;
+  effects: {
+    answerId: string;
+    crossAnswerId: string;
+    answerText: string;
+    crossAnswerText: string;
+    count: number;
+    lift: number;
+  }[];
 }
 
-const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }) => {
+// List every value that can be chosen on a scale poll, from min to max
+const getScalePoints = (poll: Poll) => {
+  const min = poll.scale_min ?? 1;
+  const max = poll.scale_max ?? 5;
+  const step = poll.scale_step ?? 1;
+  const count = Math.round((max - min) / step) + 1;
+  return Array.from({ length: count }, (_, index) => Number((min + index * step).toFixed(10)));
+};
+
+// Render search result text with the matching terms marked
+const renderHighlighted = (runs: HighlightedText) => runs.map((run, index) => (
+  run.highlighted ? <mark key={index}>{run.text}</mark> : <span key={index}>{run.text}</span>
+));
+
+// Render where a search result matched in its answers, if it did
+const renderAnswersSnippet = (snippet?: SearchSnippet) => snippet?.answers && (
+  <p className="search-snippet">Answers: {renderHighlighted(snippet.answers)}</p>
+);
+
+// Format a mean, median or standard deviation for display
+const formatStatistic = (value: number | null) => {
+  return value === null ? '–' : String(Number(value.toFixed(2)));
+};
+
+// Build the URL of a poll, with each cross-reference as a pN/aN pair
+const getPollUrl = (id: string, crossReferences?: Array<{ pollId: string; answerId: string }>) => {
+  if (!crossReferences || crossReferences.length === 0) return `/api/poll/${id}`;
+
+  const params = crossReferences.map((ref, index) => `p${index + 1}=${ref.pollId}&a${index + 1}=${ref.answerId}`);
+  return `/api/poll/${id}?${params.join('&')}`;
+};
+
+// Add the changes in vote counts sent by a live update to the counts
+const applyVoteCountChanges = (voteCounts: Record<string, number>, changes: Record<string, number>) => {
+  const updated = { ...voteCounts };
+  Object.entries(changes).forEach(([answerId, change]) => {
+    updated[answerId] = (updated[answerId] ?? 0) + change;
+  });
+  return updated;
+};
+
+// Work out whether a poll is accepting votes from its voting window
+const getPollStatus = (poll: Poll, now: number): PollStatus => {
+  if (poll.closes_at && now >= Date.parse(poll.closes_at)) return 'closed';
+  if (poll.opens_at && now < Date.parse(poll.opens_at)) return 'scheduled';
+  return 'open';
+};
+
+// Format the time remaining until a deadline, e.g. "2d 3h", "4m 10s"
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData, onDeleted }) => {
   const [pollData, setPollData] = useState(initialPollData);
   const [loading, setLoading] = useState(!initialPollData);
   const [error, setError] = useState<string | null>(null);
@@ -64,6 +235,43 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
   const [crossReferenceSearchError, setCrossReferenceSearchError] = useState<string | null>(null);
   const [selectedCrossReference, setSelectedCrossReference] = useState<CrossReference | null>(null);
   const [activeCrossReferenceAnswerId, setActiveCrossReferenceAnswerId] = useState<string | null>(null);
+  const [suggestedCrossReferences, setSuggestedCrossReferences] = useState<Correlation[] | null>(null);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  const [suggestionsError, setSuggestionsError] = useState<string | null>(null);
+
+  // Author edit/delete state
+  const [isEditing, setIsEditing] = useState(false);
+  const [editQuestion, setEditQuestion] = useState('');
+  const [editAnswers, setEditAnswers] = useState<Record<string, string>>({});
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [editVotesLocked, setEditVotesLocked] = useState(false);
+
+  // Vote change state
+  const [isChangingVote, setIsChangingVote] = useState(false);
+
+  // Answers ticked on a multiple-choice poll before submitting
+  const [selectedAnswerIds, setSelectedAnswerIds] = useState<string[]>([]);
+
+  // Ballot order on a ranked poll (empty until the voter reorders it) and the answer being dragged
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [draggedAnswerId, setDraggedAnswerId] = useState<string | null>(null);
+
+  // Value picked on a scale poll's slider (null until the voter moves it)
+  const [scaleValue, setScaleValue] = useState<number | null>(null);
+
+  // Text typed for the "Other" answer, and the author's review of grouped write-ins
+  const [writeInText, setWriteInText] = useState('');
+  const [writeIns, setWriteIns] = useState<WriteInGroup[] | null>(null);
+  const [loadingWriteIns, setLoadingWriteIns] = useState(false);
+  const [writeInsError, setWriteInsError] = useState<string | null>(null);
+  const [promotingWriteIn, setPromotingWriteIn] = useState<string | null>(null);
+
+  // Current time, ticking while the poll has an upcoming deadline to count down to
+  const [now, setNow] = useState(() => Date.now());
 
   // Fetch poll data with cross-references
   const fetchPollData = useCallback(async (id: string, crossReferences?: Array<{pollId: string, answerId: string}>) => {
@@ -72,17 +280,7 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
 
     try {
       // Build URL with cross-reference parameters if provided
-      let url = `/api/poll/${id}`;
-      
-      if (crossReferences && crossReferences.length > 0) {
-        const params = crossReferences.map((ref, index) => {
-          return `p${index + 1}=${ref.pollId}&a${index + 1}=${ref.answerId}`;
-        }).join('&');
-        
-        url = `${url}?${params}`;
-      }
-
-      const response = await fetch(url);
+      const response = await fetch(getPollUrl(id, crossReferences));
       
       if (!response.ok) {
         throw new Error(`Failed to fetch poll data: ${response.status}`);
@@ -110,6 +308,94 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     fetchPollData(pollId);
   }, [pollId, pollData, fetchPollData]);
 
+  // Tick the countdown every second until the poll closes
+  const opensAt = pollData?.poll.opens_at;
+  const closesAt = pollData?.poll.closes_at;
+  useEffect(() => {
+    const deadlines = [opensAt, closesAt]
+      .filter((time): time is string => Boolean(time))
+      .map(time => Date.parse(time));
+    if (!deadlines.some(deadline => deadline > Date.now())) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [opensAt, closesAt]);
+
+  // Keep the results live while the card is on screen, e.g. on a screen shared in a meeting
+  const [cardElement, setCardElement] = useState<HTMLDivElement | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  useEffect(() => {
+    if (!cardElement) return;
+
+    // Without IntersectionObserver, treat the card as always visible
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting));
+    observer.observe(cardElement);
+    return () => observer.disconnect();
+  }, [cardElement]);
+
+  // Reload the active cross-references without showing the loading state, so their
+  // segment counts follow the live votes
+  const refreshCrossReferences = useCallback(async (id: string, crossReferences: Array<{ pollId: string; answerId: string }>) => {
+    try {
+      const response = await fetch(getPollUrl(id, crossReferences));
+      if (!response.ok) return;
+
+      const data: PollData = await response.json();
+      setPollData(prev => prev && { ...prev, crossReferences: data.crossReferences });
+      setSelectedCrossReference(prev => data.crossReferences?.find(ref =>
+        ref.pollId === prev?.pollId && ref.answerId === prev.answerId
+      ) ?? prev);
+    } catch (err) {
+      console.error('Error refreshing cross-references:', err);
+    }
+  }, []);
+
+  // Subscribe to the poll's result stream while visible, where EventSource is available
+  const livePollId = pollData?.poll.id;
+  const liveCrossReferences = pollData?.crossReferences?.map(ref => `${ref.pollId}:${ref.answerId}`).join(',') ?? '';
+  useEffect(() => {
+    if (!livePollId || !isVisible || typeof EventSource === 'undefined') return;
+
+    const crossReferences = liveCrossReferences
+      ? liveCrossReferences.split(',').map(ref => {
+          const [pollId, answerId] = ref.split(':');
+          return { pollId, answerId };
+        })
+      : [];
+
+    // The stream's counts: its snapshot plus every change since. They replace the
+    // card's counts on each update, which already include the user's own vote.
+    let voteCounts: Record<string, number> = {};
+    const source = new EventSource(`/api/poll/${livePollId}/stream`);
+
+    const applyResults = (event: MessageEvent, isSnapshot: boolean) => {
+      const results = JSON.parse(event.data);
+      voteCounts = isSnapshot ? results.voteCounts : applyVoteCountChanges(voteCounts, results.voteCounts);
+      setPollData(prev => prev && {
+        ...prev,
+        voteCounts,
+        respondentCount: results.respondentCount,
+        rankedResults: results.rankedResults,
+        scaleResults: results.scaleResults,
+      });
+
+      if (!isSnapshot && crossReferences.length > 0) {
+        refreshCrossReferences(livePollId, crossReferences);
+      }
+    };
+
+    source.addEventListener('snapshot', event => applyResults(event as MessageEvent, true));
+    source.addEventListener('votes', event => applyResults(event as MessageEvent, false));
+    source.addEventListener('deleted', () => source.close());
+
+    return () => source.close();
+  }, [livePollId, isVisible, liveCrossReferences, refreshCrossReferences]);
+
   // Initialize selectedCrossReference from initial props
   useEffect(() => {
     if (initialPollData?.crossReferences && initialPollData.crossReferences.length > 0) {
@@ -117,9 +403,27 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     }
   }, [initialPollData]);
 
+  // The poll's "Other" answer, if it allows write-ins
+  const writeInAnswer = pollData?.answers.find(answer => answer.is_write_in);
+
+  // The write-in to send with a selection, if it includes the "Other" answer
+  const getWriteIn = (answerIds: string[]) => {
+    return writeInAnswer && answerIds.includes(writeInAnswer.id) ? writeInText.trim() : undefined;
+  };
+
+  // Build the vote request body: one answer, every ticked answer on multiple-choice polls,
+  // or the full ranking on ranked polls, with the write-in when "Other" is selected
+  const getVoteBody = (answerIds: string[]) => {
+    const writeIn = getWriteIn(answerIds);
+
+    return pollData?.poll.type === 'multiple' || pollData?.poll.type === 'ranked'
+      ? { answerIds, writeIn }
+      : { answerId: answerIds[0], writeIn };
+  };
+
   // Handle voting
-  const handleVote = async (answerId: string) => {
-    if (!pollData || isVoting) return;
+  const handleVote = async (answerIds: string[]) => {
+    if (!pollData || isVoting || answerIds.length === 0) return;
 
     setIsVoting(true);
     setError(null);
@@ -130,7 +434,7 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ answerId }),
+        body: JSON.stringify(getVoteBody(answerIds)),
         credentials: 'include', // Include cookies for authentication
       });
 
@@ -145,8 +449,12 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
       setPollData({
         ...pollData,
         voteCounts: data.voteCounts,
-        userVote: { answerId },
+        respondentCount: data.respondentCount,
+        rankedResults: data.rankedResults,
+        userVote: { answerId: answerIds[0], answerIds, writeIn: getWriteIn(answerIds) },
       });
+      setSelectedAnswerIds([]);
+      setWriteInText('');
     } catch (err) {
       console.error('Error voting:', err);
       setError(err instanceof Error ? err.message : 'Failed to submit vote');
@@ -155,6 +463,257 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     }
   };
 
+  // Start editing the poll with its current question and answers
+  const startEditing = () => {
+    if (!pollData) return;
+
+    setEditQuestion(pollData.poll.question);
+    setEditAnswers(Object.fromEntries(pollData.answers.map(answer => [answer.id, answer.text])));
+    setEditVotesLocked(Boolean(pollData.poll.votes_locked));
+    setEditError(null);
+    setIsEditing(true);
+  };
+
+  // Save edits to the poll (author only)
+  const handleSaveEdit = async () => {
+    if (!pollData || savingEdit) return;
+
+    setSavingEdit(true);
+    setEditError(null);
+
+    try {
+      // Only send answers that changed, since answers are locked once the poll has votes
+      const changedAnswers = pollData.answers
+        .filter(answer => editAnswers[answer.id] !== answer.text)
+        .map(answer => ({ id: answer.id, text: editAnswers[answer.id] }));
+
+      const response = await fetch(`/api/poll/${pollData.poll.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          question: editQuestion,
+          ...(changedAnswers.length > 0 ? { answers: changedAnswers } : {}),
+          ...(editVotesLocked !== Boolean(pollData.poll.votes_locked) ? { votesLocked: editVotesLocked } : {}),
+        }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to save poll: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPollData({
+        ...pollData,
+        poll: data.poll,
+        answers: data.answers,
+      });
+      setIsEditing(false);
+    } catch (err) {
+      console.error('Error editing poll:', err);
+      setEditError(err instanceof Error ? err.message : 'Failed to save poll');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  // Close the poll to further votes (author only)
+  const handleClose = async () => {
+    if (!pollData || isClosing) return;
+
+    setIsClosing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/close`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to close poll: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setNow(Date.now());
+      setPollData({
+        ...pollData,
+        poll: { ...pollData.poll, ...data.poll },
+        status: data.status,
+      });
+    } catch (err) {
+      console.error('Error closing poll:', err);
+      setError(err instanceof Error ? err.message : 'Failed to close poll');
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  // Delete the poll (author only)
+  const handleDelete = async () => {
+    if (!pollData || isDeleting) return;
+    if (!window.confirm('Delete this poll? All of its votes will be lost.')) return;
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to delete poll: ${response.status}`);
+      }
+
+      setIsDeleted(true);
+      onDeleted?.(pollData.poll.id);
+    } catch (err) {
+      console.error('Error deleting poll:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete poll');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Change the user's existing vote to other answers
+  const handleChangeVote = async (answerIds: string[]) => {
+    if (!pollData || isVoting || answerIds.length === 0) return;
+
+    // Order only matters on ranked polls
+    const currentAnswerIds = getUserAnswerIds();
+    const unchanged = pollData.poll.type === 'ranked'
+      ? answerIds.join() === currentAnswerIds.join()
+      : answerIds.length === currentAnswerIds.length && answerIds.every(answerId => currentAnswerIds.includes(answerId));
+    if (unchanged && getWriteIn(answerIds) === pollData.userVote?.writeIn) {
+      setIsChangingVote(false);
+      return;
+    }
+
+    setIsVoting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/vote`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(getVoteBody(answerIds)),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to change vote: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPollData({
+        ...pollData,
+        voteCounts: data.voteCounts,
+        respondentCount: data.respondentCount,
+        rankedResults: data.rankedResults,
+        userVote: { answerId: answerIds[0], answerIds, writeIn: getWriteIn(answerIds) },
+      });
+      setIsChangingVote(false);
+      setSelectedAnswerIds([]);
+      setWriteInText('');
+    } catch (err) {
+      console.error('Error changing vote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Cast, or change, the user's value on a scale poll
+  const handleScaleVote = async (value: number) => {
+    if (!pollData || isVoting) return;
+
+    if (isChangingVote && pollData.userVote?.value === value) {
+      setIsChangingVote(false);
+      return;
+    }
+
+    setIsVoting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/vote`, {
+        method: isChangingVote ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ value }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to vote: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPollData({
+        ...pollData,
+        respondentCount: data.respondentCount,
+        scaleResults: data.scaleResults,
+        userVote: { answerId: null, answerIds: [], value },
+      });
+      setIsChangingVote(false);
+      setScaleValue(null);
+    } catch (err) {
+      console.error('Error voting:', err);
+      setError(err instanceof Error ? err.message : 'Failed to submit vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Retract the user's vote
+  const handleRetractVote = async () => {
+    if (!pollData || isVoting) return;
+
+    setIsVoting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/vote`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to retract vote: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPollData({
+        ...pollData,
+        voteCounts: data.voteCounts,
+        respondentCount: data.respondentCount,
+        rankedResults: data.rankedResults,
+        scaleResults: data.scaleResults,
+        userVote: null,
+      });
+      setIsChangingVote(false);
+      setShowCrossReferenceSearch(false);
+    } catch (err) {
+      console.error('Error retracting vote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to retract vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   // Search for cross-reference polls
   const handleCrossReferenceSearch = async () => {
     if (!pollData || searchingCrossReferences) return;
@@ -197,6 +756,41 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     }
   };
 
+  // Load polls whose voters answered this poll most differently
+  const handleLoadSuggestions = async () => {
+    if (!pollData || loadingSuggestions) return;
+
+    setLoadingSuggestions(true);
+    setSuggestionsError(null);
+
+    try {
+      let url = `/api/poll/${pollData.poll.id}/correlations`;
+
+      // Exclude polls that are already cross-referenced
+      if (pollData.crossReferences && pollData.crossReferences.length > 0) {
+        const exclusions = pollData.crossReferences.map((ref, index) => {
+          return `p${index + 1}=${ref.pollId}`;
+        }).join('&');
+
+        url = `${url}?${exclusions}`;
+      }
+
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`Failed to load suggestions: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setSuggestedCrossReferences(data.correlations || []);
+    } catch (err) {
+      console.error('Error loading suggested cross-references:', err);
+      setSuggestionsError(err instanceof Error ? err.message : 'Failed to load suggestions');
+    } finally {
+      setLoadingSuggestions(false);
+    }
+  };
+
   // Add cross-reference
   const handleAddCrossReference = async (crossRefPollId: string, crossRefAnswerId: string) => {
     if (!pollData) return;
@@ -215,6 +809,7 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     setShowCrossReferenceSearch(false);
     setCrossReferenceSearchQuery('');
     setCrossReferenceSearchResults([]);
+    setSuggestedCrossReferences(null);
   };
 
   // This function would be used to vote on cross-referenced polls that
@@ -267,23 +862,185 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
   };
   */
 
+  // Answers the user voted for (several on multiple-choice polls)
+  const getUserAnswerIds = () => {
+    const userVote = pollData?.userVote;
+    if (!userVote) return [];
+    return userVote.answerIds ?? (userVote.answerId ? [userVote.answerId] : []);
+  };
+
+  // Tick or untick an answer on a multiple-choice poll
+  const toggleSelectedAnswer = (answerId: string) => {
+    setSelectedAnswerIds(selected =>
+      selected.includes(answerId)
+        ? selected.filter(id => id !== answerId)
+        : [...selected, answerId]
+    );
+  };
+
+  // Start changing the vote, with multiple-choice answers pre-ticked and the ranking restored
+  const startChangingVote = () => {
+    setSelectedAnswerIds(getUserAnswerIds());
+    setRanking(getUserAnswerIds());
+    setScaleValue(pollData?.userVote?.value ?? null);
+    setWriteInText(pollData?.userVote?.writeIn ?? '');
+    setIsChangingVote(true);
+  };
+
+  // Load the poll's write-ins for the author to review, or hide them again
+  const toggleWriteIns = async () => {
+    if (!pollData) return;
+
+    if (writeIns) {
+      setWriteIns(null);
+      return;
+    }
+
+    setLoadingWriteIns(true);
+    setWriteInsError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/write-ins`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to load write-ins: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setWriteIns(data.writeIns);
+    } catch (err) {
+      console.error('Error loading write-ins:', err);
+      setWriteInsError(err instanceof Error ? err.message : 'Failed to load write-ins');
+    } finally {
+      setLoadingWriteIns(false);
+    }
+  };
+
+  // Turn a group of write-ins into a real answer, moving its votes from "Other"
+  const handlePromoteWriteIn = async (group: WriteInGroup) => {
+    if (!pollData || promotingWriteIn) return;
+
+    setPromotingWriteIn(group.normalizedText);
+    setWriteInsError(null);
+
+    try {
+      const response = await fetch(`/api/poll/${pollData.poll.id}/write-ins/promote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ normalizedText: group.normalizedText }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `Failed to add answer: ${response.status}`);
+      }
+
+      // Reload so the user's own vote and any cross-references reflect the moved votes
+      setWriteIns(writeIns?.filter(writeIn => writeIn.normalizedText !== group.normalizedText) ?? null);
+      await fetchPollData(pollData.poll.id, pollData.crossReferences?.map(ref => ({
+        pollId: ref.pollId,
+        answerId: ref.answerId,
+      })));
+    } catch (err) {
+      console.error('Error promoting write-in:', err);
+      setWriteInsError(err instanceof Error ? err.message : 'Failed to add answer');
+    } finally {
+      setPromotingWriteIn(null);
+    }
+  };
+
+  // Current ballot order on a ranked poll, starting from the poll's answer order
+  const getBallotOrder = () => {
+    const answerIds = pollData?.answers.map(answer => answer.id) ?? [];
+    return ranking.length === answerIds.length ? ranking : answerIds;
+  };
+
+  // Move an answer to another position of the ranked ballot
+  const moveRankedAnswer = (answerId: string, toIndex: number) => {
+    const order = getBallotOrder().filter(id => id !== answerId);
+    order.splice(toIndex, 0, answerId);
+    setRanking(order);
+  };
+
+  // Drop the dragged answer onto another position of the ranked ballot
+  const handleRankDrop = (toIndex: number) => {
+    if (draggedAnswerId) {
+      moveRankedAnswer(draggedAnswerId, toIndex);
+    }
+    setDraggedAnswerId(null);
+  };
+
   // Calculate total votes
   const getTotalVotes = (voteCounts: Record<string, number> = {}) => {
     return Object.values(voteCounts).reduce((sum, count) => sum + count, 0);
   };
 
   // Calculate percentage for an answer
-  const getPercentage = (answerId: string, counts?: Record<string, number>) => {
+  // Multiple-choice percentages are out of the voters (respondents), so they can add up to more than 100%
+  const getPercentage = (answerId: string, counts?: Record<string, number>, respondentCount?: number) => {
     const voteCounts = counts || pollData?.voteCounts;
     if (!voteCounts) return 0;
     
-    const total = getTotalVotes(voteCounts);
+    const total = pollData?.poll.type === 'multiple' && respondentCount !== undefined
+      ? respondentCount
+      : getTotalVotes(voteCounts);
     if (total === 0) return 0;
     
     const count = voteCounts[answerId] || 0;
     return Math.round((count / total) * 100);
   };
 
+  // Format a p-value for display
+  const formatPValue = (pValue: number) => {
+    return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+  };
+
+  // Describe whether a cross-referenced segment differs meaningfully from everyone else
+  const renderSignificance = (statistics: CrossReferenceStatistics) => {
+    if (!statistics.chiSquare) {
+      return (
+        <p className="cross-reference-significance is-inconclusive">
+          Not enough overlapping votes to test significance (n = {statistics.sampleSize})
+        </p>
+      );
+    }
+
+    const { statistic, degreesOfFreedom, pValue, significant } = statistics.chiSquare;
+
+    return (
+      <p className={`cross-reference-significance ${significant ? 'is-significant' : 'is-not-significant'}`}>
+        {significant
+          ? 'Statistically significant association'
+          : 'No statistically significant association'}
+        {' '}(χ²({degreesOfFreedom}) = {statistic.toFixed(2)}, {formatPValue(pValue)}, n = {statistics.sampleSize})
+      </p>
+    );
+  };
+
+  // Explain why some or all of a cross-reference's results are hidden
+  const renderSuppressionNotice = (crossRef: CrossReference) => {
+    if (!crossRef.suppressed) return null;
+
+    // Scale segments that are too small have no results at all; otherwise only some bins are hidden
+    const allSuppressed = pollData?.poll.type === 'scale'
+      ? !crossRef.scaleResults
+      : pollData?.answers.every(answer => crossRef.suppressedAnswerIds?.includes(answer.id));
+
+    return (
+      <p className="cross-reference-suppressed">
+        {allSuppressed
+          ? 'Too few voters match this cross-reference to show results without identifying them.'
+          : 'Some results are hidden because too few voters chose them to keep votes anonymous.'}
+      </p>
+    );
+  };
+
   // Handle selecting a different cross-reference answer
   const handleSelectCrossReferenceAnswer = (answerId: string) => {
     setActiveCrossReferenceAnswerId(answerId);
@@ -305,6 +1062,10 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     setActiveCrossReferenceAnswerId(null);
   };
 
+  if (isDeleted) {
+    return <div className="poll-card poll-card-deleted">This poll has been deleted.</div>;
+  }
+
   if (loading) {
     return <div className="poll-card poll-card-loading">Loading poll...</div>;
   }
@@ -318,45 +1079,113 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
   }
 
   const hasVoted = Boolean(pollData.userVote);
+  const userAnswerIds = getUserAnswerIds();
   const totalVotes = getTotalVotes(pollData.voteCounts);
+  const isMultipleChoice = pollData.poll.type === 'multiple';
+  const isRanked = pollData.poll.type === 'ranked';
+  const isScale = pollData.poll.type === 'scale';
+  const getAnswerText = (answerId: string) => pollData.answers.find(answer => answer.id === answerId)?.text ?? '';
+  const maxChoices = pollData.poll.max_choices ?? pollData.answers.length;
+  const respondentCount = pollData.respondentCount ?? totalVotes;
+  // Trust the server once it reports the poll closed, in case the clocks disagree
+  const status = pollData.status === 'closed' ? 'closed' : getPollStatus(pollData.poll, now);
+  const showResults = (hasVoted || status === 'closed') && !isChangingVote;
+  // Drop the search highlights once the question no longer matches them, e.g. after an edit
+  const searchSnippet = pollData.snippet?.question.map(run => run.text).join('') === pollData.poll.question
+    ? pollData.snippet
+    : undefined;
+  const canChangeVote = hasVoted && status === 'open' && !pollData.poll.votes_locked;
   
   // Determine which vote counts to display based on cross-reference state
   const displayVoteCounts = activeCrossReferenceAnswerId && selectedCrossReference
     ? selectedCrossReference.voteCounts
     : pollData.voteCounts;
+  const displayRespondentCount = activeCrossReferenceAnswerId && selectedCrossReference
+    ? selectedCrossReference.respondentCount
+    : pollData.respondentCount;
 
   // Render the cross-reference sub-charts if we have a selected cross-reference
   const renderCrossReferenceSubCharts = () => {
     if (!selectedCrossReference) return null;
+
+    // Scale polls compare the segment's distribution against everyone's
+    if (isScale) {
+      return (
+        <div className="cross-reference-sub-charts">
+          <h3 className="cross-reference-sub-charts-title">
+            Results filtered by "{selectedCrossReference.answer.text}" voters
+          </h3>
+
+          {renderSuppressionNotice(selectedCrossReference)}
+
+          {selectedCrossReference.scaleResults && renderScaleResults(selectedCrossReference.scaleResults, pollData.scaleResults)}
+        </div>
+      );
+    }
     
     return (
       <div className="cross-reference-sub-charts">
         <h3 className="cross-reference-sub-charts-title">
           Results filtered by "{selectedCrossReference.answer.text}" voters
         </h3>
+
+        {renderSuppressionNotice(selectedCrossReference)}
+
+        {selectedCrossReference.statistics && renderSignificance(selectedCrossReference.statistics)}
         
         <div className="cross-reference-sub-charts-grid">
           {pollData.answers.map(answer => {
-            const percentage = getPercentage(answer.id, selectedCrossReference.voteCounts);
-            const isSelected = pollData.userVote?.answerId === answer.id;
+            const isSelected = userAnswerIds.includes(answer.id);
             const isActive = activeCrossReferenceAnswerId === answer.id;
+            const isSuppressed = Boolean(selectedCrossReference.suppressedAnswerIds?.includes(answer.id));
+            const answerStatistics = selectedCrossReference.statistics?.answers[answer.id];
+
+            // Visible counts no longer add up to the segment total once some are hidden,
+            // so prefer the server's proportion of the full segment
+            let percentage = getPercentage(answer.id, selectedCrossReference.voteCounts, selectedCrossReference.respondentCount);
+            if (isSuppressed) {
+              percentage = 0;
+            } else if (selectedCrossReference.suppressed && answerStatistics) {
+              percentage = Math.round(answerStatistics.proportion * 100);
+            }
             
             return (
               <div 
                 key={answer.id} 
-                className={`cross-reference-sub-chart ${isSelected ? 'is-selected' : ''} ${isActive ? 'is-active' : ''}`}
+                className={`cross-reference-sub-chart ${isSelected ? 'is-selected' : ''} ${isActive ? 'is-active' : ''} ${isSuppressed ? 'is-suppressed' : ''}`}
                 onClick={() => handleSelectCrossReferenceAnswer(answer.id)}
               >
                 <div className="cross-reference-sub-chart-text">
                   <span className="cross-reference-sub-chart-answer">{answer.text}</span>
-                  <span className="cross-reference-sub-chart-percentage">{percentage}%</span>
+                  <span className="cross-reference-sub-chart-percentage">{isSuppressed ? 'Hidden' : `${percentage}%`}</span>
                 </div>
                 <div className="cross-reference-sub-chart-bar-container">
                   <div 
                     className="cross-reference-sub-chart-bar" 
                     style={{ width: `${percentage}%` }}
                   />
+                  {answerStatistics && (
+                    <div
+                      className="cross-reference-sub-chart-interval"
+                      style={{
+                        left: `${answerStatistics.lower * 100}%`,
+                        width: `${(answerStatistics.upper - answerStatistics.lower) * 100}%`,
+                      }}
+                    />
+                  )}
                 </div>
+                {answerStatistics && (
+                  <div className="cross-reference-sub-chart-statistics">
+                    <span className="cross-reference-sub-chart-interval-label">
+                      95% CI {Math.round(answerStatistics.lower * 100)}–{Math.round(answerStatistics.upper * 100)}%
+                    </span>
+                    {answerStatistics.lift !== null && (
+                      <span className="cross-reference-sub-chart-lift">
+                        {answerStatistics.lift.toFixed(2)}× baseline
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -371,12 +1200,124 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     );
   };
 
+  // Render polls suggested by their correlation with this one
+  const renderSuggestedCrossReferences = () => {
+    return (
+      <div className="cross-reference-suggestions">
+        <h4 className="cross-reference-suggestions-title">Suggested cross-references</h4>
+
+        {suggestedCrossReferences === null ? (
+          <button
+            className="cross-reference-suggestions-button"
+            onClick={handleLoadSuggestions}
+            disabled={loadingSuggestions}
+          >
+            {loadingSuggestions ? 'Finding related polls...' : 'Find polls with related answers'}
+          </button>
+        ) : suggestedCrossReferences.length === 0 ? (
+          <p className="cross-reference-suggestions-empty">
+            Not enough shared voters with other polls yet.
+          </p>
+        ) : (
+          <div className="cross-reference-search-results">
+            {suggestedCrossReferences.map(suggestion => (
+              <div key={suggestion.poll.id} className="cross-reference-search-result cross-reference-suggestion">
+                <h4 className="cross-reference-search-result-question">
+                  {suggestion.poll.question}
+                </h4>
+                <p className="cross-reference-suggestion-strength">
+                  Association {suggestion.cramersV.toFixed(2)} (Cramér's V) · {suggestion.sharedVoters} shared voters
+                </p>
+                {suggestion.effects.length > 0 && (
+                  <ul className="cross-reference-suggestion-effects">
+                    {suggestion.effects.map(effect => (
+                      <li key={`${effect.answerId}-${effect.crossAnswerId}`}>
+                        "{effect.crossAnswerText}" voters chose "{effect.answerText}" {effect.lift.toFixed(2)}× as often
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="cross-reference-search-result-answers">
+                  {suggestion.answers.map(answer => (
+                    <button
+                      key={answer.id}
+                      className="cross-reference-search-result-answer-button"
+                      onClick={() => handleAddCrossReference(suggestion.poll.id, answer.id)}
+                    >
+                      {answer.text}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {suggestionsError && (
+          <div className="cross-reference-search-error">
+            {suggestionsError}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the author's edit form in place of the question
+  const renderEditForm = () => {
+    const answersLocked = totalVotes > 0;
+
+    return (
+      <div className="poll-edit-form">
+        <input
+          type="text"
+          className="poll-edit-question"
+          aria-label="Question"
+          value={editQuestion}
+          onChange={(e) => setEditQuestion(e.target.value)}
+        />
+        {pollData.answers.map((answer, index) => (
+          <input
+            key={answer.id}
+            type="text"
+            className="poll-edit-answer"
+            aria-label={`Answer ${index + 1}`}
+            value={editAnswers[answer.id] ?? ''}
+            onChange={(e) => setEditAnswers({ ...editAnswers, [answer.id]: e.target.value })}
+            disabled={answersLocked}
+          />
+        ))}
+        {answersLocked && (
+          <p className="poll-edit-note">Answers can't be changed once people have voted.</p>
+        )}
+        <label className="poll-edit-lock">
+          <input
+            type="checkbox"
+            checked={editVotesLocked}
+            onChange={(e) => setEditVotesLocked(e.target.checked)}
+          />
+          Lock votes (voters can't change or retract them)
+        </label>
+        {editError && <div className="poll-edit-error">{editError}</div>}
+        <div className="poll-edit-actions">
+          <button className="poll-edit-save" onClick={handleSaveEdit} disabled={savingEdit}>
+            {savingEdit ? 'Saving...' : 'Save'}
+          </button>
+          <button className="poll-edit-cancel" onClick={() => setIsEditing(false)} disabled={savingEdit}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   // Render cross-reference poll search
   const renderCrossReferenceSearch = () => {
     if (!hasVoted || !showCrossReferenceSearch) return null;
     
     return (
       <div className="cross-reference-search">
+        {renderSuggestedCrossReferences()}
+
         <h3 className="cross-reference-search-title">Search for a poll to cross-reference</h3>
         
         <div className="cross-reference-search-form">
@@ -407,8 +1348,9 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
             {crossReferenceSearchResults.map(result => (
               <div key={result.poll.id} className="cross-reference-search-result">
                 <h4 className="cross-reference-search-result-question">
-                  {result.poll.question}
+                  {result.snippet ? renderHighlighted(result.snippet.question) : result.poll.question}
                 </h4>
+                {renderAnswersSnippet(result.snippet)}
                 <p className="cross-reference-search-result-author">
                   by {result.author.name || 'Anonymous'}
                 </p>
@@ -463,37 +1405,379 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
     );
   };
 
+  // Render the summary and histogram of a scale poll's values, optionally against a baseline
+  const renderScaleResults = (results: ScaleResults, baseline?: ScaleResults) => {
+    const counts = new Map(results.histogram.map(bin => [bin.value, bin.count]));
+    const maxCount = Math.max(1, ...results.histogram.map(bin => bin.count));
+
+    return (
+      <div className="scale-results">
+        <div className="scale-summary">
+          <span className="scale-summary-item">
+            Mean <strong>{formatStatistic(results.mean)}</strong>
+            {baseline && <span className="scale-summary-baseline"> (all voters {formatStatistic(baseline.mean)})</span>}
+          </span>
+          <span className="scale-summary-item">Median <strong>{formatStatistic(results.median)}</strong></span>
+          <span className="scale-summary-item">Std. dev. <strong>{formatStatistic(results.standardDeviation)}</strong></span>
+        </div>
+        <div className="scale-histogram">
+          {getScalePoints(pollData.poll).map(value => {
+            const count = counts.get(value);
+
+            return (
+              <div
+                key={value}
+                className={`scale-histogram-bin ${pollData.userVote?.value === value ? 'is-selected' : ''} ${count === undefined ? 'is-suppressed' : ''}`}
+              >
+                <span className="scale-histogram-count">{count ?? 'Hidden'}</span>
+                <div className="scale-histogram-bar-container">
+                  <div className="scale-histogram-bar" style={{ height: `${((count ?? 0) / maxCount) * 100}%` }} />
+                </div>
+                <span className="scale-histogram-value">{value}</span>
+              </div>
+            );
+          })}
+        </div>
+        {renderScaleLabels()}
+      </div>
+    );
+  };
+
+  // Render the endpoint labels of a scale poll, if it has any
+  const renderScaleLabels = () => {
+    if (!pollData.poll.scale_min_label && !pollData.poll.scale_max_label) return null;
+
+    return (
+      <div className="poll-scale-labels">
+        <span>{pollData.poll.scale_min_label}</span>
+        <span>{pollData.poll.scale_max_label}</span>
+      </div>
+    );
+  };
+
+  // Render the text input for the "Other" answer
+  const renderWriteInInput = () => (
+    <input
+      type="text"
+      className="poll-write-in-input"
+      aria-label="Your answer"
+      placeholder="Write in your answer"
+      maxLength={100}
+      value={writeInText}
+      onChange={(e) => setWriteInText(e.target.value)}
+      disabled={isVoting || status !== 'open'}
+    />
+  );
+
+  // Render the author's list of grouped write-ins, each of which can become an answer
+  const renderWriteInReview = () => {
+    if (!writeIns && !writeInsError) return null;
+
+    return (
+      <div className="poll-write-ins">
+        <h3 className="poll-results-title">Write-ins</h3>
+        {writeIns && writeIns.length === 0 && (
+          <p className="poll-write-ins-empty">No write-ins yet.</p>
+        )}
+        {writeIns?.map((group) => (
+          <div key={group.normalizedText} className="poll-write-in">
+            <span className="poll-write-in-text">{group.text}</span>
+            <span className="poll-write-in-count">
+              {group.count} voter{group.count !== 1 ? 's' : ''}
+            </span>
+            <button
+              className="poll-write-in-promote"
+              onClick={() => handlePromoteWriteIn(group)}
+              disabled={promotingWriteIn !== null}
+            >
+              {promotingWriteIn === group.normalizedText ? 'Adding...' : 'Add as answer'}
+            </button>
+          </div>
+        ))}
+        {writeInsError && <div className="poll-write-ins-error">{writeInsError}</div>}
+      </div>
+    );
+  };
+
+  // Render the slider ballot of a scale poll, starting from the middle of the scale
+  const renderScaleBallot = () => {
+    const points = getScalePoints(pollData.poll);
+    const value = scaleValue ?? points[Math.floor((points.length - 1) / 2)];
+    const disabled = isVoting || status !== 'open';
+
+    return (
+      <>
+        <div className="poll-scale">
+          <input
+            type="range"
+            className="poll-scale-slider"
+            min={points[0]}
+            max={points[points.length - 1]}
+            step={pollData.poll.scale_step ?? 1}
+            value={value}
+            onChange={(e) => setScaleValue(Number(e.target.value))}
+            disabled={disabled}
+            aria-label="Your rating"
+          />
+          <span className="poll-scale-value">{value}</span>
+        </div>
+        {renderScaleLabels()}
+        <button
+          className="poll-submit-vote-button"
+          onClick={() => handleScaleVote(value)}
+          disabled={disabled}
+        >
+          {isChangingVote ? 'Update rating' : 'Submit rating'}
+        </button>
+      </>
+    );
+  };
+
+  // Render the instant-runoff rounds and Borda count of a ranked poll
+  const renderRankedResults = (results: RankedResults) => {
+    const { rounds, winner, tied } = results.instantRunoff;
+
+    return (
+      <div className="ranked-results">
+        <h3 className="ranked-results-title">Instant runoff</h3>
+        <p className="ranked-results-outcome">
+          {winner
+            ? `Winner: ${getAnswerText(winner)}`
+            : tied.length > 0
+              ? `Tied: ${tied.map(getAnswerText).join(', ')}`
+              : 'No ballots yet'}
+        </p>
+        <ol className="runoff-rounds">
+          {rounds.map((round, index) => {
+            const continuing = results.ballotCount - round.exhausted;
+
+            return (
+              <li key={index} className="runoff-round">
+                <span className="runoff-round-title">Round {index + 1}</span>
+                {Object.entries(round.counts).map(([answerId, count]) => (
+                  <div
+                    key={answerId}
+                    className={`runoff-round-count ${round.eliminated.includes(answerId) ? 'is-eliminated' : ''}`}
+                  >
+                    <span className="runoff-round-answer">{getAnswerText(answerId)}</span>
+                    <span className="runoff-round-votes">{count}</span>
+                    <div className="poll-result-bar-container">
+                      <div
+                        className="poll-result-bar"
+                        style={{ width: `${continuing > 0 ? Math.round((count / continuing) * 100) : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {round.eliminated.length > 0 && (
+                  <span className="runoff-round-eliminated">
+                    Eliminated: {round.eliminated.map(getAnswerText).join(', ')}
+                  </span>
+                )}
+                {round.exhausted > 0 && (
+                  <span className="runoff-round-exhausted">{round.exhausted} exhausted ballots</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <h3 className="ranked-results-title">Borda count</h3>
+        <ol className="borda-ranking">
+          {results.borda.ranking.map(answerId => (
+            <li key={answerId}>
+              {getAnswerText(answerId)} · {results.borda.scores[answerId]} points
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  };
+
+  // Render the ranked ballot: drag answers (or use the arrows) to order them by preference
+  const renderRankedBallot = () => {
+    const ballotOrder = getBallotOrder();
+    const disabled = isVoting || status !== 'open';
+
+    return (
+      <>
+        <p className="poll-choice-limit">Drag to rank, most preferred first</p>
+        <ol className="poll-ranking">
+          {ballotOrder.map((answerId, index) => (
+            <li
+              key={answerId}
+              className={`poll-ranking-item ${draggedAnswerId === answerId ? 'is-dragging' : ''}`}
+              draggable={!disabled}
+              onDragStart={() => setDraggedAnswerId(answerId)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleRankDrop(index)}
+              onDragEnd={() => setDraggedAnswerId(null)}
+            >
+              <span className="poll-ranking-position">{index + 1}</span>
+              <span className="poll-ranking-answer">{getAnswerText(answerId)}</span>
+              <button
+                className="poll-ranking-move"
+                aria-label={`Move ${getAnswerText(answerId)} up`}
+                onClick={() => moveRankedAnswer(answerId, index - 1)}
+                disabled={disabled || index === 0}
+              >
+                ↑
+              </button>
+              <button
+                className="poll-ranking-move"
+                aria-label={`Move ${getAnswerText(answerId)} down`}
+                onClick={() => moveRankedAnswer(answerId, index + 1)}
+                disabled={disabled || index === ballotOrder.length - 1}
+              >
+                ↓
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          className="poll-submit-vote-button"
+          onClick={() => (isChangingVote ? handleChangeVote(ballotOrder) : handleVote(ballotOrder))}
+          disabled={disabled}
+        >
+          {isChangingVote ? 'Update ranking' : 'Submit ranking'}
+        </button>
+      </>
+    );
+  };
+
+  // Render the poll's voting window: a countdown to opening or closing, or the closed state
+  const renderScheduleStatus = () => {
+    if (status === 'closed') {
+      return <div className="poll-schedule poll-schedule-closed">Closed · Final results</div>;
+    }
+
+    if (status === 'scheduled' && pollData.poll.opens_at) {
+      return (
+        <div className="poll-schedule poll-schedule-upcoming">
+          Opens in {formatCountdown(Date.parse(pollData.poll.opens_at) - now)}
+        </div>
+      );
+    }
+
+    if (pollData.poll.closes_at) {
+      return (
+        <div className="poll-schedule poll-schedule-open">
+          Closes in {formatCountdown(Date.parse(pollData.poll.closes_at) - now)}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   return (
-    <div className="poll-card">
+    <div ref={setCardElement} className={`poll-card ${status === 'closed' ? 'poll-card-closed' : ''}`}>
       <div className="poll-card-header">
-        <h2 className="poll-question">{pollData.poll.question}</h2>
+        {isEditing ? renderEditForm() : (
+          <h2 className="poll-question">
+            {searchSnippet ? renderHighlighted(searchSnippet.question) : pollData.poll.question}
+          </h2>
+        )}
+        {!isEditing && renderAnswersSnippet(searchSnippet)}
+        {pollData.isAuthor && !isEditing && (
+          <div className="poll-author-controls">
+            <button className="poll-edit-button" onClick={startEditing}>Edit</button>
+            {writeInAnswer && (
+              <button className="poll-write-ins-button" onClick={toggleWriteIns} disabled={loadingWriteIns}>
+                {writeIns ? 'Hide write-ins' : 'Review write-ins'}
+              </button>
+            )}
+            {status !== 'closed' && (
+              <button className="poll-close-button" onClick={handleClose} disabled={isClosing}>
+                {isClosing ? 'Closing...' : 'Close now'}
+              </button>
+            )}
+            <button className="poll-delete-button" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        )}
         <div className="poll-author">
           by {' '}
           <a href={`/user/${pollData.author.id}`} className="poll-author-link">
             {pollData.author.name || 'Anonymous'}
           </a>
         </div>
+        {renderScheduleStatus()}
       </div>
 
       <div className="poll-card-content">
-        {!hasVoted ? (
+        {!showResults ? (
           <div className="poll-answers">
-            {pollData.answers.map((answer) => (
+            {isScale ? renderScaleBallot() : isRanked ? renderRankedBallot() : isMultipleChoice ? (
+              <>
+                <p className="poll-choice-limit">
+                  {maxChoices < pollData.answers.length ? `Select up to ${maxChoices}` : 'Select all that apply'}
+                </p>
+                {pollData.answers.map((answer) => {
+                  const isTicked = selectedAnswerIds.includes(answer.id);
+
+                  return (
+                    <label
+                      key={answer.id}
+                      className={`poll-answer-checkbox ${isTicked ? 'is-checked' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isTicked}
+                        onChange={() => toggleSelectedAnswer(answer.id)}
+                        disabled={isVoting || status !== 'open' || (!isTicked && selectedAnswerIds.length >= maxChoices)}
+                      />
+                      {answer.text}
+                    </label>
+                  );
+                })}
+                {writeInAnswer && selectedAnswerIds.includes(writeInAnswer.id) && renderWriteInInput()}
+                <button
+                  className="poll-submit-vote-button"
+                  onClick={() => (isChangingVote ? handleChangeVote(selectedAnswerIds) : handleVote(selectedAnswerIds))}
+                  disabled={
+                    isVoting || status !== 'open' || selectedAnswerIds.length === 0 || getWriteIn(selectedAnswerIds) === ''
+                  }
+                >
+                  {isChangingVote ? 'Update vote' : 'Submit vote'}
+                </button>
+              </>
+            ) : pollData.answers.map((answer) => answer.is_write_in ? (
+              <div key={answer.id} className="poll-write-in-ballot">
+                {renderWriteInInput()}
+                <button
+                  className={`poll-answer-button ${userAnswerIds.includes(answer.id) ? 'poll-answer-button-current' : ''}`}
+                  onClick={() => (isChangingVote ? handleChangeVote([answer.id]) : handleVote([answer.id]))}
+                  disabled={isVoting || status !== 'open' || !writeInText.trim()}
+                >
+                  {answer.text}
+                </button>
+              </div>
+            ) : (
               <button
                 key={answer.id}
-                className="poll-answer-button"
-                onClick={() => handleVote(answer.id)}
-                disabled={isVoting}
+                className={`poll-answer-button ${userAnswerIds.includes(answer.id) ? 'poll-answer-button-current' : ''}`}
+                onClick={() => (isChangingVote ? handleChangeVote([answer.id]) : handleVote([answer.id]))}
+                disabled={isVoting || status !== 'open'}
               >
                 {answer.text}
               </button>
             ))}
+            {isChangingVote && (
+              <button className="poll-change-vote-cancel" onClick={() => setIsChangingVote(false)}>
+                Keep my vote
+              </button>
+            )}
           </div>
+        ) : isScale ? (
+          pollData.scaleResults && renderScaleResults(pollData.scaleResults)
         ) : (
           <div className="poll-results">
+            {isRanked && <h3 className="poll-results-title">First preferences</h3>}
             {pollData.answers.map((answer) => {
-              const percentage = getPercentage(answer.id, displayVoteCounts);
-              const isSelected = pollData.userVote?.answerId === answer.id;
+              const percentage = getPercentage(answer.id, displayVoteCounts, displayRespondentCount);
+              const isSelected = userAnswerIds.includes(answer.id);
               
               return (
                 <div 
@@ -501,7 +1785,12 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
                   className={`poll-result ${isSelected ? 'poll-result-selected' : ''}`}
                 >
                   <div className="poll-result-text">
-                    <span className="poll-result-answer">{answer.text}</span>
+                    <span className="poll-result-answer">
+                      {answer.text}
+                      {isSelected && answer.is_write_in && pollData.userVote?.writeIn && (
+                        <span className="poll-result-write-in"> · you wrote “{pollData.userVote.writeIn}”</span>
+                      )}
+                    </span>
                     <span className="poll-result-percentage">{percentage}%</span>
                   </div>
                   <div className="poll-result-bar-container">
@@ -515,21 +1804,37 @@ const PollCard: React.FC<PollCardProps> = ({ pollId, pollData: initialPollData }
             })}
           </div>
         )}
+
+        {showResults && isRanked && pollData.rankedResults && renderRankedResults(pollData.rankedResults)}
+
+        {pollData.isAuthor && renderWriteInReview()}
         
         {/* Cross-reference sub-charts */}
-        {hasVoted && selectedCrossReference && renderCrossReferenceSubCharts()}
+        {hasVoted && !isChangingVote && selectedCrossReference && renderCrossReferenceSubCharts()}
         
         {/* Cross-reference selector */}
-        {hasVoted && renderCrossReferenceSelector()}
+        {hasVoted && !isChangingVote && renderCrossReferenceSelector()}
       </div>
 
       <div className="poll-card-footer">
         <div className="poll-vote-count">
-          {totalVotes} vote{totalVotes !== 1 ? 's' : ''}
+          {isMultipleChoice || isScale
+            ? `${respondentCount} voter${respondentCount !== 1 ? 's' : ''}`
+            : `${totalVotes} vote${totalVotes !== 1 ? 's' : ''}`}
         </div>
         
         {hasVoted && (
           <div className="poll-card-actions">
+            {canChangeVote && !isChangingVote && (
+              <>
+                <button className="poll-change-vote-button" onClick={startChangingVote}>
+                  Change vote
+                </button>
+                <button className="poll-retract-vote-button" onClick={handleRetractVote} disabled={isVoting}>
+                  Retract vote
+                </button>
+              </>
+            )}
             <button 
               className="cross-reference-toggle-button"
               onClick={toggleCrossReferenceSearch}
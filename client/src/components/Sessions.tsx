@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+
+interface Session {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent: string | null;
+  // Whether this is the session of the browser viewing the list
+  isCurrent: boolean;
+}
+
+const Sessions: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the current user's sessions
+  useEffect(() => {
+    const fetchSessions = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/auth/sessions');
+
+        if (response.status === 401) {
+          throw new Error('Log in to manage your sessions');
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch sessions: ${response.status}`);
+        }
+
+        const data = await response.json();
+        setSessions(data.sessions);
+      } catch (err) {
+        console.error('Error fetching sessions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  // Revoke one session; revoking this browser's own session logs it out
+  const handleRevoke = async (session: Session) => {
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to revoke session: ${response.status}`);
+      }
+
+      if (session.isCurrent) {
+        navigate('/');
+        return;
+      }
+      setSessions(prev => prev.filter(other => other.id !== session.id));
+    } catch (err) {
+      console.error('Error revoking session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    }
+  };
+
+  // Revoke every session, including this one
+  const handleRevokeAll = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to log out everywhere: ${response.status}`);
+      }
+      navigate('/');
+    } catch (err) {
+      console.error('Error logging out everywhere:', err);
+      setError(err instanceof Error ? err.message : 'Failed to log out everywhere');
+    }
+  };
+
+  if (loading) {
+    return <div className="user-profile-loading">Loading sessions...</div>;
+  }
+
+  return (
+    <div className="user-profile">
+      <div className="sessions">
+        <div className="sessions-header">
+          <h1 className="user-polls-title">Sessions</h1>
+          <Link to={`/user/${id}`} className="poll-author-link">Back to profile</Link>
+        </div>
+
+        {error && <div className="sessions-error">Error: {error}</div>}
+
+        <ul className="sessions-list">
+          {sessions.map(session => (
+            <li key={session.id} className="sessions-item">
+              <div className="sessions-item-details">
+                <span className="sessions-item-device">
+                  {session.userAgent || 'Unknown device'}
+                  {session.isCurrent && <span className="sessions-item-current">This device</span>}
+                </span>
+                <span className="sessions-item-times">
+                  Signed in {new Date(session.createdAt).toLocaleString()} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </span>
+              </div>
+              <button className="sessions-revoke-button" onClick={() => handleRevoke(session)}>
+                {session.isCurrent ? 'Log out' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {sessions.length > 0 && (
+          <button className="sessions-revoke-all-button" onClick={handleRevokeAll}>
+            Log out everywhere
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sessions;
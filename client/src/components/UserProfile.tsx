@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import Feed from './Feed';
+import AccountData from './AccountData';
+import ApiKeys from './ApiKeys';
 
 interface User {
   id: string;
@@ -14,6 +16,8 @@ const UserProfile: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  // Whether the profile is the logged-in user's own, which links to their sessions
+  const [isOwnProfile, setIsOwnProfile] = useState(false);
 
   // Fetch user data
   useEffect(() => {
@@ -44,6 +48,23 @@ const UserProfile: React.FC = () => {
     fetchUser();
   }, [id]);
 
+  // Check whether the profile belongs to the current user
+  useEffect(() => {
+    const fetchCurrentUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (!response.ok) return;
+
+        const currentUser = await response.json();
+        setIsOwnProfile(currentUser.isAuthenticated && currentUser.id === id);
+      } catch (err) {
+        console.error('Error fetching current user:', err);
+      }
+    };
+
+    fetchCurrentUser();
+  }, [id]);
+
   if (loading) {
     return <div className="user-profile-loading">Loading user profile...</div>;
   }
@@ -63,8 +84,16 @@ const UserProfile: React.FC = () => {
           {user.name ? user.name.charAt(0).toUpperCase() : 'U'}
         </div>
         <h1 className="user-name">{user.name || 'Anonymous User'}</h1>
+        {isOwnProfile && (
+          <Link to={`/user/${user.id}/sessions`} className="poll-author-link user-profile-sessions-link">
+            Manage sessions
+          </Link>
+        )}
       </div>
       
+      {isOwnProfile && <AccountData />}
+      {isOwnProfile && <ApiKeys />}
+      
       <div className="user-profile-content">
         <h2 className="user-polls-title">Polls created by {user.name || 'this user'}</h2>
         
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { createToken, getSessionFromToken, AUTH_COOKIE_NAME } from '../../auth';
+import { dbUtils } from '../../database';
+import { User, DELETED_USER_ID } from '../../database/utils';
+import { reinitializeTestDatabase } from '../../database/init';
+
+describe('Account Data', () => {
+  let testUser: User;
+  let userToken: string;
+
+  const authCookie = (token: string) => [`${AUTH_COOKIE_NAME}=${token}`];
+
+  beforeAll(() => {
+    reinitializeTestDatabase();
+  });
+
+  beforeEach(() => {
+    testUser = dbUtils.createUser(`account-${Date.now()}-${Math.random()}@example.com`, 'Account User');
+    userToken = createToken(testUser, 'Test Browser');
+  });
+
+  describe('GET /api/auth/me/export', () => {
+    it('should download the user\'s profile, polls and votes', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'What do you export?', ['Polls', 'Votes']);
+      dbUtils.createVote(testUser.id, poll.id, answers[1].id);
+
+      const response = await request(app)
+        .get('/api/auth/me/export')
+        .set('Cookie', authCookie(userToken))
+        .expect(200);
+
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="everypoll-data-\d{4}-\d{2}-\d{2}\.json"$/);
+      expect(response.body.profile).toEqual(testUser);
+      expect(response.body.polls.map((entry: { poll: { id: string } }) => entry.poll.id)).toEqual([poll.id]);
+      expect(response.body.votes).toEqual([expect.objectContaining({ poll_id: poll.id, answer_text: 'Votes' })]);
+      expect(response.body.sessions).toEqual([expect.objectContaining({ user_agent: 'Test Browser' })]);
+      expect(response.body.exportedAt).toBeDefined();
+    });
+
+    it('should require a logged-in user', async () => {
+      await request(app).get('/api/auth/me/export').expect(401);
+    });
+  });
+
+  describe('DELETE /api/auth/me', () => {
+    it('should require the account\'s email address as confirmation', async () => {
+      for (const body of [{}, { confirmEmail: 'someone-else@example.com' }]) {
+        const response = await request(app)
+          .delete('/api/auth/me')
+          .set('Cookie', authCookie(userToken))
+          .send(body)
+          .expect(400);
+
+        expect(response.body.error).toBe('Confirmation required');
+      }
+
+      await request(app)
+        .delete('/api/auth/me')
+        .set('Cookie', authCookie(userToken))
+        .send({ confirmEmail: testUser.email, deletePolls: 'yes' })
+        .expect(400);
+
+      expect(dbUtils.getUserById(testUser.id)).not.toBeNull();
+    });
+
+    it('should delete the account and log it out', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Kept without an author?', ['Yes', 'No']);
+      dbUtils.createVote(testUser.id, poll.id, answers[0].id);
+
+      const response = await request(app)
+        .delete('/api/auth/me')
+        .set('Cookie', authCookie(userToken))
+        .send({ confirmEmail: testUser.email!.toUpperCase() })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Account deleted',
+        pollsDeleted: 0,
+        pollsReassigned: 1,
+        ballotsAnonymized: 1
+      });
+      expect(response.headers['set-cookie'][0]).toContain(`${AUTH_COOKIE_NAME}=;`);
+      expect(dbUtils.getUserById(testUser.id)).toBeNull();
+      expect(await getSessionFromToken(userToken)).toBeNull();
+      expect(dbUtils.getPollById(poll.id)!.poll.author_id).toBe(DELETED_USER_ID);
+      expect(dbUtils.getVoteCounts(poll.id)).toEqual({ [answers[0].id]: 1 });
+    });
+
+    it('should delete the user\'s polls when asked to', async () => {
+      const { poll } = dbUtils.createPoll(testUser.id, 'Deleted with the account?', ['Yes', 'No']);
+
+      await request(app)
+        .delete('/api/auth/me')
+        .set('Cookie', authCookie(userToken))
+        .send({ confirmEmail: testUser.email, deletePolls: true })
+        .expect(200);
+
+      expect(dbUtils.getPollById(poll.id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { createApiKey, createToken, AUTH_COOKIE_NAME, API_KEY_CONFIG } from '../../auth';
+import { db, dbUtils } from '../../database';
+import { User } from '../../database/utils';
+import { reinitializeTestDatabase } from '../../database/init';
+
+describe('API keys', () => {
+  let testUser: User;
+  let userToken: string;
+
+  const authCookie = (token: string) => [`${AUTH_COOKIE_NAME}=${token}`];
+  const bearer = (key: string) => `Bearer ${key}`;
+
+  beforeAll(() => {
+    reinitializeTestDatabase();
+  });
+
+  beforeEach(() => {
+    testUser = dbUtils.createUser(`api-keys-${Date.now()}-${Math.random()}@example.com`, 'API Key User');
+    userToken = createToken(testUser);
+  });
+
+  describe('POST /api/auth/api-keys', () => {
+    it('should create a key, returning it only once', async () => {
+      const response = await request(app)
+        .post('/api/auth/api-keys')
+        .set('Cookie', authCookie(userToken))
+        .send({ name: ' Nightly export ', scopes: ['polls:read', 'votes:write'] })
+        .expect(201);
+
+      const { apiKey, key } = response.body;
+      expect(key).toMatch(/^ep_[\w-]{43}$/);
+      expect(apiKey).toEqual({
+        id: expect.any(String),
+        name: 'Nightly export',
+        prefix: key.slice(0, 10),
+        scopes: ['polls:read', 'votes:write'],
+        createdAt: expect.any(String),
+        lastUsedAt: null
+      });
+
+      // Only a hash of the key is stored
+      const row = db.prepare('SELECT * FROM ApiKeys WHERE id = ?').get(apiKey.id) as { key_hash: string };
+      expect(row.key_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(row)).not.toContain(key);
+
+      // Listing the keys doesn't return it again
+      const list = await request(app)
+        .get('/api/auth/api-keys')
+        .set('Cookie', authCookie(userToken))
+        .expect(200);
+
+      expect(list.body.apiKeys).toEqual([apiKey]);
+      expect(list.body.availableScopes).toEqual(['polls:read', 'polls:write', 'votes:write']);
+    });
+
+    it('should reject invalid names and scopes', async () => {
+      for (const [body, error] of [
+        [{ scopes: ['polls:read'] }, 'Invalid name'],
+        [{ name: '   ', scopes: ['polls:read'] }, 'Invalid name'],
+        [{ name: 'x'.repeat(101), scopes: ['polls:read'] }, 'Invalid name'],
+        [{ name: 'Key' }, 'Invalid scopes'],
+        [{ name: 'Key', scopes: [] }, 'Invalid scopes'],
+        [{ name: 'Key', scopes: ['polls:read', 'admin'] }, 'Invalid scopes'],
+        [{ name: 'Key', scopes: 'polls:read' }, 'Invalid scopes']
+      ] as const) {
+        const response = await request(app)
+          .post('/api/auth/api-keys')
+          .set('Cookie', authCookie(userToken))
+          .send(body)
+          .expect(400);
+
+        expect(response.body.error).toBe(error);
+      }
+    });
+
+    it('should limit how many keys a user has', async () => {
+      for (let i = 0; i < API_KEY_CONFIG.MAX_KEYS_PER_USER; i++) {
+        createApiKey(testUser.id, `Key ${i}`, ['polls:read']);
+      }
+
+      const response = await request(app)
+        .post('/api/auth/api-keys')
+        .set('Cookie', authCookie(userToken))
+        .send({ name: 'One too many', scopes: ['polls:read'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Too many API keys');
+    });
+
+    it('should require a logged-in user', async () => {
+      await request(app)
+        .post('/api/auth/api-keys')
+        .send({ name: 'Key', scopes: ['polls:read'] })
+        .expect(401);
+    });
+  });
+
+  describe('Bearer authentication', () => {
+    it('should authenticate requests as the key\'s user without cookies', async () => {
+      const { key } = createApiKey(testUser.id, 'Script', ['polls:read']);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', bearer(key))
+        .expect(200);
+
+      expect(response.body).toEqual({
+        id: testUser.id,
+        email: testUser.email,
+        name: testUser.name,
+        role: 'user',
+        isAuthenticated: true
+      });
+      expect(response.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should reject unknown keys', async () => {
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', bearer('ep_unknown'))
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid API key');
+    });
+
+    it('should enforce the key\'s scopes', async () => {
+      const { key: voteKey } = createApiKey(testUser.id, 'Voting bot', ['votes:write']);
+      const { key: pollKey } = createApiKey(testUser.id, 'Poll bot', ['polls:write']);
+
+      // A key without polls:write can't create polls
+      const denied = await request(app)
+        .post('/api/poll')
+        .set('Authorization', bearer(voteKey))
+        .send({ question: 'Created with an API key?', answers: ['Yes', 'No'] })
+        .expect(403);
+
+      expect(denied.body.error).toBe('Insufficient scope');
+      expect(denied.body.message).toContain('polls:write');
+
+      const created = await request(app)
+        .post('/api/poll')
+        .set('Authorization', bearer(pollKey))
+        .send({ question: 'Created with an API key?', answers: ['Yes', 'No'] })
+        .expect(201);
+
+      expect(created.body.poll.author_id).toBe(testUser.id);
+
+      // Voting needs votes:write, which the poll key doesn't have
+      const voteData = { answerId: created.body.answers[0].id };
+
+      await request(app)
+        .post(`/api/poll/${created.body.poll.id}/vote`)
+        .set('Authorization', bearer(pollKey))
+        .send(voteData)
+        .expect(403);
+
+      await request(app)
+        .post(`/api/poll/${created.body.poll.id}/vote`)
+        .set('Authorization', bearer(voteKey))
+        .send(voteData)
+        .expect(201);
+
+      expect(dbUtils.getUserVote(testUser.id, created.body.poll.id)!.answer_id).toBe(voteData.answerId);
+    });
+
+    it('should not let keys manage the account', async () => {
+      const { key } = createApiKey(testUser.id, 'Everything', ['polls:read', 'polls:write', 'votes:write']);
+
+      for (const call of [
+        request(app).get('/api/auth/api-keys'),
+        request(app).post('/api/auth/api-keys').send({ name: 'Another', scopes: ['polls:read'] }),
+        request(app).get('/api/auth/sessions'),
+        request(app).get('/api/auth/me/export')
+      ]) {
+        const response = await call.set('Authorization', bearer(key)).expect(403);
+
+        expect(response.body.error).toBe('Insufficient scope');
+      }
+    });
+
+    it('should record when a key was last used', async () => {
+      const { apiKey, key } = createApiKey(testUser.id, 'Tracked', ['polls:read']);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', bearer(key))
+        .expect(200);
+
+      const [listed] = dbUtils.getApiKeys(testUser.id);
+      expect(listed.id).toBe(apiKey.id);
+      expect(listed.last_used_at).not.toBeNull();
+    });
+  });
+
+  describe('DELETE /api/auth/api-keys/:id', () => {
+    it('should revoke a key, which is then rejected', async () => {
+      const { apiKey, key } = createApiKey(testUser.id, 'Short-lived', ['polls:read']);
+
+      await request(app)
+        .delete(`/api/auth/api-keys/${apiKey.id}`)
+        .set('Cookie', authCookie(userToken))
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', bearer(key))
+        .expect(401);
+
+      expect(dbUtils.getApiKeys(testUser.id)).toEqual([]);
+    });
+
+    it('should not revoke another user\'s key', async () => {
+      const otherUser = dbUtils.createUser(`api-keys-other-${Date.now()}@example.com`, 'Other User');
+      const { apiKey, key } = createApiKey(otherUser.id, 'Not yours', ['polls:read']);
+
+      const response = await request(app)
+        .delete(`/api/auth/api-keys/${apiKey.id}`)
+        .set('Cookie', authCookie(userToken))
+        .expect(404);
+
+      expect(response.body.error).toBe('API key not found');
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', bearer(key))
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request, { Response } from 'supertest';
+import { app } from '../../app';
+import { AUTH_COOKIE_NAME, MAGIC_LINK_CONFIG, createToken, findOrCreateUserFromIdentity } from '../../auth';
+import { db, dbUtils } from '../../database';
+import { reinitializeTestDatabase } from '../../database/init';
+import { createFileTransport, setMailTransport } from '../../mail';
+
+// Finds a cookie set by a response, as "name=value"
+const getSetCookie = (response: Response, name: string): string | undefined => {
+  const cookies = (response.headers['set-cookie'] ?? []) as unknown as string[];
+  return cookies.find(cookie => cookie.startsWith(`${name}=`))?.split(';')[0];
+};
+
+describe('Magic link login', () => {
+  let mailDir: string;
+
+  // Reads the mail sent so far, oldest first
+  const readMail = (): string[] => fs.readdirSync(mailDir)
+    .sort()
+    .map(file => fs.readFileSync(path.join(mailDir, file), 'utf8'));
+
+  // Requests a link and returns the verify path from the email it sends
+  const requestLink = async (email: string, returnTo?: string): Promise<string> => {
+    await request(app)
+      .post('/api/auth/magic-link')
+      .send({ email, returnTo })
+      .expect(200);
+
+    const link = /http:\/\/\S+/.exec(readMail().at(-1)!)![0];
+    const url = new URL(link);
+    return url.pathname + url.search;
+  };
+
+  beforeAll(() => {
+    reinitializeTestDatabase();
+  });
+
+  beforeEach(() => {
+    mailDir = fs.mkdtempSync(path.join(os.tmpdir(), 'everypoll-mail-'));
+    setMailTransport(createFileTransport(mailDir));
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    fs.rmSync(mailDir, { recursive: true, force: true });
+  });
+
+  describe('POST /api/auth/magic-link', () => {
+    it('should email a login link', async () => {
+      const email = `magic-${Date.now()}@example.com`;
+
+      const response = await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+
+      const mail = readMail();
+      expect(mail).toHaveLength(1);
+      expect(mail[0]).toContain(`To: ${email}`);
+      expect(mail[0]).toMatch(/http:\/\/localhost:5000\/api\/auth\/magic-link\/verify\?token=[\w-]{43}/);
+    });
+
+    it('should store only a hash of the token', async () => {
+      const email = `hashed-${Date.now()}@example.com`;
+      const verifyPath = await requestLink(email);
+      const token = new URLSearchParams(verifyPath.split('?')[1]).get('token')!;
+
+      const rows = db.prepare('SELECT * FROM MagicLinkTokens WHERE email = ?').all(email) as { token_hash: string }[];
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(rows)).not.toContain(token);
+    });
+
+    it('should reject invalid email addresses', async () => {
+      for (const email of [undefined, '', 'not-an-email', 'a@b', 'voter@example.com\r\nBcc: all@example.com', 42]) {
+        const response = await request(app)
+          .post('/api/auth/magic-link')
+          .send({ email })
+          .expect(400);
+
+        expect(response.body.error).toBe('Invalid email');
+      }
+      expect(readMail()).toHaveLength(0);
+    });
+
+    it('should limit how many links are sent to the same address', async () => {
+      const email = `limited-${Date.now()}@example.com`;
+
+      for (let i = 0; i < MAGIC_LINK_CONFIG.RATE_LIMIT_MAX; i++) {
+        await request(app)
+          .post('/api/auth/magic-link')
+          // Differently written forms of the address count towards the same limit
+          .send({ email: i % 2 ? email.toUpperCase() : email })
+          .expect(200);
+      }
+
+      const response = await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email })
+        .expect(429);
+
+      expect(response.body.error).toBe('Too many requests');
+      expect(readMail()).toHaveLength(MAGIC_LINK_CONFIG.RATE_LIMIT_MAX);
+
+      // Other addresses are not affected
+      await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email: `other-${email}` })
+        .expect(200);
+    });
+
+    it('should return 500 when the mail cannot be sent', async () => {
+      setMailTransport({ send: () => Promise.reject(new Error('SMTP server unavailable')) });
+
+      const response = await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email: `unsent-${Date.now()}@example.com` })
+        .expect(500);
+
+      expect(response.body.error).toBe('Server error');
+    });
+  });
+
+  describe('GET /api/auth/magic-link/verify', () => {
+    it('should ask to confirm the login without using up the link', async () => {
+      const email = `confirm-${Date.now()}@example.com`;
+      const anonymous = dbUtils.createUser();
+      const verifyPath = await requestLink(email);
+      const token = new URLSearchParams(verifyPath.split('?')[1]).get('token')!;
+
+      // Mail scanners open links too, with or without a cookie
+      for (let i = 0; i < 2; i++) {
+        const response = await request(app)
+          .get(verifyPath)
+          .set('Cookie', `${AUTH_COOKIE_NAME}=${createToken(anonymous)}`)
+          .expect(302);
+
+        expect(response.headers.location).toBe(`/login/email?token=${token}`);
+        expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+      }
+
+      expect(dbUtils.getUserByEmail(email)).toBeNull();
+      expect(dbUtils.getUserById(anonymous.id)).not.toBeNull();
+
+      await request(app)
+        .post('/api/auth/magic-link/verify')
+        .send({ token })
+        .expect(200);
+    });
+
+    it('should send links without a token back with an error', async () => {
+      const response = await request(app)
+        .get('/api/auth/magic-link/verify')
+        .expect(302);
+
+      expect(response.headers.location).toBe('/?auth=error');
+    });
+  });
+
+  describe('POST /api/auth/magic-link/verify', () => {
+    // Confirms the login of a link, as its page does
+    const confirmLink = (verifyPath: string) => request(app)
+      .post('/api/auth/magic-link/verify')
+      .send({ token: new URLSearchParams(verifyPath.split('?')[1]).get('token') });
+
+    it('should log in with the link, creating the user', async () => {
+      const email = `verify-${Date.now()}@example.com`;
+      const verifyPath = await requestLink(email, '/poll/poll-1');
+
+      const response = await confirmLink(verifyPath).expect(200);
+
+      expect(response.body).toEqual({ success: true, returnTo: '/poll/poll-1?auth=success' });
+
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Cookie', getSetCookie(response, AUTH_COOKIE_NAME)!)
+        .expect(200);
+
+      expect(me.body).toMatchObject({ email, isAuthenticated: true });
+      expect(dbUtils.getUserByIdentity('email', email)?.id).toBe(me.body.id);
+    });
+
+    it('should log in to the existing user with the address', async () => {
+      const existingUser = dbUtils.createUser(`existing-magic-${Date.now()}@example.com`, 'Existing User');
+      const verifyPath = await requestLink(existingUser.email!.toUpperCase());
+
+      const response = await confirmLink(verifyPath).expect(200);
+
+      expect(response.body.returnTo).toBe('/?auth=success');
+      expect(dbUtils.getUserByIdentity('email', existingUser.email!)?.id).toBe(existingUser.id);
+    });
+
+    it('should log in to the user of a provider that capitalized the address differently', async () => {
+      const stamp = Date.now();
+      const { user: googleUser } = findOrCreateUserFromIdentity('google', {
+        subject: `google-${stamp}`,
+        email: `Alice-${stamp}@Corp.com`,
+        emailVerified: true,
+        name: 'Alice'
+      });
+      const verifyPath = await requestLink(`alice-${stamp}@corp.com`);
+
+      await confirmLink(verifyPath).expect(200);
+
+      expect(dbUtils.getUserByIdentity('email', `alice-${stamp}@corp.com`)?.id).toBe(googleUser!.id);
+
+      const users = db.prepare('SELECT id FROM Users WHERE lower(email) = ?').all(`alice-${stamp}@corp.com`);
+      expect(users).toHaveLength(1);
+    });
+
+    it('should only work once', async () => {
+      const verifyPath = await requestLink(`once-${Date.now()}@example.com`);
+
+      await confirmLink(verifyPath).expect(200);
+      const response = await confirmLink(verifyPath).expect(400);
+
+      expect(response.body.error).toBe('Invalid login link');
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+    });
+
+    it('should reject expired links', async () => {
+      const email = `expired-${Date.now()}@example.com`;
+      const verifyPath = await requestLink(email);
+      db.prepare('UPDATE MagicLinkTokens SET expires_at = ? WHERE email = ?')
+        .run(new Date(Date.now() - 1000).toISOString(), email);
+
+      const response = await confirmLink(verifyPath).expect(400);
+
+      expect(response.body.error).toBe('Invalid login link');
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+    });
+
+    it('should reject unknown tokens', async () => {
+      for (const body of [{ token: 'unknown' }, { token: 42 }, {}]) {
+        const response = await request(app)
+          .post('/api/auth/magic-link/verify')
+          .send(body)
+          .expect(400);
+
+        expect(response.body.error).toBe('Invalid login link');
+      }
+    });
+
+    it('should merge the anonymous visitor who confirms the login', async () => {
+      const email = `merge-magic-${Date.now()}@example.com`;
+      const anonymous = dbUtils.createUser();
+      const { poll } = dbUtils.createPoll(anonymous.id, 'Asked before logging in by email?', ['Yes', 'No']);
+      const verifyPath = await requestLink(email);
+
+      await confirmLink(verifyPath)
+        .set('Cookie', `${AUTH_COOKIE_NAME}=${createToken(anonymous)}`)
+        .expect(200);
+
+      expect(dbUtils.getUserById(anonymous.id)).toBeNull();
+      expect(dbUtils.getPollById(poll.id)!.poll.author_id).toBe(dbUtils.getUserByEmail(email)!.id);
+    });
+  });
+});
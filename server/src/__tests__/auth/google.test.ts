@@ -1,22 +1,44 @@
-import request from 'supertest';
+import request, { Response } from 'supertest';
 import { app } from '../../app';
-import { AUTH_COOKIE_NAME } from '../../auth';
+import { AUTH_COOKIE_NAME, OAUTH_STATE_COOKIE_NAME, createToken } from '../../auth';
 import { dbUtils } from '../../database';
 import { reinitializeTestDatabase } from '../../database/init';
-import * as googleAuth from '../../auth/google';
+import { googleProvider } from '../../auth/google';
+import { findOrCreateUserFromIdentity, type IdentityProfile } from '../../auth/providers';
 
-// Mock the Google OAuth functions
-jest.mock('../../auth/google', () => {
-  const originalModule = jest.requireActual('../../auth/google');
-  
-  return {
-    __esModule: true,
-    ...originalModule,
-    getGoogleAuthUrl: jest.fn(),
-    getTokensFromCode: jest.fn(),
-    getUserInfoFromToken: jest.fn(),
-    createOrUpdateUserFromGoogle: jest.fn(),
-  };
+const mockGoogleAuthUrl = 'https://accounts.google.com/o/oauth2/auth?mock-url';
+
+// Stand in for Google, whose login page and token endpoint can't be reached in tests
+const getAuthUrl = jest.spyOn(googleProvider, 'getAuthUrl');
+const getProfile = jest.spyOn(googleProvider, 'getProfile');
+
+// Finds a cookie set by a response, as "name=value"
+const getSetCookie = (response: Response, name: string): string | undefined => {
+  const cookies = (response.headers['set-cookie'] ?? []) as unknown as string[];
+  return cookies.find(cookie => cookie.startsWith(`${name}=`))?.split(';')[0];
+};
+
+// Starts a login like the browser would, returning the state parameter sent to Google
+// and the cookie the callback checks it against
+const startLogin = async (path = '/api/auth/login', authCookie?: string) => {
+  getAuthUrl.mockResolvedValue(mockGoogleAuthUrl);
+
+  const loginRequest = request(app).get(path);
+  if (authCookie) {
+    loginRequest.set('Cookie', authCookie);
+  }
+  const response = await loginRequest.expect(302);
+
+  const [{ state }] = getAuthUrl.mock.calls.at(-1)!;
+  return { state, cookie: getSetCookie(response, OAUTH_STATE_COOKIE_NAME)! };
+};
+
+// A verified Google account
+const googleProfile = (email: string, name = 'Test User'): IdentityProfile => ({
+  subject: `google-${email}`,
+  email,
+  emailVerified: true,
+  name
 });
 
 describe('Google OAuth Integration', () => {
@@ -30,11 +52,14 @@ describe('Google OAuth Integration', () => {
     jest.clearAllMocks();
   });
 
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('GET /api/auth/login', () => {
     it('should redirect to Google login', async () => {
       // Mock the Google auth URL
-      const mockGoogleAuthUrl = 'https://accounts.google.com/o/oauth2/auth?mock-url';
-      (googleAuth.getGoogleAuthUrl as jest.Mock).mockReturnValue(mockGoogleAuthUrl);
+      getAuthUrl.mockResolvedValue(mockGoogleAuthUrl);
       
       const response = await request(app)
         .get('/api/auth/login')
@@ -43,175 +68,302 @@ describe('Google OAuth Integration', () => {
       // Verify that it redirects to the Google auth URL
       expect(response.headers.location).toBe(mockGoogleAuthUrl);
       
-      // Verify that the getGoogleAuthUrl function was called
-      expect(googleAuth.getGoogleAuthUrl).toHaveBeenCalled();
+      // Verify that the auth URL was built with a random state and a PKCE challenge
+      expect(getAuthUrl).toHaveBeenCalledWith({
+        state: expect.stringMatching(/^[\w-]{43}$/),
+        nonce: expect.stringMatching(/^[\w-]{43}$/),
+        codeChallenge: expect.stringMatching(/^[\w-]{43}$/)
+      });
+      
+      // The state is remembered in a short-lived cookie that is sent on the redirect back
+      const stateCookie = (response.headers['set-cookie'] as unknown as string[])
+        .find(cookie => cookie.startsWith(`${OAUTH_STATE_COOKIE_NAME}=`));
+      expect(stateCookie).toContain('HttpOnly');
+      expect(stateCookie).toContain('SameSite=Lax');
+      expect(stateCookie).toContain('Max-Age=600');
+    });
+
+    it('should also be reachable as a named provider', async () => {
+      getAuthUrl.mockResolvedValue(mockGoogleAuthUrl);
+
+      const response = await request(app)
+        .get('/api/auth/login/google')
+        .expect(302);
+
+      expect(response.headers.location).toBe(mockGoogleAuthUrl);
+    });
+
+    it('should use a different state for every login', async () => {
+      const first = await startLogin();
+      const second = await startLogin();
+
+      expect(first.state).not.toBe(second.state);
+    });
+
+    it('should return 404 for an unknown provider', async () => {
+      const response = await request(app)
+        .get('/api/auth/login/unknown')
+        .expect(404);
+
+      expect(response.body.error).toBe('Provider not found');
+      expect(getSetCookie(response, OAUTH_STATE_COOKIE_NAME)).toBeUndefined();
+    });
+  });
+
+  describe('GET /api/auth/providers', () => {
+    it('should list Google', async () => {
+      const response = await request(app)
+        .get('/api/auth/providers')
+        .expect(200);
+
+      expect(response.body.providers).toContainEqual({ id: 'google', displayName: 'Google' });
     });
   });
 
   describe('GET /api/auth/callback', () => {
     it('should handle successful Google authentication', async () => {
-      // Mock Google's responses
       const mockCode = 'mock-auth-code';
-      const mockAccessToken = 'mock-access-token';
-      const mockUserInfo = {
-        id: 'google-123',
-        email: 'test@example.com',
-        name: 'Test User',
-        picture: 'https://example.com/profile.jpg'
-      };
-      const mockUser = {
-        id: 'user-123',
-        email: 'test@example.com',
-        name: 'Test User'
-      };
-      
-      // Set up mocks
-      (googleAuth.getTokensFromCode as jest.Mock).mockResolvedValue({ 
-        tokens: { access_token: mockAccessToken } 
-      });
-      (googleAuth.getUserInfoFromToken as jest.Mock).mockResolvedValue(mockUserInfo);
-      (googleAuth.createOrUpdateUserFromGoogle as jest.Mock).mockResolvedValue(mockUser);
+      const email = `google-success-${Date.now()}@example.com`;
+      getProfile.mockResolvedValue(googleProfile(email));
+      
+      // Start the login from a poll page
+      const { state, cookie } = await startLogin('/api/auth/login?returnTo=%2Fpoll%2Fpoll-123');
       
       // Test the callback route
       const response = await request(app)
-        .get(`/api/auth/callback?code=${mockCode}`)
+        .get(`/api/auth/callback?code=${mockCode}&state=${state}`)
+        .set('Cookie', cookie)
         .expect(302); // Redirect status
       
-      // Verify that it redirects to the success URL
-      expect(response.headers.location).toBe('/?auth=success');
+      // Verify that it redirects back to the poll
+      expect(response.headers.location).toBe('/poll/poll-123?auth=success');
       
-      // Verify that the JWT token was set in cookies
-      expect(response.headers['set-cookie']).toBeDefined();
-      expect(response.headers['set-cookie'][0]).toContain(AUTH_COOKIE_NAME);
+      // Verify that the JWT token was set in cookies and the state cleared
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeDefined();
+      expect(getSetCookie(response, OAUTH_STATE_COOKIE_NAME)).toBe(`${OAUTH_STATE_COOKIE_NAME}=`);
       
-      // Verify that all necessary functions were called with the right parameters
-      expect(googleAuth.getTokensFromCode).toHaveBeenCalledWith(mockCode);
-      expect(googleAuth.getUserInfoFromToken).toHaveBeenCalledWith(mockAccessToken);
-      expect(googleAuth.createOrUpdateUserFromGoogle).toHaveBeenCalledWith(mockUserInfo);
+      // The code is exchanged with the login attempt's nonce and PKCE verifier
+      expect(getProfile).toHaveBeenCalledWith({
+        code: mockCode,
+        nonce: state,
+        codeVerifier: expect.stringMatching(/^[\w~.-]{43,128}$/)
+      });
+
+      // The user is created and linked to the Google account
+      const user = dbUtils.getUserByEmail(email);
+      expect(user).not.toBeNull();
+      expect(dbUtils.getUserByIdentity('google', `google-${email}`)?.id).toBe(user!.id);
+    });
+
+    it('should only return to paths on this site', async () => {
+      getProfile.mockResolvedValue(googleProfile(`google-return-${Date.now()}@example.com`));
+
+      for (const returnTo of ['https://evil.example', '//evil.example', '/\\evil.example', '/%09/evil.example', '/\t/evil.example']) {
+        const { state, cookie } = await startLogin(`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`);
+
+        const response = await request(app)
+          .get(`/api/auth/callback?code=valid-code&state=${state}`)
+          .set('Cookie', cookie)
+          .expect(302);
+
+        expect(response.headers.location).toMatch(/^\/(%09\/evil\.example)?\?auth=success$/);
+      }
+    });
+
+    it('should reject callbacks whose state does not match the state cookie', async () => {
+      const { cookie } = await startLogin();
+      const other = await startLogin();
+
+      for (const callback of [
+        request(app).get(`/api/auth/callback?code=valid-code&state=${other.state}`).set('Cookie', cookie),
+        request(app).get('/api/auth/callback?code=valid-code').set('Cookie', cookie),
+        request(app).get(`/api/auth/callback?code=valid-code&state=${other.state}`)
+      ]) {
+        const response = await callback.expect(302);
+
+        expect(response.headers.location).toBe('/?auth=error');
+        expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+      }
+
+      // The code is never exchanged
+      expect(getProfile).not.toHaveBeenCalled();
     });
     
     it('should handle error from Google', async () => {
+      const { state, cookie } = await startLogin();
+
       const response = await request(app)
-        .get('/api/auth/callback?error=access_denied')
+        .get(`/api/auth/callback?error=access_denied&state=${state}`)
+        .set('Cookie', cookie)
         .expect(302); // Redirect status
       
       // Verify that it redirects to the error URL
       expect(response.headers.location).toBe('/?auth=error');
       
       // No auth cookie should be set
-      expect(response.headers['set-cookie']).toBeUndefined();
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
     });
     
     it('should handle missing code parameter', async () => {
+      const { state, cookie } = await startLogin();
+
       const response = await request(app)
-        .get('/api/auth/callback')
+        .get(`/api/auth/callback?state=${state}`)
+        .set('Cookie', cookie)
         .expect(302); // Redirect status
       
       // Verify that it redirects to the error URL
       expect(response.headers.location).toBe('/?auth=error');
       
       // No auth cookie should be set
-      expect(response.headers['set-cookie']).toBeUndefined();
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
     });
     
-    it('should handle token exchange failure', async () => {
-      // Mock token exchange failure
-      (googleAuth.getTokensFromCode as jest.Mock).mockResolvedValue({ 
-        tokens: null, 
-        error: 'Invalid authorization code' 
-      });
+    it('should handle a code that cannot be exchanged', async () => {
+      getProfile.mockResolvedValue(null);
+      const { state, cookie } = await startLogin();
       
       const response = await request(app)
-        .get('/api/auth/callback?code=invalid-code')
+        .get(`/api/auth/callback?code=invalid-code&state=${state}`)
+        .set('Cookie', cookie)
         .expect(302); // Redirect status
       
       // Verify that it redirects to the error URL
       expect(response.headers.location).toBe('/?auth=error');
       
       // Verify the function was called
-      expect(googleAuth.getTokensFromCode).toHaveBeenCalledWith('invalid-code');
+      expect(getProfile).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid-code' }));
       
       // No auth cookie should be set
-      expect(response.headers['set-cookie']).toBeUndefined();
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
     });
-    
-    it('should handle user info retrieval failure', async () => {
-      // Mock successful token exchange but failed user info retrieval
-      (googleAuth.getTokensFromCode as jest.Mock).mockResolvedValue({ 
-        tokens: { access_token: 'valid-token' } 
+
+    it('should reject accounts without a verified email address', async () => {
+      getProfile.mockResolvedValue({
+        ...googleProfile(`google-unverified-${Date.now()}@example.com`),
+        emailVerified: false
       });
-      (googleAuth.getUserInfoFromToken as jest.Mock).mockResolvedValue(null);
-      
+      const { state, cookie } = await startLogin();
+
       const response = await request(app)
-        .get('/api/auth/callback?code=valid-code')
-        .expect(302); // Redirect status
-      
-      // Verify that it redirects to the error URL
+        .get(`/api/auth/callback?code=valid-code&state=${state}`)
+        .set('Cookie', cookie)
+        .expect(302);
+
       expect(response.headers.location).toBe('/?auth=error');
-      
-      // Verify functions were called
-      expect(googleAuth.getTokensFromCode).toHaveBeenCalledWith('valid-code');
-      expect(googleAuth.getUserInfoFromToken).toHaveBeenCalledWith('valid-token');
-      
-      // No auth cookie should be set
-      expect(response.headers['set-cookie']).toBeUndefined();
+      expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+    });
+
+    it('should reject a state started at another provider', async () => {
+      const { state, cookie } = await startLogin();
+
+      const response = await request(app)
+        .get(`/api/auth/callback/unknown?code=valid-code&state=${state}`)
+        .set('Cookie', cookie)
+        .expect(302);
+
+      expect(response.headers.location).toBe('/?auth=error');
+      expect(getProfile).not.toHaveBeenCalled();
+    });
+
+    it('should merge the anonymous visitor into the account they log in to', async () => {
+      const timestamp = Date.now();
+      const account = dbUtils.createUser(`merged-${timestamp}@example.com`, 'Merged User');
+      const anonymous = dbUtils.createUser();
+      const { poll, answers } = dbUtils.createPoll(anonymous.id, 'Asked before logging in?', ['Yes', 'No']);
+      dbUtils.createVote(anonymous.id, poll.id, answers[0].id);
+
+      getProfile.mockResolvedValue(googleProfile(account.email!, account.name!));
+
+      // The visitor's own cookie is sent when starting the login, but not on the
+      // cross-site redirect back from Google
+      const { state, cookie } = await startLogin('/api/auth/login', `${AUTH_COOKIE_NAME}=${createToken(anonymous)}`);
+
+      const response = await request(app)
+        .get(`/api/auth/callback?code=valid-code&state=${state}`)
+        .set('Cookie', cookie)
+        .expect(302);
+
+      expect(response.headers.location).toBe('/?auth=success');
+      expect(dbUtils.getUserById(anonymous.id)).toBeNull();
+      expect(dbUtils.getPollById(poll.id)!.poll.author_id).toBe(account.id);
+      expect(dbUtils.getUserVote(account.id, poll.id)!.answer_id).toBe(answers[0].id);
     });
   });
 
   describe('User Management', () => {
-    it('should create a new user from Google profile', async () => {
-      // Setup
-      const timestamp = Date.now();
-      const googleInfo = {
-        id: 'google-new-user',
-        email: `new-user-${timestamp}@example.com`,
-        name: 'New User'
-      };
-      
-      // Use the actual implementation for this test
-      const createOrUpdateUserFromGoogle = jest.requireActual('../../auth/google').createOrUpdateUserFromGoogle;
+    it('should create a new user from a provider account', () => {
+      const profile = googleProfile(`new-user-${Date.now()}@example.com`, 'New User');
       
-      // Call the function directly
-      const user = await createOrUpdateUserFromGoogle(googleInfo);
+      const { user } = findOrCreateUserFromIdentity('google', profile);
       
       // Verify user was created correctly
-      expect(user).toBeDefined();
-      expect(user.email).toBe(googleInfo.email);
-      expect(user.name).toBe(googleInfo.name);
+      expect(user).not.toBeNull();
+      expect(user!.email).toBe(profile.email);
+      expect(user!.name).toBe(profile.name);
       
-      // Verify user exists in database
-      const dbUser = dbUtils.getUserByEmail(googleInfo.email);
-      expect(dbUser).not.toBeNull();
-      expect(dbUser?.email).toBe(googleInfo.email);
+      // Verify the account is linked to the user
+      expect(dbUtils.getUserIdentities(user!.id)).toEqual([
+        expect.objectContaining({ provider: 'google', subject: profile.subject, email: profile.email })
+      ]);
     });
     
-    it('should update an existing user from Google profile', async () => {
-      // Create a user first
-      const timestamp = Date.now();
-      const existingUser = dbUtils.createUser(`existing-${timestamp}@example.com`, 'Old Name');
+    it('should link an existing user with the same verified email', () => {
+      const existingUser = dbUtils.createUser(`existing-${Date.now()}@example.com`, 'Old Name');
       
-      // Setup Google profile with updated name
-      const googleInfo = {
-        id: 'google-existing-user',
-        email: existingUser.email!,
-        name: 'Updated Name'
-      };
-      
-      // Use the actual implementation for this test
-      const createOrUpdateUserFromGoogle = jest.requireActual('../../auth/google').createOrUpdateUserFromGoogle;
-      
-      // Call the function directly
-      const updatedUser = await createOrUpdateUserFromGoogle(googleInfo);
+      const { user } = findOrCreateUserFromIdentity('google', googleProfile(existingUser.email!, 'Updated Name'));
       
       // Verify user was updated correctly
-      expect(updatedUser).toBeDefined();
-      expect(updatedUser.id).toBe(existingUser.id); // Same user ID
-      expect(updatedUser.email).toBe(existingUser.email); // Same email
-      expect(updatedUser.name).toBe(googleInfo.name); // Updated name
-      
-      // Verify user was updated in database
-      const dbUser = dbUtils.getUserById(existingUser.id);
-      expect(dbUser?.name).toBe(googleInfo.name);
+      expect(user!.id).toBe(existingUser.id); // Same user ID
+      expect(user!.name).toBe('Updated Name'); // Updated name
+      expect(dbUtils.getUserByIdentity('google', `google-${existingUser.email}`)?.id).toBe(existingUser.id);
+    });
+
+    it('should not link an existing user by an unverified email', () => {
+      const existingUser = dbUtils.createUser(`unverified-${Date.now()}@example.com`, 'Owner');
+
+      const { user, error } = findOrCreateUserFromIdentity('sso', {
+        subject: 'attacker',
+        email: existingUser.email,
+        emailVerified: false,
+        name: 'Attacker'
+      });
+
+      expect(user).toBeNull();
+      expect(error).toBeDefined();
+      expect(dbUtils.getUserById(existingUser.id)!.name).toBe('Owner');
+      expect(dbUtils.getUserByIdentity('sso', 'attacker')).toBeNull();
+    });
+
+    it('should require an email address for new users', () => {
+      const { user } = findOrCreateUserFromIdentity('sso', {
+        subject: 'no-email',
+        email: null,
+        emailVerified: false,
+        name: 'No Email'
+      });
+
+      expect(user).toBeNull();
+    });
+
+    it('should find a linked user by the account even after its email changes', () => {
+      const email = `linked-${Date.now()}@example.com`;
+      const { user: first } = findOrCreateUserFromIdentity('sso', {
+        subject: 'linked-subject',
+        email,
+        emailVerified: true,
+        name: 'Linked'
+      });
+
+      const { user: second } = findOrCreateUserFromIdentity('sso', {
+        subject: 'linked-subject',
+        email: `changed-${email}`,
+        emailVerified: false,
+        name: 'Linked'
+      });
+
+      expect(second!.id).toBe(first!.id);
+      expect(dbUtils.getUserIdentities(first!.id)[0].email).toBe(`changed-${email}`);
     });
   });
 });
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request, { Response } from 'supertest';
+import { app } from '../../app';
+import {
+  AUTH_COOKIE_NAME,
+  OAUTH_STATE_COOKIE_NAME,
+  createOidcProvider,
+  registerIdentityProvider,
+  unregisterIdentityProvider
+} from '../../auth';
+import { dbUtils } from '../../database';
+import { reinitializeTestDatabase } from '../../database/init';
+
+const CLIENT_ID = 'everypoll-test';
+const CLIENT_SECRET = 'test-secret';
+const REDIRECT_URI = 'http://localhost/api/auth/callback/test-sso';
+
+// The account that logs in at the mock provider
+interface MockAccount {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+// A login approved at the authorization endpoint, waiting for its code to be exchanged
+interface PendingCode {
+  account: MockAccount;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+/**
+ * A local OpenID Connect provider, serving discovery, authorization, token and
+ * userinfo endpoints for the login flow
+ */
+const createMockOidcServer = () => {
+  const mock = {
+    issuer: '',
+    account: { sub: 'subject-1' } as MockAccount,
+    // Nonce to put in ID tokens instead of the one the login was started with
+    nonceOverride: null as string | null,
+    codes: new Map<string, PendingCode>(),
+    accessTokens: new Map<string, MockAccount>()
+  };
+
+  const oidcApp = express();
+  oidcApp.use(express.urlencoded({ extended: false }));
+
+  oidcApp.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer: mock.issuer,
+      authorization_endpoint: `${mock.issuer}/authorize`,
+      token_endpoint: `${mock.issuer}/token`,
+      userinfo_endpoint: `${mock.issuer}/userinfo`
+    });
+  });
+
+  // Approves every login as the current account
+  oidcApp.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query as Record<string, string>;
+
+    if (client_id !== CLIENT_ID || code_challenge_method !== 'S256') {
+      return res.status(400).send('invalid_request');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    mock.codes.set(code, { account: mock.account, nonce, codeChallenge: code_challenge, redirectUri: redirect_uri });
+    res.redirect(`${redirect_uri}?code=${code}&state=${encodeURIComponent(state)}`);
+  });
+
+  oidcApp.post('/token', (req, res) => {
+    const credentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
+    const pending = mock.codes.get(req.body.code);
+    mock.codes.delete(req.body.code);
+
+    const challenge = crypto.createHash('sha256').update(req.body.code_verifier ?? '').digest('base64url');
+
+    if (req.get('authorization') !== `Basic ${credentials}`) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    if (!pending || pending.redirectUri !== req.body.redirect_uri || pending.codeChallenge !== challenge) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    mock.accessTokens.set(accessToken, pending.account);
+
+    res.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      id_token: jwt.sign(
+        { sub: pending.account.sub, nonce: mock.nonceOverride ?? pending.nonce },
+        'mock-signing-key',
+        { issuer: mock.issuer, audience: CLIENT_ID, expiresIn: 300 }
+      )
+    });
+  });
+
+  oidcApp.get('/userinfo', (req, res) => {
+    const account = mock.accessTokens.get(req.get('authorization')?.replace('Bearer ', '') ?? '');
+    if (!account) {
+      return res.status(401).json({ error: 'invalid_token' });
+    }
+    res.json(account);
+  });
+
+  return { mock, oidcApp };
+};
+
+// Finds a cookie set by a response, as "name=value"
+const getSetCookie = (response: Response, name: string): string | undefined => {
+  const cookies = (response.headers['set-cookie'] ?? []) as unknown as string[];
+  return cookies.find(cookie => cookie.startsWith(`${name}=`))?.split(';')[0];
+};
+
+describe('OpenID Connect login', () => {
+  const { mock, oidcApp } = createMockOidcServer();
+  let server: Server;
+
+  // Logs in at the mock provider like a browser would, returning the callback's response
+  const logIn = async (providerId = 'test-sso') => {
+    const login = await request(app)
+      .get('/api/auth/login/test-sso?returnTo=%2Fpoll%2Fpoll-1')
+      .expect(302);
+    const stateCookie = getSetCookie(login, OAUTH_STATE_COOKIE_NAME)!;
+
+    const authorization = await fetch(login.headers.location, { redirect: 'manual' });
+    const callback = new URL(authorization.headers.get('location')!);
+
+    return request(app)
+      .get(`/api/auth/callback/${providerId}${callback.search}`)
+      .set('Cookie', stateCookie)
+      .expect(302);
+  };
+
+  beforeAll(async () => {
+    reinitializeTestDatabase();
+
+    server = oidcApp.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    mock.issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    registerIdentityProvider(createOidcProvider({
+      id: 'test-sso',
+      displayName: 'Test SSO',
+      issuer: mock.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      redirectUri: REDIRECT_URI,
+      scopes: 'openid email profile',
+      trustEmail: false
+    }));
+  });
+
+  beforeEach(() => {
+    mock.nonceOverride = null;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    unregisterIdentityProvider('test-sso');
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should list the provider', async () => {
+    const response = await request(app)
+      .get('/api/auth/providers')
+      .expect(200);
+
+    expect(response.body.providers).toContainEqual({ id: 'test-sso', displayName: 'Test SSO' });
+  });
+
+  it('should redirect to the authorization endpoint from the discovery document', async () => {
+    const response = await request(app)
+      .get('/api/auth/login/test-sso')
+      .expect(302);
+
+    const authUrl = new URL(response.headers.location);
+    expect(authUrl.origin + authUrl.pathname).toBe(`${mock.issuer}/authorize`);
+    expect(Object.fromEntries(authUrl.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid email profile',
+      state: expect.stringMatching(/^[\w-]{43}$/),
+      nonce: authUrl.searchParams.get('state'),
+      code_challenge: expect.stringMatching(/^[\w-]{43}$/),
+      code_challenge_method: 'S256'
+    });
+  });
+
+  it('should log in with a verified account, linking it to a new user', async () => {
+    const email = `sso-${Date.now()}@example.com`;
+    mock.account = { sub: `sso-new-${email}`, email, email_verified: true, name: 'SSO User' };
+
+    const response = await logIn();
+
+    expect(response.headers.location).toBe('/poll/poll-1?auth=success');
+    const authCookie = getSetCookie(response, AUTH_COOKIE_NAME)!;
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Cookie', authCookie)
+      .expect(200);
+
+    expect(me.body).toMatchObject({ email, name: 'SSO User', isAuthenticated: true });
+    expect(dbUtils.getUserByIdentity('test-sso', mock.account.sub)?.id).toBe(me.body.id);
+  });
+
+  it('should log back in to the same user by subject', async () => {
+    const email = `sso-returning-${Date.now()}@example.com`;
+    mock.account = { sub: `sso-returning-${email}`, email, email_verified: true, name: 'Returning' };
+    await logIn();
+    const user = dbUtils.getUserByEmail(email)!;
+
+    // The directory renamed the account; it is still the same user
+    mock.account = { ...mock.account, name: 'Renamed' };
+    const response = await logIn();
+
+    expect(response.headers.location).toBe('/poll/poll-1?auth=success');
+    expect(dbUtils.getUserByIdentity('test-sso', mock.account.sub)).toMatchObject({ id: user.id, name: 'Renamed' });
+  });
+
+  it('should reject an unverified email address', async () => {
+    mock.account = { sub: 'sso-unverified', email: `sso-unverified-${Date.now()}@example.com`, email_verified: false };
+
+    const response = await logIn();
+
+    expect(response.headers.location).toBe('/poll/poll-1?auth=error');
+    expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+  });
+
+  it('should reject an ID token issued for another login attempt', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mock.account = { sub: 'sso-nonce', email: `sso-nonce-${Date.now()}@example.com`, email_verified: true };
+    mock.nonceOverride = 'another-nonce';
+
+    const response = await logIn();
+
+    expect(response.headers.location).toBe('/poll/poll-1?auth=error');
+    expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+    expect(dbUtils.getUserByIdentity('test-sso', 'sso-nonce')).toBeNull();
+  });
+
+  it('should reject a code the token endpoint refuses', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const login = await request(app)
+      .get('/api/auth/login/test-sso')
+      .expect(302);
+    const state = new URL(login.headers.location).searchParams.get('state')!;
+
+    const response = await request(app)
+      .get(`/api/auth/callback/test-sso?code=unknown-code&state=${state}`)
+      .set('Cookie', getSetCookie(login, OAUTH_STATE_COOKIE_NAME)!)
+      .expect(302);
+
+    expect(response.headers.location).toBe('/?auth=error');
+    expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+  });
+
+  it('should not finish a login at another provider\'s callback', async () => {
+    mock.account = { sub: 'sso-mismatch', email: `sso-mismatch-${Date.now()}@example.com`, email_verified: true };
+
+    const response = await logIn('google');
+
+    expect(response.headers.location).toBe('/?auth=error');
+    expect(getSetCookie(response, AUTH_COOKIE_NAME)).toBeUndefined();
+    expect(dbUtils.getUserByIdentity('test-sso', 'sso-mismatch')).toBeNull();
+  });
+});
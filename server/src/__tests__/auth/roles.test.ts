@@ -0,0 +1,213 @@
+import request from 'supertest';
+import { app } from '../../app';
+import {
+  createApiKey,
+  createToken,
+  canManagePoll,
+  canSetRole,
+  hasRole,
+  AUTH_COOKIE_NAME
+} from '../../auth';
+import { dbUtils } from '../../database';
+import { DELETED_USER_ID, User, UserRole } from '../../database/utils';
+import { reinitializeTestDatabase } from '../../database/init';
+import { promoteToAdmin } from '../../scripts/promote-admin';
+
+describe('Roles', () => {
+  let author: User;
+  let user: User;
+  let moderator: User;
+  let admin: User;
+
+  const authCookie = (someone: User) => [`${AUTH_COOKIE_NAME}=${createToken(someone)}`];
+
+  const createUserWithRole = (role: UserRole): User => {
+    const created = dbUtils.createUser(`${role}-${Date.now()}-${Math.random()}@example.com`, `Test ${role}`);
+    return dbUtils.setUserRole(created.id, role)!;
+  };
+
+  beforeAll(() => {
+    reinitializeTestDatabase();
+  });
+
+  beforeEach(() => {
+    author = createUserWithRole('user');
+    user = createUserWithRole('user');
+    moderator = createUserWithRole('moderator');
+    admin = createUserWithRole('admin');
+  });
+
+  describe('Policy', () => {
+    it('should give new users the user role', () => {
+      expect(dbUtils.createUser(`new-user-${Date.now()}@example.com`).role).toBe('user');
+      expect(dbUtils.createUser().role).toBe('user');
+    });
+
+    it('should rank roles', () => {
+      expect(hasRole(user, 'user')).toBe(true);
+      expect(hasRole(user, 'moderator')).toBe(false);
+      expect(hasRole(moderator, 'moderator')).toBe(true);
+      expect(hasRole(moderator, 'admin')).toBe(false);
+      expect(hasRole(admin, 'moderator')).toBe(true);
+      expect(hasRole(null, 'user')).toBe(false);
+    });
+
+    it('should let authors manage their polls and moderators manage any poll but not edit it', () => {
+      const { poll } = dbUtils.createPoll(author.id, 'Policy question?', ['Yes', 'No']);
+
+      for (const action of ['edit', 'close', 'delete', 'review-write-ins'] as const) {
+        expect(canManagePoll(author, poll, action)).toBe(true);
+        expect(canManagePoll(user, poll, action)).toBe(false);
+        expect(canManagePoll(undefined, poll, action)).toBe(false);
+        expect(canManagePoll(moderator, poll, action)).toBe(action !== 'edit');
+        expect(canManagePoll(admin, poll, action)).toBe(action !== 'edit');
+      }
+    });
+
+    it('should only let admins change the roles of other users who have logged in', () => {
+      expect(canSetRole(admin, user)).toBe(true);
+      expect(canSetRole(admin, moderator)).toBe(true);
+      expect(canSetRole(moderator, user)).toBe(false);
+      expect(canSetRole(admin, admin)).toBe(false);
+      expect(canSetRole(admin, dbUtils.createUser())).toBe(false);
+      expect(canSetRole(admin, dbUtils.getUserById(DELETED_USER_ID)!)).toBe(false);
+    });
+  });
+
+  describe('Poll moderation', () => {
+    it('should let moderators close and delete polls of other users', async () => {
+      const { poll } = dbUtils.createPoll(author.id, 'Moderated question?', ['Yes', 'No']);
+
+      await request(app)
+        .post(`/api/poll/${poll.id}/close`)
+        .set('Cookie', authCookie(moderator))
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/poll/${poll.id}`)
+        .set('Cookie', authCookie(moderator))
+        .expect(200);
+
+      expect(dbUtils.getPollById(poll.id)).toBeNull();
+    });
+
+    it('should not let moderators edit polls of other users', async () => {
+      const { poll } = dbUtils.createPoll(author.id, 'Original question?', ['Yes', 'No']);
+
+      const response = await request(app)
+        .patch(`/api/poll/${poll.id}`)
+        .set('Cookie', authCookie(moderator))
+        .send({ question: 'Changed question?' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Not poll author');
+      expect(dbUtils.getPollById(poll.id)!.poll.question).toBe('Original question?');
+    });
+
+    it('should not let other users close polls', async () => {
+      const { poll } = dbUtils.createPoll(author.id, 'Still open?', ['Yes', 'No']);
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/close`)
+        .set('Cookie', authCookie(user))
+        .expect(403);
+
+      expect(response.body.error).toBe('Not poll author');
+    });
+  });
+
+  describe('PUT /api/auth/user/:id/role', () => {
+    it('should let admins change the role of another user', async () => {
+      const response = await request(app)
+        .put(`/api/auth/user/${user.id}/role`)
+        .set('Cookie', authCookie(admin))
+        .send({ role: 'moderator' })
+        .expect(200);
+
+      expect(response.body).toEqual({ id: user.id, name: user.name, role: 'moderator' });
+      expect(dbUtils.getUserById(user.id)!.role).toBe('moderator');
+
+      // The new role shows up for the user
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Cookie', authCookie(user))
+        .expect(200);
+
+      expect(me.body.role).toBe('moderator');
+    });
+
+    it('should require the admin role', async () => {
+      await request(app)
+        .put(`/api/auth/user/${user.id}/role`)
+        .send({ role: 'admin' })
+        .expect(401);
+
+      for (const someone of [user, moderator]) {
+        const response = await request(app)
+          .put(`/api/auth/user/${user.id}/role`)
+          .set('Cookie', authCookie(someone))
+          .send({ role: 'admin' })
+          .expect(403);
+
+        expect(response.body.error).toBe('Insufficient role');
+      }
+
+      expect(dbUtils.getUserById(user.id)!.role).toBe('user');
+    });
+
+    it('should not accept API keys, whatever their scopes', async () => {
+      const { key } = createApiKey(admin.id, 'Admin key', ['polls:read', 'polls:write', 'votes:write']);
+
+      const response = await request(app)
+        .put(`/api/auth/user/${user.id}/role`)
+        .set('Authorization', `Bearer ${key}`)
+        .send({ role: 'admin' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Insufficient scope');
+    });
+
+    it('should reject invalid roles, unknown users and users that cannot have a role', async () => {
+      const invalid = await request(app)
+        .put(`/api/auth/user/${user.id}/role`)
+        .set('Cookie', authCookie(admin))
+        .send({ role: 'owner' })
+        .expect(400);
+      expect(invalid.body.error).toBe('Invalid role');
+
+      const unknown = await request(app)
+        .put('/api/auth/user/no-such-user/role')
+        .set('Cookie', authCookie(admin))
+        .send({ role: 'moderator' })
+        .expect(404);
+      expect(unknown.body.error).toBe('User not found');
+
+      for (const target of [admin, dbUtils.createUser()]) {
+        const response = await request(app)
+          .put(`/api/auth/user/${target.id}/role`)
+          .set('Cookie', authCookie(admin))
+          .send({ role: 'user' })
+          .expect(403);
+        expect(response.body.error).toBe('Role cannot be changed');
+      }
+
+      expect(dbUtils.getUserById(admin.id)!.role).toBe('admin');
+    });
+  });
+
+  describe('promoteToAdmin', () => {
+    it('should promote a user by ID or email address', () => {
+      expect(promoteToAdmin(user.id).role).toBe('admin');
+      expect(promoteToAdmin(` ${author.email!.toUpperCase()} `).id).toBe(author.id);
+      expect(dbUtils.getUserById(author.id)!.role).toBe('admin');
+    });
+
+    it('should refuse unknown and anonymous users', () => {
+      const anonymous = dbUtils.createUser();
+
+      expect(() => promoteToAdmin('nobody@example.com')).toThrow('No user who has logged in');
+      expect(() => promoteToAdmin(anonymous.id)).toThrow('No user who has logged in');
+      expect(dbUtils.getUserById(anonymous.id)!.role).toBe('user');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import request from 'supertest';
+import { app } from '../../app';
+import {
+  createToken,
+  verifyToken,
+  getSessionFromToken,
+  refreshSession,
+  AUTH_COOKIE_NAME,
+  SESSION_CONFIG
+} from '../../auth';
+import { db, dbUtils } from '../../database';
+import { User } from '../../database/utils';
+import { reinitializeTestDatabase } from '../../database/init';
+
+describe('Sessions', () => {
+  let testUser: User;
+  let userToken: string;
+
+  const authCookie = (token: string) => [`${AUTH_COOKIE_NAME}=${token}`];
+
+  beforeAll(() => {
+    reinitializeTestDatabase();
+  });
+
+  beforeEach(() => {
+    testUser = dbUtils.createUser(`sessions-${Date.now()}-${Math.random()}@example.com`, 'Session User');
+    userToken = createToken(testUser, 'Test Browser');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start a session for each token', () => {
+    const payload = verifyToken(userToken)!;
+    const session = dbUtils.getSessionById(payload.sessionId)!;
+
+    expect(session.user_id).toBe(testUser.id);
+    expect(session.user_agent).toBe('Test Browser');
+    expect(session.revoked_at).toBeNull();
+  });
+
+  it('should list the user\'s active sessions, marking the current one', async () => {
+    const otherToken = createToken(testUser, 'Other Browser');
+    const revokedToken = createToken(testUser);
+    dbUtils.revokeSession(verifyToken(revokedToken)!.sessionId, testUser.id);
+    createToken(dbUtils.createUser(`someone-else-${Date.now()}@example.com`, 'Someone Else'));
+
+    const response = await request(app)
+      .get('/api/auth/sessions')
+      .set('Cookie', authCookie(userToken))
+      .expect(200);
+
+    expect(response.body.sessions).toHaveLength(2);
+    expect(response.body.sessions).toContainEqual(expect.objectContaining({
+      id: verifyToken(userToken)!.sessionId,
+      userAgent: 'Test Browser',
+      isCurrent: true
+    }));
+    expect(response.body.sessions).toContainEqual(expect.objectContaining({
+      id: verifyToken(otherToken)!.sessionId,
+      userAgent: 'Other Browser',
+      isCurrent: false
+    }));
+  });
+
+  it('should require a logged-in user to manage sessions', async () => {
+    const anonymousToken = createToken(dbUtils.createUser());
+
+    await request(app)
+      .get('/api/auth/sessions')
+      .set('Cookie', authCookie(anonymousToken))
+      .expect(401);
+    await request(app).delete('/api/auth/sessions').expect(401);
+  });
+
+  it('should reject tokens once logged out', async () => {
+    await request(app)
+      .post('/api/auth/logout')
+      .set('Cookie', authCookie(userToken))
+      .expect(200);
+
+    expect(await getSessionFromToken(userToken)).toBeNull();
+    await request(app)
+      .get('/api/auth/sessions')
+      .set('Cookie', authCookie(userToken))
+      .expect(401);
+  });
+
+  it('should revoke a single session, but only the user\'s own', async () => {
+    const otherToken = createToken(testUser);
+    const otherSessionId = verifyToken(otherToken)!.sessionId;
+    const strangerToken = createToken(dbUtils.createUser(`stranger-${Date.now()}@example.com`, 'Stranger'));
+
+    await request(app)
+      .delete(`/api/auth/sessions/${otherSessionId}`)
+      .set('Cookie', authCookie(strangerToken))
+      .expect(404);
+    expect(await getSessionFromToken(otherToken)).not.toBeNull();
+
+    const response = await request(app)
+      .delete(`/api/auth/sessions/${otherSessionId}`)
+      .set('Cookie', authCookie(userToken))
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(await getSessionFromToken(otherToken)).toBeNull();
+    expect(await getSessionFromToken(userToken)).not.toBeNull();
+
+    // Already revoked
+    await request(app)
+      .delete(`/api/auth/sessions/${otherSessionId}`)
+      .set('Cookie', authCookie(userToken))
+      .expect(404);
+  });
+
+  it('should log out everywhere', async () => {
+    const otherToken = createToken(testUser);
+
+    const response = await request(app)
+      .delete('/api/auth/sessions')
+      .set('Cookie', authCookie(userToken))
+      .expect(200);
+
+    expect(response.body.revokedCount).toBe(2);
+    expect(response.headers['set-cookie'][0]).toContain(`${AUTH_COOKIE_NAME}=;`);
+    expect(await getSessionFromToken(userToken)).toBeNull();
+    expect(await getSessionFromToken(otherToken)).toBeNull();
+  });
+
+  it('should expire sessions left unused for longer than the idle timeout', async () => {
+    const sessionId = verifyToken(userToken)!.sessionId;
+    dbUtils.touchSession(sessionId, new Date(Date.now() - SESSION_CONFIG.IDLE_TIMEOUT_MS - 1000).toISOString());
+
+    expect(await getSessionFromToken(userToken)).toBeNull();
+  });
+
+  it('should rotate old tokens and slide the session\'s expiry', async () => {
+    const now = Date.now();
+    const tokenSession = (await getSessionFromToken(userToken))!;
+
+    // A fresh token is kept
+    expect(refreshSession(tokenSession, now)).toBeNull();
+
+    const later = now + SESSION_CONFIG.ROTATE_AFTER_MS + 1000;
+    const rotatedToken = refreshSession(tokenSession, later)!;
+
+    expect(verifyToken(rotatedToken)!.sessionId).toBe(tokenSession.session.id);
+    expect(dbUtils.getSessionById(tokenSession.session.id)!.last_seen_at).toBe(new Date(later).toISOString());
+
+    // Other requests made with the replaced token don't get replacements of their own
+    expect(refreshSession(tokenSession, later)).toBeNull();
+  });
+
+  it('should stop accepting a rotated token once the grace period is over', async () => {
+    const tokenSession = (await getSessionFromToken(userToken))!;
+    const rotatedToken = refreshSession(tokenSession, Date.now() + SESSION_CONFIG.ROTATE_AFTER_MS + 1000)!;
+    const sessionId = tokenSession.session.id;
+
+    // Requests already sent with the replaced token still work for a moment
+    db.prepare('UPDATE Sessions SET rotated_at = ? WHERE id = ?').run(new Date().toISOString(), sessionId);
+    expect(await getSessionFromToken(userToken)).not.toBeNull();
+
+    db.prepare('UPDATE Sessions SET rotated_at = ? WHERE id = ?')
+      .run(new Date(Date.now() - SESSION_CONFIG.ROTATION_GRACE_MS - 1000).toISOString(), sessionId);
+    expect(await getSessionFromToken(userToken)).toBeNull();
+    expect((await getSessionFromToken(rotatedToken))!.session.id).toBe(sessionId);
+
+    const response = await request(app)
+      .get('/api/auth/me')
+      .set('Cookie', authCookie(userToken))
+      .expect(200);
+
+    expect(response.body.id).not.toBe(testUser.id);
+    expect(response.body.isAuthenticated).toBe(false);
+  });
+
+  it('should send a rotated token with requests made with an old one', async () => {
+    const issuedAt = Date.now() - SESSION_CONFIG.ROTATE_AFTER_MS - 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(issuedAt);
+    const oldToken = createToken(testUser);
+    jest.restoreAllMocks();
+
+    const response = await request(app)
+      .get('/api/auth/me')
+      .set('Cookie', authCookie(oldToken))
+      .expect(200);
+
+    expect(response.body.id).toBe(testUser.id);
+    const rotatedCookie = response.headers['set-cookie'][0];
+    expect(rotatedCookie).toContain(`${AUTH_COOKIE_NAME}=`);
+    expect(rotatedCookie).not.toContain(oldToken);
+  });
+});
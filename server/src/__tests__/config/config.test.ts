@@ -0,0 +1,24 @@
+import { parseIntegerEnv } from '../../config';
+
+describe('Config', () => {
+  describe('parseIntegerEnv', () => {
+    it('should parse integers', () => {
+      expect(parseIntegerEnv('42', 7)).toBe(42);
+      expect(parseIntegerEnv('0', 7)).toBe(0);
+      expect(parseIntegerEnv('1500ms', 7)).toBe(1500);
+    });
+
+    it('should fall back when the variable is unset or not a number', () => {
+      expect(parseIntegerEnv(undefined, 7)).toBe(7);
+      expect(parseIntegerEnv('', 7)).toBe(7);
+      expect(parseIntegerEnv('soon', 7)).toBe(7);
+    });
+
+    it('should fall back when the value is out of range', () => {
+      expect(parseIntegerEnv('-1', 7)).toBe(7);
+      expect(parseIntegerEnv('0', 7, { min: 1 })).toBe(7);
+      expect(parseIntegerEnv('65536', 587, { min: 1, max: 65535 })).toBe(587);
+      expect(parseIntegerEnv('465', 587, { min: 1, max: 65535 })).toBe(465);
+    });
+  });
+});
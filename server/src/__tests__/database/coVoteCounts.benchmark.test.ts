@@ -0,0 +1,120 @@
+import { performance } from 'perf_hooks';
+import Database from 'better-sqlite3';
+import { reinitializeTestDatabase } from '../../database/init';
+import { DatabaseUtils } from '../../database/utils';
+
+// Timing is only compared when asked for (npm run bench), since it is slow to seed
+// and unreliable on a busy machine. The normal suite checks correctness on fewer voters.
+const RUN_BENCHMARKS = process.env.RUN_BENCHMARKS === '1';
+const itWhenBenchmarking = RUN_BENCHMARKS ? it : it.skip;
+
+// Synthetic dataset size: every voter answers every poll
+const VOTER_COUNT = RUN_BENCHMARKS ? 20000 : 1000;
+const POLL_COUNT = 4;
+const ANSWERS_PER_POLL = 3;
+const RUNS = 5;
+
+/**
+ * Returns the median duration in milliseconds of running fn several times
+ */
+const timeMedian = (fn: () => unknown): number => {
+  const durations: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    fn();
+    durations.push(performance.now() - start);
+  }
+  durations.sort((a, b) => a - b);
+  return durations[Math.floor(RUNS / 2)];
+};
+
+describe('Co-Vote Aggregate Benchmark', () => {
+  let db: Database.Database;
+  let dbUtils: DatabaseUtils;
+  let pollIds: string[];
+  let answerIds: string[][];
+  let rawJoin: Database.Statement;
+
+  beforeAll(() => {
+    db = reinitializeTestDatabase();
+    dbUtils = new DatabaseUtils(db);
+
+    const author = dbUtils.createUser('bench@example.com', 'Bench Author');
+    const polls = Array.from({ length: POLL_COUNT }, (_, i) =>
+      dbUtils.createPoll(
+        author.id,
+        `Benchmark poll ${i}`,
+        Array.from({ length: ANSWERS_PER_POLL }, (_, j) => `Answer ${j}`)
+      )
+    );
+    pollIds = polls.map(p => p.poll.id);
+    answerIds = polls.map(p => p.answers.map(a => a.id));
+
+    // Seed raw votes in bulk, bypassing createVote, then rebuild the aggregate once
+    const insertUser = db.prepare('INSERT INTO Users (id, email, name) VALUES (?, ?, ?)');
+    const insertVote = db.prepare(
+      'INSERT INTO Votes (id, poll_id, answer_id, user_id, created_at) VALUES (?, ?, ?, ?, ?)'
+    );
+    const createdAt = new Date().toISOString();
+
+    db.transaction(() => {
+      for (let u = 0; u < VOTER_COUNT; u++) {
+        const userId = `bench-user-${u}`;
+        insertUser.run(userId, `${userId}@example.com`, null);
+        for (let p = 0; p < POLL_COUNT; p++) {
+          // Deterministic but correlated answers across polls
+          const answerIndex = (u + (p % 2) * Math.floor(u / 7)) % ANSWERS_PER_POLL;
+          insertVote.run(`bench-vote-${u}-${p}`, pollIds[p], answerIds[p][answerIndex], userId, createdAt);
+        }
+      }
+    })();
+
+    dbUtils.rebuildCoVoteCounts();
+
+    rawJoin = db.prepare(`
+      SELECT v1.answer_id, COUNT(*) as count
+      FROM Votes v1
+      JOIN Votes v2 ON v1.user_id = v2.user_id
+      WHERE v1.poll_id = ?
+      AND v2.poll_id = ?
+      AND v2.answer_id = ?
+      GROUP BY v1.answer_id
+    `);
+  }, 120000);
+
+  afterAll(() => {
+    db.close();
+  });
+
+  it('should match the raw self-join on a synthetic dataset', () => {
+    expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+  });
+
+  it('should keep the aggregate consistent when votes arrive through createVote', () => {
+    const voter = dbUtils.createUser('bench-late@example.com', 'Late Voter');
+    pollIds.forEach((pollId, p) => {
+      dbUtils.createVote(voter.id, pollId, answerIds[p][0]);
+    });
+
+    expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+  });
+
+  const readRaw = (): Record<string, number> => {
+    const rows = rawJoin.all(pollIds[0], pollIds[1], answerIds[1][0]) as { answer_id: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.answer_id, row.count]));
+  };
+
+  const readAggregate = (): Record<string, number> =>
+    dbUtils.getCrossReferencedVoteCounts(pollIds[0], pollIds[1], answerIds[1][0]);
+
+  it('should read the same cross-referenced counts as the raw self-join', () => {
+    expect(readAggregate()).toEqual(readRaw());
+  });
+
+  itWhenBenchmarking('should read cross-references faster than the raw self-join', () => {
+    const rawMs = timeMedian(readRaw);
+    const aggregateMs = timeMedian(readAggregate);
+
+    expect(aggregateMs).toBeLessThan(rawMs);
+  });
+});
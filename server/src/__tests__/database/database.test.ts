@@ -1,8 +1,9 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { DB_CONFIG } from '../../database/config';
 import { reinitializeTestDatabase } from '../../database/init';
-import { DatabaseUtils, User, Poll, Answer } from '../../database/utils';
+import { DatabaseUtils, User, Poll, Answer, normalizeWriteIn, DELETED_USER_ID } from '../../database/utils';
 import Database from 'better-sqlite3';
 import { applyMigrations } from '../../database/migrations';
 
@@ -17,15 +18,18 @@ interface MigrationRecord {
   applied_at: string;
 }
 
+// Test migrations live in their own directory, away from the app's real migrations
+const TEST_MIGRATIONS_DIR = path.join(os.tmpdir(), `everypoll-test-migrations-${process.pid}`);
+
 // Create a simple test migration to test migrations system
 const createTestMigration = (id: number, name: string, sql: string): void => {
   // Ensure migrations directory exists
-  if (!fs.existsSync(DB_CONFIG.MIGRATIONS_DIR)) {
-    fs.mkdirSync(DB_CONFIG.MIGRATIONS_DIR, { recursive: true });
+  if (!fs.existsSync(TEST_MIGRATIONS_DIR)) {
+    fs.mkdirSync(TEST_MIGRATIONS_DIR, { recursive: true });
   }
   
   const filename = `${id.toString().padStart(3, '0')}_${name.replace(/ /g, '_')}.sql`;
-  const filePath = path.join(DB_CONFIG.MIGRATIONS_DIR, filename);
+  const filePath = path.join(TEST_MIGRATIONS_DIR, filename);
   
   // Write migration file
   fs.writeFileSync(filePath, sql);
@@ -33,11 +37,11 @@ const createTestMigration = (id: number, name: string, sql: string): void => {
 
 // Clean up test migrations after tests
 const cleanupTestMigrations = (): void => {
-  if (fs.existsSync(DB_CONFIG.MIGRATIONS_DIR)) {
-    const files = fs.readdirSync(DB_CONFIG.MIGRATIONS_DIR);
+  if (fs.existsSync(TEST_MIGRATIONS_DIR)) {
+    const files = fs.readdirSync(TEST_MIGRATIONS_DIR);
     
     for (const file of files) {
-      fs.unlinkSync(path.join(DB_CONFIG.MIGRATIONS_DIR, file));
+      fs.unlinkSync(path.join(TEST_MIGRATIONS_DIR, file));
     }
   }
 };
@@ -63,6 +67,11 @@ describe('Database Tests', () => {
     cleanupTestMigrations();
   });
   
+  // Remove the test migrations directory
+  afterAll(() => {
+    fs.rmSync(TEST_MIGRATIONS_DIR, { recursive: true, force: true });
+  });
+  
   describe('Database Initialization', () => {
     it('should create database file if it does not exist', () => {
       expect(fs.existsSync(DB_CONFIG.TEST_DB_PATH)).toBe(true);
@@ -88,6 +97,21 @@ describe('Database Tests', () => {
   });
   
   describe('Migrations System', () => {
+    // Run against a bare database, since the test database already has the app's migrations
+    beforeEach(() => {
+      db.close();
+      db = new Database(':memory:');
+    });
+
+    it('should apply the app migrations to the test database', () => {
+      const testDb = reinitializeTestDatabase();
+      const migrationFiles = fs.readdirSync(DB_CONFIG.MIGRATIONS_DIR).filter(file => file.endsWith('.sql'));
+      const applied = testDb.prepare('SELECT * FROM migrations').all() as MigrationRecord[];
+      
+      expect(applied.length).toBe(migrationFiles.length);
+      testDb.close();
+    });
+    
     it('should apply migrations in order', () => {
       // Create test migrations
       createTestMigration(1, 'test migration', `
@@ -99,7 +123,7 @@ describe('Database Tests', () => {
       `);
       
       // Apply migrations
-      const appliedCount = applyMigrations(db);
+      const appliedCount = applyMigrations(db, TEST_MIGRATIONS_DIR);
       
       // Check that migrations were applied
       expect(appliedCount).toBe(2);
@@ -128,11 +152,11 @@ describe('Database Tests', () => {
       `);
       
       // Apply migration
-      let appliedCount = applyMigrations(db);
+      let appliedCount = applyMigrations(db, TEST_MIGRATIONS_DIR);
       expect(appliedCount).toBe(1);
       
       // Try to apply again
-      appliedCount = applyMigrations(db);
+      appliedCount = applyMigrations(db, TEST_MIGRATIONS_DIR);
       expect(appliedCount).toBe(0);
     });
   });
@@ -160,6 +184,13 @@ describe('Database Tests', () => {
       expect(retrieved).toEqual(user);
     });
     
+    it('should get user by email whatever its case', () => {
+      const user = dbUtils.createUser('Alice@Corp.com', 'Alice');
+      
+      expect(dbUtils.getUserByEmail('alice@corp.com')).toEqual(user);
+      expect(dbUtils.getUserByEmail('ALICE@CORP.COM')).toEqual(user);
+    });
+    
     it('should return null for non-existent user', () => {
       const retrieved = dbUtils.getUserById('non-existent-id');
       
@@ -186,6 +217,120 @@ describe('Database Tests', () => {
       expect(user.email).toBeNull();
       expect(user.name).toBeNull();
     });
+
+    it('should merge an anonymous user into an account, keeping the account\'s ballot on shared polls', () => {
+      const account = dbUtils.createUser('test@example.com', 'Test User');
+      const anonymous = dbUtils.createUser();
+      const authored = dbUtils.createPoll(anonymous.id, 'Asked anonymously?', ['Yes', 'No']);
+      const shared = dbUtils.createPoll(account.id, 'Voted on by both?', ['Yes', 'No']);
+      const fruit = dbUtils.createPoll(account.id, 'Favourite fruit?', ['Apple', 'Mango'], {
+        type: 'multiple',
+        allowWriteIns: true
+      });
+      const [apple, , other] = fruit.answers.map(answer => answer.id);
+
+      dbUtils.createVote(account.id, shared.poll.id, shared.answers[0].id);
+      dbUtils.createVote(account.id, authored.poll.id, authored.answers[1].id);
+      dbUtils.createVote(anonymous.id, shared.poll.id, shared.answers[1].id);
+      dbUtils.createVotes(anonymous.id, fruit.poll.id, [apple, other], { writeIn: 'Kiwi' });
+
+      const summary = dbUtils.mergeAnonymousUser(anonymous.id, account.id);
+
+      expect(summary).toEqual({ pollsMoved: 1, ballotsMoved: 1, ballotsDropped: 1 });
+      expect(dbUtils.getUserById(anonymous.id)).toBeNull();
+      expect(dbUtils.getPollById(authored.poll.id)!.poll.author_id).toBe(account.id);
+      expect(dbUtils.getVoteCounts(shared.poll.id)).toEqual({ [shared.answers[0].id]: 1 });
+      expect(dbUtils.getUserVotes(account.id, fruit.poll.id).map(vote => vote.answer_id).sort())
+        .toEqual([apple, other].sort());
+      expect(dbUtils.getUserWriteIn(account.id, fruit.poll.id)).toBe('Kiwi');
+      expect(dbUtils.getVoteHistory(shared.poll.id, account.id).map(entry => [entry.action, entry.answer_id]))
+        .toEqual([['cast', shared.answers[0].id], ['cast', shared.answers[1].id], ['retract', null]]);
+      expect(dbUtils.getContingencyTable(shared.poll.id, fruit.poll.id))
+        .toEqual({ [shared.answers[0].id]: { [apple]: 1, [other]: 1 } });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      // Only anonymous users are merged, and only once
+      expect(dbUtils.mergeAnonymousUser(anonymous.id, account.id)).toBeNull();
+      expect(dbUtils.mergeAnonymousUser(account.id, dbUtils.createUser().id)).toBeNull();
+    });
+
+    it('should delete a user, keeping their ballots counted but unlinked', () => {
+      const user = dbUtils.createUser('leaving@example.com', 'Leaving User');
+      const voter = dbUtils.createUser('staying@example.com', 'Staying User');
+      const kept = dbUtils.createPoll(user.id, 'Kept after deletion?', ['Yes', 'No']);
+      const other = dbUtils.createPoll(voter.id, 'Someone else\'s poll?', ['Yes', 'No'], { allowWriteIns: true });
+      const [, , writeIn] = other.answers.map(answer => answer.id);
+
+      dbUtils.createVote(user.id, kept.poll.id, kept.answers[0].id);
+      dbUtils.createVotes(user.id, other.poll.id, [writeIn], { writeIn: 'My phone number' });
+      dbUtils.createVote(voter.id, kept.poll.id, kept.answers[1].id);
+      dbUtils.createSession(user.id);
+      const expiresAt = new Date(Date.now() + 60 * 1000).toISOString();
+      dbUtils.createMagicLinkToken('leaving-link-hash', 'leaving@example.com', '/', expiresAt);
+      dbUtils.createMagicLinkToken('staying-link-hash', 'staying@example.com', '/', expiresAt);
+      const crossCountsBefore = dbUtils.getCrossReferencedVoteCounts(kept.poll.id, other.poll.id, writeIn);
+
+      const summary = dbUtils.deleteUser(user.id);
+
+      expect(summary).toEqual({ pollsDeleted: 0, pollsReassigned: 1, ballotsAnonymized: 2 });
+      expect(dbUtils.getUserById(user.id)).toBeNull();
+      expect(dbUtils.getPollById(kept.poll.id)!.poll.author_id).toBe(DELETED_USER_ID);
+      expect(dbUtils.getVoteCounts(kept.poll.id)).toEqual({ [kept.answers[0].id]: 1, [kept.answers[1].id]: 1 });
+      expect(dbUtils.getVoteCounts(other.poll.id)).toEqual({ [writeIn]: 1 });
+      expect(dbUtils.getCrossReferencedVoteCounts(kept.poll.id, other.poll.id, writeIn)).toEqual(crossCountsBefore);
+      expect(dbUtils.getWriteInGroups(other.poll.id)).toEqual([]);
+      expect(dbUtils.getVoteHistory(kept.poll.id).some(entry => entry.user_id === user.id)).toBe(false);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      // Login links sent to the user's address go too, but not those of other users
+      expect(dbUtils.countMagicLinkTokensSince('leaving@example.com', new Date(0).toISOString())).toBe(0);
+      expect(dbUtils.countMagicLinkTokensSince('staying@example.com', new Date(0).toISOString())).toBe(1);
+
+      // The tombstone account itself can't be deleted
+      expect(dbUtils.deleteUser(DELETED_USER_ID)).toBeNull();
+      expect(dbUtils.deleteUser(user.id)).toBeNull();
+    });
+
+    it('should delete a user\'s polls when asked to', () => {
+      const user = dbUtils.createUser('leaving@example.com', 'Leaving User');
+      const voter = dbUtils.createUser('staying@example.com', 'Staying User');
+      const deleted = dbUtils.createPoll(user.id, 'Deleted with the account?', ['Yes', 'No']);
+      dbUtils.createVote(voter.id, deleted.poll.id, deleted.answers[0].id);
+
+      expect(dbUtils.deleteUser(user.id, { deletePolls: true }))
+        .toEqual({ pollsDeleted: 1, pollsReassigned: 0, ballotsAnonymized: 0 });
+      expect(dbUtils.getPollById(deleted.poll.id)).toBeNull();
+      expect(dbUtils.getUserVote(voter.id, deleted.poll.id)).toBeNull();
+    });
+
+    it('should export everything stored about a user', () => {
+      const user = dbUtils.createUser('export@example.com', 'Export User');
+      const { poll, answers } = dbUtils.createPoll(user.id, 'Exported?', ['Yes', 'No']);
+      dbUtils.createVote(user.id, poll.id, answers[1].id);
+      const session = dbUtils.createSession(user.id, 'Test Browser');
+      const link = dbUtils.createMagicLinkToken('export-link-hash', 'export@example.com', '/poll/1', new Date().toISOString());
+
+      const data = dbUtils.getUserDataExport(user.id)!;
+
+      expect(data.profile).toEqual(user);
+      expect(data.polls).toEqual([dbUtils.getPollById(poll.id)]);
+      expect(data.votes).toEqual([expect.objectContaining({
+        poll_id: poll.id,
+        question: 'Exported?',
+        answer_id: answers[1].id,
+        answer_text: 'No'
+      })]);
+      expect(data.voteHistory.map(entry => entry.action)).toEqual(['cast']);
+      expect(data.sessions).toEqual([session]);
+      expect(data.magicLinks).toEqual([{
+        email: 'export@example.com',
+        return_to: '/poll/1',
+        created_at: link.created_at,
+        expires_at: link.expires_at,
+        consumed_at: null
+      }]);
+      expect(dbUtils.getUserDataExport('non-existent-id')).toBeNull();
+    });
   });
   
   describe('Poll Operations', () => {
@@ -278,6 +423,58 @@ describe('Database Tests', () => {
         dbUtils.createPoll(user.id, 'Question?', ['Answer 1', '']);
       }).toThrow('Answer text cannot be empty');
     });
+
+    it('should update a poll question and answer texts', () => {
+      const { poll, answers } = dbUtils.createPoll(user.id, 'Qestion?', ['Yes', 'Nope']);
+
+      const updated = dbUtils.updatePoll(poll.id, {
+        question: 'Question?',
+        answers: [{ id: answers[1].id, text: 'No' }]
+      });
+
+      expect(updated!.poll.question).toBe('Question?');
+      expect(updated!.answers.map(answer => answer.text)).toEqual(['Yes', 'No']);
+      expect(dbUtils.updatePoll('non-existent-id', { question: 'Question?' })).toBeNull();
+      expect(() => {
+        dbUtils.updatePoll(poll.id, { answers: [{ id: 'other-answer', text: 'Maybe' }] });
+      }).toThrow('does not belong to poll');
+    });
+
+    it('should cascade poll deletion to answers, votes and co-vote counts', () => {
+      const first = dbUtils.createPoll(user.id, 'First?', ['Yes', 'No']);
+      const second = dbUtils.createPoll(user.id, 'Second?', ['Yes', 'No']);
+      dbUtils.createVote(user.id, first.poll.id, first.answers[0].id);
+      dbUtils.createVote(user.id, second.poll.id, second.answers[0].id);
+
+      expect(dbUtils.deletePoll(first.poll.id)).toBe(true);
+      expect(dbUtils.deletePoll(first.poll.id)).toBe(false);
+
+      const count = (sql: string): number => (db.prepare(sql).get(first.poll.id) as { count: number }).count;
+      expect(count('SELECT COUNT(*) as count FROM Answers WHERE poll_id = ?')).toBe(0);
+      expect(count('SELECT COUNT(*) as count FROM Votes WHERE poll_id = ?')).toBe(0);
+      expect(count('SELECT COUNT(*) as count FROM CoVoteCounts WHERE poll_id = ?')).toBe(0);
+      expect(count('SELECT COUNT(*) as count FROM PollSearch WHERE poll_id = ?')).toBe(0);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+    });
+
+    it('should keep the search index in step with edited answers', () => {
+      const voted = dbUtils.createPoll(user.id, 'Favourite drink?', ['Tea', 'Coffee']);
+      const other = dbUtils.createPoll(user.id, 'Favourite snack?', ['Teacake', 'Crisps']);
+      dbUtils.createVote(user.id, voted.poll.id, voted.answers[0].id);
+
+      expect(dbUtils.searchPolls('tea').polls.map(result => result.poll.id)).toHaveLength(2);
+      expect(dbUtils.getPollsByVoterId(user.id, { query: 'tea' }).polls.map(result => result.poll.id))
+        .toEqual([voted.poll.id]);
+
+      dbUtils.updatePoll(other.poll.id, { answers: [{ id: other.answers[0].id, text: 'Scone' }] });
+
+      expect(dbUtils.searchPolls('tea').polls.map(result => result.poll.id)).toEqual([voted.poll.id]);
+      expect(dbUtils.searchPolls('sco').polls[0].snippet!.answers).toEqual([
+        { text: 'Scone', highlighted: true },
+        { text: ' · Crisps', highlighted: false }
+      ]);
+      expect(dbUtils.searchPolls('"*').polls).toEqual([]);
+    });
   });
   
   describe('Vote Operations', () => {
@@ -350,6 +547,190 @@ describe('Database Tests', () => {
       
       expect(vote).toBeNull();
     });
+
+    it('should change and retract votes, keeping co-vote counts consistent', () => {
+      const other = dbUtils.createPoll(user1.id, 'Other question?', ['Yes', 'No']);
+      dbUtils.createVote(user2.id, other.poll.id, other.answers[0].id);
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[0].id);
+
+      const changed = dbUtils.changeVote(user2.id, poll.id, pollAnswers[2].id);
+      expect(changed!.answer_id).toBe(pollAnswers[2].id);
+      expect(dbUtils.getVoteCounts(poll.id)).toEqual({ [pollAnswers[2].id]: 1 });
+      expect(dbUtils.getCrossReferencedVoteCounts(poll.id, other.poll.id, other.answers[0].id))
+        .toEqual({ [pollAnswers[2].id]: 1 });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      expect(dbUtils.retractVote(user2.id, poll.id)).toBe(true);
+      expect(dbUtils.getUserVote(user2.id, poll.id)).toBeNull();
+      expect(dbUtils.getCrossReferencedVoteCounts(poll.id, other.poll.id, other.answers[0].id)).toEqual({});
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      // Nothing left to change or retract
+      expect(dbUtils.changeVote(user2.id, poll.id, pollAnswers[1].id)).toBeNull();
+      expect(dbUtils.retractVote(user2.id, poll.id)).toBe(false);
+    });
+
+    it('should record vote history', () => {
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[0].id);
+      dbUtils.changeVote(user2.id, poll.id, pollAnswers[1].id);
+      dbUtils.retractVote(user2.id, poll.id);
+
+      const history = dbUtils.getVoteHistory(poll.id, user2.id);
+
+      expect(history.map(entry => [entry.action, entry.previous_answer_id, entry.answer_id])).toEqual([
+        ['cast', null, pollAnswers[0].id],
+        ['change', pollAnswers[0].id, pollAnswers[1].id],
+        ['retract', pollAnswers[1].id, null]
+      ]);
+    });
+
+    it('should record several answers on multiple-choice polls', () => {
+      const multiple = dbUtils.createPoll(user1.id, 'Pick any?', ['A', 'B', 'C'], { type: 'multiple', maxChoices: 2 });
+      const user3 = dbUtils.createUser('voter3@example.com', 'Voter 3');
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[0].id);
+      dbUtils.createVote(user3.id, poll.id, pollAnswers[1].id);
+
+      expect(multiple.poll.type).toBe('multiple');
+      expect(multiple.poll.max_choices).toBe(2);
+
+      const votes = dbUtils.createVotes(user2.id, multiple.poll.id, [multiple.answers[0].id, multiple.answers[1].id]);
+      dbUtils.createVotes(user3.id, multiple.poll.id, [multiple.answers[0].id]);
+
+      expect(votes).toHaveLength(2);
+      expect(dbUtils.getVoteCounts(multiple.poll.id)).toEqual({ [multiple.answers[0].id]: 2, [multiple.answers[1].id]: 1 });
+      expect(dbUtils.getRespondentCount(multiple.poll.id)).toBe(2);
+      expect(dbUtils.getCrossReferencedRespondentCount(multiple.poll.id, poll.id, pollAnswers[0].id)).toBe(1);
+      expect(dbUtils.getSharedVoterContingencyTables(poll.id)[0].sharedVoters).toBe(2);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      // A second ballot from the same voter is rejected
+      expect(dbUtils.createVotes(user3.id, multiple.poll.id, [multiple.answers[2].id])).toBeNull();
+
+      const changed = dbUtils.changeVotes(user2.id, multiple.poll.id, [multiple.answers[1].id, multiple.answers[2].id]);
+      expect(changed!.map(vote => vote.answer_id)).toEqual([multiple.answers[1].id, multiple.answers[2].id]);
+      expect(dbUtils.getVoteHistory(multiple.poll.id, user2.id).map(entry => entry.action))
+        .toEqual(['cast', 'cast', 'change']);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      expect(dbUtils.retractVote(user2.id, multiple.poll.id)).toBe(true);
+      expect(dbUtils.getUserVotes(user2.id, multiple.poll.id)).toEqual([]);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+    });
+
+    it('should store rankings and only pair first preferences in the co-vote aggregate', () => {
+      const ranked = dbUtils.createPoll(user1.id, 'Rank these?', ['A', 'B', 'C'], { type: 'ranked' });
+      const [a, b, c] = ranked.answers.map(answer => answer.id);
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[0].id);
+
+      const votes = dbUtils.createVotes(user2.id, ranked.poll.id, [c, a, b], { ranked: true });
+
+      expect(votes!.map(vote => vote.rank)).toEqual([1, 2, 3]);
+      expect(dbUtils.getRankedBallots(ranked.poll.id)).toEqual([[c, a, b]]);
+      expect(dbUtils.getVoteCounts(ranked.poll.id)).toEqual({ [c]: 1 });
+      expect(dbUtils.getUserVote(user2.id, ranked.poll.id)!.answer_id).toBe(c);
+      expect(dbUtils.getContingencyTable(poll.id, ranked.poll.id)).toEqual({ [pollAnswers[0].id]: { [c]: 1 } });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      dbUtils.changeRanking(user2.id, ranked.poll.id, [b, c, a]);
+
+      expect(dbUtils.getRankedBallots(ranked.poll.id)).toEqual([[b, c, a]]);
+      expect(dbUtils.getContingencyTable(poll.id, ranked.poll.id)).toEqual({ [pollAnswers[0].id]: { [b]: 1 } });
+      expect(dbUtils.getVoteHistory(ranked.poll.id, user2.id).slice(-1)[0])
+        .toMatchObject({ action: 'change', previous_answer_id: c, answer_id: b });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      expect(dbUtils.retractVote(user2.id, ranked.poll.id)).toBe(true);
+      expect(dbUtils.getContingencyTable(poll.id, ranked.poll.id)).toEqual({});
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+    });
+
+    it('should store scale values outside the co-vote aggregate', () => {
+      const scale = dbUtils.createPoll(user1.id, 'How satisfied are you?', [], {
+        type: 'scale',
+        scale: { min: 1, max: 10, minLabel: 'Not at all', maxLabel: 'Very' }
+      });
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[0].id);
+
+      expect(scale.answers).toEqual([]);
+      expect(scale.poll).toMatchObject({ scale_min: 1, scale_max: 10, scale_step: 1, scale_max_label: 'Very' });
+
+      const vote = dbUtils.createScaleVote(user2.id, scale.poll.id, 7);
+
+      expect(vote).toMatchObject({ answer_id: null, value: 7 });
+      expect(dbUtils.createScaleVote(user2.id, scale.poll.id, 8)).toBeNull();
+      expect(dbUtils.getScaleValues(scale.poll.id)).toEqual([7]);
+      expect(dbUtils.getCrossReferencedScaleValues(scale.poll.id, poll.id, pollAnswers[0].id)).toEqual([7]);
+      expect(dbUtils.getRespondentCount(scale.poll.id)).toBe(1);
+      expect(dbUtils.getContingencyTable(poll.id, scale.poll.id)).toEqual({});
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+
+      expect(dbUtils.changeScaleVote(user2.id, scale.poll.id, 3)!.value).toBe(3);
+      expect(dbUtils.getUserVotes(user2.id, scale.poll.id).map(userVote => userVote.value)).toEqual([3]);
+
+      expect(dbUtils.retractVote(user2.id, scale.poll.id)).toBe(true);
+      expect(dbUtils.getScaleValues(scale.poll.id)).toEqual([]);
+      expect(dbUtils.getVoteHistory(scale.poll.id, user2.id).map(entry => [entry.action, entry.previous_value, entry.value]))
+        .toEqual([['cast', null, 7], ['change', 7, 3], ['retract', 3, null]]);
+    });
+
+    it('should group write-ins and merge them into an existing answer when promoted', () => {
+      const fruit = dbUtils.createPoll(user1.id, 'Favourite fruit?', ['Apple', 'Mango'], {
+        type: 'multiple',
+        allowWriteIns: true
+      });
+      const [, mango, other] = fruit.answers.map(answer => answer.id);
+      dbUtils.createVote(user1.id, poll.id, pollAnswers[0].id);
+      dbUtils.createVotes(user1.id, fruit.poll.id, [other], { writeIn: 'MANGO' });
+      dbUtils.createVotes(user2.id, fruit.poll.id, [mango, other], { writeIn: '  mango\t' });
+
+      expect(normalizeWriteIn('  Mango \n Lassi ')).toBe('mango lassi');
+      expect(fruit.poll.max_choices).toBe(3);
+      expect(dbUtils.getWriteInGroups(fruit.poll.id)).toEqual([{ normalized_text: 'mango', text: 'MANGO', count: 2 }]);
+
+      const promoted = dbUtils.promoteWriteIn(fruit.poll.id, 'mango');
+
+      // user2 already chose Mango, so only user1's vote moves
+      expect(promoted).toEqual({ answer: fruit.answers[1], movedVotes: 1 });
+      expect(dbUtils.getVoteCounts(fruit.poll.id)).toEqual({ [mango]: 2 });
+      expect(dbUtils.getUserVotes(user2.id, fruit.poll.id).map(vote => vote.answer_id)).toEqual([mango]);
+      expect(dbUtils.getWriteInGroups(fruit.poll.id)).toEqual([]);
+      expect(dbUtils.getUserWriteIn(user1.id, fruit.poll.id)).toBeNull();
+      expect(dbUtils.getContingencyTable(poll.id, fruit.poll.id)).toEqual({ [pollAnswers[0].id]: { [mango]: 1 } });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+      expect(dbUtils.promoteWriteIn(fruit.poll.id, 'mango')).toBeNull();
+    });
+
+    it('should batch-load the same results as the per-poll queries', () => {
+      const ranked = dbUtils.createPoll(user1.id, 'Rank these', ['X', 'Y', 'Z'], { type: 'ranked' });
+      const scale = dbUtils.createPoll(user1.id, 'Rate this', [], { type: 'scale' });
+      const unvoted = dbUtils.createPoll(user2.id, 'Nobody voted', ['Yes', 'No']);
+      const pollIds = [poll.id, ranked.poll.id, scale.poll.id, unvoted.poll.id];
+
+      dbUtils.createVote(user1.id, poll.id, pollAnswers[0].id);
+      dbUtils.createVote(user2.id, poll.id, pollAnswers[2].id);
+      dbUtils.createVotes(user1.id, ranked.poll.id, [ranked.answers[2].id, ranked.answers[0].id], { ranked: true });
+      dbUtils.createVotes(user2.id, ranked.poll.id, ranked.answers.map(answer => answer.id), { ranked: true });
+      dbUtils.createScaleVote(user2.id, scale.poll.id, 7);
+
+      const answers = dbUtils.getAnswersByPollIds(pollIds);
+      const voteCounts = dbUtils.getVoteCountsByPollIds(pollIds);
+      const respondentCounts = dbUtils.getRespondentCountsByPollIds(pollIds);
+      const rankedBallots = dbUtils.getRankedBallotsByPollIds(pollIds);
+      const scaleValues = dbUtils.getScaleValuesByPollIds(pollIds);
+      const userVotes = dbUtils.getUserVotesByPollIds(user1.id, pollIds);
+
+      pollIds.forEach(pollId => {
+        expect(answers.get(pollId)).toEqual(dbUtils.getPollById(pollId)!.answers);
+        expect(voteCounts.get(pollId)).toEqual(dbUtils.getVoteCounts(pollId));
+        expect(respondentCounts.get(pollId)).toBe(dbUtils.getRespondentCount(pollId));
+        expect(rankedBallots.get(pollId)).toEqual(dbUtils.getRankedBallots(pollId));
+        expect(scaleValues.get(pollId)).toEqual(dbUtils.getScaleValues(pollId));
+        expect(userVotes.get(pollId)).toEqual(dbUtils.getUserVotes(user1.id, pollId));
+      });
+
+      expect(dbUtils.getUsersByIds([user1.id, user1.id, 'missing'])).toEqual(new Map([[user1.id, user1]]));
+      expect(dbUtils.getAnswersByPollIds([])).toEqual(new Map());
+    });
   });
   
   describe('Cross-Reference Functionality', () => {
@@ -421,5 +802,64 @@ describe('Database Tests', () => {
       expect(chocolateByVanillaNo[answersA[0].id]).toBe(1); // Yes to chocolate (user2)
       expect(chocolateByVanillaNo[answersA[1].id]).toBeUndefined(); // No to chocolate (none)
     });
+
+    it('should get crosstab vote counts for intersected conditions', () => {
+      const resultC = dbUtils.createPoll(user1.id, 'Do you like strawberry?', ['Yes', 'No']);
+      dbUtils.createVote(user1.id, resultC.poll.id, resultC.answers[0].id); // Yes to strawberry
+      dbUtils.createVote(user3.id, resultC.poll.id, resultC.answers[0].id); // Yes to strawberry
+      dbUtils.createVote(user2.id, resultC.poll.id, resultC.answers[1].id); // No to strawberry
+
+      // Chocolate votes among people who like both vanilla and strawberry (user1 and user3)
+      const result = dbUtils.getCrosstabVoteCounts(pollA.id, [
+        { pollId: pollB.id, answerIds: [answersB[0].id] },
+        { pollId: resultC.poll.id, answerIds: [resultC.answers[0].id] },
+      ]);
+
+      expect(result.populationSize).toBe(2);
+      expect(result.respondentCount).toBe(2);
+      expect(result.voteCounts[answersA[0].id]).toBe(1);
+      expect(result.voteCounts[answersA[1].id]).toBe(1);
+
+      // Any vanilla answer, combined with no to strawberry (user2 only)
+      const orResult = dbUtils.getCrosstabVoteCounts(pollA.id, [
+        { pollId: pollB.id, answerIds: [answersB[0].id, answersB[1].id] },
+        { pollId: resultC.poll.id, answerIds: [resultC.answers[1].id] },
+      ]);
+
+      expect(orResult.populationSize).toBe(1);
+      expect(orResult.voteCounts).toEqual({ [answersA[0].id]: 1 });
+    });
+
+    it('should reject crosstabs without conditions', () => {
+      expect(() => dbUtils.getCrosstabVoteCounts(pollA.id, [])).toThrow('Crosstab requires at least one condition');
+    });
+
+    it('should keep the co-vote aggregate consistent with the raw votes', () => {
+      expect(dbUtils.checkCoVoteCountsConsistency()).toEqual({ consistent: true, mismatches: [] });
+
+      // Both orientations of the pair are maintained
+      const contingency = dbUtils.getContingencyTable(pollB.id, pollA.id);
+      expect(contingency[answersB[0].id]).toEqual({ [answersA[0].id]: 1, [answersA[1].id]: 1 });
+      expect(contingency[answersB[1].id]).toEqual({ [answersA[0].id]: 1 });
+    });
+
+    it('should detect and repair drift in the co-vote aggregate', () => {
+      db.prepare('UPDATE CoVoteCounts SET count = count + 1 WHERE poll_id = ? AND answer_id = ?')
+        .run(pollA.id, answersA[1].id);
+
+      const report = dbUtils.checkCoVoteCountsConsistency();
+      expect(report.consistent).toBe(false);
+      expect(report.mismatches).toContainEqual({
+        pollId: pollA.id,
+        answerId: answersA[1].id,
+        otherPollId: pollB.id,
+        otherAnswerId: answersB[0].id,
+        expected: 1,
+        actual: 2
+      });
+
+      expect(dbUtils.rebuildCoVoteCounts()).toBe(6);
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+    });
   });
 });
\ No newline at end of file
@@ -1,7 +1,8 @@
 import request from 'supertest';
 import { app } from '../../app';
 import { reinitializeTestDatabase } from '../../database/init';
-import { dbUtils } from '../../database';
+import { db, dbUtils } from '../../database';
+import { refreshPollScores } from '../../ranking';
 import { createToken, AUTH_COOKIE_NAME } from '../../auth';
 import { User } from '../../database/utils';
 
@@ -145,6 +146,65 @@ describe('Feed API Endpoints', () => {
       expect(outOfBoundsLimitResponse.body).toHaveProperty('error', 'Invalid limit');
     });
     
+    it('should page by cursor without repeating or skipping polls created meanwhile', async () => {
+      const timestamp = Date.now();
+      const author = dbUtils.createUser(`cursor-${timestamp}@feed-test.com`, 'Cursor Author');
+      const pollIds = [0, 1, 2, 3, 4].map(i => dbUtils.createPoll(author.id, `Cursor poll ${i}`, ['Yes', 'No']).poll.id);
+
+      // Create the polls a minute apart; the poll ID breaks ties between polls created together
+      pollIds.forEach((id, i) => {
+        db.prepare('UPDATE Polls SET created_at = ? WHERE id = ?').run(new Date(timestamp - (5 - i) * 60000).toISOString(), id);
+      });
+
+      const readAll = async (sort: string) => {
+        const seen: string[] = [];
+        let url = `/api/feed?limit=2&sort=${sort}&authorId=${author.id}`;
+
+        for (;;) {
+          const response = await request(app).get(url).expect(200);
+          seen.push(...response.body.polls.map((poll: PollWithDetails) => poll.poll.id));
+          expect(response.body.pagination.hasMore).toBe(response.body.pagination.nextCursor !== null);
+
+          if (!response.body.pagination.nextCursor) {
+            return seen;
+          }
+
+          // A poll created after the first page was loaded must not shift later pages
+          if (seen.length === 2) {
+            dbUtils.createPoll(author.id, `Created while scrolling ${sort}`, ['Yes', 'No']);
+          }
+
+          url = `/api/feed?limit=2&sort=${sort}&authorId=${author.id}&cursor=${response.body.pagination.nextCursor}`;
+        }
+      };
+
+      // Polls created while scrolling the newest first come before the cursor, and are skipped
+      expect(await readAll('newest')).toEqual([...pollIds].reverse());
+
+      // Oldest first, they are appended at the end
+      const oldest = await readAll('oldest');
+      expect(oldest.slice(0, 5)).toEqual(pollIds);
+      expect(oldest).toHaveLength(7);
+
+      const hot = await readAll('hot');
+      expect(hot).toHaveLength(7);
+      expect(new Set(hot).size).toBe(7);
+    });
+
+    it('should validate cursors', async () => {
+      const firstPage = await request(app).get('/api/feed?limit=2&sort=newest').expect(200);
+      const { nextCursor } = firstPage.body.pagination;
+
+      const malformed = await request(app).get('/api/feed?cursor=not-a-cursor').expect(400);
+      expect(malformed.body).toHaveProperty('error', 'Invalid cursor');
+
+      const otherSort = await request(app).get(`/api/feed?sort=oldest&cursor=${nextCursor}`).expect(400);
+      expect(otherSort.body).toHaveProperty('error', 'Invalid cursor');
+
+      const withOffset = await request(app).get(`/api/feed?sort=newest&offset=2&cursor=${nextCursor}`).expect(400);
+      expect(withOffset.body).toHaveProperty('error', 'Invalid pagination');
+    });
+    
     it('should support search functionality', async () => {
       // Create a timestamp to ensure unique search terms across test runs
       const timestamp = new Date().getTime();
@@ -183,6 +243,48 @@ describe('Feed API Endpoints', () => {
       expect(nonExistentResponse.body.pagination.total).toBe(0);
     });
     
+    it('should match answers and word prefixes, ranking and highlighting the matches', async () => {
+      const timestamp = Date.now();
+      const inAnswers = dbUtils.createPoll(
+        testUser.id,
+        `Weekend plans ${timestamp}`,
+        ['Go hiking', 'Stay in']
+      );
+      const inQuestion = dbUtils.createPoll(
+        testUser.id,
+        `Best hiking trail ${timestamp}`,
+        ['North ridge', 'Lakeside']
+      );
+
+      const response = await request(app)
+        .get(`/api/feed?q=hik ${timestamp}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+
+      // Question matches weigh more than answer matches
+      expect(response.body.polls.map((poll: PollWithDetails) => poll.poll.id))
+        .toEqual([inQuestion.poll.id, inAnswers.poll.id]);
+      expect(response.body.polls[0].snippet.question).toEqual([
+        { text: 'Best ', highlighted: false },
+        { text: 'hiking', highlighted: true },
+        { text: ' trail ', highlighted: false },
+        { text: String(timestamp), highlighted: true }
+      ]);
+      expect(response.body.polls[0].snippet.answers).toBeNull();
+      expect(response.body.polls[1].snippet.answers).toEqual([
+        { text: 'Go ', highlighted: false },
+        { text: 'hiking', highlighted: true },
+        { text: ' · Stay in', highlighted: false }
+      ]);
+
+      // Renamed questions are found by their new text only
+      dbUtils.updatePoll(inQuestion.poll.id, { question: `Best climbing route ${timestamp}` });
+      const renamedResponse = await request(app)
+        .get(`/api/feed?q=hiking ${timestamp}`)
+        .expect(200);
+      expect(renamedResponse.body.pagination.total).toBe(1);
+    });
+    
     it('should support sorting options', async () => {
       // Test newest first (default)
       const newestResponse = await request(app)
@@ -211,8 +313,92 @@ describe('Feed API Endpoints', () => {
       
       expect(invalidSortResponse.body).toHaveProperty('error', 'Invalid sort parameter');
     });
+
+    it('should rank polls by their stored trending, hot and most-voted scores', async () => {
+      const timestamp = Date.now();
+      const author = dbUtils.createUser(`ranking-${timestamp}@feed-test.com`, 'Ranking Author');
+      const voters = [0, 1, 2].map(i => dbUtils.createUser(`ranking-${i}-${timestamp}@feed-test.com`, `Voter ${i}`));
+      const popular = dbUtils.createPoll(author.id, 'Popular a while ago', ['Yes', 'No']);
+      const recent = dbUtils.createPoll(author.id, 'Getting votes now', ['Yes', 'No']);
+
+      voters.forEach(voter => dbUtils.createVote(voter.id, popular.poll.id, popular.answers[0].id));
+      dbUtils.createVote(voters[0].id, recent.poll.id, recent.answers[0].id);
+
+      // The popular poll is three days old and its votes came in 40 hours ago
+      const hoursAgo = (hours: number) => new Date(timestamp - hours * 60 * 60 * 1000).toISOString();
+      db.prepare('UPDATE Polls SET created_at = ? WHERE id = ?').run(hoursAgo(72), popular.poll.id);
+      db.prepare('UPDATE Votes SET created_at = ? WHERE poll_id = ?').run(hoursAgo(40), popular.poll.id);
+
+      const getOrder = async (sort: string) => {
+        const response = await request(app)
+          .get(`/api/feed?sort=${sort}&authorId=${author.id}`)
+          .expect(200);
+        return response.body.polls.map((poll: PollWithDetails) => poll.poll.id);
+      };
+
+      // Unscored polls fall back to newest first
+      expect(await getOrder('trending')).toEqual([recent.poll.id, popular.poll.id]);
+
+      refreshPollScores(new Date(timestamp));
+
+      expect(dbUtils.getPollScore(popular.poll.id)).toMatchObject({ voter_count: 3 });
+      expect(await getOrder('most_voted')).toEqual([popular.poll.id, recent.poll.id]);
+      expect(await getOrder('trending')).toEqual([recent.poll.id, popular.poll.id]);
+      expect(await getOrder('hot')).toEqual([recent.poll.id, popular.poll.id]);
+    });
   });
   
+  describe('feed assembly', () => {
+    it('should run the same number of queries however many polls are on the page', async () => {
+      const timestamp = Date.now();
+      const author = dbUtils.createUser(`batch-${timestamp}@feed-test.com`, 'Batch Author');
+
+      // A mix of poll types, each voted on by the test user
+      for (let i = 0; i < 3; i++) {
+        const single = dbUtils.createPoll(author.id, `Batch single ${i}`, ['Yes', 'No'], { allowWriteIns: true });
+        dbUtils.createVotes(testUser.id, single.poll.id, [single.answers[2].id], { writeIn: `Maybe ${i}` });
+
+        const ranked = dbUtils.createPoll(author.id, `Batch ranked ${i}`, ['A', 'B', 'C'], { type: 'ranked' });
+        dbUtils.createVotes(testUser.id, ranked.poll.id, ranked.answers.map(answer => answer.id), { ranked: true });
+
+        const scale = dbUtils.createPoll(author.id, `Batch scale ${i}`, [], { type: 'scale', scale: { min: 1, max: 5 } });
+        dbUtils.createScaleVote(testUser.id, scale.poll.id, 4);
+      }
+
+      const countQueries = async (limit: number) => {
+        const prepare = jest.spyOn(db, 'prepare');
+        try {
+          const response = await request(app)
+            .get(`/api/feed?limit=${limit}&authorId=${author.id}`)
+            .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+            .expect(200);
+          expect(response.body.polls).toHaveLength(limit);
+          return { queries: prepare.mock.calls.length, polls: response.body.polls };
+        } finally {
+          prepare.mockRestore();
+        }
+      };
+
+      const small = await countQueries(3);
+      const large = await countQueries(9);
+      expect(large.queries).toBe(small.queries);
+
+      // The batched results still belong to the right polls
+      large.polls.forEach((pollData: PollWithDetails & { poll: { type: string }; rankedResults?: unknown; scaleResults?: { count: number } }) => {
+        expect(pollData.author).toEqual({ id: author.id, name: 'Batch Author' });
+        expect(pollData.userVote).not.toBeNull();
+
+        if (pollData.poll.type === 'single') {
+          expect(pollData.userVote).toMatchObject({ writeIn: `Maybe ${pollData.poll.question.slice(-1)}` });
+        } else if (pollData.poll.type === 'ranked') {
+          expect(pollData.rankedResults).toBeDefined();
+        } else {
+          expect(pollData.scaleResults).toMatchObject({ count: 1 });
+        }
+      });
+    });
+  });
+
   describe('GET /api/feed/search', () => {
     it('should be an alias for /api/feed with search', async () => {
       // Create a timestamp to ensure unique search terms across test runs
@@ -308,6 +494,27 @@ describe('Feed API Endpoints', () => {
       expect(allPollsContainTerm).toBe(true);
     });
     
+    it('should page search results for cross-referencing by cursor', async () => {
+      const mainPollResult = dbUtils.createPoll(testUser.id, 'Main poll for cursor paging', ['Option 1', 'Option 2']);
+      const uniqueSearchTerm = `xrefcursor${Date.now()}`;
+      const pollIds = [0, 1, 2].map(i =>
+        dbUtils.createPoll(testUser.id, `Cursor ${uniqueSearchTerm} poll ${i}`, ['Option A', 'Option B']).poll.id
+      );
+
+      const url = `/api/poll/${mainPollResult.poll.id}/search?q=${uniqueSearchTerm}&limit=2`;
+      const firstPage = await request(app).get(url).expect(200);
+      expect(firstPage.body.polls).toHaveLength(2);
+      expect(firstPage.body.pagination.hasMore).toBe(true);
+
+      const secondPage = await request(app)
+        .get(`${url}&cursor=${firstPage.body.pagination.nextCursor}`)
+        .expect(200);
+      expect(secondPage.body.pagination).toMatchObject({ hasMore: false, nextCursor: null });
+
+      const seen = [...firstPage.body.polls, ...secondPage.body.polls].map((poll: PollWithDetails) => poll.poll.id);
+      expect([...seen].sort()).toEqual([...pollIds].sort());
+    });
+
     it('should handle excluding already cross-referenced polls', async () => {
       // Create a main poll
       const mainPollResult = await dbUtils.createPoll(
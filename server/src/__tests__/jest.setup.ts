@@ -6,3 +6,7 @@ process.env.NODE_ENV = 'test';
 
 // Increase timeout for all tests
 jest.setTimeout(10000);
+
+// Disable k-anonymity suppression so fixtures with a handful of voters stay readable;
+// privacy tests raise the threshold explicitly
+process.env.PRIVACY_MIN_CELL_SIZE = '0';
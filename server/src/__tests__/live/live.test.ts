@@ -0,0 +1,97 @@
+import { PollUpdateHub, diffVoteCounts } from '../../live';
+
+describe('Live updates', () => {
+  describe('diffVoteCounts', () => {
+    it('should report only the answers whose counts changed', () => {
+      expect(diffVoteCounts({ a: 2, b: 1, c: 4 }, { a: 3, b: 1, d: 1 })).toEqual({ a: 1, c: -4, d: 1 });
+      expect(diffVoteCounts({ a: 1 }, { a: 1 })).toEqual({});
+    });
+  });
+
+  describe('PollUpdateHub', () => {
+    let voteCounts: Record<string, number>;
+    let loadResults: jest.Mock;
+    let hub: PollUpdateHub<{ voteCounts: Record<string, number>; respondentCount: number }>;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      voteCounts = { a: 1 };
+      loadResults = jest.fn((pollId: string) => pollId === 'poll-1'
+        ? { voteCounts: { ...voteCounts }, respondentCount: Object.values(voteCounts).reduce((sum, count) => sum + count, 0) }
+        : null);
+      hub = new PollUpdateHub(loadResults, 1000);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should coalesce votes into one update per throttle interval', () => {
+      const listener = jest.fn();
+      const subscription = hub.subscribe('poll-1', listener)!;
+      expect(subscription.snapshot).toEqual({ voteCounts: { a: 1 }, respondentCount: 1 });
+
+      // A burst of votes is sent as one update, with one load of the results
+      voteCounts = { a: 2, b: 1 };
+      hub.publish('poll-1');
+      hub.publish('poll-1');
+      loadResults.mockClear();
+      jest.advanceTimersByTime(0);
+
+      expect(loadResults).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenLastCalledWith({ voteCounts: { a: 1, b: 1 }, respondentCount: 3 });
+
+      // The next votes wait out the rest of the interval
+      voteCounts = { a: 2, b: 3 };
+      hub.publish('poll-1');
+      jest.advanceTimersByTime(999);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1);
+      expect(listener).toHaveBeenLastCalledWith({ voteCounts: { b: 2 }, respondentCount: 5 });
+    });
+
+    it('should send each subscriber the changes since its own snapshot', () => {
+      const early = jest.fn();
+      const late = jest.fn();
+      hub.subscribe('poll-1', early);
+
+      // A vote lands before the second subscriber connects
+      voteCounts = { a: 2 };
+      hub.publish('poll-1');
+      hub.subscribe('poll-1', late);
+      jest.advanceTimersByTime(0);
+
+      expect(early).toHaveBeenLastCalledWith(expect.objectContaining({ voteCounts: { a: 1 } }));
+      expect(late).toHaveBeenLastCalledWith(expect.objectContaining({ voteCounts: {} }));
+    });
+
+    it('should stop updating polls once their last subscriber leaves', () => {
+      const listener = jest.fn();
+      const first = hub.subscribe('poll-1', listener)!;
+      const second = hub.subscribe('poll-1', listener)!;
+
+      first.unsubscribe();
+      expect(hub.subscribedPollCount).toBe(1);
+
+      hub.publish('poll-1');
+      second.unsubscribe();
+      jest.runAllTimers();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(hub.subscribedPollCount).toBe(0);
+    });
+
+    it('should not subscribe to missing polls and signal deleted ones', () => {
+      expect(hub.subscribe('missing', jest.fn())).toBeNull();
+
+      const listener = jest.fn();
+      hub.subscribe('poll-1', listener);
+      loadResults.mockReturnValue(null);
+      hub.publish('poll-1');
+      jest.advanceTimersByTime(0);
+
+      expect(listener).toHaveBeenCalledWith(null);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import {
+  createFileTransport,
+  createSmtpTransport,
+  formatMailMessage,
+  type SmtpTransportOptions
+} from '../../mail';
+
+const message = {
+  to: 'voter@example.com',
+  subject: 'Your EveryPoll login link',
+  text: 'First line\n.starts with a dot\nLast line'
+};
+
+/**
+ * A local SMTP server that accepts every message, recording the commands it receives
+ * @param options.rejectRecipients Whether to refuse every recipient
+ */
+const createMockSmtpServer = (options: { rejectRecipients?: boolean } = {}) => {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let data: string[] | null = null;
+
+    socket.write('220 mock.example ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-mock.example\r\n250 8BITMIME\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipients) {
+          socket.write('550 No such user\r\n');
+        } else if (verb === 'DATA') {
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return { server, commands, messages };
+};
+
+describe('Mail transports', () => {
+  describe('formatMailMessage', () => {
+    it('should format a message with headers and CRLF line endings', () => {
+      const formatted = formatMailMessage('EveryPoll <no-reply@everypoll.com>', message);
+      const [headers, body] = formatted.split('\r\n\r\n');
+
+      expect(headers).toContain('From: EveryPoll <no-reply@everypoll.com>');
+      expect(headers).toContain('To: voter@example.com');
+      expect(headers).toContain('Subject: Your EveryPoll login link');
+      expect(headers).toMatch(/Message-ID: <[\w-]+@everypoll\.com>/);
+      expect(headers).toContain('Content-Transfer-Encoding: 7bit');
+      expect(body).toBe('First line\r\n.starts with a dot\r\nLast line');
+    });
+
+    it('should encode non-ASCII text and keep headers on one line', () => {
+      const formatted = formatMailMessage('no-reply@everypoll.com', {
+        to: 'voter@example.com\r\nBcc: everyone@example.com',
+        subject: 'Abstimmung für alle',
+        text: 'Grüße'
+      });
+      const [headers, body] = formatted.split('\r\n\r\n');
+
+      expect(headers).not.toMatch(/^Bcc:/m);
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Abstimmung für alle').toString('base64')}?=`);
+      expect(headers).toContain('Content-Transfer-Encoding: base64');
+      expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Grüße');
+    });
+  });
+
+  describe('File transport', () => {
+    it('should write each message to an .eml file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'everypoll-mail-'));
+      const transport = createFileTransport(path.join(dir, 'outbox'), 'no-reply@everypoll.com');
+
+      await transport.send(message);
+      await transport.send({ ...message, subject: 'Second message' });
+
+      const files = fs.readdirSync(path.join(dir, 'outbox')).sort();
+      expect(files).toHaveLength(2);
+      expect(files.every(file => file.endsWith('.eml'))).toBe(true);
+      expect(fs.readFileSync(path.join(dir, 'outbox', files[0]), 'utf8')).toContain('Subject: Your EveryPoll login link');
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('SMTP transport', () => {
+    const sendWithMockServer = async (
+      mockOptions: { rejectRecipients?: boolean } = {},
+      transportOptions: Partial<SmtpTransportOptions> = {}
+    ) => {
+      const mock = createMockSmtpServer(mockOptions);
+      await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const transport = createSmtpTransport({
+          host: '127.0.0.1',
+          port: (mock.server.address() as AddressInfo).port,
+          secure: false,
+          user: null,
+          pass: null,
+          from: 'EveryPoll <no-reply@everypoll.com>',
+          timeoutMs: 2000,
+          ...transportOptions
+        });
+        await transport.send(message);
+        return mock;
+      } finally {
+        await new Promise(resolve => mock.server.close(resolve));
+      }
+    };
+
+    it('should send a message through the server', async () => {
+      const { commands, messages } = await sendWithMockServer();
+
+      expect(commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        'MAIL FROM:<no-reply@everypoll.com>',
+        'RCPT TO:<voter@example.com>',
+        'DATA',
+        'QUIT'
+      ]);
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toContain('To: voter@example.com');
+      // The line starting with a dot is escaped so it doesn't end the message early
+      expect(messages[0]).toContain('\r\n..starts with a dot\r\n');
+    });
+
+    it('should fail when the server refuses the recipient', async () => {
+      await expect(sendWithMockServer({ rejectRecipients: true })).rejects.toThrow('SMTP RCPT failed: 550 No such user');
+    });
+
+    it('should not send credentials over an unencrypted connection', async () => {
+      await expect(sendWithMockServer({}, { user: 'mailer', pass: 'secret' })).rejects.toThrow(/refusing to send credentials/);
+    });
+  });
+});
@@ -1,9 +1,13 @@
+import http from 'http';
+import { AddressInfo } from 'net';
 import request from 'supertest';
 import { app } from '../../app';
 import { reinitializeTestDatabase } from '../../database/init';
 import { dbUtils } from '../../database';
 import { createToken, AUTH_COOKIE_NAME } from '../../auth';
 import { User, Poll, Answer } from '../../database/utils';
+import { PRIVACY_CONFIG } from '../../privacy';
+import { getPollStatus } from '../../polls/utils';
 
 describe('Poll API Endpoints', () => {
   let testUser: User;
@@ -54,6 +58,40 @@ describe('Poll API Endpoints', () => {
       expect(savedPoll?.poll.question).toBe(pollData.question);
     });
 
+    it('should create a poll with a voting window', async () => {
+      const opensAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const closesAt = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Scheduled?', answers: ['Yes', 'No'], opensAt, closesAt })
+        .expect(201);
+
+      expect(response.body.poll.opens_at).toBe(opensAt);
+      expect(response.body.poll.closes_at).toBe(closesAt);
+    });
+
+    it('should reject invalid voting windows', async () => {
+      const past = new Date(Date.now() - 60 * 1000).toISOString();
+      const later = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const sooner = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+
+      for (const schedule of [
+        { closesAt: 'not-a-date' },
+        { closesAt: past },
+        { opensAt: later, closesAt: sooner }
+      ]) {
+        const response = await request(app)
+          .post('/api/poll')
+          .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+          .send({ question: 'Scheduled?', answers: ['Yes', 'No'], ...schedule })
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Invalid schedule');
+      }
+    });
+
     it('should reject poll creation with too few answers', async () => {
       const pollData = {
         question: 'What is your favorite color?',
@@ -202,6 +240,19 @@ describe('Poll API Endpoints', () => {
       expect(response.body.userVote.answerId).toBe(pollResult.answers[2].id);
     });
 
+    it('should flag whether the requester is the poll author', async () => {
+      const asAuthor = await request(app)
+        .get(`/api/poll/${createdPollId}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+      expect(asAuthor.body.isAuthor).toBe(true);
+
+      const asAnonymous = await request(app)
+        .get(`/api/poll/${createdPollId}`)
+        .expect(200);
+      expect(asAnonymous.body.isAuthor).toBe(false);
+    });
+
     it('should return 404 for non-existent poll', async () => {
       const response = await request(app)
         .get('/api/poll/non-existent-id')
@@ -305,6 +356,26 @@ describe('Poll API Endpoints', () => {
       expect(Object.keys(xref.voteCounts).length).toBeGreaterThan(0);
     });
 
+    it('should include statistics for cross-referenced results', async () => {
+      const response = await request(app)
+        .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+        .expect(200);
+
+      const { statistics } = response.body.crossReferences[0];
+
+      // Morning people are users 0, 2 (cats) and 4 (dogs)
+      expect(statistics.sampleSize).toBe(3);
+      expect(statistics.chiSquare).toHaveProperty('pValue');
+      expect(statistics.chiSquare.degreesOfFreedom).toBe(1);
+
+      const cats = statistics.answers[pollA.answers[0].id];
+      expect(cats.count).toBe(2);
+      expect(cats.lower).toBeLessThan(cats.proportion);
+      expect(cats.upper).toBeGreaterThan(cats.proportion);
+      // 2/3 of morning people versus 1/2 of everyone
+      expect(cats.lift).toBeCloseTo(4 / 3);
+    });
+
     it('should return different results for different cross-referenced answers', async () => {
       // Query poll A with cross-reference to poll B, answer "Morning Person"
       const responseMorning = await request(app)
@@ -370,6 +441,497 @@ describe('Poll API Endpoints', () => {
       // Should not have cross-references
       expect(response.body).not.toHaveProperty('crossReferences');
     });
+
+    describe('GET /api/poll/:id/correlations', () => {
+      it('should rank polls sharing voters by strength of association', async () => {
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=6`)
+          .expect(200);
+
+        const { correlations } = response.body;
+        expect(correlations).toHaveLength(2);
+
+        // Coffee preferences split cats and dogs more than morning/night does
+        expect(correlations[0].poll.id).toBe(pollC.poll.id);
+        expect(correlations[0].cramersV).toBeCloseTo(Math.sqrt(1 / 3));
+        expect(correlations[1].poll.id).toBe(pollB.poll.id);
+        expect(correlations[1].cramersV).toBeCloseTo(1 / 3);
+        expect(correlations[0].sharedVoters).toBe(6);
+        expect(correlations[0].answers).toHaveLength(4);
+        expect(correlations[0].author.id).toBe(testUser.id);
+      });
+
+      it('should include the strongest answer-pair effects', async () => {
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=6&limit=1`)
+          .expect(200);
+
+        const [correlation] = response.body.correlations;
+        expect(correlation.effects.length).toBeGreaterThan(0);
+        expect(correlation.effects.length).toBeLessThanOrEqual(3);
+
+        // Every "With Sugar" voter prefers cats: twice the overall rate
+        const [strongest] = correlation.effects;
+        expect(strongest.lift).toBeCloseTo(2);
+        expect(strongest).toHaveProperty('answerText');
+        expect(strongest).toHaveProperty('crossAnswerText');
+      });
+
+      it('should skip polls with too few shared voters and excluded polls', async () => {
+        const tooFew = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=7`)
+          .expect(200);
+        expect(tooFew.body.correlations).toEqual([]);
+
+        const excluded = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=6&p1=${pollC.poll.id}`)
+          .expect(200);
+        expect(excluded.body.correlations).toHaveLength(1);
+        expect(excluded.body.correlations[0].poll.id).toBe(pollB.poll.id);
+      });
+
+      it('should return 404 for non-existent poll', async () => {
+        const response = await request(app)
+          .get('/api/poll/non-existent-id/correlations')
+          .expect(404);
+
+        expect(response.body).toHaveProperty('error', 'Poll not found');
+      });
+    });
+
+    describe('GET /api/poll/:id/crosstab', () => {
+      it('should intersect conditions across polls', async () => {
+        // Morning people (users 0, 2, 4) who take their coffee black (users 0, 4)
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}&p2=${pollC.poll.id}&a2=${pollC.answers[0].id}`)
+          .expect(200);
+
+        expect(response.body.conditions).toHaveLength(2);
+        expect(response.body.conditions[0].poll.id).toBe(pollB.poll.id);
+        expect(response.body.conditions[0].answers[0].text).toBe('Morning Person');
+        expect(response.body.populationSize).toBe(2);
+        expect(response.body.respondentCount).toBe(2);
+        expect(response.body.voteCounts[pollA.answers[0].id]).toBe(1); // User 0 prefers cats
+        expect(response.body.voteCounts[pollA.answers[1].id]).toBe(1); // User 4 prefers dogs
+      });
+
+      it('should treat several answers for one poll as alternatives', async () => {
+        // Morning people (users 0, 2, 4) who take their coffee black or with sugar (users 0, 2, 4)
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}&p2=${pollC.poll.id}&a2=${pollC.answers[0].id},${pollC.answers[2].id}`)
+          .expect(200);
+
+        expect(response.body.conditions[1].answers).toHaveLength(2);
+        expect(response.body.populationSize).toBe(3);
+        expect(response.body.voteCounts[pollA.answers[0].id]).toBe(2);
+        expect(response.body.voteCounts[pollA.answers[1].id]).toBe(1);
+      });
+
+      it('should return an empty population when no voter matches every condition', async () => {
+        // Night owls (users 1, 3, 5) who take their coffee with sugar (user 2)
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollB.poll.id}&a1=${pollB.answers[1].id}&p2=${pollC.poll.id}&a2=${pollC.answers[2].id}`)
+          .expect(200);
+
+        expect(response.body.populationSize).toBe(0);
+        expect(response.body.respondentCount).toBe(0);
+        expect(response.body.voteCounts).toEqual({});
+      });
+
+      it('should require at least one condition', async () => {
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab`)
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Missing crosstab conditions');
+      });
+
+      it('should reject answers that do not belong to the condition poll', async () => {
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollB.poll.id}&a1=${pollC.answers[0].id}`)
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Invalid crosstab condition');
+        expect(response.body.message).toContain('does not belong to poll');
+      });
+
+      it('should reject using the main poll as a condition', async () => {
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollA.poll.id}&a1=${pollA.answers[0].id}`)
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Invalid crosstab condition');
+      });
+    });
+
+    describe('k-anonymity threshold', () => {
+      const originalMinCellSize = PRIVACY_CONFIG.MIN_CELL_SIZE;
+
+      afterEach(() => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = originalMinCellSize;
+      });
+
+      it('should suppress cross-referenced counts below the threshold', async () => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 2;
+
+        // Morning people: 2 prefer cats, 1 prefers dogs
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+          .expect(200);
+
+        const xref = response.body.crossReferences[0];
+        expect(xref.suppressed).toBe(true);
+
+        // The single dog lover is withheld, and so is the cat count that would reveal it
+        expect(xref.voteCounts).toEqual({});
+        expect(xref.suppressedAnswerIds).toEqual(
+          expect.arrayContaining([pollA.answers[0].id, pollA.answers[1].id])
+        );
+        expect(xref.statistics.answers).toEqual({});
+      });
+
+      it('should only test independence when every cell of the table meets the threshold', async () => {
+        // Cats and dogs against morning and night is [[2, 1], [1, 2]]
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 1;
+
+        const tested = await request(app)
+          .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+          .expect(200);
+
+        expect(tested.body.crossReferences[0].statistics.chiSquare.degreesOfFreedom).toBe(1);
+
+        // Two cells now hold a single voter, though the segment itself is large enough
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 2;
+
+        const untested = await request(app)
+          .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+          .expect(200);
+
+        expect(untested.body.crossReferences[0].statistics.chiSquare).toBeNull();
+      });
+
+      it('should reject cross-references that match too few voters by withholding the segment', async () => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 4;
+
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+          .expect(200);
+
+        const xref = response.body.crossReferences[0];
+        expect(xref.suppressed).toBe(true);
+        expect(xref.voteCounts).toEqual({});
+        expect(xref.suppressedAnswerIds).toEqual(pollA.answers.map(answer => answer.id));
+        expect(xref).not.toHaveProperty('respondentCount');
+        expect(xref).not.toHaveProperty('statistics');
+        expect(xref.poll.question).toBe('Are you a morning or night person?');
+      });
+
+      it('should not flag cross-references that meet the threshold', async () => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 1;
+
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}`)
+          .expect(200);
+
+        const xref = response.body.crossReferences[0];
+        expect(xref.suppressed).toBe(false);
+        expect(xref.suppressedAnswerIds).toEqual([]);
+        expect(xref.voteCounts[pollA.answers[0].id]).toBe(2);
+      });
+
+      it('should reject crosstabs whose conditions match too few voters by withholding every count', async () => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 3;
+
+        // Morning people who take their coffee black: only 2 voters
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/crosstab?p1=${pollB.poll.id}&a1=${pollB.answers[0].id}&p2=${pollC.poll.id}&a2=${pollC.answers[0].id}`)
+          .expect(200);
+
+        expect(response.body.suppressed).toBe(true);
+        expect(response.body.voteCounts).toEqual({});
+        expect(response.body.suppressedAnswerIds).toEqual(pollA.answers.map(answer => answer.id));
+        expect(response.body).not.toHaveProperty('populationSize');
+        expect(response.body.conditions).toHaveLength(2);
+      });
+
+      it('should not suggest correlations below the threshold', async () => {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 7;
+
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=1`)
+          .expect(200);
+
+        expect(response.body.correlations).toEqual([]);
+      });
+
+      it('should not score polls whose tables have cells below the threshold', async () => {
+        // Cats and dogs against morning and night is [[2, 1], [1, 2]]; against coffee,
+        // some combinations have no voters at all
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 1;
+
+        const response = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=1`)
+          .expect(200);
+
+        expect(response.body.correlations.map((correlation: { poll: Poll }) => correlation.poll.id))
+          .toEqual([pollB.poll.id]);
+        expect(response.body.correlations[0].cramersV).toBeCloseTo(1 / 3);
+
+        PRIVACY_CONFIG.MIN_CELL_SIZE = 2;
+
+        const withheld = await request(app)
+          .get(`/api/poll/${pollA.poll.id}/correlations?minSharedVoters=1`)
+          .expect(200);
+
+        expect(withheld.body.correlations).toEqual([]);
+      });
+    });
+  });
+
+  describe('PATCH /api/poll/:id', () => {
+    let pollResult: { poll: Poll; answers: Answer[] };
+
+    beforeEach(() => {
+      pollResult = dbUtils.createPoll(testUser.id, 'Waht is your favourite season?', ['Spring', 'Sumer']);
+    });
+
+    it('should let the author fix the question and answers before any votes', async () => {
+      const response = await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({
+          question: 'What is your favourite season?',
+          answers: [{ id: pollResult.answers[1].id, text: 'Summer' }]
+        })
+        .expect(200);
+
+      expect(response.body.poll.question).toBe('What is your favourite season?');
+      expect(response.body.answers.map((answer: Answer) => answer.text)).toEqual(['Spring', 'Summer']);
+    });
+
+    it('should block answer edits once the poll has votes but allow question edits', async () => {
+      const voter = dbUtils.createUser(`voter-${Date.now()}@example.com`, 'Voter');
+      dbUtils.createVote(voter.id, pollResult.poll.id, pollResult.answers[0].id);
+
+      const answerEdit = await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answers: [{ id: pollResult.answers[1].id, text: 'Summer' }] })
+        .expect(409);
+
+      expect(answerEdit.body).toHaveProperty('error', 'Poll has votes');
+      expect(dbUtils.getPollById(pollResult.poll.id)!.answers[1].text).toBe('Sumer');
+
+      await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'What is your favourite season?' })
+        .expect(200);
+    });
+
+    it('should reject edits from anyone but the author', async () => {
+      const otherUser = dbUtils.createUser(`other-${Date.now()}@example.com`, 'Other User');
+
+      const response = await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${createToken(otherUser)}`])
+        .send({ question: 'Hijacked?' })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error', 'Not poll author');
+    });
+
+    it('should reject answers that do not belong to the poll', async () => {
+      const response = await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answers: [{ id: 'not-an-answer', text: 'Autumn' }] })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Invalid answer');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .send({ question: 'Anonymous edit?' })
+        .expect(401);
+    });
+  });
+
+  describe('DELETE /api/poll/:id', () => {
+    it('should let the author delete a poll along with its votes', async () => {
+      const pollResult = dbUtils.createPoll(testUser.id, 'Delete me?', ['Yes', 'No']);
+      const voter = dbUtils.createUser(`voter-${Date.now()}@example.com`, 'Voter');
+      dbUtils.createVote(voter.id, pollResult.poll.id, pollResult.answers[0].id);
+
+      await request(app)
+        .delete(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+
+      await request(app).get(`/api/poll/${pollResult.poll.id}`).expect(404);
+      expect(dbUtils.getUserVote(voter.id, pollResult.poll.id)).toBeNull();
+    });
+
+    it('should reject deletion by anyone but the author', async () => {
+      const pollResult = dbUtils.createPoll(testUser.id, 'Keep me?', ['Yes', 'No']);
+      const otherUser = dbUtils.createUser(`other-${Date.now()}@example.com`, 'Other User');
+
+      const response = await request(app)
+        .delete(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${createToken(otherUser)}`])
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error', 'Not poll author');
+      expect(dbUtils.getPollById(pollResult.poll.id)).not.toBeNull();
+    });
+
+    it('should return 404 for non-existent poll', async () => {
+      await request(app)
+        .delete('/api/poll/non-existent-id')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(404);
+    });
+  });
+
+  describe('PUT and DELETE /api/poll/:id/vote', () => {
+    let pollResult: { poll: Poll; answers: Answer[] };
+
+    beforeEach(() => {
+      pollResult = dbUtils.createPoll(testUser.id, 'Change your mind?', ['Yes', 'No', 'Maybe']);
+      dbUtils.createVote(testUser.id, pollResult.poll.id, pollResult.answers[0].id);
+    });
+
+    it('should change the answer of an existing vote', async () => {
+      const response = await request(app)
+        .put(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answerId: pollResult.answers[2].id })
+        .expect(200);
+
+      expect(response.body.vote.answerId).toBe(pollResult.answers[2].id);
+      expect(response.body.voteCounts).toEqual({ [pollResult.answers[2].id]: 1 });
+
+      const history = dbUtils.getVoteHistory(pollResult.poll.id);
+      expect(history[history.length - 1]).toMatchObject({
+        action: 'change',
+        previous_answer_id: pollResult.answers[0].id,
+        answer_id: pollResult.answers[2].id
+      });
+    });
+
+    it('should retract a vote', async () => {
+      const response = await request(app)
+        .delete(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+
+      expect(response.body.voteCounts).toEqual({});
+      expect(dbUtils.getUserVote(testUser.id, pollResult.poll.id)).toBeNull();
+    });
+
+    it('should return 404 when the user has not voted', async () => {
+      const otherUser = dbUtils.createUser(`other-${Date.now()}@example.com`, 'Other User');
+
+      const response = await request(app)
+        .put(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${createToken(otherUser)}`])
+        .send({ answerId: pollResult.answers[1].id })
+        .expect(404);
+
+      expect(response.body).toHaveProperty('error', 'Vote not found');
+    });
+
+    it('should reject changes once the author locks votes', async () => {
+      await request(app)
+        .patch(`/api/poll/${pollResult.poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ votesLocked: true })
+        .expect(200);
+
+      const change = await request(app)
+        .put(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answerId: pollResult.answers[1].id })
+        .expect(403);
+      expect(change.body).toHaveProperty('error', 'Votes locked');
+
+      const retract = await request(app)
+        .delete(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(403);
+      expect(retract.body).toHaveProperty('error', 'Votes locked');
+    });
+
+    it('should reject changes after the poll closes', async () => {
+      dbUtils.closePoll(pollResult.poll.id);
+
+      const response = await request(app)
+        .put(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answerId: pollResult.answers[1].id })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error', 'Poll closed');
+    });
+  });
+
+  describe('POST /api/poll/:id/close', () => {
+    it('should let the author close a poll and then reject votes', async () => {
+      const pollResult = dbUtils.createPoll(testUser.id, 'Close me?', ['Yes', 'No']);
+
+      const response = await request(app)
+        .post(`/api/poll/${pollResult.poll.id}/close`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+
+      expect(response.body.status).toBe('closed');
+      expect(response.body.poll.closes_at).not.toBeNull();
+
+      const vote = await request(app)
+        .post(`/api/poll/${pollResult.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answerId: pollResult.answers[0].id })
+        .expect(403);
+      expect(vote.body).toHaveProperty('error', 'Poll closed');
+
+      const poll = await request(app).get(`/api/poll/${pollResult.poll.id}`).expect(200);
+      expect(poll.body.status).toBe('closed');
+
+      await request(app)
+        .post(`/api/poll/${pollResult.poll.id}/close`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(409);
+    });
+
+    it('should reject closing by anyone but the author', async () => {
+      const pollResult = dbUtils.createPoll(testUser.id, 'Keep open?', ['Yes', 'No']);
+      const otherUser = dbUtils.createUser(`other-${Date.now()}@example.com`, 'Other User');
+
+      const response = await request(app)
+        .post(`/api/poll/${pollResult.poll.id}/close`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${createToken(otherUser)}`])
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error', 'Not poll author');
+    });
+  });
+
+  describe('getPollStatus', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    it('should treat polls without a window as open', () => {
+      expect(getPollStatus({ opens_at: null, closes_at: null }, now)).toBe('open');
+    });
+
+    it('should follow the voting window', () => {
+      const window = { opens_at: '2025-06-01T13:00:00Z', closes_at: '2025-06-01T14:00:00Z' };
+
+      expect(getPollStatus(window, now)).toBe('scheduled');
+      expect(getPollStatus(window, new Date('2025-06-01T13:30:00Z'))).toBe('open');
+      expect(getPollStatus(window, new Date('2025-06-01T14:00:00Z'))).toBe('closed');
+    });
   });
 
   describe('POST /api/poll/:id/vote', () => {
@@ -464,6 +1026,21 @@ describe('Poll API Endpoints', () => {
       expect(response.body).toHaveProperty('error', 'Invalid answer');
     });
 
+    it('should reject voting before a scheduled poll opens', async () => {
+      const scheduled = dbUtils.createPoll(testUser.id, 'Not yet?', ['Yes', 'No'], {
+        opensAt: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+      });
+
+      const response = await request(app)
+        .post(`/api/poll/${scheduled.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ answerId: scheduled.answers[0].id })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('error', 'Poll not open');
+      expect(response.body.opensAt).toBe(scheduled.poll.opens_at);
+    });
+
     it('should prevent voting twice on the same poll', async () => {
       // Get the poll to access answer IDs
       const pollResult = dbUtils.getPollById(pollId);
@@ -534,4 +1111,589 @@ describe('Poll API Endpoints', () => {
       expect(response.body.voteCounts[pollResult.answers[2].id]).toBeUndefined(); // 0 votes for option C
     });
   });
+
+  describe('Multiple-choice polls', () => {
+    const originalMinCellSize = PRIVACY_CONFIG.MIN_CELL_SIZE;
+    let voters: User[];
+    let voterTokens: string[];
+
+    afterEach(() => {
+      PRIVACY_CONFIG.MIN_CELL_SIZE = originalMinCellSize;
+    });
+
+    beforeEach(() => {
+      const timestamp = Date.now();
+      voters = [0, 1].map(i => dbUtils.createUser(`multi-${i}-${timestamp}@example.com`, `Multi Voter ${i}`));
+      voterTokens = voters.map(voter => createToken(voter));
+    });
+
+    it('should create a multiple-choice poll with a choice limit', async () => {
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Which toppings?', answers: ['Cheese', 'Ham', 'Olives'], type: 'multiple', maxChoices: 2 })
+        .expect(201);
+
+      expect(response.body.poll.type).toBe('multiple');
+      expect(response.body.poll.max_choices).toBe(2);
+    });
+
+    it('should reject invalid poll types and choice limits', async () => {
+      const invalidType = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Which toppings?', answers: ['Cheese', 'Ham'], type: 'weighted' })
+        .expect(400);
+      expect(invalidType.body).toHaveProperty('error', 'Invalid poll type');
+
+      const invalidMaxChoices = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Which toppings?', answers: ['Cheese', 'Ham'], type: 'multiple', maxChoices: 3 })
+        .expect(400);
+      expect(invalidMaxChoices.body).toHaveProperty('error', 'Invalid maxChoices');
+    });
+
+    it('should record several answers and base percentages on respondents', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Which toppings?', ['Cheese', 'Ham', 'Olives'], {
+        type: 'multiple',
+        maxChoices: 2
+      });
+
+      const first = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: [answers[0].id, answers[1].id] })
+        .expect(201);
+
+      expect(first.body.vote.answerIds).toEqual([answers[0].id, answers[1].id]);
+
+      const second = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[1]}`])
+        .send({ answerIds: [answers[0].id] })
+        .expect(201);
+
+      expect(second.body.voteCounts).toEqual({ [answers[0].id]: 2, [answers[1].id]: 1 });
+      expect(second.body.respondentCount).toBe(2);
+
+      const response = await request(app)
+        .get(`/api/poll/${poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .expect(200);
+
+      expect(response.body.respondentCount).toBe(2);
+      expect(response.body.userVote.answerIds).toEqual([answers[0].id, answers[1].id]);
+    });
+
+    it('should reject more answers than the poll allows', async () => {
+      const multiple = dbUtils.createPoll(testUser.id, 'Which toppings?', ['Cheese', 'Ham', 'Olives'], {
+        type: 'multiple',
+        maxChoices: 2
+      });
+      const single = dbUtils.createPoll(testUser.id, 'Pick one', ['Yes', 'No']);
+
+      const tooMany = await request(app)
+        .post(`/api/poll/${multiple.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: multiple.answers.map(answer => answer.id) })
+        .expect(400);
+      expect(tooMany.body).toHaveProperty('error', 'Too many choices');
+
+      const duplicate = await request(app)
+        .post(`/api/poll/${multiple.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: [multiple.answers[0].id, multiple.answers[0].id] })
+        .expect(400);
+      expect(duplicate.body).toHaveProperty('error', 'Duplicate answer');
+
+      const singleTooMany = await request(app)
+        .post(`/api/poll/${single.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: single.answers.map(answer => answer.id) })
+        .expect(400);
+      expect(singleTooMany.body).toHaveProperty('error', 'Too many choices');
+
+      expect(dbUtils.getRespondentCount(multiple.poll.id)).toBe(0);
+      expect(dbUtils.getRespondentCount(single.poll.id)).toBe(0);
+    });
+
+    it('should replace the selected answers when changing a vote', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Which toppings?', ['Cheese', 'Ham', 'Olives'], {
+        type: 'multiple'
+      });
+      dbUtils.createVotes(voters[0].id, poll.id, [answers[0].id, answers[1].id]);
+
+      const response = await request(app)
+        .put(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: [answers[1].id, answers[2].id] })
+        .expect(200);
+
+      expect(response.body.vote.answerIds).toEqual([answers[1].id, answers[2].id]);
+      expect(response.body.voteCounts).toEqual({ [answers[1].id]: 1, [answers[2].id]: 1 });
+      expect(response.body.respondentCount).toBe(1);
+    });
+
+    it('should count each voter once in cross-referenced segments', async () => {
+      PRIVACY_CONFIG.MIN_CELL_SIZE = 2;
+
+      const toppings = dbUtils.createPoll(testUser.id, 'Which toppings?', ['Cheese', 'Ham', 'Olives'], {
+        type: 'multiple'
+      });
+      const crust = dbUtils.createPoll(testUser.id, 'Thin crust?', ['Yes', 'No']);
+
+      // Two voters in the segment, four selections between them
+      voters.forEach(voter => {
+        dbUtils.createVote(voter.id, crust.poll.id, crust.answers[0].id);
+        dbUtils.createVotes(voter.id, toppings.poll.id, [toppings.answers[0].id, toppings.answers[1].id]);
+      });
+
+      const response = await request(app)
+        .get(`/api/poll/${toppings.poll.id}?p1=${crust.poll.id}&a1=${crust.answers[0].id}`)
+        .expect(200);
+
+      const [crossReference] = response.body.crossReferences;
+      expect(crossReference.suppressed).toBe(false);
+      expect(crossReference.respondentCount).toBe(2);
+      expect(crossReference.statistics.sampleSize).toBe(2);
+      expect(crossReference.statistics.answers[toppings.answers[0].id].proportion).toBe(1);
+      expect(crossReference.statistics.chiSquare).toBeNull();
+    });
+  });
+
+  describe('Ranked polls', () => {
+    let voters: User[];
+    let voterTokens: string[];
+
+    beforeEach(() => {
+      const timestamp = Date.now();
+      voters = [0, 1, 2].map(i => dbUtils.createUser(`ranked-${i}-${timestamp}@example.com`, `Ranked Voter ${i}`));
+      voterTokens = voters.map(voter => createToken(voter));
+    });
+
+    it('should create a ranked poll', async () => {
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Where should the offsite be?', answers: ['Lisbon', 'Berlin', 'Oslo'], type: 'ranked' })
+        .expect(201);
+
+      expect(response.body.poll.type).toBe('ranked');
+      expect(response.body.poll.max_choices).toBeNull();
+    });
+
+    it('should require every answer to be ranked', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Offsite?', ['Lisbon', 'Berlin', 'Oslo'], { type: 'ranked' });
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: [answers[0].id, answers[1].id] })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Incomplete ranking');
+    });
+
+    it('should record rankings and return round-by-round results', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Offsite?', ['Lisbon', 'Berlin', 'Oslo'], { type: 'ranked' });
+      const [lisbon, berlin, oslo] = answers.map(answer => answer.id);
+
+      dbUtils.createVotes(voters[0].id, poll.id, [lisbon, berlin, oslo], { ranked: true });
+      dbUtils.createVotes(voters[1].id, poll.id, [berlin, lisbon, oslo], { ranked: true });
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[2]}`])
+        .send({ answerIds: [oslo, lisbon, berlin] })
+        .expect(201);
+
+      // Vote counts are first preferences
+      expect(response.body.voteCounts).toEqual({ [lisbon]: 1, [berlin]: 1, [oslo]: 1 });
+      expect(response.body.vote.answerIds).toEqual([oslo, lisbon, berlin]);
+
+      // A three-way tie eliminates everyone at once, so the count ends tied
+      const { instantRunoff, borda } = response.body.rankedResults;
+      expect(instantRunoff.rounds).toHaveLength(1);
+      expect(instantRunoff.tied).toEqual([lisbon, berlin, oslo]);
+      expect(borda.scores).toEqual({ [lisbon]: 4, [berlin]: 3, [oslo]: 2 });
+
+      const pollResponse = await request(app)
+        .get(`/api/poll/${poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[2]}`])
+        .expect(200);
+
+      expect(pollResponse.body.userVote.answerIds).toEqual([oslo, lisbon, berlin]);
+      expect(pollResponse.body.rankedResults.ballotCount).toBe(3);
+    });
+
+    it('should re-rank a vote and move the first preference in cross-references', async () => {
+      const ranked = dbUtils.createPoll(testUser.id, 'Offsite?', ['Lisbon', 'Berlin', 'Oslo'], { type: 'ranked' });
+      const remote = dbUtils.createPoll(testUser.id, 'Remote?', ['Yes', 'No']);
+      const [lisbon, berlin, oslo] = ranked.answers.map(answer => answer.id);
+
+      dbUtils.createVote(voters[0].id, remote.poll.id, remote.answers[0].id);
+      dbUtils.createVotes(voters[0].id, ranked.poll.id, [lisbon, berlin, oslo], { ranked: true });
+
+      expect(dbUtils.getCrossReferencedVoteCounts(ranked.poll.id, remote.poll.id, remote.answers[0].id))
+        .toEqual({ [lisbon]: 1 });
+
+      const response = await request(app)
+        .put(`/api/poll/${ranked.poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerIds: [oslo, lisbon, berlin] })
+        .expect(200);
+
+      expect(response.body.vote.answerIds).toEqual([oslo, lisbon, berlin]);
+      expect(response.body.rankedResults.instantRunoff.winner).toBe(oslo);
+      expect(dbUtils.getCrossReferencedVoteCounts(ranked.poll.id, remote.poll.id, remote.answers[0].id))
+        .toEqual({ [oslo]: 1 });
+      expect(dbUtils.checkCoVoteCountsConsistency().consistent).toBe(true);
+    });
+  });
+
+  describe('Scale polls', () => {
+    let voters: User[];
+    let voterTokens: string[];
+
+    beforeEach(() => {
+      const timestamp = Date.now();
+      voters = [0, 1, 2].map(i => dbUtils.createUser(`scale-${i}-${timestamp}@example.com`, `Scale Voter ${i}`));
+      voterTokens = voters.map(voter => createToken(voter));
+    });
+
+    it('should create a scale poll without answers', async () => {
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({
+          question: 'How satisfied are you?',
+          type: 'scale',
+          scale: { min: 1, max: 10, step: 1, minLabel: 'Not at all', maxLabel: 'Completely' }
+        })
+        .expect(201);
+
+      expect(response.body.answers).toEqual([]);
+      expect(response.body.poll).toMatchObject({
+        type: 'scale',
+        scale_min: 1,
+        scale_max: 10,
+        scale_step: 1,
+        scale_min_label: 'Not at all',
+        scale_max_label: 'Completely'
+      });
+    });
+
+    it('should reject scales that are not a whole number of steps', async () => {
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'How satisfied are you?', type: 'scale', scale: { min: 0, max: 10, step: 3 } })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Invalid scale');
+    });
+
+    it('should only accept values on the scale', async () => {
+      const { poll } = dbUtils.createPoll(testUser.id, 'Rate it', [], { type: 'scale', scale: { min: 1, max: 5 } });
+
+      for (const value of [0, 6, 2.5, '3']) {
+        const response = await request(app)
+          .post(`/api/poll/${poll.id}/vote`)
+          .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+          .send({ value })
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Invalid value');
+      }
+    });
+
+    it('should record values and return their distribution', async () => {
+      const { poll } = dbUtils.createPoll(testUser.id, 'Rate it', [], { type: 'scale', scale: { min: 1, max: 5 } });
+
+      dbUtils.createScaleVote(voters[0].id, poll.id, 2);
+      dbUtils.createScaleVote(voters[1].id, poll.id, 5);
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[2]}`])
+        .send({ value: 5 })
+        .expect(201);
+
+      expect(response.body.vote).toMatchObject({ answerId: null, answerIds: [], value: 5 });
+      expect(response.body.respondentCount).toBe(3);
+      expect(response.body.scaleResults).toMatchObject({ count: 3, mean: 4, median: 5 });
+      expect(response.body.scaleResults.histogram).toEqual([
+        { value: 1, count: 0 },
+        { value: 2, count: 1 },
+        { value: 3, count: 0 },
+        { value: 4, count: 0 },
+        { value: 5, count: 2 }
+      ]);
+
+      const changeResponse = await request(app)
+        .put(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[2]}`])
+        .send({ value: 2 })
+        .expect(200);
+
+      expect(changeResponse.body.vote.value).toBe(2);
+      expect(changeResponse.body.scaleResults.mean).toBe(3);
+    });
+
+    it('should describe the values of each cross-referenced segment', async () => {
+      const scale = dbUtils.createPoll(testUser.id, 'Rate it', [], { type: 'scale', scale: { min: 1, max: 5 } });
+      const remote = dbUtils.createPoll(testUser.id, 'Remote?', ['Yes', 'No']);
+      const [yes, no] = remote.answers.map(answer => answer.id);
+
+      dbUtils.createVote(voters[0].id, remote.poll.id, yes);
+      dbUtils.createVote(voters[1].id, remote.poll.id, yes);
+      dbUtils.createVote(voters[2].id, remote.poll.id, no);
+      dbUtils.createScaleVote(voters[0].id, scale.poll.id, 4);
+      dbUtils.createScaleVote(voters[1].id, scale.poll.id, 5);
+      dbUtils.createScaleVote(voters[2].id, scale.poll.id, 1);
+
+      const response = await request(app)
+        .get(`/api/poll/${scale.poll.id}?p1=${remote.poll.id}&a1=${yes}&p2=${remote.poll.id}&a2=${no}`)
+        .expect(200);
+
+      expect(response.body.scaleResults.mean).toBeCloseTo(10 / 3);
+      expect(response.body.crossReferences[0].respondentCount).toBe(2);
+      expect(response.body.crossReferences[0].scaleResults).toMatchObject({ count: 2, mean: 4.5, median: 4.5 });
+      expect(response.body.crossReferences[1].scaleResults).toMatchObject({ count: 1, mean: 1 });
+    });
+
+    it('should leave out summaries that would reveal withheld bins of a segment', async () => {
+      const originalMinCellSize = PRIVACY_CONFIG.MIN_CELL_SIZE;
+      PRIVACY_CONFIG.MIN_CELL_SIZE = 3;
+
+      try {
+        const timestamp = Date.now();
+        const segmentVoters = [0, 1, 2, 3, 4, 5, 6].map(i =>
+          dbUtils.createUser(`scale-segment-${i}-${timestamp}@example.com`, `Segment Voter ${i}`)
+        );
+        const scale = dbUtils.createPoll(testUser.id, 'Rate it', [], { type: 'scale', scale: { min: 1, max: 5 } });
+        const remote = dbUtils.createPoll(testUser.id, 'Remote?', ['Yes', 'No']);
+        const yes = remote.answers[0].id;
+
+        // Three 1s, three 5s and a single 2: the 2 is too small, and one of the
+        // larger bins is withheld with it so it can't be found by subtraction
+        [1, 1, 1, 5, 5, 5, 2].forEach((value, i) => {
+          dbUtils.createVote(segmentVoters[i].id, remote.poll.id, yes);
+          dbUtils.createScaleVote(segmentVoters[i].id, scale.poll.id, value);
+        });
+
+        const response = await request(app)
+          .get(`/api/poll/${scale.poll.id}?p1=${remote.poll.id}&a1=${yes}`)
+          .expect(200);
+
+        const xref = response.body.crossReferences[0];
+        const { scaleResults } = xref;
+        expect(xref.suppressed).toBe(true);
+        expect(scaleResults).toMatchObject({ count: 7, mean: null, median: null, standardDeviation: null });
+
+        // Two bins are withheld, and the count only gives their sum
+        const visibleValues = scaleResults.histogram.map((bin: { value: number }) => bin.value);
+        const hiddenValues = [1, 2, 3, 4, 5].filter(value => !visibleValues.includes(value));
+        const visibleTotal = scaleResults.histogram.reduce((sum: number, bin: { count: number }) => sum + bin.count, 0);
+        expect(hiddenValues).toHaveLength(2);
+        expect(hiddenValues).toContain(2);
+        expect(scaleResults.count - visibleTotal).toBe(4);
+      } finally {
+        PRIVACY_CONFIG.MIN_CELL_SIZE = originalMinCellSize;
+      }
+    });
+  });
+
+  describe('Write-in answers', () => {
+    let voters: User[];
+    let voterTokens: string[];
+
+    beforeEach(() => {
+      const timestamp = Date.now();
+      voters = [0, 1, 2].map(i => dbUtils.createUser(`write-in-${i}-${timestamp}@example.com`, `Write-in Voter ${i}`));
+      voterTokens = voters.map(voter => createToken(voter));
+    });
+
+    it('should add an "Other" answer to polls that allow write-ins', async () => {
+      const response = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Favourite fruit?', answers: ['Apple', 'Pear'], allowWriteIns: true })
+        .expect(201);
+
+      expect(response.body.answers.map((answer: Answer) => [answer.text, answer.is_write_in])).toEqual([
+        ['Apple', false],
+        ['Pear', false],
+        ['Other', true]
+      ]);
+
+      const rankedResponse = await request(app)
+        .post('/api/poll')
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ question: 'Rank fruit', answers: ['Apple', 'Pear'], type: 'ranked', allowWriteIns: true })
+        .expect(400);
+
+      expect(rankedResponse.body).toHaveProperty('error', 'Invalid allowWriteIns');
+    });
+
+    it('should require a write-in exactly when "Other" is selected', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Favourite fruit?', ['Apple', 'Pear'], {
+        allowWriteIns: true
+      });
+      const [apple, , other] = answers.map(answer => answer.id);
+
+      const missingResponse = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerId: other, writeIn: '   ' })
+        .expect(400);
+      expect(missingResponse.body).toHaveProperty('error', 'Missing write-in');
+
+      const strayResponse = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerId: apple, writeIn: 'Mango' })
+        .expect(400);
+      expect(strayResponse.body).toHaveProperty('error', 'Invalid write-in');
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerId: other, writeIn: '  Mango ' })
+        .expect(201);
+      expect(response.body.vote).toMatchObject({ answerId: other, writeIn: 'Mango' });
+
+      const pollResponse = await request(app)
+        .get(`/api/poll/${poll.id}`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .expect(200);
+      expect(pollResponse.body.userVote.writeIn).toBe('Mango');
+
+      // Switching away from "Other" drops the write-in
+      await request(app)
+        .put(`/api/poll/${poll.id}/vote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .send({ answerId: apple })
+        .expect(200);
+      expect(dbUtils.getUserWriteIn(voters[0].id, poll.id)).toBeNull();
+    });
+
+    it('should only show grouped write-ins to the author', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Favourite fruit?', ['Apple', 'Pear'], {
+        allowWriteIns: true
+      });
+      const other = answers[2].id;
+
+      dbUtils.createVotes(voters[0].id, poll.id, [other], { writeIn: 'Mango' });
+      dbUtils.createVotes(voters[1].id, poll.id, [other], { writeIn: ' mango  ' });
+      dbUtils.createVotes(voters[2].id, poll.id, [other], { writeIn: 'Kiwi' });
+
+      await request(app)
+        .get(`/api/poll/${poll.id}/write-ins`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${voterTokens[0]}`])
+        .expect(403);
+
+      const response = await request(app)
+        .get(`/api/poll/${poll.id}/write-ins`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .expect(200);
+
+      expect(response.body.writeIns).toEqual([
+        { normalizedText: 'mango', text: 'Mango', count: 2 },
+        { normalizedText: 'kiwi', text: 'Kiwi', count: 1 }
+      ]);
+    });
+
+    it('should promote a write-in to an answer and move its votes', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Favourite fruit?', ['Apple', 'Pear'], {
+        allowWriteIns: true
+      });
+      const other = answers[2].id;
+
+      dbUtils.createVotes(voters[0].id, poll.id, [other], { writeIn: 'Mango' });
+      dbUtils.createVotes(voters[1].id, poll.id, [other], { writeIn: 'MANGO' });
+      dbUtils.createVotes(voters[2].id, poll.id, [other], { writeIn: 'Kiwi' });
+
+      const response = await request(app)
+        .post(`/api/poll/${poll.id}/write-ins/promote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ normalizedText: 'mango' })
+        .expect(201);
+
+      expect(response.body.answer).toMatchObject({ text: 'Mango', is_write_in: false });
+      expect(response.body.movedVotes).toBe(2);
+      expect(response.body.answers.map((answer: Answer) => answer.text)).toEqual(['Apple', 'Pear', 'Mango', 'Other']);
+      expect(response.body.voteCounts).toEqual({ [response.body.answer.id]: 2, [other]: 1 });
+      expect(dbUtils.getWriteInGroups(poll.id).map(group => group.normalized_text)).toEqual(['kiwi']);
+
+      await request(app)
+        .post(`/api/poll/${poll.id}/write-ins/promote`)
+        .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+        .send({ normalizedText: 'mango' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/poll/:id/stream', () => {
+    it('should stream the results and then vote count changes as they happen', async () => {
+      const { poll, answers } = dbUtils.createPoll(testUser.id, 'Live results?', ['Yes', 'No']);
+      const voter = dbUtils.createUser(`live-${Date.now()}@polls-test.com`, 'Live Voter');
+      dbUtils.createVote(voter.id, poll.id, answers[1].id);
+
+      const server = app.listen(0);
+      const events: { event: string; data: Record<string, unknown> }[] = [];
+      const waitForEvents = async (count: number) => {
+        for (let attempt = 0; attempt < 200 && events.length < count; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        return events;
+      };
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const stream = await new Promise<http.IncomingMessage>(resolve => {
+          http.get(`http://127.0.0.1:${port}/api/poll/${poll.id}/stream`, resolve);
+        });
+        expect(stream.headers['content-type']).toBe('text/event-stream');
+
+        let buffer = '';
+        stream.setEncoding('utf8');
+        stream.on('data', (chunk: string) => {
+          const messages = (buffer + chunk).split('\n\n');
+          buffer = messages.pop()!;
+          messages.forEach(message => {
+            const [, event] = message.match(/^event: (.*)$/m)!;
+            const [, data] = message.match(/^data: (.*)$/m)!;
+            events.push({ event, data: JSON.parse(data) });
+          });
+        });
+
+        expect((await waitForEvents(1))[0]).toEqual({
+          event: 'snapshot',
+          data: { voteCounts: { [answers[1].id]: 1 }, respondentCount: 1 }
+        });
+
+        await request(app)
+          .post(`/api/poll/${poll.id}/vote`)
+          .set('Cookie', [`${AUTH_COOKIE_NAME}=${userToken}`])
+          .send({ answerId: answers[0].id })
+          .expect(201);
+
+        expect((await waitForEvents(2))[1]).toEqual({
+          event: 'votes',
+          data: { voteCounts: { [answers[0].id]: 1 }, respondentCount: 2 }
+        });
+
+        stream.destroy();
+      } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should return 404 for a non-existent poll', async () => {
+      await request(app).get('/api/poll/non-existent-id/stream').expect(404);
+    });
+  });
 });
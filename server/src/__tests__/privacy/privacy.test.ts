@@ -0,0 +1,57 @@
+import { hasSmallCells, isPopulationTooSmall, suppressSmallBins, suppressSmallCounts } from '../../privacy';
+
+describe('Privacy', () => {
+  describe('suppressSmallCounts', () => {
+    it('should withhold counts below the threshold and keep zeros', () => {
+      const result = suppressSmallCounts({ a: 12, b: 1, c: 0, d: 2, e: 8 }, 5);
+
+      expect(result.voteCounts).toEqual({ a: 12, c: 0, e: 8 });
+      expect(result.suppressedAnswerIds.sort()).toEqual(['b', 'd']);
+    });
+
+    it('should withhold a second count when only one is below the threshold', () => {
+      const result = suppressSmallCounts({ a: 12, b: 3, c: 7 }, 5);
+
+      // c is the smallest visible count, so it is withheld to protect b
+      expect(result.voteCounts).toEqual({ a: 12 });
+      expect(result.suppressedAnswerIds.sort()).toEqual(['b', 'c']);
+    });
+
+    it('should leave counts untouched when the threshold is disabled', () => {
+      const counts = { a: 1, b: 0 };
+
+      expect(suppressSmallCounts(counts, 0)).toEqual({ voteCounts: counts, suppressedAnswerIds: [] });
+    });
+  });
+
+  describe('hasSmallCells', () => {
+    it('should find any cell below the threshold, empty ones included', () => {
+      expect(hasSmallCells([[12, 5], [7, 9]], 5)).toBe(false);
+      expect(hasSmallCells([[12, 4], [7, 9]], 5)).toBe(true);
+      expect(hasSmallCells([[12, 0], [7, 9]], 5)).toBe(true);
+      expect(hasSmallCells([[12, 0], [7, 1]], 0)).toBe(false);
+    });
+  });
+
+  describe('suppressSmallBins', () => {
+    it('should withhold small histogram bins with complementary suppression', () => {
+      const result = suppressSmallBins([
+        { value: 1, count: 0 },
+        { value: 2, count: 3 },
+        { value: 3, count: 9 },
+        { value: 4, count: 6 },
+      ], 5);
+
+      expect(result.bins).toEqual([{ value: 1, count: 0 }, { value: 3, count: 9 }]);
+      expect(result.suppressedValues).toEqual([2, 4]);
+    });
+  });
+
+    describe('isPopulationTooSmall', () => {
+    it('should compare the population against the threshold', () => {
+      expect(isPopulationTooSmall(4, 5)).toBe(true);
+      expect(isPopulationTooSmall(5, 5)).toBe(false);
+      expect(isPopulationTooSmall(0, 0)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { computeHotScore, computePollScores, computeTrendingScore } from '../../ranking';
+
+describe('Ranking', () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = Date.parse('2025-04-10T12:00:00Z');
+
+  describe('computeTrendingScore', () => {
+    it('should halve the weight of a vote every half-life', () => {
+      const options = { windowHours: 48, halfLifeHours: 6 };
+
+      expect(computeTrendingScore([now], now, options)).toBe(1);
+      expect(computeTrendingScore([now - 6 * HOUR], now, options)).toBeCloseTo(0.5);
+      expect(computeTrendingScore([now, now - 12 * HOUR], now, options)).toBeCloseTo(1.25);
+    });
+
+    it('should ignore votes outside the window', () => {
+      const score = computeTrendingScore([now - 49 * HOUR, now - 72 * HOUR], now, { windowHours: 48, halfLifeHours: 6 });
+
+      expect(score).toBe(0);
+    });
+  });
+
+  describe('computeHotScore', () => {
+    it('should sink older polls with the same number of voters', () => {
+      const fresh = computeHotScore(10, now - HOUR, now, 1.8);
+      const stale = computeHotScore(10, now - 48 * HOUR, now, 1.8);
+
+      expect(fresh).toBeCloseTo(10 / Math.pow(3, 1.8));
+      expect(stale).toBeLessThan(fresh);
+      expect(computeHotScore(0, now, now, 1.8)).toBe(0);
+    });
+  });
+
+  describe('computePollScores', () => {
+    it('should score every poll, including polls without recent votes', () => {
+      const scores = computePollScores(
+        [
+          { poll_id: 'a', created_at: new Date(now - 2 * HOUR).toISOString(), voter_count: 2 },
+          { poll_id: 'b', created_at: new Date(now - 2 * HOUR).toISOString(), voter_count: 0 }
+        ],
+        [
+          { poll_id: 'a', voted_at: new Date(now).toISOString() },
+          { poll_id: 'a', voted_at: new Date(now - 6 * HOUR).toISOString() }
+        ],
+        now,
+        { windowHours: 48, halfLifeHours: 6, gravity: 2 }
+      );
+
+      expect(scores).toEqual([
+        { poll_id: 'a', voter_count: 2, trending_score: 1.5, hot_score: 2 / 16 },
+        { poll_id: 'b', voter_count: 0, trending_score: 0, hot_score: 0 }
+      ]);
+    });
+  });
+});
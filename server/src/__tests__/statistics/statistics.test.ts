@@ -0,0 +1,191 @@
+import {
+  chiSquarePValue,
+  chiSquareTest,
+  cramersV,
+  wilsonInterval,
+  liftRatio,
+  computeCrossReferenceStatistics,
+  rankAnswerPairEffects,
+  computeScaleStatistics
+} from '../../statistics';
+
+describe('Statistics', () => {
+  describe('chiSquarePValue', () => {
+    it('should match critical values of the chi-square distribution', () => {
+      expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 5);
+      expect(chiSquarePValue(5.991465, 2)).toBeCloseTo(0.05, 5);
+      expect(chiSquarePValue(13.276704, 4)).toBeCloseTo(0.01, 5);
+    });
+
+    it('should return 1 for a zero statistic or no degrees of freedom', () => {
+      expect(chiSquarePValue(0, 3)).toBe(1);
+      expect(chiSquarePValue(10, 0)).toBe(1);
+    });
+  });
+
+  describe('chiSquareTest', () => {
+    it('should compute the statistic for a 2x2 table', () => {
+      const result = chiSquareTest([[10, 20], [30, 40]]);
+
+      expect(result).not.toBeNull();
+      expect(result!.statistic).toBeCloseTo(0.7937, 4);
+      expect(result!.degreesOfFreedom).toBe(1);
+      expect(result!.pValue).toBeCloseTo(0.373, 3);
+      expect(result!.significant).toBe(false);
+    });
+
+    it('should flag strong associations as significant', () => {
+      const result = chiSquareTest([[40, 5], [5, 40]]);
+
+      expect(result!.significant).toBe(true);
+      expect(result!.pValue).toBeLessThan(0.001);
+    });
+
+    it('should ignore empty rows and columns', () => {
+      const result = chiSquareTest([[10, 0, 20], [0, 0, 0], [30, 0, 40]]);
+
+      expect(result!.degreesOfFreedom).toBe(1);
+      expect(result!.statistic).toBeCloseTo(0.7937, 4);
+    });
+
+    it('should return null when there is nothing to compare', () => {
+      expect(chiSquareTest([[3, 4]])).toBeNull();
+      expect(chiSquareTest([[0, 0], [0, 0]])).toBeNull();
+    });
+  });
+
+  describe('cramersV', () => {
+    it('should be 1 for perfectly associated variables', () => {
+      expect(cramersV([[10, 0], [0, 10]])).toBeCloseTo(1);
+    });
+
+    it('should be 0 for independent variables', () => {
+      expect(cramersV([[5, 5], [5, 5]])).toBeCloseTo(0);
+    });
+
+    it('should scale by the smaller dimension of the table', () => {
+      // χ² = 2 with 6 observations in a 2x4 table
+      expect(cramersV([[1, 1, 1, 0], [1, 1, 0, 1]])).toBeCloseTo(Math.sqrt(1 / 3));
+    });
+
+    it('should return null when there is nothing to compare', () => {
+      expect(cramersV([[3, 4]])).toBeNull();
+    });
+  });
+
+  describe('wilsonInterval', () => {
+    it('should compute a wide interval for tiny samples', () => {
+      const interval = wilsonInterval(3, 4);
+
+      expect(interval.proportion).toBe(0.75);
+      expect(interval.lower).toBeCloseTo(0.3006, 4);
+      expect(interval.upper).toBeCloseTo(0.9544, 4);
+    });
+
+    it('should stay within [0, 1] at the extremes', () => {
+      const none = wilsonInterval(0, 10);
+      const all = wilsonInterval(10, 10);
+
+      expect(none.lower).toBe(0);
+      expect(none.upper).toBeCloseTo(0.2775, 4);
+      expect(all.lower).toBeCloseTo(0.7225, 4);
+      expect(all.upper).toBeLessThanOrEqual(1);
+    });
+
+    it('should return the full range when there are no observations', () => {
+      expect(wilsonInterval(0, 0)).toEqual({ proportion: 0, lower: 0, upper: 1 });
+    });
+  });
+
+  describe('liftRatio', () => {
+    it('should compare the segment proportion with the baseline proportion', () => {
+      // 3 of 4 in the segment versus 10 of 40 overall
+      expect(liftRatio(3, 4, 10, 40)).toBeCloseTo(3);
+    });
+
+    it('should return null when a proportion is undefined', () => {
+      expect(liftRatio(0, 0, 10, 40)).toBeNull();
+      expect(liftRatio(1, 4, 0, 40)).toBeNull();
+    });
+  });
+
+  describe('computeCrossReferenceStatistics', () => {
+    it('should combine significance, intervals and lift for a segment', () => {
+      const statistics = computeCrossReferenceStatistics(
+        ['yes', 'no'],
+        ['morning', 'night'],
+        {
+          yes: { morning: 3, night: 1 },
+          no: { morning: 1, night: 3 },
+        },
+        { yes: 3, no: 1 },
+        { yes: 4, no: 4 }
+      );
+
+      expect(statistics.sampleSize).toBe(4);
+      expect(statistics.chiSquare).not.toBeNull();
+      expect(statistics.chiSquare!.significant).toBe(false); // 8 voters are not enough
+      expect(statistics.answers.yes.count).toBe(3);
+      expect(statistics.answers.yes.proportion).toBe(0.75);
+      expect(statistics.answers.yes.lift).toBeCloseTo(1.5);
+      expect(statistics.answers.no.lift).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('rankAnswerPairEffects', () => {
+    it('should rank over- and under-represented pairs by strength', () => {
+      const effects = rankAnswerPairEffects(
+        ['cats', 'dogs'],
+        ['morning', 'night'],
+        {
+          cats: { morning: 8, night: 2 },
+          dogs: { morning: 2, night: 8 },
+        }
+      );
+
+      expect(effects).toHaveLength(4);
+      // 20% of night owls prefer cats, versus 50% overall
+      expect(effects[0].lift).toBeCloseTo(0.4);
+      // 80% of morning people prefer cats, a weaker effect on the log scale
+      expect(effects[3].lift).toBeCloseTo(1.6);
+    });
+
+    it('should skip pairs below the minimum count', () => {
+      const effects = rankAnswerPairEffects(
+        ['cats', 'dogs'],
+        ['morning', 'night'],
+        { cats: { morning: 8, night: 1 }, dogs: { morning: 2, night: 8 } },
+        2
+      );
+
+      expect(effects.some(effect => effect.answerId === 'cats' && effect.crossAnswerId === 'night')).toBe(false);
+    });
+  });
+
+  describe('computeScaleStatistics', () => {
+    it('should compute the mean, median, standard deviation and histogram', () => {
+      const statistics = computeScaleStatistics([2, 4, 4, 4, 5, 5, 7, 9], { min: 1, max: 10, step: 1 });
+
+      expect(statistics.count).toBe(8);
+      expect(statistics.mean).toBe(5);
+      expect(statistics.median).toBe(4.5);
+      expect(statistics.standardDeviation).toBe(2);
+      expect(statistics.histogram).toHaveLength(10);
+      expect(statistics.histogram[3]).toEqual({ value: 4, count: 3 });
+      expect(statistics.histogram[9]).toEqual({ value: 10, count: 0 });
+    });
+
+    it('should bin fractional steps and leave summaries empty without values', () => {
+      const empty = computeScaleStatistics([], { min: 0, max: 1, step: 0.1 });
+
+      expect(empty.mean).toBeNull();
+      expect(empty.median).toBeNull();
+      expect(empty.standardDeviation).toBeNull();
+      expect(empty.histogram.map(bin => bin.value)).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+
+      const statistics = computeScaleStatistics([0.3, 0.7], { min: 0, max: 1, step: 0.1 });
+      expect(statistics.histogram[3].count).toBe(1);
+      expect(statistics.histogram[7].count).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { instantRunoff, bordaCount, tallyRankedBallots } from '../../tally';
+
+describe('Tally', () => {
+  const answerIds = ['a', 'b', 'c'];
+
+  describe('instantRunoff', () => {
+    it('should declare a first-round majority the winner', () => {
+      const result = instantRunoff(answerIds, [['a', 'b', 'c'], ['a', 'c', 'b'], ['b', 'a', 'c']]);
+
+      expect(result.winner).toBe('a');
+      expect(result.rounds).toHaveLength(1);
+      expect(result.rounds[0].counts).toEqual({ a: 2, b: 1, c: 0 });
+    });
+
+    it('should eliminate the last answer and transfer its ballots', () => {
+      const ballots = [
+        ['a', 'b', 'c'],
+        ['a', 'c', 'b'],
+        ['b', 'a', 'c'],
+        ['b', 'c', 'a'],
+        ['c', 'b', 'a']
+      ];
+
+      const result = instantRunoff(answerIds, ballots);
+
+      expect(result.rounds).toEqual([
+        { counts: { a: 2, b: 2, c: 1 }, exhausted: 0, eliminated: ['c'] },
+        { counts: { a: 2, b: 3 }, exhausted: 0, eliminated: [] }
+      ]);
+      expect(result.winner).toBe('b');
+    });
+
+    it('should count ballots that rank no remaining answer as exhausted', () => {
+      const result = instantRunoff(answerIds, [['a'], ['a'], ['b'], ['b'], ['c']]);
+
+      expect(result.rounds[1]).toEqual({ counts: { a: 2, b: 2 }, exhausted: 1, eliminated: [] });
+      expect(result.winner).toBeNull();
+      expect(result.tied).toEqual(['a', 'b']);
+    });
+
+    it('should return no winner without ballots', () => {
+      const result = instantRunoff(answerIds, []);
+
+      expect(result.winner).toBeNull();
+      expect(result.tied).toEqual([]);
+      expect(result.rounds).toHaveLength(1);
+    });
+  });
+
+  describe('bordaCount', () => {
+    it('should score n - 1 points for a first preference down to none for the last', () => {
+      const result = bordaCount(answerIds, [['a', 'b', 'c'], ['b', 'a', 'c'], ['b', 'c', 'a']]);
+
+      expect(result.scores).toEqual({ a: 3, b: 5, c: 1 });
+      expect(result.ranking).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should keep the poll order for tied answers', () => {
+      expect(bordaCount(answerIds, []).ranking).toEqual(answerIds);
+    });
+  });
+
+  describe('tallyRankedBallots', () => {
+    it('should combine both tallies with the ballot count', () => {
+      const result = tallyRankedBallots(answerIds, [['c', 'b', 'a']]);
+
+      expect(result.ballotCount).toBe(1);
+      expect(result.instantRunoff.winner).toBe('c');
+      expect(result.borda.ranking[0]).toBe('c');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { dbUtils } from '../database';
+import { ApiKey, User } from '../database/utils';
+import { API_KEY_CONFIG } from './config';
+
+/**
+ * What an API key can be used for. Each scope unlocks the routes that require it; routes
+ * that don't name a scope, like account and key management, can't be used with keys.
+ */
+export const API_KEY_SCOPES = ['polls:read', 'polls:write', 'votes:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Start of every key, so leaked keys are easy to recognize
+const API_KEY_PREFIX = 'ep_';
+
+// Characters of the key kept for display, including the prefix
+const DISPLAYED_KEY_LENGTH = 10;
+
+/**
+ * Checks that a value is a known API key scope
+ * @param scope Value to check
+ * @returns True if the value is a scope
+ */
+export function isApiKeyScope(scope: unknown): scope is ApiKeyScope {
+  return API_KEY_SCOPES.includes(scope as ApiKeyScope);
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ * @param key API key
+ * @returns SHA-256 of the key, hex encoded
+ */
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Creates an API key for a user. Only its hash is stored, so the key can only be shown
+ * to the user now.
+ * @param userId ID of the user the key acts as
+ * @param name Name of the key
+ * @param scopes What the key may be used for
+ * @returns The stored key and the key itself
+ */
+export function createApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): { apiKey: ApiKey; key: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiKey = dbUtils.createApiKey(
+    userId,
+    name,
+    hashApiKey(key),
+    key.slice(0, DISPLAYED_KEY_LENGTH),
+    [...new Set(scopes)]
+  );
+  return { apiKey, key };
+}
+
+/**
+ * Gets the user an API key acts as, recording that the key was used
+ * @param key API key from the Authorization header
+ * @param now Time of use in milliseconds (defaults to now)
+ * @returns The key and its user, or null if the key is unknown or revoked
+ */
+export function authenticateApiKey(key: string, now: number = Date.now()): { apiKey: ApiKey; user: User } | null {
+  const apiKey = dbUtils.getApiKeyByHash(hashApiKey(key));
+  const user = apiKey ? dbUtils.getUserById(apiKey.user_id) : null;
+  if (!apiKey || !user) {
+    return null;
+  }
+
+  // Like sessions, keys used in a burst are only written to once
+  if (!apiKey.last_used_at || now - Date.parse(apiKey.last_used_at) >= API_KEY_CONFIG.TOUCH_INTERVAL_MS) {
+    apiKey.last_used_at = new Date(now).toISOString();
+    dbUtils.touchApiKey(apiKey.id, apiKey.last_used_at);
+  }
+  return { apiKey, user };
+}
@@ -0,0 +1,72 @@
+import { parseIntegerEnv } from '../config';
+
+/**
+ * Login session configuration settings
+ */
+export const SESSION_CONFIG = {
+  // How long a session may go unused before it expires. Each token is valid for this
+  // long, and active sessions keep getting fresh tokens, so the expiry slides.
+  IDLE_TIMEOUT_MS: parseIntegerEnv(process.env.SESSION_IDLE_TIMEOUT_MS, 7 * 24 * 60 * 60 * 1000),
+
+  // Age after which a token is replaced by a fresh one on the next request
+  ROTATE_AFTER_MS: parseIntegerEnv(process.env.SESSION_ROTATE_AFTER_MS, 24 * 60 * 60 * 1000),
+
+  // How long a replaced token keeps working, so requests sent with it before the fresh
+  // token arrived don't fail
+  ROTATION_GRACE_MS: 60 * 1000,
+
+  // Minimum time between two updates of a session's last-seen time, so a burst of
+  // requests doesn't write to the database on each one
+  TOUCH_INTERVAL_MS: 60 * 1000
+};
+
+/**
+ * OpenID Connect identity provider configuration settings, for logging in with an
+ * organization's own single sign-on
+ */
+export const OIDC_CONFIG = {
+  // Issuer URL, where /.well-known/openid-configuration is served. The provider is
+  // only offered when this is set.
+  ISSUER: process.env.OIDC_ISSUER || null,
+
+  // ID in the login and callback routes, and name on the login button
+  PROVIDER_ID: process.env.OIDC_PROVIDER_ID || 'sso',
+  DISPLAY_NAME: process.env.OIDC_DISPLAY_NAME || 'SSO',
+
+  CLIENT_ID: process.env.OIDC_CLIENT_ID || '',
+  CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET || '',
+  REDIRECT_URI: process.env.OIDC_REDIRECT_URI
+    || `http://localhost:5000/api/auth/callback/${process.env.OIDC_PROVIDER_ID || 'sso'}`,
+  SCOPES: process.env.OIDC_SCOPES || 'openid email profile',
+
+  // Treat email addresses as verified even without an email_verified claim. Only set
+  // this for providers that manage their users' addresses, like a company directory.
+  TRUST_EMAIL: process.env.OIDC_TRUST_EMAIL === 'true'
+};
+
+/**
+ * Email login link configuration settings
+ */
+export const MAGIC_LINK_CONFIG = {
+  // How long an emailed link keeps working
+  TOKEN_TTL_MS: parseIntegerEnv(process.env.MAGIC_LINK_TTL_MS, 15 * 60 * 1000),
+
+  // At most RATE_LIMIT_MAX links are sent to the same address within RATE_LIMIT_WINDOW_MS,
+  // so the form can't be used to flood someone's inbox
+  RATE_LIMIT_MAX: 5,
+  RATE_LIMIT_WINDOW_MS: 60 * 60 * 1000,
+
+  // Public URL of the server, which the links point to
+  BASE_URL: process.env.APP_URL || 'http://localhost:5000'
+};
+
+/**
+ * Personal API key configuration settings
+ */
+export const API_KEY_CONFIG = {
+  // Most keys a user can have at once
+  MAX_KEYS_PER_USER: 25,
+
+  // Minimum time between two updates of a key's last-used time
+  TOUCH_INTERVAL_MS: 60 * 1000
+};
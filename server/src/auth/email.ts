@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { dbUtils } from '../database';
+import { User } from '../database/utils';
+import { sendMail } from '../mail';
+import { MAGIC_LINK_CONFIG } from './config';
+import { findOrCreateUserFromIdentity } from './providers';
+
+// Provider ID that email addresses logged in with are linked under
+export const EMAIL_PROVIDER_ID = 'email';
+
+/**
+ * Normalizes an email address for matching, so links sent to differently written
+ * forms of an address count towards the same rate limit and log in to the same user
+ * @param email Email address
+ * @returns Trimmed, lowercase address
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Checks that a value looks like an email address that mail can be sent to
+ * @param email Value to check
+ * @returns True if the value is a plausible address
+ */
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string'
+    && email.trim().length <= 254
+    && /^[^\s@<>()",;]+@[^\s@<>()",;]+\.[^\s@<>()",;]+$/.test(email.trim());
+}
+
+/**
+ * Hashes a login link's token for storage
+ * @param token Token from the link
+ * @returns SHA-256 of the token, hex encoded
+ */
+function hashMagicLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Emails a single-use login link to an address, unless too many were sent to it recently
+ * @param email Email address to log in with
+ * @param returnTo Local path to return to after logging in
+ * @returns False if the address has reached the rate limit and nothing was sent
+ */
+export async function sendMagicLink(email: string, returnTo: string): Promise<boolean> {
+  const address = normalizeEmail(email);
+  const now = Date.now();
+
+  // Old tokens are only kept as long as they count towards the rate limit or still work
+  dbUtils.deleteMagicLinkTokens(
+    new Date(now - Math.max(MAGIC_LINK_CONFIG.RATE_LIMIT_WINDOW_MS, MAGIC_LINK_CONFIG.TOKEN_TTL_MS)).toISOString()
+  );
+
+  const recentLinks = dbUtils.countMagicLinkTokensSince(
+    address,
+    new Date(now - MAGIC_LINK_CONFIG.RATE_LIMIT_WINDOW_MS).toISOString()
+  );
+  if (recentLinks >= MAGIC_LINK_CONFIG.RATE_LIMIT_MAX) {
+    return false;
+  }
+
+  // Only the hash is stored; the token itself is only ever in the email
+  const token = crypto.randomBytes(32).toString('base64url');
+  dbUtils.createMagicLinkToken(
+    hashMagicLinkToken(token),
+    address,
+    returnTo,
+    new Date(now + MAGIC_LINK_CONFIG.TOKEN_TTL_MS).toISOString()
+  );
+
+  const link = new URL('/api/auth/magic-link/verify', MAGIC_LINK_CONFIG.BASE_URL);
+  link.searchParams.set('token', token);
+  const minutes = Math.round(MAGIC_LINK_CONFIG.TOKEN_TTL_MS / (60 * 1000));
+
+  await sendMail({
+    to: address,
+    subject: 'Your EveryPoll login link',
+    text: [
+      'Use this link to log in to EveryPoll:',
+      '',
+      link.toString(),
+      '',
+      `It works once and expires in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      'If you didn\'t ask to log in, you can ignore this email.'
+    ].join('\n')
+  });
+  return true;
+}
+
+/**
+ * Uses up a login link, finding or creating the user of the address it was sent to.
+ * Opening the link proves the address belongs to whoever logs in, so it counts as
+ * verified (see findOrCreateUserFromIdentity).
+ * @param token Token from the link
+ * @returns The user and the path to return to, or null if the link is unknown, has
+ * expired or was already used
+ */
+export function consumeMagicLink(token: string): { user: User; returnTo: string } | null {
+  const stored = dbUtils.consumeMagicLinkToken(hashMagicLinkToken(token));
+  if (!stored) {
+    return null;
+  }
+
+  const { user } = findOrCreateUserFromIdentity(EMAIL_PROVIDER_ID, {
+    subject: stored.email,
+    email: stored.email,
+    emailVerified: true,
+    name: null
+  });
+  return user ? { user, returnTo: stored.return_to } : null;
+}
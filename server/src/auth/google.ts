@@ -1,6 +1,5 @@
-import { OAuth2Client } from 'google-auth-library';
-import { dbUtils } from '../database';
-import { User } from '../database/utils';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import type { IdentityProvider } from './providers';
 
 // Google OAuth configuration
 // In production, these should be set as environment variables
@@ -21,6 +20,8 @@ const oauth2Client = new OAuth2Client(
 export interface GoogleUserInfo {
   id: string;
   email: string;
+  // Whether Google has verified the email address belongs to the account
+  verified_email?: boolean;
   name: string;
   picture?: string;
 }
@@ -39,10 +40,11 @@ export interface GoogleTokens {
 
 /**
  * Generates the Google OAuth URL for authentication
- * @param state Optional state parameter to track the user's session
+ * @param state State parameter Google returns to the callback, checked against the state cookie
+ * @param codeChallenge PKCE code challenge of the login attempt
  * @returns URL to redirect the user to for Google login
  */
-export function getGoogleAuthUrl(state?: string): string {
+export function getGoogleAuthUrl(state: string, codeChallenge: string): string {
   const scopes = [
     'https://www.googleapis.com/auth/userinfo.profile',
     'https://www.googleapis.com/auth/userinfo.email'
@@ -52,18 +54,24 @@ export function getGoogleAuthUrl(state?: string): string {
     access_type: 'offline',
     scope: scopes,
     prompt: 'consent',
-    state
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: CodeChallengeMethod.S256
   });
 }
 
 /**
  * Exchanges the authorization code for tokens
  * @param code Authorization code from Google redirect
+ * @param codeVerifier PKCE code verifier the login attempt was started with
  * @returns Object containing tokens and expiry information
  */
-export async function getTokensFromCode(code: string): Promise<{ tokens: GoogleTokens | null; error?: string }> {
+export async function getTokensFromCode(
+  code: string,
+  codeVerifier: string
+): Promise<{ tokens: GoogleTokens | null; error?: string }> {
   try {
-    const { tokens } = await oauth2Client.getToken(code);
+    const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
     return { tokens: tokens as GoogleTokens };
   } catch (error) {
     console.error('Error getting tokens from code:', error);
@@ -97,6 +105,7 @@ export async function getUserInfoFromToken(accessToken: string): Promise<GoogleU
     return {
       id: data.id,
       email: data.email,
+      verified_email: data.verified_email,
       name: data.name,
       picture: data.picture
     };
@@ -107,21 +116,30 @@ export async function getUserInfoFromToken(accessToken: string): Promise<GoogleU
 }
 
 /**
- * Creates or updates a user based on Google profile information
- * @param googleInfo Google user profile information
- * @returns The created or updated user
+ * Google as an identity provider, at /api/auth/login/google
  */
-export async function createOrUpdateUserFromGoogle(googleInfo: GoogleUserInfo): Promise<User> {
-  // Check if user with this email already exists
-  const existingUser = dbUtils.getUserByEmail(googleInfo.email);
-  
-  if (existingUser) {
-    // Update existing user
-    return dbUtils.updateUser(existingUser.id, {
-      name: googleInfo.name
-    }) as User;
-  } else {
-    // Create new user
-    return dbUtils.createUser(googleInfo.email, googleInfo.name);
+export const googleProvider: IdentityProvider = {
+  id: 'google',
+  displayName: 'Google',
+
+  getAuthUrl: ({ state, codeChallenge }) => Promise.resolve(getGoogleAuthUrl(state, codeChallenge)),
+
+  getProfile: async ({ code, codeVerifier }) => {
+    const { tokens, error } = await getTokensFromCode(code, codeVerifier);
+
+    if (error || !tokens?.access_token) {
+      console.error('Error getting tokens:', error);
+      return null;
+    }
+
+    const userInfo = await getUserInfoFromToken(tokens.access_token);
+    if (!userInfo) return null;
+
+    return {
+      subject: userInfo.id,
+      email: userInfo.email,
+      emailVerified: userInfo.verified_email ?? false,
+      name: userInfo.name
+    };
   }
-}
+};
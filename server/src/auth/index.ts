@@ -1,39 +1,137 @@
 import authRoutes from './routes';
-import { authenticate, requireAuth } from './middleware';
+import { SESSION_CONFIG, OIDC_CONFIG, MAGIC_LINK_CONFIG, API_KEY_CONFIG } from './config';
+import {
+  API_KEY_SCOPES,
+  isApiKeyScope,
+  createApiKey,
+  authenticateApiKey,
+  type ApiKeyScope
+} from './apikeys';
+import { authenticate, requireAuth, requireRole } from './middleware';
+import {
+  ROLES,
+  isRole,
+  hasRole,
+  isPollAuthor,
+  canManagePoll,
+  canChangeVote,
+  canSetRole,
+  type PollAction
+} from './policy';
 import { 
   createToken, 
   verifyToken, 
   getUserFromToken, 
+  getSessionFromToken,
+  refreshSession,
+  getSessionIdleCutoff,
   createAnonymousUser,
   getCurrentUser,
+  createOAuthState,
+  verifyOAuthState,
+  generateOAuthNonce,
+  generatePkcePair,
+  sanitizeReturnTo,
   AUTH_COOKIE_NAME,
-  COOKIE_OPTIONS
+  COOKIE_OPTIONS,
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_COOKIE_OPTIONS,
+  type OAuthState,
+  type TokenSession
 } from './utils';
 import {
+  googleProvider,
   getGoogleAuthUrl,
   getTokensFromCode,
   getUserInfoFromToken,
-  createOrUpdateUserFromGoogle,
   type GoogleUserInfo,
   type GoogleTokens
 } from './google';
+import { createOidcProvider, type OidcProviderOptions } from './oidc';
+import {
+  registerIdentityProvider,
+  unregisterIdentityProvider,
+  getIdentityProvider,
+  getIdentityProviders,
+  findOrCreateUserFromIdentity,
+  type IdentityProvider,
+  type IdentityProfile,
+  type AuthorizationRequest,
+  type AuthorizationResponse
+} from './providers';
+import {
+  EMAIL_PROVIDER_ID,
+  normalizeEmail,
+  isValidEmail,
+  sendMagicLink,
+  consumeMagicLink
+} from './email';
 
 export {
   authRoutes,
+  SESSION_CONFIG,
+  OIDC_CONFIG,
+  MAGIC_LINK_CONFIG,
+  API_KEY_CONFIG,
   authenticate,
   requireAuth,
+  requireRole,
+  ROLES,
+  isRole,
+  hasRole,
+  isPollAuthor,
+  canManagePoll,
+  canChangeVote,
+  canSetRole,
   createToken,
   verifyToken,
   getUserFromToken,
+  getSessionFromToken,
+  refreshSession,
+  getSessionIdleCutoff,
   createAnonymousUser,
   getCurrentUser,
   AUTH_COOKIE_NAME,
   COOKIE_OPTIONS,
+  createOAuthState,
+  verifyOAuthState,
+  generateOAuthNonce,
+  sanitizeReturnTo,
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_COOKIE_OPTIONS,
+  generatePkcePair,
+  registerIdentityProvider,
+  unregisterIdentityProvider,
+  getIdentityProvider,
+  getIdentityProviders,
+  findOrCreateUserFromIdentity,
+  googleProvider,
   getGoogleAuthUrl,
   getTokensFromCode,
   getUserInfoFromToken,
-  createOrUpdateUserFromGoogle
+  createOidcProvider,
+  EMAIL_PROVIDER_ID,
+  normalizeEmail,
+  isValidEmail,
+  sendMagicLink,
+  consumeMagicLink,
+  API_KEY_SCOPES,
+  isApiKeyScope,
+  createApiKey,
+  authenticateApiKey
 };
 
 // Re-export types with correct syntax for isolatedModules
-export type { GoogleUserInfo, GoogleTokens };
+export type {
+  GoogleUserInfo,
+  GoogleTokens,
+  OAuthState,
+  TokenSession,
+  IdentityProvider,
+  IdentityProfile,
+  AuthorizationRequest,
+  AuthorizationResponse,
+  OidcProviderOptions,
+  ApiKeyScope,
+  PollAction
+};
@@ -1,6 +1,14 @@
-import { Request, Response, NextFunction } from 'express';
-import { getUserFromToken, createAnonymousUser, AUTH_COOKIE_NAME } from './utils';
-import { User } from '../database/utils';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  getSessionFromToken,
+  refreshSession,
+  createAnonymousUser,
+  AUTH_COOKIE_NAME,
+  COOKIE_OPTIONS
+} from './utils';
+import { authenticateApiKey, type ApiKeyScope } from './apikeys';
+import { hasRole } from './policy';
+import { ApiKey, User, UserRole } from '../database/utils';
 
 // Directly augment the Express Request interface
 declare global {
@@ -9,13 +17,20 @@ declare global {
     interface Request {
       user?: User;
       isAuthenticated?: boolean;
+      // Session of the request's token; unset for new anonymous users
+      sessionId?: string;
+      // API key the request was made with, if any, which limits what it may do
+      apiKey?: ApiKey;
     }
   }
 }
 
 /**
  * Middleware that attaches the user to the request
- * If a valid token is found in cookies, the corresponding user is attached
+ * If the request has an API key (Authorization: Bearer <key>), the key's user is
+ * attached, or the request is rejected if the key is invalid
+ * If a valid token is found in cookies, the corresponding user and session are attached,
+ * and the token is replaced by a fresh one once it gets old
  * If no valid token is found, an anonymous user is created and attached
  */
 export async function authenticate(
@@ -24,16 +39,46 @@ export async function authenticate(
   next: NextFunction
 ): Promise<void> {
   try {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '');
+
+    // Scripts calling with a key are never given cookies or anonymous users
+    if (bearer) {
+      const result = authenticateApiKey(bearer[1]);
+
+      if (!result) {
+        res.status(401).json({
+          error: 'Invalid API key',
+          message: 'The API key is invalid or has been revoked'
+        });
+        return;
+      }
+
+      req.user = result.user;
+      req.isAuthenticated = true;
+      req.sessionId = undefined;
+      req.apiKey = result.apiKey;
+      next();
+      return;
+    }
+
     const token = req.cookies?.[AUTH_COOKIE_NAME];
     let user: User | null = null;
     let isAuthenticated = false;
+    let sessionId: string | undefined;
 
     if (token) {
-      // Try to get user from token
-      user = await getUserFromToken(token);
+      // Try to get user from token, as long as its session is still active
+      const tokenSession = await getSessionFromToken(token);
       
-      if (user) {
+      if (tokenSession) {
+        user = tokenSession.user;
+        sessionId = tokenSession.session.id;
         isAuthenticated = user.email !== null; // Authenticated if not anonymous
+
+        const refreshedToken = refreshSession(tokenSession);
+        if (refreshedToken) {
+          res.cookie(AUTH_COOKIE_NAME, refreshedToken, COOKIE_OPTIONS);
+        }
       }
     }
 
@@ -46,6 +91,7 @@ export async function authenticate(
     // Attach user and authentication status to request
     req.user = user;
     req.isAuthenticated = isAuthenticated;
+    req.sessionId = sessionId;
     
     next();
   } catch (error) {
@@ -55,23 +101,89 @@ export async function authenticate(
   }
 }
 
+/**
+ * Checks that the request is authenticated and, if it was made with an API key, that
+ * the key has every required scope
+ * @param scopes Scopes an API key needs; with none, API keys are rejected
+ * @returns Middleware
+ */
+function checkAuth(scopes: ApiKeyScope[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !req.isAuthenticated) {
+      res.status(401).json({ 
+        error: 'Authentication required',
+        message: 'You must be logged in to access this resource'
+      });
+      return;
+    }
+
+    if (req.apiKey) {
+      const missingScopes = scopes.filter(scope => !req.apiKey!.scopes.includes(scope));
+
+      if (scopes.length === 0 || missingScopes.length > 0) {
+        res.status(403).json({
+          error: 'Insufficient scope',
+          message: scopes.length === 0
+            ? 'API keys cannot be used to access this resource'
+            : `This API key needs the ${missingScopes.join(', ')} scope`
+        });
+        return;
+      }
+    }
+
+    next();
+  };
+}
+
+const requireLogin = checkAuth([]);
+
 /**
  * Middleware that requires authentication
  * Should be used after the authenticate middleware
  * Rejects requests from unauthenticated users
+ *
+ * Used directly (requireAuth), only logged-in users pass and API keys are rejected.
+ * Called with scopes (requireAuth('votes:write')), it returns middleware that also lets
+ * API keys with every one of those scopes through.
  */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void;
+export function requireAuth(...scopes: ApiKeyScope[]): RequestHandler;
 export function requireAuth(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  if (!req.user || !req.isAuthenticated) {
-    res.status(401).json({ 
-      error: 'Authentication required',
-      message: 'You must be logged in to access this resource'
-    });
-    return;
+  ...args: [Request, Response, NextFunction] | ApiKeyScope[]
+): void | RequestHandler {
+  if (args.length === 0 || typeof args[0] === 'string') {
+    return checkAuth(args as ApiKeyScope[]);
   }
-  
-  next();
+
+  const [req, res, next] = args as [Request, Response, NextFunction];
+  requireLogin(req, res, next);
+}
+
+/**
+ * Middleware factory that requires the user to have a role or a more privileged one
+ * (see ROLES)
+ * Should be used after requireAuth, which decides whether API keys may be used
+ * @param role Least privileged role that is enough
+ * @returns Middleware
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !req.isAuthenticated) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to access this resource'
+      });
+      return;
+    }
+
+    if (!hasRole(req.user, role)) {
+      res.status(403).json({
+        error: 'Insufficient role',
+        message: `You need the ${role} role to access this resource`
+      });
+      return;
+    }
+
+    next();
+  };
 }
@@ -0,0 +1,208 @@
+import jwt from 'jsonwebtoken';
+import type { IdentityProfile, IdentityProvider } from './providers';
+
+/**
+ * Settings of an OpenID Connect identity provider
+ */
+export interface OidcProviderOptions {
+  id: string;
+  displayName: string;
+  // Issuer URL, where /.well-known/openid-configuration is served
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  // Space-separated scopes to request; must include openid
+  scopes: string;
+  // Treat email addresses as verified even without an email_verified claim
+  trustEmail: boolean;
+}
+
+/**
+ * The parts of a provider's discovery document that the login uses
+ */
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Claims of an ID token or userinfo response
+ */
+interface OidcClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+  email?: string;
+  // Some providers send this as a string
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+}
+
+/**
+ * Removes trailing slashes, which issuers are compared without
+ * @param url Issuer URL
+ * @returns URL without trailing slashes
+ */
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Fetches a provider's discovery document
+ * @param issuer Issuer URL
+ * @returns The endpoints of the provider
+ */
+async function fetchDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const response = await fetch(`${trimTrailingSlashes(issuer)}/.well-known/openid-configuration`);
+
+  if (!response.ok) {
+    throw new Error(`OpenID Connect discovery error: ${response.status} ${response.statusText}`);
+  }
+
+  const discovery = await response.json() as OidcDiscovery;
+
+  if (trimTrailingSlashes(discovery.issuer ?? '') !== trimTrailingSlashes(issuer)) {
+    throw new Error(`OpenID Connect discovery returned issuer ${discovery.issuer}, expected ${issuer}`);
+  }
+  return discovery;
+}
+
+/**
+ * Checks the claims of an ID token returned by the token endpoint. The token comes
+ * straight from the provider over the back channel, which OpenID Connect Core (3.1.3.7)
+ * accepts in place of checking its signature.
+ * @param idToken ID token
+ * @param issuer Expected issuer
+ * @param clientId Our client ID, which must be an audience
+ * @param nonce Nonce the login attempt was started with
+ * @returns The token's claims
+ */
+function verifyIdTokenClaims(idToken: string | undefined, issuer: string, clientId: string, nonce: string): OidcClaims {
+  const claims = idToken ? jwt.decode(idToken) as OidcClaims | null : null;
+  if (!claims) {
+    throw new Error('Missing or malformed ID token');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (trimTrailingSlashes(claims.iss ?? '') !== trimTrailingSlashes(issuer)) {
+    throw new Error(`ID token issued by ${claims.iss}, expected ${issuer}`);
+  }
+  if (!audiences.includes(clientId)) {
+    throw new Error('ID token was not issued for this client');
+  }
+  if (!claims.exp || claims.exp * 1000 < Date.now()) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match the login attempt');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+  return claims;
+}
+
+/**
+ * Creates an identity provider for any OpenID Connect provider, using the
+ * authorization code flow with PKCE
+ * @param options Settings of the provider
+ * @returns The identity provider, to register for login
+ */
+export function createOidcProvider(options: OidcProviderOptions): IdentityProvider {
+  // Fetched on first use and kept; a failed fetch is retried on the next login
+  let discovery: Promise<OidcDiscovery> | null = null;
+
+  const discover = (): Promise<OidcDiscovery> => {
+    discovery ??= fetchDiscovery(options.issuer).catch(error => {
+      discovery = null;
+      throw error;
+    });
+    return discovery;
+  };
+
+  return {
+    id: options.id,
+    displayName: options.displayName,
+
+    getAuthUrl: async ({ state, nonce, codeChallenge }) => {
+      const { authorization_endpoint } = await discover();
+      const url = new URL(authorization_endpoint);
+
+      url.searchParams.set('response_type', 'code');
+      url.searchParams.set('client_id', options.clientId);
+      url.searchParams.set('redirect_uri', options.redirectUri);
+      url.searchParams.set('scope', options.scopes);
+      url.searchParams.set('state', state);
+      url.searchParams.set('nonce', nonce);
+      url.searchParams.set('code_challenge', codeChallenge);
+      url.searchParams.set('code_challenge_method', 'S256');
+
+      return url.toString();
+    },
+
+    getProfile: async ({ code, nonce, codeVerifier }): Promise<IdentityProfile | null> => {
+      try {
+        const { issuer, token_endpoint, userinfo_endpoint } = await discover();
+
+        // Client credentials go in a Basic header, the default client authentication method
+        const credentials = Buffer.from(
+          `${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`
+        ).toString('base64');
+
+        const tokenResponse = await fetch(token_endpoint, {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${credentials}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json'
+          },
+          body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: options.redirectUri,
+            code_verifier: codeVerifier
+          })
+        });
+
+        if (!tokenResponse.ok) {
+          throw new Error(`Token endpoint error: ${tokenResponse.status} ${tokenResponse.statusText}`);
+        }
+
+        const tokens = await tokenResponse.json() as { id_token?: string; access_token?: string };
+        let claims = verifyIdTokenClaims(tokens.id_token, issuer, options.clientId, nonce);
+
+        // ID tokens often leave out the profile, which the userinfo endpoint has
+        if (userinfo_endpoint && tokens.access_token) {
+          const userInfoResponse = await fetch(userinfo_endpoint, {
+            headers: { Authorization: `Bearer ${tokens.access_token}` }
+          });
+
+          if (userInfoResponse.ok) {
+            const userInfo = await userInfoResponse.json() as OidcClaims;
+            // Userinfo for another subject must not be mixed in (OpenID Connect Core 5.3.2)
+            if (userInfo.sub === claims.sub) {
+              claims = { ...claims, ...userInfo };
+            }
+          }
+        }
+
+        return {
+          subject: claims.sub!,
+          email: claims.email ?? null,
+          emailVerified: options.trustEmail || claims.email_verified === true || claims.email_verified === 'true',
+          name: claims.name ?? claims.preferred_username ?? null
+        };
+      } catch (error) {
+        console.error(`Error logging in with ${options.id}:`, error);
+        return null;
+      }
+    }
+  };
+}
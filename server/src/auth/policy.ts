@@ -0,0 +1,82 @@
+import { DELETED_USER_ID, Poll, User, UserRole } from '../database/utils';
+
+/**
+ * Roles from least to most privileged. Each role may do everything the roles before it can.
+ */
+export const ROLES: readonly UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Things that can be done to a poll besides voting on it
+ */
+export type PollAction = 'edit' | 'close' | 'delete' | 'review-write-ins';
+
+/**
+ * Checks that a value is a known role
+ * @param role Value to check
+ * @returns True if the value is a role
+ */
+export function isRole(role: unknown): role is UserRole {
+  return ROLES.includes(role as UserRole);
+}
+
+/**
+ * Checks that a user has a role or a more privileged one
+ * @param user User to check, if any
+ * @param role Least privileged role that is enough
+ * @returns True if the user has the role or a higher one
+ */
+export function hasRole(user: User | null | undefined, role: UserRole): boolean {
+  return Boolean(user) && ROLES.indexOf(user!.role) >= ROLES.indexOf(role);
+}
+
+/**
+ * Checks that a user is the author of a poll
+ * @param user User to check, if any
+ * @param poll Poll
+ * @returns True if the user wrote the poll
+ */
+export function isPollAuthor(user: User | null | undefined, poll: Poll): boolean {
+  return Boolean(user) && user!.id === poll.author_id;
+}
+
+/**
+ * Checks that a user may act on a poll. Authors may do anything with their own polls.
+ * Moderators may close and delete any poll and review its write-ins, but only the author
+ * may change what a poll asks.
+ * @param user User acting, if any
+ * @param poll Poll acted on
+ * @param action What the user wants to do
+ * @returns True if the user may do it
+ */
+export function canManagePoll(user: User | null | undefined, poll: Poll, action: PollAction): boolean {
+  if (isPollAuthor(user, poll)) {
+    return true;
+  }
+  return action !== 'edit' && hasRole(user, 'moderator');
+}
+
+/**
+ * Checks that votes on a poll may be changed or retracted. Votes are only ever changed by
+ * their own voter, whatever the voter's role; authors can lock them to make them final.
+ * @param poll Poll voted on
+ * @returns True if voters may change their votes
+ */
+export function canChangeVote(poll: Poll): boolean {
+  return !poll.votes_locked;
+}
+
+/**
+ * Checks that a user may give another user a role. Only admins can, and not to
+ * themselves, so the last admin can't lock everyone out by accident. Roles only mean
+ * something to users who can log in, so anonymous users and the "Deleted user" account
+ * can't be given one.
+ * @param user User changing the role, if any
+ * @param target User whose role would change
+ * @returns True if the user may change the target's role
+ */
+export function canSetRole(user: User | null | undefined, target: User): boolean {
+  return hasRole(user, 'admin')
+    && user!.id !== target.id
+    && target.email !== null
+    && target.id !== DELETED_USER_ID;
+}
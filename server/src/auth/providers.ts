@@ -0,0 +1,154 @@
+import { dbUtils } from '../database';
+import { User } from '../database/utils';
+import { OIDC_CONFIG } from './config';
+import { googleProvider } from './google';
+import { createOidcProvider } from './oidc';
+
+/**
+ * What an identity provider tells us about the account a user logged in with
+ */
+export interface IdentityProfile {
+  // The provider's stable ID for the account
+  subject: string;
+  email: string | null;
+  // Whether the provider has checked that the account owns the email address
+  emailVerified: boolean;
+  name: string | null;
+}
+
+/**
+ * Parameters of the redirect to a provider's login page
+ */
+export interface AuthorizationRequest {
+  // State parameter the provider returns to the callback, checked against the state cookie
+  state: string;
+  // Nonce the provider embeds in its ID token, where it issues one
+  nonce: string;
+  // PKCE code challenge of the login attempt
+  codeChallenge: string;
+}
+
+/**
+ * Result of the callback returning from a provider's login page
+ */
+export interface AuthorizationResponse {
+  // Authorization code from the callback
+  code: string;
+  // Nonce and PKCE code verifier the login attempt was started with
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * A service users can log in with. Each provider is reached through
+ * /api/auth/login/:id and returns to /api/auth/callback/:id.
+ */
+export interface IdentityProvider {
+  // URL-safe ID, used in the routes and stored with linked accounts
+  id: string;
+  // Name shown on the login button
+  displayName: string;
+  /**
+   * Builds the URL of the provider's login page
+   * @param request State, nonce and PKCE challenge of the login attempt
+   * @returns URL to redirect the user to
+   */
+  getAuthUrl(request: AuthorizationRequest): Promise<string>;
+  /**
+   * Exchanges the authorization code and gets the account the user logged in with
+   * @param response Code from the callback, with the login attempt's nonce and verifier
+   * @returns The account, or null if the code could not be exchanged or verified
+   */
+  getProfile(response: AuthorizationResponse): Promise<IdentityProfile | null>;
+}
+
+const providers = new Map<string, IdentityProvider>();
+
+/**
+ * Makes an identity provider available for login, replacing any with the same ID
+ * @param provider Identity provider
+ */
+export function registerIdentityProvider(provider: IdentityProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Stops offering an identity provider for login
+ * @param id Provider ID
+ */
+export function unregisterIdentityProvider(id: string): void {
+  providers.delete(id);
+}
+
+/**
+ * Gets an identity provider by ID
+ * @param id Provider ID
+ * @returns Provider or null if none is registered with the ID
+ */
+export function getIdentityProvider(id: string): IdentityProvider | null {
+  return providers.get(id) ?? null;
+}
+
+/**
+ * Gets every identity provider available for login, in registration order
+ * @returns Array of providers
+ */
+export function getIdentityProviders(): IdentityProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Finds the user who logs in with an identity provider account, creating one on the
+ * first login. An account that isn't linked yet is linked to the user with the same
+ * email address, such as one who logged in before accounts were linked, but only when
+ * the provider has verified the address; otherwise whoever controls an unverified
+ * address at any provider could take over that user.
+ * @param providerId Identity provider ID
+ * @param profile Account the user logged in with
+ * @returns The user, or an error describing why the account can't be used
+ */
+export function findOrCreateUserFromIdentity(
+  providerId: string,
+  profile: IdentityProfile
+): { user: User | null; error?: string } {
+  const linkedUser = dbUtils.getUserByIdentity(providerId, profile.subject);
+
+  if (linkedUser) {
+    dbUtils.linkUserIdentity(providerId, profile.subject, linkedUser.id, profile.email);
+    const user = profile.name ? dbUtils.updateUser(linkedUser.id, { name: profile.name }) : linkedUser;
+    return { user };
+  }
+
+  // Users without an email address are anonymous, so one is needed to log in
+  if (!profile.email) {
+    return { user: null, error: 'The identity provider did not share an email address' };
+  }
+
+  if (!profile.emailVerified) {
+    return { user: null, error: 'The identity provider has not verified the email address' };
+  }
+
+  const existingUser = dbUtils.getUserByEmail(profile.email);
+  const user = existingUser
+    ? (profile.name ? dbUtils.updateUser(existingUser.id, { name: profile.name })! : existingUser)
+    : dbUtils.createUser(profile.email, profile.name);
+
+  dbUtils.linkUserIdentity(providerId, profile.subject, user.id, profile.email);
+  return { user };
+}
+
+registerIdentityProvider(googleProvider);
+
+// A generic OpenID Connect provider is offered when an issuer is configured
+if (OIDC_CONFIG.ISSUER) {
+  registerIdentityProvider(createOidcProvider({
+    id: OIDC_CONFIG.PROVIDER_ID,
+    displayName: OIDC_CONFIG.DISPLAY_NAME,
+    issuer: OIDC_CONFIG.ISSUER,
+    clientId: OIDC_CONFIG.CLIENT_ID,
+    clientSecret: OIDC_CONFIG.CLIENT_SECRET,
+    redirectUri: OIDC_CONFIG.REDIRECT_URI,
+    scopes: OIDC_CONFIG.SCOPES,
+    trustEmail: OIDC_CONFIG.TRUST_EMAIL
+  }));
+}
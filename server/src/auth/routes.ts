@@ -2,25 +2,86 @@ import express, { Request, Response } from 'express';
 import { 
   createToken, 
   getCurrentUser, 
+  createOAuthState,
+  verifyOAuthState,
+  generateOAuthNonce,
+  generatePkcePair,
+  sanitizeReturnTo,
+  getSessionIdleCutoff,
   AUTH_COOKIE_NAME, 
-  COOKIE_OPTIONS 
+  COOKIE_OPTIONS,
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_COOKIE_OPTIONS
 } from './utils';
-import { 
-  getGoogleAuthUrl, 
-  getTokensFromCode, 
-  getUserInfoFromToken, 
-  createOrUpdateUserFromGoogle 
-} from './google';
+import {
+  getIdentityProvider,
+  getIdentityProviders,
+  findOrCreateUserFromIdentity
+} from './providers';
+import { isValidEmail, sendMagicLink, consumeMagicLink } from './email';
+import { API_KEY_SCOPES, createApiKey, isApiKeyScope } from './apikeys';
+import { API_KEY_CONFIG } from './config';
+import { requireAuth, requireRole } from './middleware';
+import { canSetRole, isRole } from './policy';
 import { dbUtils } from '../database';
+import { ApiKey } from '../database/utils';
 
 const router = express.Router();
 
+/**
+ * Adds the outcome of a login to the path the user is sent back to
+ * @param returnTo Local path the login started from
+ * @param result Outcome of the login
+ * @returns Path to redirect to
+ */
+const withAuthResult = (returnTo: string, result: 'success' | 'error'): string => {
+  const url = new URL(returnTo, 'http://localhost');
+  url.searchParams.set('auth', result);
+  return url.pathname + url.search + url.hash;
+};
+
+/**
+ * Formats an API key for responses
+ * @param apiKey API key
+ * @returns Key details, without anything that could be used to authenticate
+ */
+const toApiKeyResponse = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  createdAt: apiKey.created_at,
+  lastUsedAt: apiKey.last_used_at
+});
+
+/**
+ * Clears the auth cookie
+ * @param res Express response
+ */
+const clearAuthCookie = (res: Response): void => {
+  res.clearCookie(AUTH_COOKIE_NAME, {
+    ...COOKIE_OPTIONS,
+    maxAge: 0
+  });
+};
+
 /**
  * GET /api/auth/me
  * Returns the current user or creates an anonymous one if no valid token
  */
 router.get('/me', async (req: Request, res: Response) => {
   try {
+    // Requests made with an API key are about the key's user, without cookies
+    if (req.apiKey) {
+      return res.json({
+        id: req.user!.id,
+        email: req.user!.email,
+        name: req.user!.name,
+        role: req.user!.role,
+        isAuthenticated: true
+      });
+    }
+    
     const token = req.cookies?.[AUTH_COOKIE_NAME];
     const user = await getCurrentUser(token);
     
@@ -30,7 +91,7 @@ router.get('/me', async (req: Request, res: Response) => {
     // 3. For some reason req.user is not defined
     const isInvalidToken = token && req.user && user.id !== req.user.id;
     if (!token || isInvalidToken || !req.user) {
-      const newToken = createToken(user);
+      const newToken = createToken(user, req.get('user-agent') ?? null);
       res.cookie(AUTH_COOKIE_NAME, newToken, COOKIE_OPTIONS);
     }
     
@@ -39,6 +100,7 @@ router.get('/me', async (req: Request, res: Response) => {
       id: user.id,
       email: user.email,
       name: user.name,
+      role: user.role,
       isAuthenticated: user.email !== null, // True if not anonymous
     });
   } catch (error) {
@@ -52,6 +114,74 @@ router.get('/me', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/auth/me/export
+ * Downloads everything stored about the current user as a JSON archive
+ */
+router.get('/me/export', requireAuth, (req: Request, res: Response) => {
+  try {
+    const data = dbUtils.getUserDataExport(req.user!.id)!;
+    const exportedAt = new Date().toISOString();
+    
+    res.attachment(`everypoll-data-${exportedAt.slice(0, 10)}.json`);
+    res.json({ exportedAt, ...data });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/me/export:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/me
+ * Deletes the current user's account (see DatabaseUtils.deleteUser for what is kept)
+ * Request body:
+ * - confirmEmail: The account's email address, confirming the deletion
+ * - deletePolls: Whether to delete the user's polls instead of keeping them under
+ *   "Deleted user" (default: false)
+ */
+router.delete('/me', requireAuth, (req: Request, res: Response) => {
+  try {
+    const { confirmEmail, deletePolls = false } = req.body ?? {};
+    
+    if (typeof confirmEmail !== 'string' || confirmEmail.trim().toLowerCase() !== req.user!.email!.toLowerCase()) {
+      return res.status(400).json({
+        error: 'Confirmation required',
+        message: 'Enter the email address of the account to confirm its deletion'
+      });
+    }
+    
+    if (typeof deletePolls !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'deletePolls must be a boolean'
+      });
+    }
+    
+    const summary = dbUtils.deleteUser(req.user!.id, { deletePolls });
+    
+    clearAuthCookie(res);
+    
+    res.json({
+      success: true,
+      message: 'Account deleted',
+      ...summary
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/me:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
 /**
  * GET /api/auth/user/:id
  * Returns public user information by ID
@@ -94,19 +224,108 @@ router.get('/user/:id', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/auth/login
- * Redirects the user to Google's login page
+ * PUT /api/auth/user/:id/role
+ * Changes a user's role (admin only, see canSetRole)
+ * Request body:
+ * - role: 'user', 'moderator' or 'admin'
+ */
+router.put('/user/:id/role', requireAuth, requireRole('admin'), (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body ?? {};
+    
+    if (!isRole(role)) {
+      return res.status(400).json({
+        error: 'Invalid role',
+        message: 'role must be user, moderator or admin'
+      });
+    }
+    
+    const target = dbUtils.getUserById(id);
+    
+    if (!target) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: `No user found with ID: ${id}`
+      });
+    }
+    
+    if (!canSetRole(req.user, target)) {
+      return res.status(403).json({
+        error: 'Role cannot be changed',
+        message: target.id === req.user!.id
+          ? 'You cannot change your own role'
+          : 'Only users who have logged in can be given a role'
+      });
+    }
+    
+    const user = dbUtils.setUserRole(id, role)!;
+    
+    res.json({
+      id: user.id,
+      name: user.name,
+      role: user.role
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/user/:id/role:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * GET /api/auth/providers
+ * Lists the identity providers users can log in with
+ */
+router.get('/providers', (req: Request, res: Response) => {
+  res.json({
+    providers: getIdentityProviders().map(provider => ({
+      id: provider.id,
+      displayName: provider.displayName
+    }))
+  });
+});
+
+/**
+ * GET /api/auth/login/:provider
+ * Redirects the user to an identity provider's login page. /api/auth/login logs in
+ * with Google.
+ * Query parameters:
+ * - returnTo: Local path to come back to after logging in (default: /)
  */
-router.get('/login', (req: Request, res: Response) => {
+router.get(['/login', '/login/:provider'], async (req: Request<{ provider?: string }>, res: Response) => {
   try {
-    // Generate state parameter to mitigate CSRF attacks
-    // In a production environment, you'd store this in a session or database
-    const state = Math.random().toString(36).substring(2, 15);
+    const providerId = req.params.provider ?? 'google';
+    const provider = getIdentityProvider(providerId);
+    
+    if (!provider) {
+      return res.status(404).json({
+        error: 'Provider not found',
+        message: `No identity provider found with ID: ${providerId}`
+      });
+    }
     
-    // Generate the Google OAuth URL with the state parameter
-    const authUrl = getGoogleAuthUrl(state);
+    // The state parameter is a random nonce that the callback matches against a signed
+    // cookie, so another site can't complete a login into its own account (login CSRF).
+    // The cookie also keeps the provider, the PKCE verifier, the return path and the
+    // anonymous user to merge, whose own cookie isn't sent on the cross-site redirect back.
+    const nonce = generateOAuthNonce();
+    const { codeVerifier, codeChallenge } = generatePkcePair();
+    const oauthState = createOAuthState({
+      nonce,
+      provider: provider.id,
+      returnTo: sanitizeReturnTo(req.query.returnTo),
+      codeVerifier,
+      userId: req.user && !req.isAuthenticated ? req.user.id : null
+    });
+    
+    const authUrl = await provider.getAuthUrl({ state: nonce, nonce, codeChallenge });
     
-    // Redirect to Google's login page
+    res.cookie(OAUTH_STATE_COOKIE_NAME, oauthState, OAUTH_STATE_COOKIE_OPTIONS);
     res.redirect(authUrl);
   } catch (error) {
     if (process.env.NODE_ENV !== 'test') {
@@ -120,62 +339,92 @@ router.get('/login', (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/auth/callback
- * Handles the callback from Google after user authentication
+ * GET /api/auth/callback/:provider
+ * Handles the callback from an identity provider after user authentication.
+ * /api/auth/callback is Google's.
  */
-router.get('/callback', async (req: Request, res: Response) => {
+router.get(['/callback', '/callback/:provider'], async (req: Request<{ provider?: string }>, res: Response) => {
   try {
-    const { code, error } = req.query;
-    // Note: In a production app, we would validate the state parameter
-    // to prevent CSRF attacks, but we're omitting that for simplicity
+    const { code, error, state } = req.query;
+    const signedState = req.cookies?.[OAUTH_STATE_COOKIE_NAME];
+    const provider = getIdentityProvider(req.params.provider ?? 'google');
     
-    // Handle error from Google
-    if (error) {
+    // A login attempt's state is only good for one callback
+    if (signedState) {
+      res.clearCookie(OAUTH_STATE_COOKIE_NAME, {
+        ...OAUTH_STATE_COOKIE_OPTIONS,
+        maxAge: 0
+      });
+    }
+    
+    // Only finish logins this browser started, with the provider it started them at
+    const oauthState = typeof signedState === 'string' && typeof state === 'string'
+      ? verifyOAuthState(signedState, state)
+      : null;
+    
+    if (!oauthState || !provider || oauthState.provider !== provider.id) {
       if (process.env.NODE_ENV !== 'test') {
-        console.error('Error from Google OAuth:', error);
+        console.error('Missing or invalid OAuth state in callback');
       }
       return res.redirect('/?auth=error');
     }
     
+    const errorPath = withAuthResult(oauthState.returnTo, 'error');
+    
+    // Handle error from the provider
+    if (error) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.error(`Error from ${provider.displayName} login:`, error);
+      }
+      return res.redirect(errorPath);
+    }
+    
     // Make sure we have an authorization code
     if (!code || typeof code !== 'string') {
       if (process.env.NODE_ENV !== 'test') {
         console.error('Missing authorization code in callback');
       }
-      return res.redirect('/?auth=error');
+      return res.redirect(errorPath);
     }
     
-    // Exchange authorization code for tokens
-    const { tokens, error: tokenError } = await getTokensFromCode(code);
+    // Exchange the authorization code for the account the user logged in with
+    const profile = await provider.getProfile({
+      code,
+      nonce: oauthState.nonce,
+      codeVerifier: oauthState.codeVerifier
+    });
     
-    if (tokenError || !tokens?.access_token) {
+    if (!profile) {
       if (process.env.NODE_ENV !== 'test') {
-        console.error('Error getting tokens:', tokenError);
+        console.error(`Error getting the account from ${provider.displayName}`);
       }
-      return res.redirect('/?auth=error');
+      return res.redirect(errorPath);
     }
     
-    // Get user information from Google using the access token
-    const googleUserInfo = await getUserInfoFromToken(tokens.access_token);
+    // Find the user linked to the account, or link or create one
+    const { user, error: userError } = findOrCreateUserFromIdentity(provider.id, profile);
     
-    if (!googleUserInfo) {
+    if (!user) {
       if (process.env.NODE_ENV !== 'test') {
-        console.error('Error getting user info from Google');
+        console.error(`Error logging in with ${provider.displayName}:`, userError);
       }
-      return res.redirect('/?auth=error');
+      return res.redirect(errorPath);
     }
     
-    // Create or update user in our database
-    const user = await createOrUpdateUserFromGoogle(googleUserInfo);
+    // Move whatever the visitor did anonymously before logging in over to the account
+    // (see mergeAnonymousUser for polls both of them voted on)
+    if (oauthState.userId) {
+      dbUtils.mergeAnonymousUser(oauthState.userId, user.id);
+    }
     
     // Generate JWT token
-    const jwtToken = createToken(user);
+    const jwtToken = createToken(user, req.get('user-agent') ?? null);
     
     // Set JWT token in cookie
     res.cookie(AUTH_COOKIE_NAME, jwtToken, COOKIE_OPTIONS);
     
-    // Redirect to the home page
-    res.redirect('/?auth=success');
+    // Send the user back to where they started the login
+    res.redirect(withAuthResult(oauthState.returnTo, 'success'));
   } catch (error) {
     if (process.env.NODE_ENV !== 'test') {
       console.error('Error in /auth/callback:', error);
@@ -184,17 +433,119 @@ router.get('/callback', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/magic-link
+ * Emails a single-use login link, for users without an account at an identity provider
+ * Request body:
+ * - email: Email address to log in with
+ * - returnTo: Local path to come back to after logging in (default: /)
+ */
+router.post('/magic-link', async (req: Request, res: Response) => {
+  try {
+    const { email, returnTo } = req.body ?? {};
+    
+    if (!isValidEmail(email)) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'A valid email address is required'
+      });
+    }
+    
+    const sent = await sendMagicLink(email, sanitizeReturnTo(returnTo));
+    
+    if (!sent) {
+      return res.status(429).json({
+        error: 'Too many requests',
+        message: 'Too many login links were sent to this address. Try again later.'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Check your email for a login link'
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/magic-link:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * GET /api/auth/magic-link/verify
+ * Opens an emailed login link on a page that asks to confirm the login. Mail scanners
+ * and link previews fetch links too, so opening one must not use it up.
+ * Query parameters:
+ * - token: Token from the link
+ */
+router.get('/magic-link/verify', (req: Request, res: Response) => {
+  const { token } = req.query;
+  
+  if (typeof token !== 'string' || !token) {
+    return res.redirect('/?auth=error');
+  }
+  
+  res.redirect(`/login/email?token=${encodeURIComponent(token)}`);
+});
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Logs in with an emailed login link, once its page confirms it
+ * Request body:
+ * - token: Token from the link
+ */
+router.post('/magic-link/verify', (req: Request, res: Response) => {
+  try {
+    const { token } = req.body ?? {};
+    const result = typeof token === 'string' ? consumeMagicLink(token) : null;
+    
+    if (!result) {
+      return res.status(400).json({
+        error: 'Invalid login link',
+        message: 'This login link is unknown, has expired or was already used'
+      });
+    }
+    
+    // The confirmation is sent from this site, so the visitor's cookie comes along
+    // and their anonymous user is merged into the account they chose to log in to
+    if (req.user && !req.isAuthenticated) {
+      dbUtils.mergeAnonymousUser(req.user.id, result.user.id);
+    }
+    
+    const jwtToken = createToken(result.user, req.get('user-agent') ?? null);
+    res.cookie(AUTH_COOKIE_NAME, jwtToken, COOKIE_OPTIONS);
+    
+    res.json({
+      success: true,
+      returnTo: withAuthResult(result.returnTo, 'success')
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/magic-link/verify:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
 /**
  * POST /api/auth/logout
- * Clears the auth cookie
+ * Revokes the current session and clears the auth cookie
  */
 router.post('/logout', (req: Request, res: Response) => {
   try {
-    // Clear the auth cookie
-    res.clearCookie(AUTH_COOKIE_NAME, {
-      ...COOKIE_OPTIONS,
-      maxAge: 0
-    });
+    // End the session, so the token stops working even if it was copied
+    if (req.user && req.sessionId) {
+      dbUtils.revokeSession(req.sessionId, req.user.id);
+    }
+    
+    clearAuthCookie(res);
     
     res.json({ 
       success: true,
@@ -211,4 +562,193 @@ router.post('/logout', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/auth/sessions
+ * Lists the current user's active sessions, most recently used first
+ */
+router.get('/sessions', requireAuth, (req: Request, res: Response) => {
+  try {
+    const sessions = dbUtils.getActiveSessions(req.user!.id, getSessionIdleCutoff());
+    
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at,
+        userAgent: session.user_agent,
+        isCurrent: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/sessions:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ * Revokes all of the current user's sessions, logging them out everywhere
+ */
+router.delete('/sessions', requireAuth, (req: Request, res: Response) => {
+  try {
+    const revokedCount = dbUtils.revokeUserSessions(req.user!.id);
+    
+    clearAuthCookie(res);
+    
+    res.json({
+      success: true,
+      message: 'Logged out of all sessions',
+      revokedCount
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/sessions:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revokes one of the current user's sessions
+ */
+router.delete('/sessions/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    if (!dbUtils.revokeSession(id, req.user!.id)) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: `No active session found with ID: ${id}`
+      });
+    }
+    
+    // Revoking the current session is logging out
+    if (id === req.sessionId) {
+      clearAuthCookie(res);
+    }
+    
+    res.json({
+      success: true,
+      message: 'Session revoked'
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/sessions/:id:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * GET /api/auth/api-keys
+ * Lists the current user's API keys, newest first, with the scopes keys can have
+ */
+router.get('/api-keys', requireAuth, (req: Request, res: Response) => {
+  try {
+    res.json({
+      apiKeys: dbUtils.getApiKeys(req.user!.id).map(toApiKeyResponse),
+      availableScopes: API_KEY_SCOPES
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/api-keys:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * POST /api/auth/api-keys
+ * Creates an API key for the current user. The key is only ever returned here.
+ * Request body:
+ * - name: Name to tell the key apart by
+ * - scopes: What the key may be used for (see API_KEY_SCOPES)
+ */
+router.post('/api-keys', requireAuth, (req: Request, res: Response) => {
+  try {
+    const { name, scopes } = req.body ?? {};
+    
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      return res.status(400).json({
+        error: 'Invalid name',
+        message: 'Name must be between 1 and 100 characters'
+      });
+    }
+    
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return res.status(400).json({
+        error: 'Invalid scopes',
+        message: `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`
+      });
+    }
+    
+    if (dbUtils.getApiKeys(req.user!.id).length >= API_KEY_CONFIG.MAX_KEYS_PER_USER) {
+      return res.status(400).json({
+        error: 'Too many API keys',
+        message: `You can have at most ${API_KEY_CONFIG.MAX_KEYS_PER_USER} API keys. Revoke one to create another.`
+      });
+    }
+    
+    const { apiKey, key } = createApiKey(req.user!.id, name.trim(), scopes);
+    
+    res.status(201).json({
+      apiKey: toApiKeyResponse(apiKey),
+      key
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/api-keys:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/api-keys/:id
+ * Revokes one of the current user's API keys
+ */
+router.delete('/api-keys/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    if (!dbUtils.revokeApiKey(id, req.user!.id)) {
+      return res.status(404).json({
+        error: 'API key not found',
+        message: `No API key found with ID: ${id}`
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.error('Error in /auth/api-keys/:id:', error);
+    }
+    res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while processing your request' 
+    });
+  }
+});
+
 export default router;
@@ -1,20 +1,19 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { dbUtils } from '../database';
-import { User } from '../database/utils';
+import { Session, User } from '../database/utils';
+import { SESSION_CONFIG } from './config';
 
 // Secret for JWT signing - in production, this should be set as an environment variable
 // Using a hardcoded value for simplicity in development
 const JWT_SECRET = process.env.JWT_SECRET || 'everypoll-jwt-secret-key';
 
-// Token expiration time (1 week)
-const TOKEN_EXPIRATION = '7d'; 
-
 // Cookie settings
 export const COOKIE_OPTIONS = {
   httpOnly: true,      // Prevents JavaScript access to the cookie
   secure: process.env.NODE_ENV === 'production',  // Secure in production
   sameSite: 'strict' as const,  // Prevents CSRF attacks
-  maxAge: 7 * 24 * 60 * 60 * 1000,  // 7 days in milliseconds
+  maxAge: SESSION_CONFIG.IDLE_TIMEOUT_MS,  // Expires with the token it holds
   path: '/'  // Cookie available for the entire domain
 };
 
@@ -26,20 +25,57 @@ export const AUTH_COOKIE_NAME = 'everypoll_auth';
  */
 export interface JwtPayload {
   userId: string;
-  // Additional fields can be added in the future if needed
+  // Session the token belongs to; the token is rejected once the session is revoked
+  sessionId: string;
+  // Token generation of the session; the token is rejected once it has been replaced
+  // (missing on tokens issued before generations were recorded, which count as 0)
+  generation?: number;
+  // Issue time in seconds, set when signing
+  iat?: number;
+}
+
+/**
+ * A valid token's user and session
+ */
+export interface TokenSession {
+  user: User;
+  session: Session;
+  payload: JwtPayload;
 }
 
 /**
- * Creates a JWT token for a user
+ * Signs a token for an existing session
+ * @param userId User ID
+ * @param sessionId Session ID
+ * @param generation Token generation of the session
+ * @returns JWT token string
+ */
+function signToken(userId: string, sessionId: string, generation: number): string {
+  const payload: JwtPayload = { userId, sessionId, generation };
+
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: Math.floor(SESSION_CONFIG.IDLE_TIMEOUT_MS / 1000)
+  });
+}
+
+/**
+ * Starts a new session for a user and creates a JWT token for it
  * @param user User object
+ * @param userAgent User agent of the client, shown in the session list
  * @returns JWT token string
  */
-export function createToken(user: User): string {
-  const payload: JwtPayload = {
-    userId: user.id
-  };
+export function createToken(user: User, userAgent: string | null = null): string {
+  const session = dbUtils.createSession(user.id, userAgent);
+  return signToken(user.id, session.id, session.token_generation);
+}
 
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: TOKEN_EXPIRATION });
+/**
+ * Gets the time before which an unused session has expired
+ * @param now Current time in milliseconds (defaults to now)
+ * @returns ISO timestamp
+ */
+export function getSessionIdleCutoff(now: number = Date.now()): string {
+  return new Date(now - SESSION_CONFIG.IDLE_TIMEOUT_MS).toISOString();
 }
 
 /**
@@ -60,16 +96,81 @@ export function verifyToken(token: string): JwtPayload | null {
 }
 
 /**
- * Gets a user from a JWT token
+ * Checks that a token is of its session's current generation, or is the token that was
+ * just replaced and still within the grace period
+ * @param session The token's session
+ * @param generation Generation of the token
+ * @param now Current time in milliseconds (defaults to now)
+ * @returns True if the token may still be used
+ */
+function isCurrentTokenGeneration(session: Session, generation: number, now: number = Date.now()): boolean {
+  if (generation === session.token_generation) return true;
+
+  return generation === session.token_generation - 1
+    && session.rotated_at !== null
+    && now - Date.parse(session.rotated_at) < SESSION_CONFIG.ROTATION_GRACE_MS;
+}
+
+/**
+ * Gets the user and session of a JWT token
  * @param token JWT token string
- * @returns User object or null if token is invalid
+ * @returns The user, session and token payload, or null if the token is invalid or
+ * replaced, or its session is revoked, expired or belongs to someone else
  */
-export function getUserFromToken(token: string): Promise<User | null> {
+export function getSessionFromToken(token: string): Promise<TokenSession | null> {
   const payload = verifyToken(token);
-  if (!payload) return Promise.resolve(null);
+  if (!payload?.sessionId) return Promise.resolve(null);
+
+  const session = dbUtils.getSessionById(payload.sessionId);
+  if (
+    !session ||
+    session.user_id !== payload.userId ||
+    session.revoked_at !== null ||
+    session.last_seen_at < getSessionIdleCutoff() ||
+    !isCurrentTokenGeneration(session, payload.generation ?? 0)
+  ) {
+    return Promise.resolve(null);
+  }
 
   const user = dbUtils.getUserById(payload.userId);
-  return Promise.resolve(user);
+  return Promise.resolve(user ? { user, session, payload } : null);
+}
+
+/**
+ * Gets a user from a JWT token
+ * @param token JWT token string
+ * @returns User object or null if token is invalid
+ */
+export async function getUserFromToken(token: string): Promise<User | null> {
+  const tokenSession = await getSessionFromToken(token);
+  return tokenSession?.user ?? null;
+}
+
+/**
+ * Keeps an active session alive: records that it was used and, once its token is old
+ * enough, rotates it so the session's expiry slides with use. The replaced token stops
+ * working after SESSION_CONFIG.ROTATION_GRACE_MS, so a stolen token is cut off by the
+ * next rotation instead of staying valid until it expires.
+ * @param tokenSession The current token's user and session
+ * @param now Current time in milliseconds (defaults to now)
+ * @returns A fresh token to set in the cookie, or null if the current one is still recent
+ * or was already replaced
+ */
+export function refreshSession(tokenSession: TokenSession, now: number = Date.now()): string | null {
+  const { session, payload } = tokenSession;
+
+  if (now - Date.parse(session.last_seen_at) >= SESSION_CONFIG.TOUCH_INTERVAL_MS) {
+    dbUtils.touchSession(session.id, new Date(now).toISOString());
+  }
+
+  const issuedAt = (payload.iat ?? 0) * 1000;
+  if (now - issuedAt < SESSION_CONFIG.ROTATE_AFTER_MS) return null;
+
+  // Only one of several requests made with the same token gets its replacement
+  const generation = dbUtils.rotateSessionToken(session.id, payload.generation ?? 0, new Date(now).toISOString());
+  if (generation === null) return null;
+
+  return signToken(session.user_id, session.id, generation);
 }
 
 /**
@@ -95,3 +196,98 @@ export async function getCurrentUser(token?: string): Promise<User> {
   // If no token or invalid token, create an anonymous user
   return createAnonymousUser();
 }
+
+// Cookie holding the signed OAuth state between the login redirect and the callback
+export const OAUTH_STATE_COOKIE_NAME = 'everypoll_oauth_state';
+
+// How long a login attempt may take before its state expires (10 minutes)
+const OAUTH_STATE_EXPIRATION_SECONDS = 10 * 60;
+
+// The callback is reached by a cross-site redirect from the provider, which
+// SameSite=Strict cookies are not sent with, so this one is Lax
+export const OAUTH_STATE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  maxAge: OAUTH_STATE_EXPIRATION_SECONDS * 1000,
+  path: '/api/auth'
+};
+
+/**
+ * What a login attempt needs to remember until the callback
+ */
+export interface OAuthState {
+  // Identity provider the login was started with
+  provider: string;
+  // Random value also sent as the OAuth state parameter and the OpenID Connect nonce
+  nonce: string;
+  // Local path to send the user back to after logging in
+  returnTo: string;
+  // PKCE code verifier matching the challenge sent to the provider
+  codeVerifier: string;
+  // Anonymous user who started the login, to merge into the account
+  userId: string | null;
+}
+
+/**
+ * Creates a signed, short-lived OAuth state for the state cookie
+ * @param state Login attempt details
+ * @returns Signed state string
+ */
+export function createOAuthState(state: OAuthState): string {
+  return jwt.sign(state, JWT_SECRET, { expiresIn: OAUTH_STATE_EXPIRATION_SECONDS });
+}
+
+/**
+ * Verifies the state cookie against the state parameter returned by the provider
+ * @param signedState Value of the state cookie
+ * @param nonce State parameter from the callback
+ * @returns The login attempt details, or null if the cookie is invalid, expired or
+ * doesn't match the parameter
+ */
+export function verifyOAuthState(signedState: string, nonce: string): OAuthState | null {
+  try {
+    const state = jwt.verify(signedState, JWT_SECRET) as OAuthState;
+    const expected = Buffer.from(state.nonce);
+    const actual = Buffer.from(nonce);
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    return state;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generates the random nonce of a login attempt
+ * @returns URL-safe random string
+ */
+export function generateOAuthNonce(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Generates a PKCE code verifier and the S256 challenge derived from it
+ * @returns The verifier to keep until the callback, and the challenge to send to the provider
+ */
+export function generatePkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Limits a post-login return path to this site, so the login can't be used to
+ * redirect users elsewhere
+ * @param returnTo Requested return path
+ * @returns The path if it is local, otherwise the home page
+ */
+export function sanitizeReturnTo(returnTo: unknown): string {
+  // Browsers treat "//host" and "/\host" as other hosts, after dropping tabs and
+  // newlines, so backslashes and whitespace aren't allowed anywhere
+  if (typeof returnTo !== 'string' || !/^\/(?!\/)[^\\\s]*$/.test(returnTo)) return '/';
+
+  return returnTo;
+}
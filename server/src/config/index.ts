@@ -0,0 +1,6 @@
+import { parseIntegerEnv, type IntegerRange } from './utils';
+
+export { parseIntegerEnv };
+
+// Re-export types with correct syntax for isolatedModules
+export type { IntegerRange };
@@ -0,0 +1,25 @@
+/**
+ * Range an environment variable's value must fall in
+ */
+export interface IntegerRange {
+  // Smallest accepted value (default: 0)
+  min?: number;
+  // Largest accepted value (default: no limit)
+  max?: number;
+}
+
+/**
+ * Parses an integer from an environment variable
+ * @param value Raw environment value
+ * @param fallback Value used when the variable is unset, invalid or out of range
+ * @param range Accepted values, all non-negative integers by default
+ * @returns Parsed integer
+ */
+export function parseIntegerEnv(
+  value: string | undefined,
+  fallback: number,
+  { min = 0, max = Number.MAX_SAFE_INTEGER }: IntegerRange = {}
+): number {
+  const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) || parsed < min || parsed > max ? fallback : parsed;
+}
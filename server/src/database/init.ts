@@ -114,14 +114,9 @@ export function reinitializeTestDatabase(): Database.Database {
     // Create initial schema
     createInitialSchema(db);
     
-    // Create migrations table
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS migrations (
-        id INTEGER PRIMARY KEY,
-        name TEXT NOT NULL,
-        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+    // Apply migrations so tests run against the same schema as the app
+    // (this also creates the migrations table)
+    applyMigrations(db);
     
     return db;
   } catch (error) {
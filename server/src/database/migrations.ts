@@ -45,19 +45,20 @@ function getAppliedMigrations(db: Database.Database): number[] {
 
 /**
  * Loads all migration files from the migrations directory
+ * @param migrationsDir Directory containing the migration files
  * @returns Array of migration objects
  */
-function loadMigrationFiles(): Migration[] {
+function loadMigrationFiles(migrationsDir: string): Migration[] {
   // Ensure migrations directory exists
-  if (!fs.existsSync(DB_CONFIG.MIGRATIONS_DIR)) {
-    fs.mkdirSync(DB_CONFIG.MIGRATIONS_DIR, { recursive: true });
+  if (!fs.existsSync(migrationsDir)) {
+    fs.mkdirSync(migrationsDir, { recursive: true });
     return [];
   }
   
   const migrations: Migration[] = [];
   
   // Read all .sql files from migrations directory
-  const files = fs.readdirSync(DB_CONFIG.MIGRATIONS_DIR)
+  const files = fs.readdirSync(migrationsDir)
     .filter(file => file.endsWith('.sql'))
     .sort();
   
@@ -67,7 +68,7 @@ function loadMigrationFiles(): Migration[] {
     if (match) {
       const id = parseInt(match[1], 10);
       const name = match[2].replace(/_/g, ' ');
-      const filePath = path.join(DB_CONFIG.MIGRATIONS_DIR, file);
+      const filePath = path.join(migrationsDir, file);
       const sql = fs.readFileSync(filePath, 'utf8');
       
       migrations.push({ id, name, sql });
@@ -80,11 +81,12 @@ function loadMigrationFiles(): Migration[] {
 /**
  * Applies pending migrations to the database
  * @param db Database instance
+ * @param migrationsDir Directory containing the migration files (defaults to the app's migrations)
  * @returns Number of migrations applied
  */
-export function applyMigrations(db: Database.Database): number {
+export function applyMigrations(db: Database.Database, migrationsDir: string = DB_CONFIG.MIGRATIONS_DIR): number {
   const appliedMigrationIds = getAppliedMigrations(db);
-  const migrations = loadMigrationFiles();
+  const migrations = loadMigrationFiles(migrationsDir);
   let appliedCount = 0;
   
   // Begin transaction
@@ -97,7 +99,9 @@ export function applyMigrations(db: Database.Database): number {
         continue;
       }
       
-      console.log(`Applying migration ${migration.id}: ${migration.name}`);
+      if (!DB_CONFIG.isTest) {
+        console.log(`Applying migration ${migration.id}: ${migration.name}`);
+      }
       
       // Execute migration SQL
       db.exec(migration.sql);
@@ -118,7 +122,7 @@ export function applyMigrations(db: Database.Database): number {
     throw error;
   }
   
-  if (appliedCount > 0) {
+  if (appliedCount > 0 && !DB_CONFIG.isTest) {
     console.log(`Applied ${appliedCount} migrations`);
   }
   
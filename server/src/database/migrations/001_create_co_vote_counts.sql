@@ -0,0 +1,30 @@
+-- Pairwise co-vote aggregate used for cross-referencing
+-- Each row counts the users who chose answer_id on poll_id AND other_answer_id on other_poll_id.
+-- Pairs are stored in both directions so lookups never need to consider either orientation.
+CREATE TABLE IF NOT EXISTS CoVoteCounts (
+  poll_id TEXT NOT NULL,
+  answer_id TEXT NOT NULL,
+  other_poll_id TEXT NOT NULL,
+  other_answer_id TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (poll_id, other_poll_id, other_answer_id, answer_id),
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (answer_id) REFERENCES Answers(id) ON DELETE CASCADE,
+  FOREIGN KEY (other_poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (other_answer_id) REFERENCES Answers(id) ON DELETE CASCADE
+) WITHOUT ROWID;
+
+-- Supports the foreign key cascades from the other side of each pair
+CREATE INDEX IF NOT EXISTS idx_co_vote_counts_other_poll ON CoVoteCounts(other_poll_id);
+CREATE INDEX IF NOT EXISTS idx_co_vote_counts_answer ON CoVoteCounts(answer_id);
+CREATE INDEX IF NOT EXISTS idx_co_vote_counts_other_answer ON CoVoteCounts(other_answer_id);
+
+-- Incremental updates look up every other vote cast by the same user
+CREATE INDEX IF NOT EXISTS idx_votes_user ON Votes(user_id);
+
+-- Backfill from the votes that already exist
+INSERT INTO CoVoteCounts (poll_id, answer_id, other_poll_id, other_answer_id, count)
+SELECT v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id, COUNT(*)
+FROM Votes v1
+JOIN Votes v2 ON v1.user_id = v2.user_id AND v1.poll_id <> v2.poll_id
+GROUP BY v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id;
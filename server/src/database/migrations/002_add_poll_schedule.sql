@@ -0,0 +1,5 @@
+-- Optional voting window for polls
+-- NULL opens_at means the poll opens as soon as it is created;
+-- NULL closes_at means it stays open until the author closes it.
+ALTER TABLE Polls ADD COLUMN opens_at DATETIME;
+ALTER TABLE Polls ADD COLUMN closes_at DATETIME;
@@ -0,0 +1,26 @@
+-- Lets authors stop voters from changing or retracting their votes
+ALTER TABLE Polls ADD COLUMN votes_locked INTEGER NOT NULL DEFAULT 0;
+
+-- Append-only log of votes being cast, changed and retracted, so answer switches
+-- remain visible after the Votes row itself is updated or deleted
+CREATE TABLE IF NOT EXISTS VoteHistory (
+  id TEXT PRIMARY KEY,
+  poll_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('cast', 'change', 'retract')),
+  previous_answer_id TEXT,
+  answer_id TEXT,
+  created_at DATETIME NOT NULL,
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES Users(id),
+  FOREIGN KEY (previous_answer_id) REFERENCES Answers(id) ON DELETE CASCADE,
+  FOREIGN KEY (answer_id) REFERENCES Answers(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_history_poll ON VoteHistory(poll_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_vote_history_user ON VoteHistory(user_id);
+
+-- Existing votes start the history as casts
+INSERT INTO VoteHistory (id, poll_id, user_id, action, previous_answer_id, answer_id, created_at)
+SELECT 'backfill-' || id, poll_id, user_id, 'cast', NULL, answer_id, created_at
+FROM Votes;
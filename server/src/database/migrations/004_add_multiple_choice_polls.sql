@@ -0,0 +1,26 @@
+-- Poll types: 'single' (one answer per voter) or 'multiple' (select up to max_choices answers)
+ALTER TABLE Polls ADD COLUMN type TEXT NOT NULL DEFAULT 'single' CHECK (type IN ('single', 'multiple'));
+ALTER TABLE Polls ADD COLUMN max_choices INTEGER;
+
+-- A voter now has one Votes row per selected answer, so uniqueness moves from
+-- (poll, user) to (poll, user, answer). SQLite cannot alter constraints in place,
+-- so the table is rebuilt. Nothing references Votes, so it can be dropped safely.
+CREATE TABLE Votes_new (
+  id TEXT PRIMARY KEY,
+  poll_id TEXT NOT NULL,
+  answer_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (answer_id) REFERENCES Answers(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES Users(id),
+  UNIQUE(poll_id, user_id, answer_id)
+);
+
+INSERT INTO Votes_new (id, poll_id, answer_id, user_id, created_at)
+SELECT id, poll_id, answer_id, user_id, created_at FROM Votes;
+
+DROP TABLE Votes;
+ALTER TABLE Votes_new RENAME TO Votes;
+
+CREATE INDEX IF NOT EXISTS idx_votes_user ON Votes(user_id);
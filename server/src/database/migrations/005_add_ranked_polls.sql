@@ -0,0 +1,16 @@
+-- Allow ranked-choice polls. SQLite cannot alter a CHECK constraint in place, so the
+-- type column is swapped for one with the wider constraint (no table rebuild needed).
+ALTER TABLE Polls ADD COLUMN type_new TEXT NOT NULL DEFAULT 'single' CHECK (type_new IN ('single', 'multiple', 'ranked'));
+UPDATE Polls SET type_new = type;
+ALTER TABLE Polls DROP COLUMN type;
+ALTER TABLE Polls RENAME COLUMN type_new TO type;
+
+-- Position of the answer in a voter's ranking (1 = first preference); NULL on unranked polls
+ALTER TABLE Votes ADD COLUMN rank INTEGER;
+
+-- The votes that count toward simple tallies and cross-referencing: every vote on
+-- single- and multiple-choice polls, and only first preferences on ranked polls
+CREATE VIEW IF NOT EXISTS FirstPreferenceVotes AS
+SELECT * FROM Votes
+WHERE rank IS NULL OR rank = 1;
+
@@ -0,0 +1,55 @@
+-- Allow numeric scale (rating) polls. As in 005, the type column is swapped for one
+-- with the wider CHECK constraint rather than rebuilding Polls.
+ALTER TABLE Polls ADD COLUMN type_new TEXT NOT NULL DEFAULT 'single' CHECK (type_new IN ('single', 'multiple', 'ranked', 'scale'));
+UPDATE Polls SET type_new = type;
+ALTER TABLE Polls DROP COLUMN type;
+ALTER TABLE Polls RENAME COLUMN type_new TO type;
+
+-- Range, granularity and endpoint labels of scale polls; NULL on other poll types
+ALTER TABLE Polls ADD COLUMN scale_min REAL;
+ALTER TABLE Polls ADD COLUMN scale_max REAL;
+ALTER TABLE Polls ADD COLUMN scale_step REAL;
+ALTER TABLE Polls ADD COLUMN scale_min_label TEXT;
+ALTER TABLE Polls ADD COLUMN scale_max_label TEXT;
+
+-- A scale vote stores a numeric value instead of an answer, so answer_id becomes
+-- nullable. SQLite cannot relax NOT NULL in place, so Votes is rebuilt (nothing
+-- references it); the view reading from it is recreated afterwards.
+DROP VIEW IF EXISTS FirstPreferenceVotes;
+
+CREATE TABLE Votes_new (
+  id TEXT PRIMARY KEY,
+  poll_id TEXT NOT NULL,
+  answer_id TEXT,
+  user_id TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  rank INTEGER,
+  value REAL,
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (answer_id) REFERENCES Answers(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES Users(id),
+  UNIQUE(poll_id, user_id, answer_id),
+  -- Every vote is either for an answer or for a value on the scale
+  CHECK ((answer_id IS NULL) <> (value IS NULL))
+);
+
+INSERT INTO Votes_new (id, poll_id, answer_id, user_id, created_at, rank)
+SELECT id, poll_id, answer_id, user_id, created_at, rank FROM Votes;
+
+DROP TABLE Votes;
+ALTER TABLE Votes_new RENAME TO Votes;
+
+CREATE INDEX IF NOT EXISTS idx_votes_user ON Votes(user_id);
+
+-- NULL answer IDs never collide in the UNIQUE constraint, so one value per voter is enforced here
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_scale_voter ON Votes(poll_id, user_id) WHERE answer_id IS NULL;
+
+-- Scale votes have no answer to cross-reference, so they are left out of the view
+CREATE VIEW IF NOT EXISTS FirstPreferenceVotes AS
+SELECT * FROM Votes
+WHERE answer_id IS NOT NULL
+AND (rank IS NULL OR rank = 1);
+
+-- Values before and after a scale vote is cast, changed or retracted
+ALTER TABLE VoteHistory ADD COLUMN previous_value REAL;
+ALTER TABLE VoteHistory ADD COLUMN value REAL;
@@ -0,0 +1,19 @@
+-- Marks a poll's "Other (write in)" answer. Votes for it count like any other answer;
+-- the text each voter wrote in is kept in WriteIns.
+ALTER TABLE Answers ADD COLUMN is_write_in INTEGER NOT NULL DEFAULT 0;
+
+-- Free-text answers given with a poll's write-in answer, one per voter.
+-- normalized_text folds case and whitespace so equivalent write-ins group together.
+CREATE TABLE IF NOT EXISTS WriteIns (
+  id TEXT PRIMARY KEY,
+  poll_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  normalized_text TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES Users(id),
+  UNIQUE(poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_write_ins_poll ON WriteIns(poll_id, normalized_text);
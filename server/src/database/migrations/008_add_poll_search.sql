@@ -0,0 +1,52 @@
+-- Full-text index of poll questions and answer texts, one row per poll. The answers
+-- column holds every regular answer (not the write-in "Other") separated by " · ".
+CREATE VIRTUAL TABLE IF NOT EXISTS PollSearch USING fts5(
+  poll_id UNINDEXED,
+  question,
+  answers,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO PollSearch (poll_id, question, answers)
+SELECT p.id, p.question, COALESCE((
+  SELECT group_concat(text, ' · ')
+  FROM (SELECT text FROM Answers WHERE poll_id = p.id AND is_write_in = 0 ORDER BY rowid)
+), '')
+FROM Polls p;
+
+-- Keep the index in step with Polls and Answers
+CREATE TRIGGER IF NOT EXISTS poll_search_insert AFTER INSERT ON Polls BEGIN
+  INSERT INTO PollSearch (poll_id, question, answers) VALUES (new.id, new.question, '');
+END;
+
+CREATE TRIGGER IF NOT EXISTS poll_search_update AFTER UPDATE OF question ON Polls BEGIN
+  UPDATE PollSearch SET question = new.question WHERE poll_id = new.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS poll_search_delete AFTER DELETE ON Polls BEGIN
+  DELETE FROM PollSearch WHERE poll_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS poll_search_answer_insert AFTER INSERT ON Answers BEGIN
+  UPDATE PollSearch SET answers = COALESCE((
+    SELECT group_concat(text, ' · ')
+    FROM (SELECT text FROM Answers WHERE poll_id = new.poll_id AND is_write_in = 0 ORDER BY rowid)
+  ), '')
+  WHERE poll_id = new.poll_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS poll_search_answer_update AFTER UPDATE OF text ON Answers BEGIN
+  UPDATE PollSearch SET answers = COALESCE((
+    SELECT group_concat(text, ' · ')
+    FROM (SELECT text FROM Answers WHERE poll_id = new.poll_id AND is_write_in = 0 ORDER BY rowid)
+  ), '')
+  WHERE poll_id = new.poll_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS poll_search_answer_delete AFTER DELETE ON Answers BEGIN
+  UPDATE PollSearch SET answers = COALESCE((
+    SELECT group_concat(text, ' · ')
+    FROM (SELECT text FROM Answers WHERE poll_id = old.poll_id AND is_write_in = 0 ORDER BY rowid)
+  ), '')
+  WHERE poll_id = old.poll_id;
+END;
@@ -0,0 +1,20 @@
+-- Feed ranking scores, recomputed periodically from the votes rather than on each request.
+-- Polls without a row have not been scored yet and rank as if every score were 0.
+CREATE TABLE IF NOT EXISTS PollScores (
+  poll_id TEXT PRIMARY KEY,
+  -- Number of distinct voters
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  -- Recent vote velocity, with older votes in the window decayed
+  trending_score REAL NOT NULL DEFAULT 0,
+  -- Voters discounted by the poll's age
+  hot_score REAL NOT NULL DEFAULT 0,
+  updated_at DATETIME NOT NULL,
+  FOREIGN KEY (poll_id) REFERENCES Polls(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_scores_trending ON PollScores(trending_score);
+CREATE INDEX IF NOT EXISTS idx_poll_scores_hot ON PollScores(hot_score);
+CREATE INDEX IF NOT EXISTS idx_poll_scores_voters ON PollScores(voter_count);
+
+-- Recent votes are read by time to compute vote velocity
+CREATE INDEX IF NOT EXISTS idx_votes_created_at ON Votes(created_at);
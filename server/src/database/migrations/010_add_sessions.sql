@@ -0,0 +1,15 @@
+-- Login sessions. Auth tokens carry a session ID, so a token stops working as soon as
+-- its session is revoked, instead of staying valid until it expires.
+CREATE TABLE IF NOT EXISTS Sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  -- Last request made with the session, for sliding expiry; updated at most once a minute
+  last_seen_at DATETIME NOT NULL,
+  user_agent TEXT,
+  -- Set when the session is logged out or revoked, after which its tokens are rejected
+  revoked_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES Users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON Sessions(user_id, last_seen_at);
@@ -0,0 +1,3 @@
+-- Tombstone account that polls of deleted users are reassigned to when the user
+-- chooses to keep them. Its ID must match DELETED_USER_ID in database/utils.ts.
+INSERT OR IGNORE INTO Users (id, email, name) VALUES ('deleted-user', NULL, 'Deleted user');
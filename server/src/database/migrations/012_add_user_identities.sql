@@ -0,0 +1,16 @@
+-- Accounts at identity providers (Google, OpenID Connect SSO, ...) that users log in with.
+-- subject is the provider's stable ID for the account, which unlike the email address
+-- doesn't change or get reused.
+CREATE TABLE IF NOT EXISTS UserIdentities (
+  provider TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  -- Email address the provider last reported, for reference
+  email TEXT,
+  created_at DATETIME NOT NULL,
+  last_login_at DATETIME NOT NULL,
+  PRIMARY KEY (provider, subject),
+  FOREIGN KEY (user_id) REFERENCES Users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON UserIdentities(user_id);
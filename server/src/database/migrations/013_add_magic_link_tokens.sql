@@ -0,0 +1,16 @@
+-- Single-use tokens of emailed login links. Only a hash of each token is stored, so the
+-- links can't be rebuilt from the database. Rows are kept for a while after they expire,
+-- as the number of recent tokens for an address limits how often links are sent to it.
+CREATE TABLE IF NOT EXISTS MagicLinkTokens (
+  -- SHA-256 of the token, hex encoded
+  token_hash TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  -- Local path to return to after logging in
+  return_to TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL,
+  -- Set when the link is used, after which it no longer logs in
+  consumed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_email ON MagicLinkTokens(email, created_at);
@@ -0,0 +1,22 @@
+-- Personal API keys, for scripts and integrations that call the API as a user. Only a
+-- hash of each key is stored; the key itself is shown once, when it is created.
+CREATE TABLE IF NOT EXISTS ApiKeys (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  -- Name the user gave the key, to tell their keys apart
+  name TEXT NOT NULL,
+  -- SHA-256 of the key, hex encoded
+  key_hash TEXT NOT NULL UNIQUE,
+  -- Start of the key, shown in the list of keys
+  prefix TEXT NOT NULL,
+  -- Space-separated scopes, like polls:read votes:write
+  scopes TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  -- Last request made with the key; updated at most once a minute
+  last_used_at DATETIME,
+  -- Set when the key is revoked, after which it is rejected
+  revoked_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES Users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON ApiKeys(user_id, created_at);
@@ -0,0 +1,3 @@
+-- What each user may do beyond managing their own polls and votes. Moderators can
+-- close and delete any poll and review its write-ins; admins can also change roles.
+ALTER TABLE Users ADD COLUMN role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin'));
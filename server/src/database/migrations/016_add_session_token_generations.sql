@@ -0,0 +1,5 @@
+-- Each token names the generation of its session it was issued for. Rotating a token
+-- moves the session to the next generation, so the token it replaces stops working
+-- once a short grace period for requests already on their way has passed.
+ALTER TABLE Sessions ADD COLUMN token_generation INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE Sessions ADD COLUMN rotated_at DATETIME;
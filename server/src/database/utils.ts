@@ -8,27 +8,276 @@ export interface User {
   id: string;
   email: string | null;
   name: string | null;
+  role: UserRole;
 }
 
+// What a user may do besides managing their own polls and votes (see auth/policy.ts)
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+export type PollType = 'single' | 'multiple' | 'ranked' | 'scale';
+
 export interface Poll {
   id: string;
   author_id: string;
   created_at: string;
   question: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  votes_locked: boolean;
+  // 'single' polls take one answer per voter, 'multiple' polls up to max_choices answers,
+  // 'ranked' polls a ranking of every answer, and 'scale' polls a number on the scale
+  type: PollType;
+  max_choices: number | null;
+  // Range, step and endpoint labels of scale polls (null on other poll types)
+  scale_min: number | null;
+  scale_max: number | null;
+  scale_step: number | null;
+  scale_min_label: string | null;
+  scale_max_label: string | null;
 }
 
 export interface Answer {
   id: string;
   poll_id: string;
   text: string;
+  // The poll's "Other (write in)" answer
+  is_write_in: boolean;
 }
 
 export interface Vote {
   id: string;
   poll_id: string;
-  answer_id: string;
+  // Chosen answer, null on scale polls
+  answer_id: string | null;
+  user_id: string;
+  created_at: string;
+  // Position in the voter's ranking (1 = first preference), null on unranked polls
+  rank: number | null;
+  // Chosen value on scale polls, null otherwise
+  value: number | null;
+}
+
+export type VoteAction = 'cast' | 'change' | 'retract';
+
+/**
+ * An entry in the vote history log
+ */
+export interface VoteHistoryEntry {
+  id: string;
+  poll_id: string;
+  user_id: string;
+  action: VoteAction;
+  previous_answer_id: string | null;
+  answer_id: string | null;
+  // Values before and after the action on scale polls
+  previous_value: number | null;
+  value: number | null;
+  created_at: string;
+}
+
+/**
+ * Write-ins on a poll that are equal once case and whitespace are folded
+ */
+export interface WriteInGroup {
+  normalized_text: string;
+  // Most common spelling within the group
+  text: string;
+  count: number;
+}
+
+/**
+ * A run of text from a search result, highlighted if it matched the query
+ */
+export interface HighlightedText {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Where a poll matched a search: its question with the matching terms highlighted,
+ * and an excerpt of its answers when they matched too
+ */
+export interface SearchSnippet {
+  question: HighlightedText[];
+  answers: HighlightedText[] | null;
+}
+
+/**
+ * Order of a poll listing; relevance applies to searches and falls back to newest.
+ * trending, hot and most_voted use the stored poll scores.
+ */
+export type PollSortOrder = 'newest' | 'oldest' | 'relevance' | 'trending' | 'hot' | 'most_voted';
+
+/**
+ * Values of the sort keys of the last poll on a page, which the next page starts after
+ */
+export type PollCursorKey = (string | number)[];
+
+/**
+ * Feed ranking scores of a poll
+ */
+export interface PollScore {
+  poll_id: string;
+  voter_count: number;
+  trending_score: number;
+  hot_score: number;
+}
+
+/**
+ * Number of voters on a poll, with the poll's creation time, for scoring
+ */
+export interface PollVoterTotal {
+  poll_id: string;
+  created_at: string;
+  voter_count: number;
+}
+
+/**
+ * When a voter first voted on a poll, for scoring
+ */
+export interface PollVoteTime {
+  poll_id: string;
+  voted_at: string;
+}
+
+/**
+ * A crosstab filter condition: voters who chose any of the given answers on a poll
+ */
+export interface CrosstabCondition {
+  pollId: string;
+  answerIds: string[];
+}
+
+/**
+ * A pair whose count in the co-vote aggregate differs from the raw votes
+ */
+export interface CoVoteMismatch {
+  pollId: string;
+  answerId: string;
+  otherPollId: string;
+  otherAnswerId: string;
+  expected: number;
+  actual: number;
+}
+
+/**
+ * An account at an identity provider, linked to the user who logs in with it
+ */
+export interface UserIdentity {
+  provider: string;
+  subject: string;
+  user_id: string;
+  email: string | null;
+  created_at: string;
+  last_login_at: string;
+}
+
+/**
+ * A vote in a personal data export, with the poll and answer it was for
+ */
+export interface ExportedVote {
+  poll_id: string;
+  question: string;
+  answer_id: string | null;
+  answer_text: string | null;
+  rank: number | null;
+  value: number | null;
+  created_at: string;
+}
+
+/**
+ * Everything stored about a user, for personal data export requests
+ */
+export interface UserDataExport {
+  profile: User;
+  polls: { poll: Poll; answers: Answer[] }[];
+  votes: ExportedVote[];
+  writeIns: { poll_id: string; text: string; created_at: string }[];
+  voteHistory: VoteHistoryEntry[];
+  sessions: Session[];
+  identities: UserIdentity[];
+  apiKeys: ApiKey[];
+  // Login links sent to the user's email address, without their token hashes
+  magicLinks: Omit<MagicLinkToken, 'token_hash'>[];
+}
+
+/**
+ * What happened to a user's data when their account was deleted
+ */
+export interface UserDeletionSummary {
+  // Authored polls deleted, along with everyone's votes on them
+  pollsDeleted: number;
+  // Authored polls kept under the tombstone account
+  pollsReassigned: number;
+  // Polls on which the user's ballot was kept, no longer linked to them
+  ballotsAnonymized: number;
+}
+
+/**
+ * A login session, referenced by the session ID in auth tokens
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  created_at: string;
+  last_seen_at: string;
+  user_agent: string | null;
+  revoked_at: string | null;
+  // Generation of the session's current token; older tokens are rejected
+  token_generation: number;
+  // When the current token replaced the previous one, if it has been rotated
+  rotated_at: string | null;
+}
+
+/**
+ * A personal API key, without the hash it is looked up by
+ */
+export interface ApiKey {
+  id: string;
   user_id: string;
+  name: string;
+  // Start of the key, to recognize it by
+  prefix: string;
+  scopes: string[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * A login link emailed to an address, stored by the hash of its token
+ */
+export interface MagicLinkToken {
+  token_hash: string;
+  email: string;
+  return_to: string;
   created_at: string;
+  expires_at: string;
+  consumed_at: string | null;
+}
+
+/**
+ * What happened to an anonymous user's data when it was merged into an account
+ */
+export interface UserMergeSummary {
+  // Polls whose authorship moved to the account
+  pollsMoved: number;
+  // Polls on which the anonymous ballot (and write-in) moved to the account
+  ballotsMoved: number;
+  // Polls both had voted on, where the anonymous ballot was retracted
+  ballotsDropped: number;
+}
+
+/**
+ * Result of a crosstab query
+ */
+export interface CrosstabResult {
+  // Vote counts on the main poll among voters matching every condition
+  voteCounts: Record<string, number>;
+  // Number of users matching every condition, whether or not they voted on the main poll
+  populationSize: number;
+  // Number of matching users who also voted on the main poll
+  respondentCount: number;
 }
 
 // Internal types for database rows
@@ -36,6 +285,13 @@ interface UserRow {
   id: string;
   email: string | null;
   name: string | null;
+  role: UserRole;
+}
+
+interface ApiKeyRow extends Omit<ApiKey, 'scopes'> {
+  key_hash: string;
+  // Space-separated
+  scopes: string;
 }
 
 interface PollRow {
@@ -43,20 +299,40 @@ interface PollRow {
   author_id: string;
   created_at: string;
   question: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  votes_locked: number;
+  type: PollType;
+  max_choices: number | null;
+  scale_min: number | null;
+  scale_max: number | null;
+  scale_step: number | null;
+  scale_min_label: string | null;
+  scale_max_label: string | null;
+}
+
+// Extra columns of a poll row found by a full-text search
+interface SearchMatchRow extends PollRow {
+  search_rank: number;
+  question_highlight: string;
+  answers_snippet: string;
 }
 
 interface AnswerRow {
   id: string;
   poll_id: string;
   text: string;
+  is_write_in: number;
 }
 
 interface VoteRow {
   id: string;
   poll_id: string;
-  answer_id: string;
+  answer_id: string | null;
   user_id: string;
   created_at: string;
+  rank: number | null;
+  value: number | null;
 }
 
 // Internal types for query results
@@ -65,6 +341,222 @@ interface VoteCountRow {
   count: number;
 }
 
+interface ContingencyRow {
+  answer_id: string;
+  cross_answer_id: string;
+  count: number;
+}
+
+interface SharedContingencyRow extends ContingencyRow {
+  poll_id: string;
+}
+
+interface CoVoteMismatchRow {
+  poll_id: string;
+  answer_id: string;
+  other_poll_id: string;
+  other_answer_id: string;
+  expected: number;
+  actual: number;
+}
+
+interface CrosstabRow {
+  answer_id: string | null;
+  count: number;
+  population: number;
+  respondents: number;
+}
+
+/**
+ * Normalizes a write-in so that spellings differing only in case or whitespace are grouped
+ * @param text Write-in text
+ * @returns Lowercased text with runs of whitespace folded to single spaces
+ */
+export function normalizeWriteIn(text: string): string {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Tombstone account that deleted users' polls are kept under (see migration 011)
+export const DELETED_USER_ID = 'deleted-user';
+
+// Marks wrapped around matching terms by the FTS5 highlight() and snippet() functions
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_END = '\u0002';
+
+// Stored score column behind each score-based sort order
+const SCORE_COLUMNS: Partial<Record<PollSortOrder, string>> = {
+  trending: 'trending_score',
+  hot: 'hot_score',
+  most_voted: 'voter_count',
+};
+
+// Column of a poll listing's rows and the direction it is ordered in
+type SortKey = [column: string, direction: 'ASC' | 'DESC'];
+
+// Relevance (lower is better, with question matches weighted double), the highlighted
+// question and an excerpt of the answers of a poll found by a full-text search
+const SEARCH_COLUMNS = `
+  bm25(PollSearch, 0.0, 2.0, 1.0) AS search_rank,
+  highlight(PollSearch, 1, char(1), char(2)) AS question_highlight,
+  snippet(PollSearch, 2, char(1), char(2), '…', 12) AS answers_snippet
+`;
+
+/**
+ * Builds the placeholder list of an IN clause
+ * @param values Values to bind, one per placeholder
+ * @returns Comma-separated placeholders
+ */
+function toPlaceholders(values: unknown[]): string {
+  return values.map(() => '?').join(',');
+}
+
+/**
+ * Groups rows into lists keyed by one of their columns, with an empty list for every key
+ * @param keys Keys to include, so keys without rows map to empty lists
+ * @param rows Rows to group, in the order they should appear in each list
+ * @param getKey Gets the key of a row
+ * @param getValue Gets the value a row contributes
+ * @returns Map from each key to its values
+ */
+function groupBy<Row, Value>(
+  keys: string[],
+  rows: Row[],
+  getKey: (row: Row) => string,
+  getValue: (row: Row) => Value
+): Map<string, Value[]> {
+  const groups = new Map(keys.map(key => [key, [] as Value[]]));
+  rows.forEach(row => groups.get(getKey(row))?.push(getValue(row)));
+  return groups;
+}
+
+/**
+ * Turns a user's search into an FTS5 query: every word must match, as a prefix,
+ * the question or an answer. Words are quoted so FTS5 operators are matched literally.
+ * @param query Search text
+ * @returns FTS5 query, or null if the text has no words
+ */
+function toSearchQuery(query: string): string | null {
+  const terms = query.normalize('NFKC').match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map(term => `"${term}"*`).join(' ') : null;
+}
+
+/**
+ * Splits FTS5 highlight() or snippet() output into highlighted and plain runs
+ * @param text Text with matches wrapped in HIGHLIGHT_START and HIGHLIGHT_END
+ * @returns Runs of text in order, without the marks
+ */
+function parseHighlights(text: string): HighlightedText[] {
+  const runs: HighlightedText[] = [];
+
+  text.split(HIGHLIGHT_START).forEach((part, index) => {
+    const [match, rest] = index === 0 ? [null, part] : part.split(HIGHLIGHT_END);
+    if (match) runs.push({ text: match, highlighted: true });
+    if (rest) runs.push({ text: rest, highlighted: false });
+  });
+
+  return runs;
+}
+
+/**
+ * Builds the search snippet of a poll row found by a full-text search
+ * @param row Poll row with the search columns
+ * @returns The highlighted question, and answers excerpt when the answers matched
+ */
+function toSearchSnippet(row: SearchMatchRow): SearchSnippet {
+  return {
+    question: parseHighlights(row.question_highlight),
+    answers: row.answers_snippet.includes(HIGHLIGHT_START) ? parseHighlights(row.answers_snippet) : null,
+  };
+}
+
+/**
+ * Gets the keys a poll listing is ordered by. Every order ends with the creation time
+ * and ID so that it is total, and a page can be resumed after its last poll.
+ * @param sortBy Sort order
+ * @param searching Whether the polls are matched by a full-text search
+ * @returns Columns of the listing's rows, most significant first, with their direction
+ */
+function getSortKeys(sortBy: PollSortOrder, searching: boolean): SortKey[] {
+  const direction = sortBy === 'oldest' ? 'ASC' : 'DESC';
+  const tieBreakers: SortKey[] = [['created_at', direction], ['id', direction]];
+
+  if (SCORE_COLUMNS[sortBy]) {
+    return [['score', 'DESC'], ...tieBreakers];
+  }
+
+  return searching && sortBy === 'relevance' ? [['search_rank', 'ASC'], ...tieBreakers] : tieBreakers;
+}
+
+/**
+ * Builds the condition selecting the rows that come after a cursor in a listing's order
+ * @param keys Sort keys of the listing
+ * @param after Sort key values of the last row of the previous page
+ * @returns SQL condition and its parameters
+ */
+function toKeysetCondition(keys: SortKey[], after: PollCursorKey): { clause: string; params: PollCursorKey } {
+  const clauses = keys.map(([column, direction], index) => [
+    ...keys.slice(0, index).map(([previous]) => `${previous} = ?`),
+    `${column} ${direction === 'ASC' ? '>' : '<'} ?`
+  ].join(' AND '));
+
+  return {
+    clause: clauses.map(clause => `(${clause})`).join(' OR '),
+    params: keys.flatMap((_, index) => after.slice(0, index + 1))
+  };
+}
+
+/**
+ * Encodes an opaque cursor pointing after a row of a poll listing
+ * @param sortBy Sort order of the listing
+ * @param keys Sort keys of the listing
+ * @param row Last row of the page
+ * @returns URL-safe cursor
+ */
+function encodePollCursor(sortBy: PollSortOrder, keys: SortKey[], row: PollRow): string {
+  const values = row as unknown as Record<string, string | number>;
+  const key = keys.map(([column]) => values[column]);
+  return Buffer.from(JSON.stringify({ sort: sortBy, key })).toString('base64url');
+}
+
+/**
+ * Decodes a cursor returned with a page of a poll listing
+ * @param cursor Cursor from a previous page
+ * @param sortBy Sort order of the listing
+ * @param searching Whether the listing is a full-text search
+ * @returns Sort key values to resume after, or null if the cursor is malformed or was
+ * issued for a different order
+ */
+export function decodePollCursor(cursor: string, sortBy: PollSortOrder, searching: boolean): PollCursorKey | null {
+  try {
+    const { sort, key } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid = sort === sortBy
+      && Array.isArray(key)
+      && key.length === getSortKeys(sortBy, searching).length
+      && key.every(value => typeof value === 'string' || typeof value === 'number');
+    return valid ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts a stored API key, leaving out its hash
+ * @param row ApiKeys row
+ * @returns API key
+ */
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes.split(' ').filter(Boolean),
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at
+  };
+}
+
 /**
  * Database utility class with CRUD operations for all entities
  */
@@ -91,7 +583,7 @@ export class DatabaseUtils {
       VALUES (?, ?, ?)
     `).run(id, email, name);
     
-    return { id, email, name };
+    return { id, email, name, role: 'user' };
   }
 
   /**
@@ -106,23 +598,32 @@ export class DatabaseUtils {
     return {
       id: row.id,
       email: row.email,
-      name: row.name
+      name: row.name,
+      role: row.role
     };
   }
 
   /**
-   * Gets a user by email
+   * Gets a user by email, ignoring case, since identity providers and people typing
+   * their address may capitalize it differently. An exact match is preferred if
+   * differently capitalized forms of the address were stored for separate users.
    * @param email User email
    * @returns User or null if not found
    */
   getUserByEmail(email: string): User | null {
-    const row = this.db.prepare('SELECT * FROM Users WHERE email = ?').get(email) as UserRow | undefined;
+    const row = this.db.prepare(`
+      SELECT * FROM Users
+      WHERE email = ? COLLATE NOCASE
+      ORDER BY email = ? DESC
+      LIMIT 1
+    `).get(email, email) as UserRow | undefined;
     if (!row) return null;
     
     return {
       id: row.id,
       email: row.email,
-      name: row.name
+      name: row.name,
+      role: row.role
     };
   }
 
@@ -167,179 +668,643 @@ export class DatabaseUtils {
     return user;
   }
 
-  // ========== Poll Operations ==========
+  /**
+   * Sets a user's role
+   * @param id User ID
+   * @param role New role
+   * @returns Updated user or null if not found
+   */
+  setUserRole(id: string, role: UserRole): User | null {
+    const changes = this.db.prepare('UPDATE Users SET role = ? WHERE id = ?').run(role, id).changes;
+    return changes > 0 ? this.getUserById(id) : null;
+  }
 
   /**
-   * Creates a new poll with answers
-   * @param authorId User ID of the poll author
-   * @param question Poll question
-   * @param answers Array of answer texts
-   * @returns The created poll with its answers
+   * Merges an anonymous user into an account, typically the one they just logged in to.
+   * Polls, votes, write-ins and vote history move to the account and the anonymous user
+   * is deleted, all in one transaction.
+   *
+   * Votes are unique per poll and voter, so where both users voted on the same poll the
+   * account's ballot wins, being the one cast under the identity the person chose to keep.
+   * The anonymous ballot and write-in on such polls are retracted first, which leaves a
+   * 'retract' entry in the vote history.
+   * @param anonymousId ID of the anonymous user to merge
+   * @param accountId ID of the account to merge into
+   * @returns Summary of the merge, or null if there was nothing to merge (the first user
+   * is missing or not anonymous, or both IDs are the same user)
    */
-  createPoll(authorId: string, question: string, answerTexts: string[]): { poll: Poll; answers: Answer[] } {
-    // Validate input
-    if (!question.trim()) {
-      throw new Error('Poll question cannot be empty');
-    }
-    
-    if (!answerTexts || answerTexts.length < 2) {
-      throw new Error('Poll must have at least 2 answers');
-    }
-    
-    if (answerTexts.length > 10) {
-      throw new Error('Poll cannot have more than 10 answers');
-    }
-    
-    // Create poll
-    const pollId = uuidv4();
-    const createdAt = new Date().toISOString();
-    
-    this.db.prepare(`
-      INSERT INTO Polls (id, author_id, created_at, question)
-      VALUES (?, ?, ?, ?)
-    `).run(pollId, authorId, createdAt, question);
-    
-    const poll: Poll = {
-      id: pollId,
-      author_id: authorId,
-      created_at: createdAt,
-      question,
-    };
-    
-    // Create answers
-    const answers: Answer[] = [];
-    
-    for (const text of answerTexts) {
-      if (!text.trim()) {
-        throw new Error('Answer text cannot be empty');
-      }
-      
-      const answerId = uuidv4();
-      
+  mergeAnonymousUser(anonymousId: string, accountId: string): UserMergeSummary | null {
+    const anonymousUser = this.getUserById(anonymousId);
+    if (!anonymousUser || anonymousUser.email !== null || anonymousId === accountId) return null;
+    if (anonymousId === DELETED_USER_ID) return null;
+    if (!this.getUserById(accountId)) return null;
+
+    return this.db.transaction(() => {
+      // Polls both users voted on keep the account's ballot
+      const conflictingPollIds = (this.db.prepare(`
+        SELECT DISTINCT poll_id FROM Votes
+        WHERE user_id = ?
+        AND poll_id IN (SELECT poll_id FROM Votes WHERE user_id = ?)
+      `).all(anonymousId, accountId) as { poll_id: string }[]).map(row => row.poll_id);
+
+      conflictingPollIds.forEach(pollId => this.retractVote(anonymousId, pollId));
+
+      // Write-ins go with the retracted ballots; drop any stray one left on those polls
       this.db.prepare(`
-        INSERT INTO Answers (id, poll_id, text)
-        VALUES (?, ?, ?)
-      `).run(answerId, pollId, text);
-      
-      answers.push({
-        id: answerId,
-        poll_id: pollId,
-        text,
-      });
-    }
-    
-    return { poll, answers };
+        DELETE FROM WriteIns
+        WHERE user_id = ?
+        AND poll_id IN (SELECT poll_id FROM WriteIns WHERE user_id = ?)
+      `).run(anonymousId, accountId);
+
+      // The remaining ballots pair up with the account's on other polls, so both
+      // users' pairs are taken out of the co-vote aggregate and the merged ones put back
+      this.adjustUserCoVoteCounts(anonymousId, -1);
+      this.adjustUserCoVoteCounts(accountId, -1);
+
+      const ballotsMoved = (this.db.prepare(`
+        SELECT COUNT(DISTINCT poll_id) as count FROM Votes WHERE user_id = ?
+      `).get(anonymousId) as { count: number }).count;
+
+      this.db.prepare('UPDATE Votes SET user_id = ? WHERE user_id = ?').run(accountId, anonymousId);
+      this.db.prepare('UPDATE WriteIns SET user_id = ? WHERE user_id = ?').run(accountId, anonymousId);
+      this.db.prepare('UPDATE VoteHistory SET user_id = ? WHERE user_id = ?').run(accountId, anonymousId);
+
+      this.adjustUserCoVoteCounts(accountId, 1);
+      this.db.prepare(`
+        DELETE FROM CoVoteCounts
+        WHERE poll_id IN (SELECT poll_id FROM FirstPreferenceVotes WHERE user_id = ?)
+        AND count <= 0
+      `).run(accountId);
+
+      const pollsMoved = this.db.prepare(`
+        UPDATE Polls SET author_id = ? WHERE author_id = ?
+      `).run(accountId, anonymousId).changes;
+
+      this.db.prepare('DELETE FROM Users WHERE id = ?').run(anonymousId);
+
+      return { pollsMoved, ballotsMoved, ballotsDropped: conflictingPollIds.length };
+    })();
   }
 
   /**
-   * Gets a poll by ID, including its answers
-   * @param id Poll ID
-   * @returns Poll with answers or null if not found
+   * Gets the user linked to an identity provider account
+   * @param provider Identity provider ID
+   * @param subject The provider's ID for the account
+   * @returns User or null if no user is linked to the account
    */
-  getPollById(id: string): { poll: Poll; answers: Answer[] } | null {
-    const pollRow = this.db.prepare('SELECT * FROM Polls WHERE id = ?').get(id) as PollRow | undefined;
-    if (!pollRow) return null;
-    
-    const poll: Poll = {
-      id: pollRow.id,
-      author_id: pollRow.author_id,
-      created_at: pollRow.created_at,
-      question: pollRow.question
-    };
-    
-    const answerRows = this.db.prepare('SELECT * FROM Answers WHERE poll_id = ?').all(id) as AnswerRow[];
+  getUserByIdentity(provider: string, subject: string): User | null {
+    const row = this.db.prepare(`
+      SELECT u.* FROM UserIdentities i
+      JOIN Users u ON u.id = i.user_id
+      WHERE i.provider = ? AND i.subject = ?
+    `).get(provider, subject) as UserRow | undefined;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      role: row.role
+    };
+  }
+
+  /**
+   * Links an identity provider account to a user, or records a new login with an
+   * account that is already linked
+   * @param provider Identity provider ID
+   * @param subject The provider's ID for the account
+   * @param userId User ID
+   * @param email Email address the provider reported, if any
+   */
+  linkUserIdentity(provider: string, subject: string, userId: string, email: string | null): void {
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO UserIdentities (provider, subject, user_id, email, created_at, last_login_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (provider, subject)
+      DO UPDATE SET email = excluded.email, last_login_at = excluded.last_login_at
+    `).run(provider, subject, userId, email, now, now);
+  }
+
+  /**
+   * Gets the identity provider accounts linked to a user
+   * @param userId User ID
+   * @returns Array of identities, oldest first
+   */
+  getUserIdentities(userId: string): UserIdentity[] {
+    return this.db.prepare(`
+      SELECT * FROM UserIdentities WHERE user_id = ? ORDER BY created_at ASC
+    `).all(userId) as UserIdentity[];
+  }
+
+  /**
+   * Gathers everything stored about a user, for personal data export requests
+   * @param userId User ID
+   * @returns The user's profile, polls, votes, write-ins, vote history and sessions, or
+   * null if the user doesn't exist
+   */
+  getUserDataExport(userId: string): UserDataExport | null {
+    const profile = this.getUserById(userId);
+    if (!profile) return null;
+
+    const pollIds = (this.db.prepare(`
+      SELECT id FROM Polls WHERE author_id = ? ORDER BY created_at ASC, id ASC
+    `).all(userId) as { id: string }[]).map(row => row.id);
+
+    const votes = this.db.prepare(`
+      SELECT v.poll_id, p.question, v.answer_id, a.text AS answer_text, v.rank, v.value, v.created_at
+      FROM Votes v
+      JOIN Polls p ON p.id = v.poll_id
+      LEFT JOIN Answers a ON a.id = v.answer_id
+      WHERE v.user_id = ?
+      ORDER BY v.created_at ASC, v.poll_id ASC, v.rank ASC
+    `).all(userId) as ExportedVote[];
+
+    const writeIns = this.db.prepare(`
+      SELECT poll_id, text, created_at FROM WriteIns
+      WHERE user_id = ?
+      ORDER BY created_at ASC
+    `).all(userId) as { poll_id: string; text: string; created_at: string }[];
+
+    const voteHistory = this.db.prepare(`
+      SELECT * FROM VoteHistory
+      WHERE user_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `).all(userId) as VoteHistoryEntry[];
+
+    const sessions = this.db.prepare(`
+      SELECT * FROM Sessions WHERE user_id = ? ORDER BY created_at ASC
+    `).all(userId) as Session[];
+
+    const identities = this.getUserIdentities(userId);
+
+    const apiKeys = (this.db.prepare(`
+      SELECT * FROM ApiKeys WHERE user_id = ? ORDER BY created_at ASC
+    `).all(userId) as ApiKeyRow[]).map(toApiKey);
+
+    // Login links are stored by the normalized address they were sent to
+    const magicLinks = profile.email === null ? [] : this.db.prepare(`
+      SELECT email, return_to, created_at, expires_at, consumed_at FROM MagicLinkTokens
+      WHERE email = ?
+      ORDER BY created_at ASC
+    `).all(profile.email.trim().toLowerCase()) as Omit<MagicLinkToken, 'token_hash'>[];
+
+    return {
+      profile,
+      polls: pollIds.map(id => this.getPollById(id)!),
+      votes,
+      writeIns,
+      voteHistory,
+      sessions,
+      identities,
+      apiKeys,
+      magicLinks
+    };
+  }
+
+  /**
+   * Deletes a user's account, for account deletion requests, in one transaction.
+   *
+   * Authored polls are deleted with everyone's votes on them, or kept under the
+   * "Deleted user" tombstone account. The user's own votes and vote history move to a
+   * new anonymous user that nothing links back to them, so poll totals and
+   * cross-reference counts stay the same. Write-in texts may contain personal details
+   * and are deleted, though the votes for the write-in answer still count. The user's
+   * sessions are deleted with them, and so are login links sent to their address.
+   * @param userId User ID
+   * @param options.deletePolls Whether to delete authored polls instead of keeping them
+   * @returns Summary of the deletion, or null if the user doesn't exist or is the
+   * tombstone account
+   */
+  deleteUser(userId: string, options: { deletePolls?: boolean } = {}): UserDeletionSummary | null {
+    const user = this.getUserById(userId);
+    if (userId === DELETED_USER_ID || !user) return null;
+
+    return this.db.transaction(() => {
+      let pollsDeleted = 0;
+      let pollsReassigned = 0;
+
+      if (options.deletePolls) {
+        pollsDeleted = this.db.prepare('DELETE FROM Polls WHERE author_id = ?').run(userId).changes;
+      } else {
+        pollsReassigned = this.db.prepare(`
+          UPDATE Polls SET author_id = ? WHERE author_id = ?
+        `).run(DELETED_USER_ID, userId).changes;
+      }
+
+      this.db.prepare('DELETE FROM WriteIns WHERE user_id = ?').run(userId);
+
+      // Every ballot moves to the same new user, so the pairs between them in the
+      // co-vote aggregate stay valid
+      const ballotsAnonymized = (this.db.prepare(`
+        SELECT COUNT(DISTINCT poll_id) as count FROM Votes WHERE user_id = ?
+      `).get(userId) as { count: number }).count;
+
+      if (ballotsAnonymized > 0) {
+        const anonymousVoter = this.createUser();
+        this.db.prepare('UPDATE Votes SET user_id = ? WHERE user_id = ?').run(anonymousVoter.id, userId);
+        this.db.prepare('UPDATE VoteHistory SET user_id = ? WHERE user_id = ?').run(anonymousVoter.id, userId);
+      } else {
+        this.db.prepare('DELETE FROM VoteHistory WHERE user_id = ?').run(userId);
+      }
+
+      // Login links are stored by the normalized address they were sent to
+      if (user.email !== null) {
+        this.db.prepare('DELETE FROM MagicLinkTokens WHERE email = ?').run(user.email.trim().toLowerCase());
+      }
+
+      this.db.prepare('DELETE FROM Users WHERE id = ?').run(userId);
+
+      return { pollsDeleted, pollsReassigned, ballotsAnonymized };
+    })();
+  }
+
+  // ========== Poll Operations ==========
+
+  /**
+   * Creates a new poll with answers
+   * @param authorId User ID of the poll author
+   * @param question Poll question
+   * @param answers Array of answer texts (none on scale polls)
+   * @param options Optional voting window (ISO timestamps; open immediately and indefinitely by default),
+   * whether votes are locked once cast, and the poll type with its maximum number of choices
+   * (multiple-choice polls allow every answer by default) or its scale (1 to 5 in steps of 1 by default),
+   * and whether to add an "Other" answer that voters can write in (single- and multiple-choice polls)
+   * @returns The created poll with its answers
+   */
+  createPoll(
+    authorId: string,
+    question: string,
+    answerTexts: string[],
+    options: {
+      opensAt?: string | null;
+      closesAt?: string | null;
+      votesLocked?: boolean;
+      type?: PollType;
+      maxChoices?: number | null;
+      scale?: {
+        min?: number;
+        max?: number;
+        step?: number;
+        minLabel?: string | null;
+        maxLabel?: string | null;
+      };
+      allowWriteIns?: boolean;
+    } = {}
+  ): { poll: Poll; answers: Answer[] } {
+    const type = options.type ?? 'single';
+
+    // Validate input
+    if (!question.trim()) {
+      throw new Error('Poll question cannot be empty');
+    }
+    
+    if (type === 'scale' && answerTexts.length > 0) {
+      throw new Error('Scale polls cannot have answers');
+    }
+
+    if (type !== 'scale' && (!answerTexts || answerTexts.length < 2)) {
+      throw new Error('Poll must have at least 2 answers');
+    }
+    
+    if (answerTexts.length > 10) {
+      throw new Error('Poll cannot have more than 10 answers');
+    }
+
+    if (options.allowWriteIns && type !== 'single' && type !== 'multiple') {
+      throw new Error('Only single- and multiple-choice polls can have write-ins');
+    }
+
+    const opensAt = options.opensAt ?? null;
+    const closesAt = options.closesAt ?? null;
+    const votesLocked = Boolean(options.votesLocked);
+    // The write-in answer counts towards the answers a multiple-choice voter can select
+    const answerCount = answerTexts.length + (options.allowWriteIns ? 1 : 0);
+    const maxChoices = type === 'multiple' ? options.maxChoices ?? answerCount : null;
+    const scale = type === 'scale'
+      ? {
+          min: options.scale?.min ?? 1,
+          max: options.scale?.max ?? 5,
+          step: options.scale?.step ?? 1,
+          minLabel: options.scale?.minLabel || null,
+          maxLabel: options.scale?.maxLabel || null
+        }
+      : null;
+
+    if (opensAt && closesAt && Date.parse(closesAt) <= Date.parse(opensAt)) {
+      throw new Error('Poll must close after it opens');
+    }
+
+    if (maxChoices !== null && (!Number.isInteger(maxChoices) || maxChoices < 1 || maxChoices > answerCount)) {
+      throw new Error('Maximum choices must be between 1 and the number of answers');
+    }
+
+    if (scale) {
+      const stepCount = (scale.max - scale.min) / scale.step;
+      if (!(scale.step > 0) || !(stepCount >= 1) || Math.abs(stepCount - Math.round(stepCount)) > 1e-9) {
+        throw new Error('Scale must run from its minimum to its maximum in whole steps');
+      }
+    }
+    
+    // Create poll
+    const pollId = uuidv4();
+    const createdAt = new Date().toISOString();
+    
+    this.db.prepare(`
+      INSERT INTO Polls (
+        id, author_id, created_at, question, opens_at, closes_at, votes_locked, type, max_choices,
+        scale_min, scale_max, scale_step, scale_min_label, scale_max_label
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      pollId, authorId, createdAt, question, opensAt, closesAt, votesLocked ? 1 : 0, type, maxChoices,
+      scale?.min ?? null, scale?.max ?? null, scale?.step ?? null, scale?.minLabel ?? null, scale?.maxLabel ?? null
+    );
+    
+    const poll: Poll = {
+      id: pollId,
+      author_id: authorId,
+      created_at: createdAt,
+      question,
+      opens_at: opensAt,
+      closes_at: closesAt,
+      votes_locked: votesLocked,
+      type,
+      max_choices: maxChoices,
+      scale_min: scale?.min ?? null,
+      scale_max: scale?.max ?? null,
+      scale_step: scale?.step ?? null,
+      scale_min_label: scale?.minLabel ?? null,
+      scale_max_label: scale?.maxLabel ?? null,
+    };
+    
+    // Create answers
+    const answers: Answer[] = [];
+    
+    for (const text of answerTexts) {
+      if (!text.trim()) {
+        throw new Error('Answer text cannot be empty');
+      }
+      
+      answers.push(this.insertAnswer(pollId, text));
+    }
+
+    if (options.allowWriteIns) {
+      answers.push(this.insertAnswer(pollId, 'Other', true));
+    }
+    
+    return { poll, answers };
+  }
+
+  /**
+   * Inserts an answer into a poll
+   * @param pollId Poll ID
+   * @param text Answer text
+   * @param isWriteIn Whether this is the poll's write-in answer
+   * @returns The created answer
+   */
+  private insertAnswer(pollId: string, text: string, isWriteIn: boolean = false): Answer {
+    const answerId = uuidv4();
+
+    this.db.prepare(`
+      INSERT INTO Answers (id, poll_id, text, is_write_in)
+      VALUES (?, ?, ?, ?)
+    `).run(answerId, pollId, text, isWriteIn ? 1 : 0);
+
+    return {
+      id: answerId,
+      poll_id: pollId,
+      text,
+      is_write_in: isWriteIn,
+    };
+  }
+
+  /**
+   * Gets a poll by ID, including its answers
+   * @param id Poll ID
+   * @returns Poll with answers or null if not found
+   */
+  getPollById(id: string): { poll: Poll; answers: Answer[] } | null {
+    const pollRow = this.db.prepare('SELECT * FROM Polls WHERE id = ?').get(id) as PollRow | undefined;
+    if (!pollRow) return null;
+    
+    const poll: Poll = {
+      id: pollRow.id,
+      author_id: pollRow.author_id,
+      created_at: pollRow.created_at,
+      question: pollRow.question,
+      opens_at: pollRow.opens_at,
+      closes_at: pollRow.closes_at,
+      votes_locked: Boolean(pollRow.votes_locked),
+      type: pollRow.type,
+      max_choices: pollRow.max_choices,
+      scale_min: pollRow.scale_min,
+      scale_max: pollRow.scale_max,
+      scale_step: pollRow.scale_step,
+      scale_min_label: pollRow.scale_min_label,
+      scale_max_label: pollRow.scale_max_label
+    };
+    
+    const answerRows = this.db.prepare('SELECT * FROM Answers WHERE poll_id = ? ORDER BY is_write_in ASC, rowid ASC').all(id) as AnswerRow[];
     const answers: Answer[] = answerRows.map(row => ({
       id: row.id,
       poll_id: row.poll_id,
-      text: row.text
+      text: row.text,
+      is_write_in: Boolean(row.is_write_in)
     }));
     
     return { poll, answers };
   }
 
+  /**
+   * Updates a poll's question, answer texts and/or vote locking
+   * Answers are matched by ID; answers cannot be added or removed
+   * @param id Poll ID
+   * @param data Object containing fields to update
+   * @returns Updated poll with answers or null if not found
+   */
+  updatePoll(
+    id: string,
+    data: { question?: string; answers?: { id: string; text: string }[]; votesLocked?: boolean }
+  ): { poll: Poll; answers: Answer[] } | null {
+    const existing = this.getPollById(id);
+    if (!existing) return null;
+
+    const { question, answers, votesLocked } = data;
+
+    if (question !== undefined && !question.trim()) {
+      throw new Error('Poll question cannot be empty');
+    }
+
+    if (answers) {
+      for (const answer of answers) {
+        if (!existing.answers.some(a => a.id === answer.id)) {
+          throw new Error(`Answer ${answer.id} does not belong to poll ${id}`);
+        }
+        if (!answer.text.trim()) {
+          throw new Error('Answer text cannot be empty');
+        }
+      }
+    }
+
+    this.db.transaction(() => {
+      if (question !== undefined) {
+        this.db.prepare('UPDATE Polls SET question = ? WHERE id = ?').run(question, id);
+      }
+
+      if (votesLocked !== undefined) {
+        this.db.prepare('UPDATE Polls SET votes_locked = ? WHERE id = ?').run(votesLocked ? 1 : 0, id);
+      }
+
+      const updateAnswer = this.db.prepare('UPDATE Answers SET text = ? WHERE id = ? AND poll_id = ?');
+      for (const answer of answers || []) {
+        updateAnswer.run(answer.text, answer.id, id);
+      }
+    })();
+
+    return this.getPollById(id);
+  }
+
+  /**
+   * Closes a poll to further votes by setting its closing time
+   * @param id Poll ID
+   * @param closedAt Closing time (defaults to now)
+   * @returns Updated poll or null if not found
+   */
+  closePoll(id: string, closedAt: string = new Date().toISOString()): Poll | null {
+    const result = this.db.prepare('UPDATE Polls SET closes_at = ? WHERE id = ?').run(closedAt, id);
+    if (result.changes === 0) return null;
+
+    return this.getPollById(id)!.poll;
+  }
+
+  /**
+   * Deletes a poll
+   * Answers, votes and co-vote counts are removed by ON DELETE CASCADE
+   * @param id Poll ID
+   * @returns True if the poll was deleted, false if not found
+   */
+  deletePoll(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM Polls WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
   /**
    * Gets polls with pagination, sorting, and optional filtering
+   * A query is matched against questions and answer texts by the full-text index, and
+   * each matching poll comes with a search snippet. Pages are selected by offset, or by
+   * a cursor from the previous page, which stays stable while polls are being created.
    * @param options Object with pagination, sorting, and filtering options
-   * @returns Object containing array of polls with answers and total count
+   * @returns Object containing array of polls with answers, total count and the cursor
+   * of the next page (null on the last page)
    */
   getPolls(options: {
     limit?: number;
     offset?: number;
-    sortBy?: 'newest' | 'oldest';
+    cursor?: string;
+    sortBy?: PollSortOrder;
     query?: string;
     authorId?: string;
-  } = {}): { polls: { poll: Poll; answers: Answer[] }[]; totalCount: number }  {
+  } = {}): { polls: { poll: Poll; answers: Answer[]; snippet?: SearchSnippet }[]; totalCount: number; nextCursor: string | null }  {
     // Set default values
     const { 
       limit = 10, 
       offset = 0, 
+      cursor = null,
       sortBy = 'newest', 
       query = null, 
       authorId = null 
     } = options;
     
+    const search = query ? toSearchQuery(query) : null;
+    if (query && !search) {
+      return { polls: [], totalCount: 0, nextCursor: null };
+    }
+
+    const after = cursor ? decodePollCursor(cursor, sortBy, Boolean(search)) : null;
+    if (cursor && !after) {
+      throw new Error('Invalid poll cursor');
+    }
+    
     // Build WHERE clause
     const whereClauses = [];
     const params = [];
     
-    if (query) {
-      whereClauses.push('question LIKE ?');
-      params.push(`%${query}%`);
+    if (search) {
+      whereClauses.push('PollSearch MATCH ?');
+      params.push(search);
     }
     
     if (authorId) {
-      whereClauses.push('author_id = ?');
+      whereClauses.push('Polls.author_id = ?');
       params.push(authorId);
     }
     
     const whereClause = whereClauses.length > 0 
       ? `WHERE ${whereClauses.join(' AND ')}` 
       : '';
+    const from = search ? 'Polls JOIN PollSearch ON PollSearch.poll_id = Polls.id' : 'Polls';
     
-    // Set sorting order
-    const order = sortBy === 'oldest' ? 'ASC' : 'DESC';
+    // Set sorting order; unscored polls rank as if their score were 0, newest first on ties
+    const scoreColumn = SCORE_COLUMNS[sortBy];
+    const keys = getSortKeys(sortBy, Boolean(search));
+    const keyset = after ? toKeysetCondition(keys, after) : null;
     
     // Get total count for pagination
     const countSql = `
       SELECT COUNT(*) as count 
-      FROM Polls 
+      FROM ${from} 
       ${whereClause}
     `;
     const countResult = this.db.prepare(countSql).get(...params) as { count: number };
     const totalCount = countResult ? countResult.count : 0;
     
-    // Get poll rows
+    // Get poll rows, one more than the page to tell whether there is a next page
     const sql = `
-      SELECT * FROM Polls 
-      ${whereClause}
-      ORDER BY created_at ${order}
+      SELECT * FROM (
+        SELECT Polls.*${search ? `, ${SEARCH_COLUMNS}` : ''}${scoreColumn ? `, COALESCE(PollScores.${scoreColumn}, 0) AS score` : ''}
+        FROM ${from} 
+        ${scoreColumn ? 'LEFT JOIN PollScores ON PollScores.poll_id = Polls.id' : ''}
+        ${whereClause}
+      )
+      ${keyset ? `WHERE ${keyset.clause}` : ''}
+      ORDER BY ${keys.map(([column, direction]) => `${column} ${direction}`).join(', ')}
       LIMIT ? OFFSET ?
     `;
     
-    // Create a copy of params and add limit/offset
-    const queryParams = [...params, limit, offset];
+    // Create a copy of params and add the cursor and limit/offset
+    const queryParams = [...params, ...(keyset ? keyset.params : []), limit + 1, after ? 0 : offset];
     const pollRows = this.db.prepare(sql).all(...queryParams) as PollRow[];
+    const nextCursor = pollRows.length > limit ? encodePollCursor(sortBy, keys, pollRows[limit - 1]) : null;
     
     // Map to poll objects with answers
-    const polls = pollRows.map(row => {
+    const pageRows = pollRows.slice(0, limit);
+    const answersByPoll = this.getAnswersByPollIds(pageRows.map(row => row.id));
+    const polls = pageRows.map(row => {
       const poll: Poll = {
         id: row.id,
         author_id: row.author_id,
         created_at: row.created_at,
-        question: row.question
+        question: row.question,
+        opens_at: row.opens_at,
+        closes_at: row.closes_at,
+        votes_locked: Boolean(row.votes_locked),
+        type: row.type,
+        max_choices: row.max_choices,
+        scale_min: row.scale_min,
+        scale_max: row.scale_max,
+        scale_step: row.scale_step,
+        scale_min_label: row.scale_min_label,
+        scale_max_label: row.scale_max_label
       };
       
-      const answerRows = this.db.prepare('SELECT * FROM Answers WHERE poll_id = ?').all(poll.id) as AnswerRow[];
-      const answers: Answer[] = answerRows.map(aRow => ({
-        id: aRow.id,
-        poll_id: aRow.poll_id,
-        text: aRow.text
-      }));
+      const answers = answersByPoll.get(poll.id)!;
       
-      return { poll, answers };
+      return search ? { poll, answers, snippet: toSearchSnippet(row as SearchMatchRow) } : { poll, answers };
     });
     
-    return { polls, totalCount };
+    return { polls, totalCount, nextCursor };
   }
   
   /**
@@ -347,13 +1312,18 @@ export class DatabaseUtils {
    * @param query Search query string
    * @param limit Maximum number of polls to return
    * @param offset Number of polls to skip
-   * @returns Array of polls with answers that match the query
+   * @returns Array of polls with answers that match the query, most relevant first
    */
-  searchPolls(query: string, limit: number = 10, offset: number = 0): { polls: { poll: Poll; answers: Answer[] }[]; totalCount: number } {
+  searchPolls(
+    query: string,
+    limit: number = 10,
+    offset: number = 0
+  ): { polls: { poll: Poll; answers: Answer[]; snippet?: SearchSnippet }[]; totalCount: number } {
     return this.getPolls({
       query,
       limit,
-      offset
+      offset,
+      sortBy: 'relevance'
     });
   }
   
@@ -365,7 +1335,9 @@ export class DatabaseUtils {
    * @param excludePollIds Array of poll IDs to exclude (e.g., already cross-referenced polls)
    * @param limit Maximum number of polls to return
    * @param offset Number of polls to skip
-   * @returns Array of polls with answers suitable for cross-referencing
+   * @param cursor Cursor of the page to get, from the previous page, instead of an offset
+   * @returns Array of polls with answers suitable for cross-referencing, most relevant first
+   * when searching, with the total count and the cursor of the next page (null on the last page)
    */
   getCrossReferenceCandidates(
     mainPollId: string,
@@ -374,70 +1346,98 @@ export class DatabaseUtils {
       excludePollIds?: string[];
       limit?: number;
       offset?: number;
+      cursor?: string;
     } = {}
-  ): { polls: { poll: Poll; answers: Answer[] }[]; totalCount: number } {
+  ): { polls: { poll: Poll; answers: Answer[]; snippet?: SearchSnippet }[]; totalCount: number; nextCursor: string | null } {
     const { 
       query = null, 
       excludePollIds = [], 
       limit = 10, 
-      offset = 0 
+      offset = 0,
+      cursor = null
     } = options;
     
+    const search = query ? toSearchQuery(query) : null;
+    if (query && !search) {
+      return { polls: [], totalCount: 0, nextCursor: null };
+    }
+
+    const after = cursor ? decodePollCursor(cursor, 'relevance', Boolean(search)) : null;
+    if (cursor && !after) {
+      throw new Error('Invalid poll cursor');
+    }
+    
     // Always exclude the main poll
     const allExcludedIds = [...excludePollIds, mainPollId];
     
     // Build WHERE clause
-    const whereClauses = ['id NOT IN (' + allExcludedIds.map(() => '?').join(',') + ')'];
+    const whereClauses = ['Polls.id NOT IN (' + allExcludedIds.map(() => '?').join(',') + ')'];
     const params = [...allExcludedIds];
     
-    if (query) {
-      whereClauses.push('question LIKE ?');
-      params.push(`%${query}%`);
+    if (search) {
+      whereClauses.push('PollSearch MATCH ?');
+      params.push(search);
     }
     
     const whereClause = `WHERE ${whereClauses.join(' AND ')}`;
+    const from = search ? 'Polls JOIN PollSearch ON PollSearch.poll_id = Polls.id' : 'Polls';
     
     // Get total count
     const countSql = `
       SELECT COUNT(*) as count 
-      FROM Polls 
+      FROM ${from} 
       ${whereClause}
     `;
     const countResult = this.db.prepare(countSql).get(...params) as { count: number };
     const totalCount = countResult ? countResult.count : 0;
     
-    // Get poll rows
+    // Get poll rows, most relevant or newest first, one more than the page to tell
+    // whether there is a next page
+    const keys = getSortKeys('relevance', Boolean(search));
+    const keyset = after ? toKeysetCondition(keys, after) : null;
     const sql = `
-      SELECT * FROM Polls 
-      ${whereClause}
-      ORDER BY created_at DESC
+      SELECT * FROM (
+        SELECT Polls.*${search ? `, ${SEARCH_COLUMNS}` : ''}
+        FROM ${from} 
+        ${whereClause}
+      )
+      ${keyset ? `WHERE ${keyset.clause}` : ''}
+      ORDER BY ${keys.map(([column, direction]) => `${column} ${direction}`).join(', ')}
       LIMIT ? OFFSET ?
     `;
     
-    // Create a copy of params and add limit/offset
-    const queryParams = [...params, limit, offset];
+    // Create a copy of params and add the cursor and limit/offset
+    const queryParams = [...params, ...(keyset ? keyset.params : []), limit + 1, after ? 0 : offset];
     const pollRows = this.db.prepare(sql).all(...queryParams) as PollRow[];
+    const nextCursor = pollRows.length > limit ? encodePollCursor('relevance', keys, pollRows[limit - 1]) : null;
     
     // Map to poll objects with answers
-    const polls = pollRows.map(row => {
+    const pageRows = pollRows.slice(0, limit);
+    const answersByPoll = this.getAnswersByPollIds(pageRows.map(row => row.id));
+    const polls = pageRows.map(row => {
       const poll: Poll = {
         id: row.id,
         author_id: row.author_id,
         created_at: row.created_at,
-        question: row.question
+        question: row.question,
+        opens_at: row.opens_at,
+        closes_at: row.closes_at,
+        votes_locked: Boolean(row.votes_locked),
+        type: row.type,
+        max_choices: row.max_choices,
+        scale_min: row.scale_min,
+        scale_max: row.scale_max,
+        scale_step: row.scale_step,
+        scale_min_label: row.scale_min_label,
+        scale_max_label: row.scale_max_label
       };
       
-      const answerRows = this.db.prepare('SELECT * FROM Answers WHERE poll_id = ?').all(poll.id) as AnswerRow[];
-      const answers: Answer[] = answerRows.map(aRow => ({
-        id: aRow.id,
-        poll_id: aRow.poll_id,
-        text: aRow.text
-      }));
+      const answers = answersByPoll.get(poll.id)!;
       
-      return { poll, answers };
+      return search ? { poll, answers, snippet: toSearchSnippet(row as SearchMatchRow) } : { poll, answers };
     });
     
-    return { polls, totalCount };
+    return { polls, totalCount, nextCursor };
   }
 
   // ========== Vote Operations ==========
@@ -450,8 +1450,26 @@ export class DatabaseUtils {
    * @returns The created vote
    */
   createVote(userId: string, pollId: string, answerId: string): Vote | null {
+    const votes = this.createVotes(userId, pollId, [answerId]);
+    return votes ? votes[0] : null;
+  }
+
+  /**
+   * Records a user's votes for one or more answers of a poll (one row per answer)
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param answerIds Answer IDs, in order of preference on ranked polls
+   * @param options Whether the answers are a ranking (ranked polls) and the text written in
+   * for the poll's "Other" answer
+   * @returns The created votes, or null if the user already voted or the votes could not be recorded
+   */
+  createVotes(
+    userId: string,
+    pollId: string,
+    answerIds: string[],
+    options: { ranked?: boolean; writeIn?: string } = {}
+  ): Vote[] | null {
     try {
-      const id = uuidv4();
       const createdAt = new Date().toISOString();
       
       // Check if user already voted for this poll
@@ -462,19 +1480,67 @@ export class DatabaseUtils {
       if (existingVote) {
         throw new Error('User has already voted for this poll');
       }
+
+      if (answerIds.length === 0) {
+        throw new Error('At least one answer is required');
+      }
       
-      // Insert the vote
-      this.db.prepare(`
-        INSERT INTO Votes (id, poll_id, answer_id, user_id, created_at)
-        VALUES (?, ?, ?, ?, ?)
-      `).run(id, pollId, answerId, userId, createdAt);
-      
+      // Insert the votes and update the co-vote aggregate atomically
+      return this.db.transaction(() => {
+        const votes = answerIds.map((answerId, index) =>
+          this.insertVote(userId, pollId, answerId, options.ranked ? index + 1 : null, createdAt)
+        );
+
+        if (options.writeIn) {
+          this.setWriteIn(userId, pollId, options.writeIn, createdAt);
+        }
+
+        return votes;
+      })();
+    } catch (error) {
+      console.error('Error creating vote:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records a user's value on a scale poll
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param value Chosen value on the poll's scale
+   * @returns The created vote, or null if the user already voted or the vote could not be recorded
+   */
+  createScaleVote(userId: string, pollId: string, value: number): Vote | null {
+    try {
+      const id = uuidv4();
+      const createdAt = new Date().toISOString();
+
+      const existingVote = this.db.prepare(
+        'SELECT * FROM Votes WHERE poll_id = ? AND user_id = ?'
+      ).get(pollId, userId);
+
+      if (existingVote) {
+        throw new Error('User has already voted for this poll');
+      }
+
+      // Scale votes have no answer, so they never enter the co-vote aggregate
+      this.db.transaction(() => {
+        this.db.prepare(`
+          INSERT INTO Votes (id, poll_id, answer_id, user_id, created_at, value)
+          VALUES (?, ?, NULL, ?, ?, ?)
+        `).run(id, pollId, userId, createdAt, value);
+
+        this.recordScaleVoteHistory(userId, pollId, 'cast', null, value, createdAt);
+      })();
+
       return {
         id,
         poll_id: pollId,
-        answer_id: answerId,
+        answer_id: null,
         user_id: userId,
         created_at: createdAt,
+        rank: null,
+        value,
       };
     } catch (error) {
       console.error('Error creating vote:', error);
@@ -483,47 +1549,409 @@ export class DatabaseUtils {
   }
 
   /**
-   * Gets vote counts for a poll
+   * Changes the answer of a user's existing vote
+   * @param userId User ID
    * @param pollId Poll ID
-   * @returns Object mapping answer IDs to vote counts
+   * @param answerId New answer ID
+   * @returns The updated vote or null if the user has not voted on the poll
    */
-  getVoteCounts(pollId: string): Record<string, number> {
-    const rows = this.db.prepare(`
-      SELECT answer_id, COUNT(*) as count
-      FROM Votes
-      WHERE poll_id = ?
-      GROUP BY answer_id
-    `).all(pollId) as VoteCountRow[];
-    
-    const voteCounts: Record<string, number> = {};
-    
-    rows.forEach((row) => {
-      voteCounts[row.answer_id] = row.count;
-    });
-    
-    return voteCounts;
+  changeVote(userId: string, pollId: string, answerId: string): Vote | null {
+    const votes = this.changeVotes(userId, pollId, [answerId]);
+    return votes ? votes[0] : null;
   }
 
   /**
-   * Gets vote counts for a poll, filtered by another poll's answer
-   * @param pollId Main poll ID
-   * @param crossPollId Cross-reference poll ID
-   * @param crossAnswerId Cross-reference answer ID
-   * @returns Object mapping answer IDs to vote counts
+   * Replaces the answers a user selected on a poll
+   * Swapping exactly one answer for another is logged as a change; otherwise
+   * deselected answers are logged as retracted and newly selected ones as cast
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param answerIds New answer IDs
+   * @param options Text written in for the poll's "Other" answer; omitting it clears the user's write-in
+   * @returns The user's votes after the change, or null if the user has not voted on the poll
    */
-  getCrossReferencedVoteCounts(
+  changeVotes(
+    userId: string,
     pollId: string,
-    crossPollId: string,
-    crossAnswerId: string
-  ): Record<string, number> {
+    answerIds: string[],
+    options: { writeIn?: string } = {}
+  ): Vote[] | null {
+    const existingVotes = this.getUserVotes(userId, pollId);
+    if (existingVotes.length === 0) return null;
+
+    if (answerIds.length === 0) {
+      throw new Error('At least one answer is required');
+    }
+
+    const existingAnswerIds = new Set(existingVotes.map(vote => vote.answer_id));
+    const removedVotes = existingVotes.filter(vote => !answerIds.includes(vote.answer_id!));
+    const addedAnswerIds = answerIds.filter(answerId => !existingAnswerIds.has(answerId));
+
+    const writeIn = options.writeIn ?? null;
+    const writeInUnchanged = this.getUserWriteIn(userId, pollId) === writeIn;
+
+    if (removedVotes.length === 0 && addedAnswerIds.length === 0 && writeInUnchanged) return existingVotes;
+
+    // Move the votes and their co-vote pairs to the new answers atomically
+    this.db.transaction(() => {
+      if (removedVotes.length === 1 && addedAnswerIds.length === 1) {
+        const [removedVote] = removedVotes;
+        const [addedAnswerId] = addedAnswerIds;
+
+        this.moveVote(removedVote, addedAnswerId);
+      } else {
+        removedVotes.forEach(vote => this.deleteVote(vote));
+        addedAnswerIds.forEach(answerId => this.insertVote(userId, pollId, answerId));
+      }
+
+      if (!writeInUnchanged) {
+        this.setWriteIn(userId, pollId, writeIn);
+      }
+    })();
+
+    return this.getUserVotes(userId, pollId);
+  }
+
+  /**
+   * Replaces a user's ranking on a ranked poll
+   * Only the first preference feeds the co-vote aggregate, so it is the only answer
+   * moved there; the history records the move from the old to the new first preference
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param rankedAnswerIds Every answer ID, in the new order of preference
+   * @returns The user's votes after the change, or null if the user has not voted on the poll
+   */
+  changeRanking(userId: string, pollId: string, rankedAnswerIds: string[]): Vote[] | null {
+    const existingVotes = this.getUserVotes(userId, pollId);
+    if (existingVotes.length === 0) return null;
+
+    if (
+      rankedAnswerIds.length !== existingVotes.length ||
+      existingVotes.some(vote => !rankedAnswerIds.includes(vote.answer_id!))
+    ) {
+      throw new Error('A ranking must include every ranked answer exactly once');
+    }
+
+    const unchanged = existingVotes.every(vote => vote.rank === rankedAnswerIds.indexOf(vote.answer_id!) + 1);
+    if (unchanged) return existingVotes;
+
+    const previousFirst = existingVotes.find(vote => vote.rank === 1)!.answer_id!;
+    const newFirst = rankedAnswerIds[0];
+
+    this.db.transaction(() => {
+      if (previousFirst !== newFirst) {
+        this.adjustCoVoteCounts(userId, pollId, previousFirst, -1);
+      }
+
+      const updateRank = this.db.prepare('UPDATE Votes SET rank = ? WHERE id = ?');
+      existingVotes.forEach(vote => {
+        updateRank.run(rankedAnswerIds.indexOf(vote.answer_id!) + 1, vote.id);
+      });
+
+      if (previousFirst !== newFirst) {
+        this.adjustCoVoteCounts(userId, pollId, newFirst, 1);
+      }
+
+      this.recordVoteHistory(userId, pollId, 'change', previousFirst, newFirst);
+    })();
+
+    return this.getUserVotes(userId, pollId);
+  }
+
+  /**
+   * Changes the value of a user's vote on a scale poll
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param value New value on the poll's scale
+   * @returns The updated vote or null if the user has not voted on the poll
+   */
+  changeScaleVote(userId: string, pollId: string, value: number): Vote | null {
+    const existingVote = this.getUserVote(userId, pollId);
+    if (!existingVote || existingVote.value === null) return null;
+
+    if (existingVote.value === value) return existingVote;
+
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE Votes SET value = ? WHERE id = ?').run(value, existingVote.id);
+      this.recordScaleVoteHistory(userId, pollId, 'change', existingVote.value, value);
+    })();
+
+    return { ...existingVote, value };
+  }
+
+  /**
+   * Retracts a user's vote on a poll, including every answer selected on multiple-choice polls
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @returns True if a vote was retracted, false if the user had not voted
+   */
+  retractVote(userId: string, pollId: string): boolean {
+    const existingVotes = this.getUserVotes(userId, pollId);
+    if (existingVotes.length === 0) return false;
+
+    this.db.transaction(() => {
+      existingVotes.forEach(vote => this.deleteVote(vote));
+      this.setWriteIn(userId, pollId, null);
+    })();
+
+    return true;
+  }
+
+  /**
+   * Inserts a single vote row, updating the co-vote aggregate and history
+   * Must run inside a transaction
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param answerId Answer ID
+   * @param rank Position in the voter's ranking, or null on unranked polls
+   * @param createdAt Time of the vote (defaults to now)
+   * @returns The created vote
+   */
+  private insertVote(
+    userId: string,
+    pollId: string,
+    answerId: string,
+    rank: number | null = null,
+    createdAt: string = new Date().toISOString()
+  ): Vote {
+    const id = uuidv4();
+
+    this.db.prepare(`
+      INSERT INTO Votes (id, poll_id, answer_id, user_id, created_at, rank)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, pollId, answerId, userId, createdAt, rank);
+
+    // Only first preferences are cross-referenced on ranked polls
+    if (rank === null || rank === 1) {
+      this.adjustCoVoteCounts(userId, pollId, answerId, 1);
+    }
+    this.recordVoteHistory(userId, pollId, 'cast', null, answerId, createdAt);
+
+    return {
+      id,
+      poll_id: pollId,
+      answer_id: answerId,
+      user_id: userId,
+      created_at: createdAt,
+      rank,
+      value: null,
+    };
+  }
+
+  /**
+   * Moves a single unranked vote row to another answer, updating the co-vote aggregate and history
+   * Must run inside a transaction
+   * @param vote Vote to move
+   * @param answerId New answer ID
+   */
+  private moveVote(vote: Vote, answerId: string): void {
+    this.adjustCoVoteCounts(vote.user_id, vote.poll_id, vote.answer_id!, -1);
+
+    this.db.prepare('UPDATE Votes SET answer_id = ? WHERE id = ?').run(answerId, vote.id);
+
+    this.adjustCoVoteCounts(vote.user_id, vote.poll_id, answerId, 1);
+    this.recordVoteHistory(vote.user_id, vote.poll_id, 'change', vote.answer_id, answerId);
+  }
+
+  /**
+   * Deletes a single vote row, updating the co-vote aggregate and history
+   * Must run inside a transaction
+   * @param vote Vote to delete
+   */
+  private deleteVote(vote: Vote): void {
+    if (vote.answer_id === null) {
+      this.db.prepare('DELETE FROM Votes WHERE id = ?').run(vote.id);
+      this.recordScaleVoteHistory(vote.user_id, vote.poll_id, 'retract', vote.value, null);
+      return;
+    }
+
+    if (vote.rank === null || vote.rank === 1) {
+      this.adjustCoVoteCounts(vote.user_id, vote.poll_id, vote.answer_id, -1);
+    }
+
+    this.db.prepare('DELETE FROM Votes WHERE id = ?').run(vote.id);
+
+    this.recordVoteHistory(vote.user_id, vote.poll_id, 'retract', vote.answer_id, null);
+  }
+
+  /**
+   * Gets the history of votes cast, changed and retracted on a poll, oldest first
+   * @param pollId Poll ID
+   * @param userId Optional user ID to limit the history to one voter
+   * @returns Array of history entries
+   */
+  getVoteHistory(pollId: string, userId?: string): VoteHistoryEntry[] {
+    return (userId
+      ? this.db.prepare(`
+          SELECT * FROM VoteHistory
+          WHERE poll_id = ? AND user_id = ?
+          ORDER BY created_at ASC, rowid ASC
+        `).all(pollId, userId)
+      : this.db.prepare(`
+          SELECT * FROM VoteHistory
+          WHERE poll_id = ?
+          ORDER BY created_at ASC, rowid ASC
+        `).all(pollId)) as VoteHistoryEntry[];
+  }
+
+  /**
+   * Appends an entry to the vote history log
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param action What happened to the vote
+   * @param previousAnswerId Answer before the action, if any
+   * @param answerId Answer after the action, if any
+   * @param createdAt Time of the action (defaults to now)
+   */
+  private recordVoteHistory(
+    userId: string,
+    pollId: string,
+    action: VoteAction,
+    previousAnswerId: string | null,
+    answerId: string | null,
+    createdAt: string = new Date().toISOString()
+  ): void {
+    this.db.prepare(`
+      INSERT INTO VoteHistory (id, poll_id, user_id, action, previous_answer_id, answer_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(uuidv4(), pollId, userId, action, previousAnswerId, answerId, createdAt);
+  }
+
+  /**
+   * Appends an entry for a scale vote to the vote history log
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param action What happened to the vote
+   * @param previousValue Value before the action, if any
+   * @param value Value after the action, if any
+   * @param createdAt Time of the action (defaults to now)
+   */
+  private recordScaleVoteHistory(
+    userId: string,
+    pollId: string,
+    action: VoteAction,
+    previousValue: number | null,
+    value: number | null,
+    createdAt: string = new Date().toISOString()
+  ): void {
+    this.db.prepare(`
+      INSERT INTO VoteHistory (id, poll_id, user_id, action, previous_value, value, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(uuidv4(), pollId, userId, action, previousValue, value, createdAt);
+  }
+
+  /**
+   * Gets vote counts for a poll (first preferences on ranked polls)
+   * @param pollId Poll ID
+   * @returns Object mapping answer IDs to vote counts
+   */
+  getVoteCounts(pollId: string): Record<string, number> {
     const rows = this.db.prepare(`
-      SELECT v1.answer_id, COUNT(*) as count
+      SELECT answer_id, COUNT(*) as count
+      FROM FirstPreferenceVotes
+      WHERE poll_id = ?
+      GROUP BY answer_id
+    `).all(pollId) as VoteCountRow[];
+    
+    const voteCounts: Record<string, number> = {};
+    
+    rows.forEach((row) => {
+      voteCounts[row.answer_id] = row.count;
+    });
+    
+    return voteCounts;
+  }
+
+  /**
+   * Gets the number of users who voted on a poll
+   * On multiple-choice polls this is less than the total vote count, and is the
+   * denominator for answer percentages
+   * @param pollId Poll ID
+   * @returns Number of distinct voters
+   */
+  getRespondentCount(pollId: string): number {
+    const row = this.db.prepare(
+      'SELECT COUNT(DISTINCT user_id) as count FROM Votes WHERE poll_id = ?'
+    ).get(pollId) as { count: number };
+
+    return row.count;
+  }
+
+  /**
+   * Gets the number of users who voted on a poll among those who chose another poll's answer
+   * @param pollId Main poll ID
+   * @param crossPollId Cross-reference poll ID
+   * @param crossAnswerId Cross-reference answer ID
+   * @returns Number of distinct voters in the segment
+   */
+  getCrossReferencedRespondentCount(pollId: string, crossPollId: string, crossAnswerId: string): number {
+    const row = this.db.prepare(`
+      SELECT COUNT(DISTINCT v1.user_id) as count
+      FROM Votes v1
+      JOIN FirstPreferenceVotes v2 ON v1.user_id = v2.user_id
+      WHERE v1.poll_id = ?
+      AND v2.poll_id = ?
+      AND v2.answer_id = ?
+    `).get(pollId, crossPollId, crossAnswerId) as { count: number };
+
+    return row.count;
+  }
+
+  /**
+   * Gets every value chosen on a scale poll
+   * @param pollId Poll ID
+   * @returns Array of values, one per voter
+   */
+  getScaleValues(pollId: string): number[] {
+    const rows = this.db.prepare(`
+      SELECT value FROM Votes
+      WHERE poll_id = ? AND value IS NOT NULL
+    `).all(pollId) as { value: number }[];
+
+    return rows.map(row => row.value);
+  }
+
+  /**
+   * Gets the values chosen on a scale poll by users who chose another poll's answer
+   * @param pollId Scale poll ID
+   * @param crossPollId Cross-reference poll ID
+   * @param crossAnswerId Cross-reference answer ID
+   * @returns Array of values, one per voter in the segment
+   */
+  getCrossReferencedScaleValues(pollId: string, crossPollId: string, crossAnswerId: string): number[] {
+    const rows = this.db.prepare(`
+      SELECT v1.value
       FROM Votes v1
-      JOIN Votes v2 ON v1.user_id = v2.user_id
+      JOIN FirstPreferenceVotes v2 ON v1.user_id = v2.user_id
       WHERE v1.poll_id = ?
+      AND v1.value IS NOT NULL
       AND v2.poll_id = ?
       AND v2.answer_id = ?
-      GROUP BY v1.answer_id
+    `).all(pollId, crossPollId, crossAnswerId) as { value: number }[];
+
+    return rows.map(row => row.value);
+  }
+
+  /**
+   * Gets vote counts for a poll, filtered by another poll's answer
+   * @param pollId Main poll ID
+   * @param crossPollId Cross-reference poll ID
+   * @param crossAnswerId Cross-reference answer ID
+   * @returns Object mapping answer IDs to vote counts
+   */
+  getCrossReferencedVoteCounts(
+    pollId: string,
+    crossPollId: string,
+    crossAnswerId: string
+  ): Record<string, number> {
+    // Read from the co-vote aggregate rather than self-joining Votes
+    const rows = this.db.prepare(`
+      SELECT answer_id, count
+      FROM CoVoteCounts
+      WHERE poll_id = ?
+      AND other_poll_id = ?
+      AND other_answer_id = ?
+      AND count > 0
     `).all(pollId, crossPollId, crossAnswerId) as VoteCountRow[];
     
     const voteCounts: Record<string, number> = {};
@@ -535,6 +1963,155 @@ export class DatabaseUtils {
     return voteCounts;
   }
 
+  /**
+   * Gets the joint vote counts of two polls among users who voted on both
+   * @param pollId Main poll ID
+   * @param crossPollId Cross-reference poll ID
+   * @returns Object mapping main answer IDs to objects mapping cross answer IDs to counts
+   */
+  getContingencyTable(pollId: string, crossPollId: string): Record<string, Record<string, number>> {
+    const rows = this.db.prepare(`
+      SELECT answer_id, other_answer_id as cross_answer_id, count
+      FROM CoVoteCounts
+      WHERE poll_id = ?
+      AND other_poll_id = ?
+      AND count > 0
+    `).all(pollId, crossPollId) as ContingencyRow[];
+
+    const table: Record<string, Record<string, number>> = {};
+
+    rows.forEach((row) => {
+      table[row.answer_id] = table[row.answer_id] || {};
+      table[row.answer_id][row.cross_answer_id] = row.count;
+    });
+
+    return table;
+  }
+
+  /**
+   * Gets the joint vote counts between a poll and every other poll sharing voters with it
+   * @param pollId Main poll ID
+   * @param options Minimum number of shared voters and poll IDs to exclude
+   * @returns Array of polls with their shared voter count and contingency table,
+   *          ordered by shared voter count (descending)
+   */
+  getSharedVoterContingencyTables(
+    pollId: string,
+    options: {
+      minSharedVoters?: number;
+      excludePollIds?: string[];
+    } = {}
+  ): { pollId: string; sharedVoters: number; contingency: Record<string, Record<string, number>> }[] {
+    const { minSharedVoters = 1, excludePollIds = [] } = options;
+
+    // Always exclude the main poll
+    const allExcludedIds = [...excludePollIds, pollId];
+
+    const rows = this.db.prepare(`
+      SELECT other_poll_id as poll_id, answer_id, other_answer_id as cross_answer_id, count
+      FROM CoVoteCounts
+      WHERE poll_id = ?
+      AND other_poll_id NOT IN (${allExcludedIds.map(() => '?').join(',')})
+      AND count > 0
+    `).all(pollId, ...allExcludedIds) as SharedContingencyRow[];
+
+    const tables = new Map<string, { pollId: string; sharedVoters: number; contingency: Record<string, Record<string, number>> }>();
+
+    rows.forEach((row) => {
+      const table = tables.get(row.poll_id) ?? { pollId: row.poll_id, sharedVoters: 0, contingency: {} };
+      table.contingency[row.answer_id] = table.contingency[row.answer_id] || {};
+      table.contingency[row.answer_id][row.cross_answer_id] = row.count;
+      // Each voter casts one vote per single-choice poll, so the cells add up to the shared voters
+      table.sharedVoters += row.count;
+      tables.set(row.poll_id, table);
+    });
+
+    // Voters appear in several cells of multiple-choice polls, so count them directly
+    const multipleChoicePollIds = this.getMultipleChoicePollIds([pollId, ...tables.keys()]);
+    const recountPollIds = multipleChoicePollIds.has(pollId)
+      ? [...tables.keys()]
+      : [...tables.keys()].filter(otherPollId => multipleChoicePollIds.has(otherPollId));
+
+    if (recountPollIds.length > 0) {
+      const sharedVoterRows = this.db.prepare(`
+        SELECT v2.poll_id, COUNT(DISTINCT v1.user_id) as count
+        FROM Votes v1
+        JOIN Votes v2 ON v1.user_id = v2.user_id
+        WHERE v1.poll_id = ?
+        AND v2.poll_id IN (${recountPollIds.map(() => '?').join(',')})
+        GROUP BY v2.poll_id
+      `).all(pollId, ...recountPollIds) as { poll_id: string; count: number }[];
+
+      sharedVoterRows.forEach((row) => {
+        tables.get(row.poll_id)!.sharedVoters = row.count;
+      });
+    }
+
+    return [...tables.values()]
+      .filter(table => table.sharedVoters >= minSharedVoters)
+      .sort((a, b) => b.sharedVoters - a.sharedVoters);
+  }
+
+  /**
+   * Gets vote counts for a poll among the voters who match every condition
+   * Conditions are intersected (AND), while the answers within a single condition
+   * are alternatives (OR). Everything is resolved in a single query.
+   * @param pollId Main poll ID
+   * @param conditions Array of conditions, at most one per poll
+   * @returns Filtered vote counts and the size of the matching population
+   */
+  getCrosstabVoteCounts(pollId: string, conditions: CrosstabCondition[]): CrosstabResult {
+    if (conditions.length === 0) {
+      throw new Error('Crosstab requires at least one condition');
+    }
+
+    if (conditions.some(condition => condition.answerIds.length === 0)) {
+      throw new Error('Crosstab condition must include at least one answer');
+    }
+
+    // One SELECT per condition, intersected to find the matching voters
+    const matchingSql = conditions.map(condition => `
+      SELECT DISTINCT user_id FROM FirstPreferenceVotes
+      WHERE poll_id = ?
+      AND answer_id IN (${condition.answerIds.map(() => '?').join(',')})
+    `).join(' INTERSECT ');
+
+    const matchingParams = conditions.flatMap(condition => [condition.pollId, ...condition.answerIds]);
+
+    // The LEFT JOIN keeps one row (with a NULL answer) when nobody matching voted,
+    // so the population size is always returned
+    const rows = this.db.prepare(`
+      WITH matching AS (${matchingSql})
+      SELECT
+        v.answer_id,
+        COUNT(v.id) as count,
+        (SELECT COUNT(*) FROM matching) as population,
+        (
+          SELECT COUNT(DISTINCT user_id) FROM Votes
+          WHERE poll_id = ?
+          AND user_id IN (SELECT user_id FROM matching)
+        ) as respondents
+      FROM (SELECT 1)
+      LEFT JOIN FirstPreferenceVotes v
+        ON v.poll_id = ?
+        AND v.user_id IN (SELECT user_id FROM matching)
+      GROUP BY v.answer_id
+    `).all(...matchingParams, pollId, pollId) as CrosstabRow[];
+
+    const voteCounts: Record<string, number> = {};
+
+    rows.forEach((row) => {
+      if (row.answer_id === null) return;
+      voteCounts[row.answer_id] = row.count;
+    });
+
+    return {
+      voteCounts,
+      populationSize: rows.length > 0 ? rows[0].population : 0,
+      respondentCount: rows.length > 0 ? rows[0].respondents : 0
+    };
+  }
+
   /**
    * Gets a user's vote for a poll
    * @param userId User ID
@@ -542,8 +2119,9 @@ export class DatabaseUtils {
    * @returns Vote or null if not found
    */
   getUserVote(userId: string, pollId: string): Vote | null {
+    // On ranked polls this is the first preference
     const voteRow = this.db.prepare(
-      'SELECT * FROM Votes WHERE poll_id = ? AND user_id = ?'
+      'SELECT * FROM Votes WHERE poll_id = ? AND user_id = ? ORDER BY rank ASC'
     ).get(pollId, userId) as VoteRow | undefined;
     
     if (!voteRow) return null;
@@ -553,10 +2131,65 @@ export class DatabaseUtils {
       poll_id: voteRow.poll_id,
       answer_id: voteRow.answer_id,
       user_id: voteRow.user_id,
-      created_at: voteRow.created_at
+      created_at: voteRow.created_at,
+      rank: voteRow.rank,
+      value: voteRow.value
     };
   }
 
+  /**
+   * Gets every vote a user cast on a poll (several on multiple-choice polls)
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @returns Array of votes, in order of preference on ranked polls and otherwise in the poll's answer order
+   */
+  getUserVotes(userId: string, pollId: string): Vote[] {
+    return this.db.prepare(`
+      SELECT v.* FROM Votes v
+      LEFT JOIN Answers a ON a.id = v.answer_id
+      WHERE v.poll_id = ? AND v.user_id = ?
+      ORDER BY v.rank ASC, a.is_write_in ASC, a.rowid ASC
+    `).all(pollId, userId) as VoteRow[];
+  }
+
+  /**
+   * Gets every voter's ranking on a ranked poll
+   * @param pollId Poll ID
+   * @returns One array of answer IDs per voter, in order of preference
+   */
+  getRankedBallots(pollId: string): string[][] {
+    const rows = this.db.prepare(`
+      SELECT user_id, answer_id FROM Votes
+      WHERE poll_id = ? AND rank IS NOT NULL
+      ORDER BY user_id, rank ASC
+    `).all(pollId) as { user_id: string; answer_id: string }[];
+
+    const ballots = new Map<string, string[]>();
+
+    rows.forEach((row) => {
+      const ballot = ballots.get(row.user_id) ?? [];
+      ballot.push(row.answer_id);
+      ballots.set(row.user_id, ballot);
+    });
+
+    return [...ballots.values()];
+  }
+
+  /**
+   * Gets which of the given polls are multiple-choice
+   * @param pollIds Poll IDs
+   * @returns Set of the multiple-choice poll IDs
+   */
+  private getMultipleChoicePollIds(pollIds: string[]): Set<string> {
+    const rows = this.db.prepare(`
+      SELECT id FROM Polls
+      WHERE type = 'multiple'
+      AND id IN (${pollIds.map(() => '?').join(',')})
+    `).all(...pollIds) as { id: string }[];
+
+    return new Set(rows.map(row => row.id));
+  }
+
   /**
    * Gets polls that a user has voted on
    * @param userId ID of the user whose votes to filter by
@@ -568,10 +2201,10 @@ export class DatabaseUtils {
     options: {
       limit?: number;
       offset?: number;
-      sortBy?: 'newest' | 'oldest';
+      sortBy?: PollSortOrder;
       query?: string;
     } = {}
-  ): { polls: { poll: Poll; answers: Answer[] }[]; totalCount: number } {
+  ): { polls: { poll: Poll; answers: Answer[]; snippet?: SearchSnippet }[]; totalCount: number } {
     // Set default values
     const { 
       limit = 10, 
@@ -580,57 +2213,785 @@ export class DatabaseUtils {
       query = null
     } = options;
     
-    // Build query to get poll IDs the user has voted on
+    const search = query ? toSearchQuery(query) : null;
+    if (query && !search) {
+      return { polls: [], totalCount: 0 };
+    }
+    
+    // Build query to get the polls the user has voted on
     let sql = `
-      SELECT DISTINCT p.*
       FROM Polls p
-      JOIN Votes v ON p.id = v.poll_id
-      WHERE v.user_id = ?
+      ${search ? 'JOIN PollSearch ON PollSearch.poll_id = p.id' : ''}
+      WHERE p.id IN (SELECT poll_id FROM Votes WHERE user_id = ?)
     `;
     
-    const params = [userId];
+    const params: (string | number)[] = [userId];
     
     // Add search condition if query provided
-    if (query) {
-      sql += ` AND p.question LIKE ?`;
-      params.push(`%${query}%`);
+    if (search) {
+      sql += ` AND PollSearch MATCH ?`;
+      params.push(search);
     }
     
-    // Add sorting
-    const order = sortBy === 'oldest' ? 'ASC' : 'DESC';
-    sql += ` ORDER BY p.created_at ${order}`;
-    
     // Get total count for pagination
-    const countSql = sql.replace('SELECT DISTINCT p.*', 'SELECT COUNT(DISTINCT p.id) as count');
-    const countResult = this.db.prepare(countSql).get(...params) as { count: number } | undefined;
+    const countResult = this.db.prepare(`SELECT COUNT(*) as count ${sql}`).get(...params) as { count: number } | undefined;
     const totalCount = countResult ? countResult.count : 0;
     
+    // Add sorting
+    const order = sortBy === 'oldest' ? 'ASC' : 'DESC';
+    sql += search && sortBy === 'relevance'
+      ? ` ORDER BY search_rank ASC, p.created_at DESC`
+      : ` ORDER BY p.created_at ${order}`;
+    
     // Add pagination
     sql += ` LIMIT ? OFFSET ?`;
     params.push(limit, offset);
     
     // Get poll rows
-    const pollRows = this.db.prepare(sql).all(...params) as PollRow[];
+    const pollRows = this.db.prepare(
+      `SELECT p.*${search ? `, ${SEARCH_COLUMNS}` : ''} ${sql}`
+    ).all(...params) as PollRow[];
     
     // Map to poll objects with answers
+    const answersByPoll = this.getAnswersByPollIds(pollRows.map(row => row.id));
     const polls = pollRows.map(row => {
       const poll: Poll = {
         id: row.id,
         author_id: row.author_id,
         created_at: row.created_at,
-        question: row.question
+        question: row.question,
+        opens_at: row.opens_at,
+        closes_at: row.closes_at,
+        votes_locked: Boolean(row.votes_locked),
+        type: row.type,
+        max_choices: row.max_choices,
+        scale_min: row.scale_min,
+        scale_max: row.scale_max,
+        scale_step: row.scale_step,
+        scale_min_label: row.scale_min_label,
+        scale_max_label: row.scale_max_label
       };
       
-      const answerRows = this.db.prepare('SELECT * FROM Answers WHERE poll_id = ?').all(poll.id) as AnswerRow[];
-      const answers: Answer[] = answerRows.map(aRow => ({
-        id: aRow.id,
-        poll_id: aRow.poll_id,
-        text: aRow.text
-      }));
+      const answers = answersByPoll.get(poll.id)!;
       
-      return { poll, answers };
+      return search ? { poll, answers, snippet: toSearchSnippet(row as SearchMatchRow) } : { poll, answers };
     });
     
     return { polls, totalCount };
   }
-}
\ No newline at end of file
+
+  // ========== Write-in Operations ==========
+
+  /**
+   * Gets the text a user wrote in for a poll's "Other" answer
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @returns Write-in text or null if the user has not written one in
+   */
+  getUserWriteIn(userId: string, pollId: string): string | null {
+    const row = this.db.prepare(
+      'SELECT text FROM WriteIns WHERE poll_id = ? AND user_id = ?'
+    ).get(pollId, userId) as { text: string } | undefined;
+
+    return row ? row.text : null;
+  }
+
+  /**
+   * Stores, replaces or clears a user's write-in on a poll
+   * Must run inside a transaction with the vote it belongs to
+   * @param userId User ID
+   * @param pollId Poll ID
+   * @param text Write-in text, or null to clear it
+   * @param createdAt Time of the write-in (defaults to now)
+   */
+  private setWriteIn(
+    userId: string,
+    pollId: string,
+    text: string | null,
+    createdAt: string = new Date().toISOString()
+  ): void {
+    if (text === null) {
+      this.db.prepare('DELETE FROM WriteIns WHERE poll_id = ? AND user_id = ?').run(pollId, userId);
+      return;
+    }
+
+    this.db.prepare(`
+      INSERT INTO WriteIns (id, poll_id, user_id, text, normalized_text, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (poll_id, user_id)
+      DO UPDATE SET text = excluded.text, normalized_text = excluded.normalized_text, created_at = excluded.created_at
+    `).run(uuidv4(), pollId, userId, text.trim(), normalizeWriteIn(text), createdAt);
+  }
+
+  /**
+   * Groups a poll's write-ins by their normalized text, most frequent first
+   * @param pollId Poll ID
+   * @returns Array of write-in groups
+   */
+  getWriteInGroups(pollId: string): WriteInGroup[] {
+    // The displayed spelling is the group's most common one, the earliest written on ties
+    return this.db.prepare(`
+      SELECT g.normalized_text, g.count, (
+        SELECT w.text
+        FROM WriteIns w
+        WHERE w.poll_id = g.poll_id AND w.normalized_text = g.normalized_text
+        GROUP BY w.text
+        ORDER BY COUNT(*) DESC, MIN(w.rowid) ASC
+        LIMIT 1
+      ) AS text
+      FROM (
+        SELECT poll_id, normalized_text, COUNT(*) AS count, MIN(rowid) AS first_rowid
+        FROM WriteIns
+        WHERE poll_id = ?
+        GROUP BY normalized_text
+      ) g
+      ORDER BY g.count DESC, g.first_rowid ASC
+    `).all(pollId) as WriteInGroup[];
+  }
+
+  /**
+   * Promotes a group of write-ins to a regular answer, moving each writer's vote for
+   * the "Other" answer onto it. An existing answer with the same normalized text is
+   * reused; voters who had already selected it just lose their "Other" vote.
+   * @param pollId Poll ID
+   * @param normalizedText Normalized text of the write-in group
+   * @param answerText Text of the new answer (defaults to the group's most common spelling)
+   * @returns The promoted answer and number of votes moved onto it, or null if the group does not exist
+   */
+  promoteWriteIn(
+    pollId: string,
+    normalizedText: string,
+    answerText?: string
+  ): { answer: Answer; movedVotes: number } | null {
+    const group = this.getWriteInGroups(pollId).find(g => g.normalized_text === normalizedText);
+    if (!group) return null;
+
+    const pollResult = this.getPollById(pollId)!;
+    const writeInAnswer = pollResult.answers.find(answer => answer.is_write_in);
+    if (!writeInAnswer) {
+      throw new Error('Poll does not allow write-ins');
+    }
+
+    const text = answerText?.trim() || group.text;
+    const writerIds = (this.db.prepare(
+      'SELECT user_id FROM WriteIns WHERE poll_id = ? AND normalized_text = ?'
+    ).all(pollId, normalizedText) as { user_id: string }[]).map(row => row.user_id);
+
+    return this.db.transaction(() => {
+      const answer = pollResult.answers.find(
+        a => !a.is_write_in && normalizeWriteIn(a.text) === normalizedText
+      ) ?? this.insertAnswer(pollId, text);
+
+      let movedVotes = 0;
+      for (const userId of writerIds) {
+        const votes = this.getUserVotes(userId, pollId);
+        const otherVote = votes.find(vote => vote.answer_id === writeInAnswer.id);
+        if (!otherVote) continue;
+
+        if (votes.some(vote => vote.answer_id === answer.id)) {
+          this.deleteVote(otherVote);
+        } else {
+          this.moveVote(otherVote, answer.id);
+          movedVotes++;
+        }
+      }
+
+      this.db.prepare(
+        'DELETE FROM WriteIns WHERE poll_id = ? AND normalized_text = ?'
+      ).run(pollId, normalizedText);
+
+      return { answer, movedVotes };
+    })();
+  }
+
+  // ========== Batch Loading Operations ==========
+  // Fetch what a page of polls shows for all of its polls at once, in a constant number of
+  // queries rather than a few per poll. Every requested poll ID is a key of the result.
+
+  /**
+   * Gets the answers of several polls
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to its answers, in the poll's answer order
+   */
+  getAnswersByPollIds(pollIds: string[]): Map<string, Answer[]> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT * FROM Answers
+          WHERE poll_id IN (${toPlaceholders(pollIds)})
+          ORDER BY is_write_in ASC, rowid ASC
+        `).all(...pollIds) as AnswerRow[]
+      : [];
+
+    return groupBy(pollIds, rows, row => row.poll_id, row => ({
+      id: row.id,
+      poll_id: row.poll_id,
+      text: row.text,
+      is_write_in: Boolean(row.is_write_in)
+    }));
+  }
+
+  /**
+   * Gets several users by ID
+   * @param ids User IDs (may repeat)
+   * @returns Map from user ID to user, without the IDs of users that don't exist
+   */
+  getUsersByIds(ids: string[]): Map<string, User> {
+    const uniqueIds = [...new Set(ids)];
+    const rows = uniqueIds.length > 0
+      ? this.db.prepare(`SELECT * FROM Users WHERE id IN (${toPlaceholders(uniqueIds)})`).all(...uniqueIds) as UserRow[]
+      : [];
+
+    return new Map(rows.map(row => [row.id, { id: row.id, email: row.email, name: row.name, role: row.role }]));
+  }
+
+  /**
+   * Gets the vote counts of several polls (first preferences on ranked polls)
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to an object mapping answer IDs to vote counts
+   */
+  getVoteCountsByPollIds(pollIds: string[]): Map<string, Record<string, number>> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT poll_id, answer_id, COUNT(*) as count
+          FROM FirstPreferenceVotes
+          WHERE poll_id IN (${toPlaceholders(pollIds)})
+          GROUP BY poll_id, answer_id
+        `).all(...pollIds) as (VoteCountRow & { poll_id: string })[]
+      : [];
+
+    const voteCounts = new Map(pollIds.map(pollId => [pollId, {} as Record<string, number>]));
+    rows.forEach(row => {
+      voteCounts.get(row.poll_id)![row.answer_id] = row.count;
+    });
+
+    return voteCounts;
+  }
+
+  /**
+   * Gets the number of users who voted on each of several polls
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to its number of distinct voters
+   */
+  getRespondentCountsByPollIds(pollIds: string[]): Map<string, number> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT poll_id, COUNT(DISTINCT user_id) as count
+          FROM Votes
+          WHERE poll_id IN (${toPlaceholders(pollIds)})
+          GROUP BY poll_id
+        `).all(...pollIds) as { poll_id: string; count: number }[]
+      : [];
+
+    const counts = new Map(pollIds.map(pollId => [pollId, 0]));
+    rows.forEach(row => counts.set(row.poll_id, row.count));
+
+    return counts;
+  }
+
+  /**
+   * Gets every vote a user cast on several polls
+   * @param userId User ID
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to the user's votes, ordered as by getUserVotes
+   */
+  getUserVotesByPollIds(userId: string, pollIds: string[]): Map<string, Vote[]> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT v.* FROM Votes v
+          LEFT JOIN Answers a ON a.id = v.answer_id
+          WHERE v.poll_id IN (${toPlaceholders(pollIds)}) AND v.user_id = ?
+          ORDER BY v.rank ASC, a.is_write_in ASC, a.rowid ASC
+        `).all(...pollIds, userId) as VoteRow[]
+      : [];
+
+    return groupBy(pollIds, rows, row => row.poll_id, row => row);
+  }
+
+  /**
+   * Gets the texts a user wrote in on several polls
+   * @param userId User ID
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to the user's write-in, without the polls they wrote nothing in
+   */
+  getUserWriteInsByPollIds(userId: string, pollIds: string[]): Map<string, string> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT poll_id, text FROM WriteIns
+          WHERE poll_id IN (${toPlaceholders(pollIds)}) AND user_id = ?
+        `).all(...pollIds, userId) as { poll_id: string; text: string }[]
+      : [];
+
+    return new Map(rows.map(row => [row.poll_id, row.text]));
+  }
+
+  /**
+   * Gets every voter's ranking on several ranked polls
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to one array of answer IDs per voter, in order of preference
+   */
+  getRankedBallotsByPollIds(pollIds: string[]): Map<string, string[][]> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT poll_id, user_id, answer_id FROM Votes
+          WHERE poll_id IN (${toPlaceholders(pollIds)}) AND rank IS NOT NULL
+          ORDER BY poll_id, user_id, rank ASC
+        `).all(...pollIds) as { poll_id: string; user_id: string; answer_id: string }[]
+      : [];
+
+    // Group each poll's votes into one ballot per voter
+    const ballots = new Map(pollIds.map(pollId => [pollId, new Map<string, string[]>()]));
+    rows.forEach(row => {
+      const pollBallots = ballots.get(row.poll_id)!;
+      pollBallots.set(row.user_id, [...(pollBallots.get(row.user_id) ?? []), row.answer_id]);
+    });
+
+    return new Map([...ballots].map(([pollId, pollBallots]) => [pollId, [...pollBallots.values()]]));
+  }
+
+  /**
+   * Gets every value chosen on several scale polls
+   * @param pollIds Poll IDs
+   * @returns Map from poll ID to its values, one per voter
+   */
+  getScaleValuesByPollIds(pollIds: string[]): Map<string, number[]> {
+    const rows = pollIds.length > 0
+      ? this.db.prepare(`
+          SELECT poll_id, value FROM Votes
+          WHERE poll_id IN (${toPlaceholders(pollIds)}) AND value IS NOT NULL
+        `).all(...pollIds) as { poll_id: string; value: number }[]
+      : [];
+
+    return groupBy(pollIds, rows, row => row.poll_id, row => row.value);
+  }
+
+  // ========== Co-Vote Aggregate Operations ==========
+
+  /**
+   * Adjusts the co-vote aggregate for one vote, pairing it with every vote the
+   * same user cast on other polls (first preferences only on ranked polls).
+   * Must run in the same transaction as the vote change.
+   * @param userId User ID
+   * @param pollId Poll ID of the vote
+   * @param answerId Answer ID of the vote
+   * @param delta +1 when the vote is added, -1 when it is removed
+   */
+  private adjustCoVoteCounts(userId: string, pollId: string, answerId: string, delta: number): void {
+    // This vote as the main side of each pair
+    this.db.prepare(`
+      INSERT INTO CoVoteCounts (poll_id, answer_id, other_poll_id, other_answer_id, count)
+      SELECT ?, ?, poll_id, answer_id, ?
+      FROM FirstPreferenceVotes
+      WHERE user_id = ? AND poll_id <> ?
+      ON CONFLICT (poll_id, other_poll_id, other_answer_id, answer_id)
+      DO UPDATE SET count = count + excluded.count
+    `).run(pollId, answerId, delta, userId, pollId);
+
+    // And as the other side, so both orientations stay in step
+    this.db.prepare(`
+      INSERT INTO CoVoteCounts (poll_id, answer_id, other_poll_id, other_answer_id, count)
+      SELECT poll_id, answer_id, ?, ?, ?
+      FROM FirstPreferenceVotes
+      WHERE user_id = ? AND poll_id <> ?
+      ON CONFLICT (poll_id, other_poll_id, other_answer_id, answer_id)
+      DO UPDATE SET count = count + excluded.count
+    `).run(pollId, answerId, delta, userId, pollId);
+
+    if (delta < 0) {
+      this.db.prepare(`
+        DELETE FROM CoVoteCounts
+        WHERE (poll_id = ? OR other_poll_id = ?) AND count <= 0
+      `).run(pollId, pollId);
+    }
+  }
+
+  /**
+   * Adjusts the co-vote aggregate for every pair of a user's votes, as when the user's
+   * votes are all removed or added at once. Rows left at zero by a negative delta are
+   * not deleted. Must run in the same transaction as the vote changes.
+   * @param userId User ID
+   * @param delta +1 to add the user's pairs, -1 to remove them
+   */
+  private adjustUserCoVoteCounts(userId: string, delta: number): void {
+    this.db.prepare(`
+      INSERT INTO CoVoteCounts (poll_id, answer_id, other_poll_id, other_answer_id, count)
+      SELECT v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id, ?
+      FROM FirstPreferenceVotes v1
+      JOIN FirstPreferenceVotes v2 ON v1.user_id = v2.user_id AND v1.poll_id <> v2.poll_id
+      WHERE v1.user_id = ?
+      ON CONFLICT (poll_id, other_poll_id, other_answer_id, answer_id)
+      DO UPDATE SET count = count + excluded.count
+    `).run(delta, userId);
+  }
+
+  /**
+   * Rebuilds the co-vote aggregate from scratch using the raw votes
+   * Use this to repair the aggregate after an inconsistency is detected
+   * @returns Number of answer pairs in the rebuilt aggregate
+   */
+  rebuildCoVoteCounts(): number {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM CoVoteCounts').run();
+
+      return this.db.prepare(`
+        INSERT INTO CoVoteCounts (poll_id, answer_id, other_poll_id, other_answer_id, count)
+        SELECT v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id, COUNT(*)
+        FROM FirstPreferenceVotes v1
+        JOIN FirstPreferenceVotes v2 ON v1.user_id = v2.user_id AND v1.poll_id <> v2.poll_id
+        GROUP BY v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id
+      `).run().changes;
+    })();
+  }
+
+  /**
+   * Compares the co-vote aggregate against the raw self-join of first-preference votes
+   * @returns Whether the aggregate is consistent, and every pair that differs
+   */
+  checkCoVoteCountsConsistency(): { consistent: boolean; mismatches: CoVoteMismatch[] } {
+    const rows = this.db.prepare(`
+      WITH expected AS (
+        SELECT v1.poll_id, v1.answer_id, v2.poll_id as other_poll_id, v2.answer_id as other_answer_id,
+          COUNT(*) as count
+        FROM FirstPreferenceVotes v1
+        JOIN FirstPreferenceVotes v2 ON v1.user_id = v2.user_id AND v1.poll_id <> v2.poll_id
+        GROUP BY v1.poll_id, v1.answer_id, v2.poll_id, v2.answer_id
+      )
+      SELECT e.poll_id, e.answer_id, e.other_poll_id, e.other_answer_id,
+        e.count as expected, COALESCE(a.count, 0) as actual
+      FROM expected e
+      LEFT JOIN CoVoteCounts a
+        ON a.poll_id = e.poll_id AND a.answer_id = e.answer_id
+        AND a.other_poll_id = e.other_poll_id AND a.other_answer_id = e.other_answer_id
+      WHERE a.count IS NULL OR a.count <> e.count
+      UNION ALL
+      SELECT a.poll_id, a.answer_id, a.other_poll_id, a.other_answer_id,
+        0 as expected, a.count as actual
+      FROM CoVoteCounts a
+      LEFT JOIN expected e
+        ON a.poll_id = e.poll_id AND a.answer_id = e.answer_id
+        AND a.other_poll_id = e.other_poll_id AND a.other_answer_id = e.other_answer_id
+      WHERE e.count IS NULL AND a.count <> 0
+    `).all() as CoVoteMismatchRow[];
+
+    const mismatches: CoVoteMismatch[] = rows.map(row => ({
+      pollId: row.poll_id,
+      answerId: row.answer_id,
+      otherPollId: row.other_poll_id,
+      otherAnswerId: row.other_answer_id,
+      expected: row.expected,
+      actual: row.actual
+    }));
+
+    return { consistent: mismatches.length === 0, mismatches };
+  }
+
+  // ========== Poll Score Operations ==========
+
+  /**
+   * Gets the number of distinct voters on every poll, with its creation time
+   * @returns One entry per poll, including polls without votes
+   */
+  getPollVoterTotals(): PollVoterTotal[] {
+    return this.db.prepare(`
+      SELECT p.id AS poll_id, p.created_at, COUNT(DISTINCT v.user_id) AS voter_count
+      FROM Polls p
+      LEFT JOIN Votes v ON v.poll_id = p.id
+      GROUP BY p.id
+    `).all() as PollVoterTotal[];
+  }
+
+  /**
+   * Gets when each voter first voted on each poll, for votes since a point in time
+   * Voters who selected several answers count once
+   * @param since ISO timestamp of the start of the window
+   * @returns One entry per poll and voter, oldest first
+   */
+  getPollVoteTimesSince(since: string): PollVoteTime[] {
+    return this.db.prepare(`
+      SELECT poll_id, MIN(created_at) AS voted_at
+      FROM Votes
+      WHERE created_at >= ?
+      GROUP BY poll_id, user_id
+      ORDER BY voted_at ASC
+    `).all(since) as PollVoteTime[];
+  }
+
+  /**
+   * Replaces every stored poll score
+   * @param scores Scores of every poll
+   * @param updatedAt Time the scores were computed (defaults to now)
+   */
+  replacePollScores(scores: PollScore[], updatedAt: string = new Date().toISOString()): void {
+    const insertScore = this.db.prepare(`
+      INSERT INTO PollScores (poll_id, voter_count, trending_score, hot_score, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM PollScores').run();
+      scores.forEach(score => {
+        insertScore.run(score.poll_id, score.voter_count, score.trending_score, score.hot_score, updatedAt);
+      });
+    })();
+  }
+
+  /**
+   * Gets the stored scores of a poll
+   * @param pollId Poll ID
+   * @returns The poll's scores, or null if it has not been scored yet
+   */
+  getPollScore(pollId: string): PollScore | null {
+    const row = this.db.prepare(
+      'SELECT poll_id, voter_count, trending_score, hot_score FROM PollScores WHERE poll_id = ?'
+    ).get(pollId) as PollScore | undefined;
+
+    return row || null;
+  }
+
+  // ========== Session Operations ==========
+
+  /**
+   * Starts a new session for a user
+   * @param userId User ID
+   * @param userAgent User agent of the client logging in, if known
+   * @returns The created session
+   */
+  createSession(userId: string, userAgent: string | null = null): Session {
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: uuidv4(),
+      user_id: userId,
+      created_at: now,
+      last_seen_at: now,
+      user_agent: userAgent,
+      revoked_at: null,
+      token_generation: 0,
+      rotated_at: null
+    };
+
+    this.db.prepare(`
+      INSERT INTO Sessions (id, user_id, created_at, last_seen_at, user_agent)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(session.id, userId, now, now, userAgent);
+
+    return session;
+  }
+
+  /**
+   * Gets a session by ID, whether or not it is still active
+   * @param id Session ID
+   * @returns Session or null if not found
+   */
+  getSessionById(id: string): Session | null {
+    const row = this.db.prepare('SELECT * FROM Sessions WHERE id = ?').get(id) as Session | undefined;
+    return row || null;
+  }
+
+  /**
+   * Gets a user's sessions that are neither revoked nor idle, most recently used first
+   * @param userId User ID
+   * @param seenSince ISO timestamp; sessions last seen before it have expired
+   * @returns Array of sessions
+   */
+  getActiveSessions(userId: string, seenSince: string): Session[] {
+    return this.db.prepare(`
+      SELECT * FROM Sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND last_seen_at >= ?
+      ORDER BY last_seen_at DESC, created_at DESC
+    `).all(userId, seenSince) as Session[];
+  }
+
+  /**
+   * Records that a session was used, extending its sliding expiry
+   * @param id Session ID
+   * @param lastSeenAt Time of use (defaults to now)
+   */
+  touchSession(id: string, lastSeenAt: string = new Date().toISOString()): void {
+    this.db.prepare('UPDATE Sessions SET last_seen_at = ? WHERE id = ?').run(lastSeenAt, id);
+  }
+
+  /**
+   * Moves a session on to its next token generation, so tokens of earlier generations
+   * stop being accepted
+   * @param id Session ID
+   * @param generation Generation of the token being replaced; nothing changes if the
+   * session has already moved past it
+   * @param rotatedAt Time of the rotation (defaults to now)
+   * @returns The new generation, or null if the token was already replaced
+   */
+  rotateSessionToken(id: string, generation: number, rotatedAt: string = new Date().toISOString()): number | null {
+    const row = this.db.prepare(`
+      UPDATE Sessions SET token_generation = token_generation + 1, rotated_at = ?
+      WHERE id = ? AND token_generation = ?
+      RETURNING token_generation
+    `).get(rotatedAt, id, generation) as { token_generation: number } | undefined;
+    return row ? row.token_generation : null;
+  }
+
+  /**
+   * Revokes one of a user's sessions
+   * @param id Session ID
+   * @param userId ID of the user the session must belong to
+   * @returns True if an active session was revoked
+   */
+  revokeSession(id: string, userId: string): boolean {
+    return this.db.prepare(`
+      UPDATE Sessions SET revoked_at = ?
+      WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+    `).run(new Date().toISOString(), id, userId).changes > 0;
+  }
+
+  /**
+   * Revokes every session of a user, logging them out everywhere
+   * @param userId User ID
+   * @returns Number of sessions revoked
+   */
+  revokeUserSessions(userId: string): number {
+    return this.db.prepare(`
+      UPDATE Sessions SET revoked_at = ?
+      WHERE user_id = ? AND revoked_at IS NULL
+    `).run(new Date().toISOString(), userId).changes;
+  }
+
+  // ========== Magic Link Operations ==========
+
+  /**
+   * Stores the token of a login link
+   * @param tokenHash Hash of the token
+   * @param email Address the link is sent to
+   * @param returnTo Local path to return to after logging in
+   * @param expiresAt ISO timestamp after which the link no longer logs in
+   * @returns The stored token
+   */
+  createMagicLinkToken(tokenHash: string, email: string, returnTo: string, expiresAt: string): MagicLinkToken {
+    const token: MagicLinkToken = {
+      token_hash: tokenHash,
+      email,
+      return_to: returnTo,
+      created_at: new Date().toISOString(),
+      expires_at: expiresAt,
+      consumed_at: null
+    };
+
+    this.db.prepare(`
+      INSERT INTO MagicLinkTokens (token_hash, email, return_to, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(tokenHash, email, returnTo, token.created_at, expiresAt);
+
+    return token;
+  }
+
+  /**
+   * Counts the login links sent to an address recently, used or not
+   * @param email Address
+   * @param since ISO timestamp; links created before it aren't counted
+   * @returns Number of links
+   */
+  countMagicLinkTokensSince(email: string, since: string): number {
+    return (this.db.prepare(`
+      SELECT COUNT(*) as count FROM MagicLinkTokens WHERE email = ? AND created_at >= ?
+    `).get(email, since) as { count: number }).count;
+  }
+
+  /**
+   * Uses up a login link's token. Checking and marking the token is one statement, so
+   * two requests with the same link can't both log in.
+   * @param tokenHash Hash of the token
+   * @param now ISO timestamp of use (defaults to now)
+   * @returns The token, or null if it doesn't exist, has expired or was already used
+   */
+  consumeMagicLinkToken(tokenHash: string, now: string = new Date().toISOString()): MagicLinkToken | null {
+    const row = this.db.prepare(`
+      UPDATE MagicLinkTokens SET consumed_at = ?
+      WHERE token_hash = ? AND consumed_at IS NULL AND expires_at > ?
+      RETURNING *
+    `).get(now, tokenHash, now) as MagicLinkToken | undefined;
+    return row || null;
+  }
+
+  /**
+   * Deletes the tokens of old login links
+   * @param createdBefore ISO timestamp; links created before it are deleted
+   * @returns Number of tokens deleted
+   */
+  deleteMagicLinkTokens(createdBefore: string): number {
+    return this.db.prepare('DELETE FROM MagicLinkTokens WHERE created_at < ?').run(createdBefore).changes;
+  }
+
+  // ========== API Key Operations ==========
+
+  /**
+   * Stores a new API key
+   * @param userId ID of the user the key acts as
+   * @param name Name of the key
+   * @param keyHash Hash of the key
+   * @param prefix Start of the key
+   * @param scopes What the key may be used for
+   * @returns The created key
+   */
+  createApiKey(userId: string, name: string, keyHash: string, prefix: string, scopes: string[]): ApiKey {
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      user_id: userId,
+      name,
+      prefix,
+      scopes,
+      created_at: new Date().toISOString(),
+      last_used_at: null,
+      revoked_at: null
+    };
+
+    this.db.prepare(`
+      INSERT INTO ApiKeys (id, user_id, name, key_hash, prefix, scopes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(apiKey.id, userId, name, keyHash, prefix, scopes.join(' '), apiKey.created_at);
+
+    return apiKey;
+  }
+
+  /**
+   * Gets an API key that hasn't been revoked by its hash
+   * @param keyHash Hash of the key
+   * @returns API key or null if not found or revoked
+   */
+  getApiKeyByHash(keyHash: string): ApiKey | null {
+    const row = this.db.prepare(`
+      SELECT * FROM ApiKeys WHERE key_hash = ? AND revoked_at IS NULL
+    `).get(keyHash) as ApiKeyRow | undefined;
+    return row ? toApiKey(row) : null;
+  }
+
+  /**
+   * Gets a user's API keys that haven't been revoked, newest first
+   * @param userId User ID
+   * @returns Array of API keys
+   */
+  getApiKeys(userId: string): ApiKey[] {
+    return (this.db.prepare(`
+      SELECT * FROM ApiKeys
+      WHERE user_id = ? AND revoked_at IS NULL
+      ORDER BY created_at DESC
+    `).all(userId) as ApiKeyRow[]).map(toApiKey);
+  }
+
+  /**
+   * Records that an API key was used
+   * @param id API key ID
+   * @param lastUsedAt Time of use (defaults to now)
+   */
+  touchApiKey(id: string, lastUsedAt: string = new Date().toISOString()): void {
+    this.db.prepare('UPDATE ApiKeys SET last_used_at = ? WHERE id = ?').run(lastUsedAt, id);
+  }
+
+  /**
+   * Revokes one of a user's API keys
+   * @param id API key ID
+   * @param userId ID of the user the key must belong to
+   * @returns True if a key that was in use was revoked
+   */
+  revokeApiKey(id: string, userId: string): boolean {
+    return this.db.prepare(`
+      UPDATE ApiKeys SET revoked_at = ?
+      WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+    `).run(new Date().toISOString(), id, userId).changes > 0;
+  }
+}
@@ -1,15 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
 import { dbUtils } from '../database';
+import { isPollAuthor } from '../auth';
+import { PollSortOrder, PollType, Vote, decodePollCursor } from '../database/utils';
+import { formatUserVote, getPollStatus } from '../polls/utils';
+import { computeScaleStatistics } from '../statistics';
+import { tallyRankedBallots } from '../tally';
+
+// Sort orders accepted by the feed
+const FEED_SORT_ORDERS: PollSortOrder[] = ['newest', 'oldest', 'relevance', 'trending', 'hot', 'most_voted'];
+
+/**
+ * Sends a 400 if a page cursor is given along with an offset, or doesn't belong to the listing
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectInvalidCursor = (
+  cursor: string | undefined,
+  offsetGiven: boolean,
+  sortBy: PollSortOrder,
+  searching: boolean,
+  res: Response
+): boolean => {
+  if (cursor === undefined) {
+    return false;
+  }
+
+  if (offsetGiven) {
+    res.status(400).json({
+      error: 'Invalid pagination',
+      message: 'Use either a cursor or an offset, not both'
+    });
+    return true;
+  }
+
+  if (!decodePollCursor(cursor, sortBy, searching)) {
+    res.status(400).json({
+      error: 'Invalid cursor',
+      message: 'Cursor is malformed or was issued for a different sort order'
+    });
+    return true;
+  }
+
+  return false;
+};
 
 /**
  * Get a paginated feed of polls with optional search functionality
  * 
  * Query parameters:
  * - limit: Maximum number of polls to return (default: 10)
- * - offset: Number of polls to skip (default: 0)
- * - q: Search query (optional)
- * - sort: Sort order - 'newest' or 'oldest' (default: 'newest')
+ * - cursor: Cursor of the page to get, from the previous page's pagination.nextCursor (optional).
+ *   Unlike offsets, cursors don't repeat or skip polls created while paging.
+ * - offset: Number of polls to skip (default: 0), when not paging by cursor
+ * - q: Search query, matched against questions and answers by prefix (optional)
+ * - sort: Sort order - 'newest', 'oldest', 'relevance', 'trending', 'hot' or 'most_voted'
+ *   (default: 'relevance' when searching, otherwise 'newest'). The score-based orders use
+ *   scores refreshed periodically in the background.
  * - authorId: Filter by author ID (optional)
+ *
+ * Search results include a snippet highlighting where each poll matched.
  */
 export const getFeed = async (
   req: Request,
@@ -20,8 +68,9 @@ export const getFeed = async (
     // Parse query parameters
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
     const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+    const cursor = req.query.cursor as string | undefined;
     const query = req.query.q as string | undefined;
-    const sortBy = (req.query.sort as 'newest' | 'oldest' | undefined) || 'newest';
+    const sortBy = (req.query.sort as PollSortOrder | undefined) || (query ? 'relevance' : 'newest');
     const authorId = req.query.authorId as string | undefined;
     
     // Validate pagination parameters
@@ -42,13 +91,17 @@ export const getFeed = async (
     }
     
     // Validate sort parameter
-    if (sortBy !== 'newest' && sortBy !== 'oldest') {
+    if (!FEED_SORT_ORDERS.includes(sortBy)) {
       res.status(400).json({
         error: 'Invalid sort parameter',
-        message: 'Sort must be either "newest" or "oldest"'
+        message: `Sort must be one of: ${FEED_SORT_ORDERS.map(order => `"${order}"`).join(', ')}`
       });
       return;
     }
+
+    if (rejectInvalidCursor(cursor, req.query.offset !== undefined, sortBy, Boolean(query), res)) {
+      return;
+    }
     
     // Validate authorId if provided
     if (authorId) {
@@ -66,35 +119,52 @@ export const getFeed = async (
     const result = dbUtils.getPolls({
       limit,
       offset,
+      cursor,
       sortBy,
       query,
       authorId
     });
     
+    // Load the page's authors, results and the user's votes for all polls at once
+    const pollIds = result.polls.map(({ poll }) => poll.id);
+    const pollIdsOfType = (type: PollType) => result.polls.filter(({ poll }) => poll.type === type).map(({ poll }) => poll.id);
+    const authors = dbUtils.getUsersByIds(result.polls.map(({ poll }) => poll.author_id));
+    const voteCounts = dbUtils.getVoteCountsByPollIds(pollIds);
+    const respondentCounts = dbUtils.getRespondentCountsByPollIds(pollIds);
+    const rankedBallots = dbUtils.getRankedBallotsByPollIds(pollIdsOfType('ranked'));
+    const scaleValues = dbUtils.getScaleValuesByPollIds(pollIdsOfType('scale'));
+    const userVotes = req.user ? dbUtils.getUserVotesByPollIds(req.user.id, pollIds) : new Map<string, Vote[]>();
+    const userWriteIns = req.user ? dbUtils.getUserWriteInsByPollIds(req.user.id, pollIds) : new Map<string, string>();
+    
     // Enhance poll data with author info
-    const pollsWithAuthors = await Promise.all(
-      result.polls.map(async ({ poll, answers }) => {
-        const author = dbUtils.getUserById(poll.author_id);
-        const voteCounts = dbUtils.getVoteCounts(poll.id);
-        
-        // Check if authenticated user has voted
-        let userVote = null;
-        if (req.user) {
-          userVote = dbUtils.getUserVote(req.user.id, poll.id);
-        }
-        
-        return {
-          poll,
-          answers,
-          author: {
-            id: author?.id,
-            name: author?.name
-          },
-          voteCounts,
-          userVote: userVote ? { answerId: userVote.answer_id } : null
-        };
-      })
-    );
+    const pollsWithAuthors = result.polls.map(({ poll, answers, snippet }) => {
+      const author = authors.get(poll.author_id);
+      
+      return {
+        poll,
+        answers,
+        author: {
+          id: author?.id,
+          name: author?.name
+        },
+        voteCounts: voteCounts.get(poll.id),
+        respondentCount: respondentCounts.get(poll.id),
+        rankedResults: poll.type === 'ranked'
+          ? tallyRankedBallots(answers.map(answer => answer.id), rankedBallots.get(poll.id)!)
+          : undefined,
+        scaleResults: poll.type === 'scale'
+          ? computeScaleStatistics(scaleValues.get(poll.id)!, {
+              min: poll.scale_min!,
+              max: poll.scale_max!,
+              step: poll.scale_step!
+            })
+          : undefined,
+        userVote: formatUserVote(userVotes.get(poll.id) ?? [], userWriteIns.get(poll.id) ?? null),
+        isAuthor: isPollAuthor(req.user, poll),
+        status: getPollStatus(poll),
+        snippet
+      };
+    });
     
     // Return paginated results
     res.json({
@@ -103,7 +173,8 @@ export const getFeed = async (
         total: result.totalCount,
         limit,
         offset,
-        hasMore: offset + limit < result.totalCount
+        nextCursor: result.nextCursor,
+        hasMore: result.nextCursor !== null
       }
     });
   } catch (error) {
@@ -118,9 +189,10 @@ export const getFeed = async (
  * - id: The ID of the poll to find cross-references for
  * 
  * Query parameters:
- * - q: Search query (optional)
+ * - q: Search query, ranked by relevance with a snippet per poll (optional)
  * - limit: Maximum number of polls to return (default: 10)
- * - offset: Number of polls to skip (default: 0)
+ * - cursor: Cursor of the page to get, from the previous page's pagination.nextCursor (optional)
+ * - offset: Number of polls to skip (default: 0), when not paging by cursor
  * - p1, p2, etc.: IDs of already cross-referenced polls to exclude
  */
 export const searchCrossReferences = async (
@@ -153,6 +225,7 @@ export const searchCrossReferences = async (
     const query = req.query.q as string | undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
     const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+    const cursor = req.query.cursor as string | undefined;
     
     // Validate pagination parameters
     if (isNaN(limit) || limit < 1 || limit > 50) {
@@ -170,6 +243,10 @@ export const searchCrossReferences = async (
       });
       return;
     }
+
+    if (rejectInvalidCursor(cursor, req.query.offset !== undefined, 'relevance', Boolean(query), res)) {
+      return;
+    }
     
     // Extract any existing cross-referenced poll IDs to exclude
     const excludePollIds: string[] = [];
@@ -187,24 +264,25 @@ export const searchCrossReferences = async (
       query,
       excludePollIds,
       limit,
-      offset
+      offset,
+      cursor
     });
     
-    // Enhance poll data with author info
-    const pollsWithAuthors = await Promise.all(
-      result.polls.map(async ({ poll, answers }) => {
-        const author = dbUtils.getUserById(poll.author_id);
-        
-        return {
-          poll,
-          answers,
-          author: {
-            id: author?.id,
-            name: author?.name
-          }
-        };
-      })
-    );
+    // Enhance poll data with author info, loading the page's authors at once
+    const authors = dbUtils.getUsersByIds(result.polls.map(({ poll }) => poll.author_id));
+    const pollsWithAuthors = result.polls.map(({ poll, answers, snippet }) => {
+      const author = authors.get(poll.author_id);
+      
+      return {
+        poll,
+        answers,
+        author: {
+          id: author?.id,
+          name: author?.name
+        },
+        snippet
+      };
+    });
     
     // Return paginated results
     res.json({
@@ -213,7 +291,8 @@ export const searchCrossReferences = async (
         total: result.totalCount,
         limit,
         offset,
-        hasMore: offset + limit < result.totalCount
+        nextCursor: result.nextCursor,
+        hasMore: result.nextCursor !== null
       }
     });
   } catch (error) {
@@ -0,0 +1,13 @@
+import { parseIntegerEnv } from '../config';
+
+/**
+ * Live update configuration settings
+ */
+export const LIVE_CONFIG = {
+  // Minimum time between two updates of the same poll; votes arriving in between are
+  // coalesced into one update. 0 sends an update as soon as a vote is recorded.
+  THROTTLE_MS: parseIntegerEnv(process.env.LIVE_THROTTLE_MS, 1000),
+
+  // How often an idle stream sends a comment, so proxies don't close it
+  HEARTBEAT_INTERVAL_MS: 25 * 1000
+};
@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Results of a poll pushed to live subscribers; voteCounts map answer IDs to vote counts
+ */
+export interface LiveResults {
+  voteCounts: Record<string, number>;
+}
+
+/**
+ * A live update: the change in each answer's vote count since the subscriber's previous
+ * update, along with the poll's other results as they are now
+ */
+export type LiveUpdate<Results extends LiveResults> = Omit<Results, 'voteCounts'> & {
+  voteCounts: Record<string, number>;
+};
+
+// Throttling state of a poll with subscribers
+interface Channel {
+  timer: NodeJS.Timeout | null;
+  lastUpdateAt: number;
+}
+
+/**
+ * Gets how each answer's vote count changed
+ * @param previous Vote counts the subscriber has
+ * @param current Vote counts now
+ * @returns The change of every answer whose count changed
+ */
+export function diffVoteCounts(
+  previous: Record<string, number>,
+  current: Record<string, number>
+): Record<string, number> {
+  const delta: Record<string, number> = {};
+
+  new Set([...Object.keys(previous), ...Object.keys(current)]).forEach(answerId => {
+    const change = (current[answerId] ?? 0) - (previous[answerId] ?? 0);
+    if (change !== 0) {
+      delta[answerId] = change;
+    }
+  });
+
+  return delta;
+}
+
+/**
+ * In-process pub/sub of poll results. Publishing a vote change schedules one update of the
+ * poll: votes arriving while it is pending are coalesced, and a poll is updated at most
+ * once per throttle interval however many votes it gets. The results are loaded once
+ * per update and shared by all of the poll's subscribers.
+ */
+export class PollUpdateHub<Results extends LiveResults> {
+  private emitter = new EventEmitter();
+  private channels = new Map<string, Channel>();
+  private loadResults: (pollId: string) => Results | null;
+  private throttleMs: number;
+
+  /**
+   * @param loadResults Loads a poll's current results, or null if the poll no longer exists
+   * @param throttleMs Minimum time between two updates of the same poll
+   */
+  constructor(loadResults: (pollId: string) => Results | null, throttleMs: number) {
+    this.loadResults = loadResults;
+    this.throttleMs = throttleMs;
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Subscribes to a poll's results
+   * @param pollId Poll ID
+   * @param listener Called with each update, or with null once the poll has been deleted
+   * @returns The poll's current results, which the updates are relative to, and a function
+   * ending the subscription; or null if the poll does not exist
+   */
+  subscribe(
+    pollId: string,
+    listener: (update: LiveUpdate<Results> | null) => void
+  ): { snapshot: Results; unsubscribe: () => void } | null {
+    const snapshot = this.loadResults(pollId);
+    if (!snapshot) {
+      return null;
+    }
+
+    // Each subscriber gets the changes since its own previous update
+    let voteCounts = snapshot.voteCounts;
+    const handleResults = (results: Results | null) => {
+      if (!results) {
+        listener(null);
+        return;
+      }
+
+      const delta = diffVoteCounts(voteCounts, results.voteCounts);
+      voteCounts = results.voteCounts;
+      listener({ ...results, voteCounts: delta });
+    };
+
+    if (!this.channels.has(pollId)) {
+      this.channels.set(pollId, { timer: null, lastUpdateAt: 0 });
+    }
+    this.emitter.on(pollId, handleResults);
+
+    const unsubscribe = () => {
+      this.emitter.off(pollId, handleResults);
+
+      const channel = this.channels.get(pollId);
+      if (channel && this.emitter.listenerCount(pollId) === 0) {
+        if (channel.timer) clearTimeout(channel.timer);
+        this.channels.delete(pollId);
+      }
+    };
+
+    return { snapshot, unsubscribe };
+  }
+
+  /**
+   * Signals that a poll's votes changed, scheduling an update if it has subscribers
+   * @param pollId Poll ID
+   */
+  publish(pollId: string): void {
+    const channel = this.channels.get(pollId);
+    if (!channel || channel.timer) {
+      return;
+    }
+
+    const delay = Math.max(0, channel.lastUpdateAt + this.throttleMs - Date.now());
+    channel.timer = setTimeout(() => this.update(pollId, channel), delay);
+  }
+
+  /**
+   * Gets the number of polls with subscribers
+   */
+  get subscribedPollCount(): number {
+    return this.channels.size;
+  }
+
+  /**
+   * Loads a poll's results and sends them to its subscribers
+   * A failed load is logged; the next vote schedules another update
+   */
+  private update(pollId: string, channel: Channel): void {
+    channel.timer = null;
+    channel.lastUpdateAt = Date.now();
+
+    try {
+      this.emitter.emit(pollId, this.loadResults(pollId));
+    } catch (error) {
+      console.error(`Error sending live update of poll ${pollId}:`, error);
+    }
+  }
+}
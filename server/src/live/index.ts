@@ -0,0 +1,11 @@
+import { LIVE_CONFIG } from './config';
+import { PollUpdateHub, diffVoteCounts, type LiveResults, type LiveUpdate } from './hub';
+
+export {
+  LIVE_CONFIG,
+  PollUpdateHub,
+  diffVoteCounts
+};
+
+// Re-export types with correct syntax for isolatedModules
+export type { LiveResults, LiveUpdate };
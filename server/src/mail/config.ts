@@ -0,0 +1,32 @@
+import path from 'path';
+import { parseIntegerEnv } from '../config';
+
+/**
+ * Which transport sends mail:
+ * - smtp: through the SMTP server configured below
+ * - file: writes each message to an .eml file in FILE_DIR, for development and tests
+ * - console: prints each message, for development
+ */
+export type MailTransportType = 'smtp' | 'file' | 'console';
+
+/**
+ * Outgoing mail configuration settings
+ */
+export const MAIL_CONFIG = {
+  TRANSPORT: (process.env.MAIL_TRANSPORT
+    || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console')) as MailTransportType,
+
+  // Sender of every message, as an address or "Name <address>"
+  FROM: process.env.MAIL_FROM || 'EveryPoll <no-reply@everypoll.com>',
+
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: parseIntegerEnv(process.env.SMTP_PORT, 587, { min: 1, max: 65535 }),
+  // Connect with TLS from the start (usually port 465) instead of upgrading with STARTTLS
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || null,
+  SMTP_PASS: process.env.SMTP_PASS || null,
+
+  FILE_DIR: process.env.MAIL_FILE_DIR
+    ? path.resolve(process.env.MAIL_FILE_DIR)
+    : path.join(__dirname, '../../../data/mail')
+};
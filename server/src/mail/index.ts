@@ -0,0 +1,27 @@
+import { MAIL_CONFIG, type MailTransportType } from './config';
+import {
+  createMailTransport,
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+  formatMailMessage,
+  type MailMessage,
+  type MailTransport,
+  type SmtpTransportOptions
+} from './transports';
+import { getMailTransport, setMailTransport, sendMail } from './mailer';
+
+export {
+  MAIL_CONFIG,
+  createMailTransport,
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+  formatMailMessage,
+  getMailTransport,
+  setMailTransport,
+  sendMail
+};
+
+// Re-export types with correct syntax for isolatedModules
+export type { MailMessage, MailTransport, MailTransportType, SmtpTransportOptions };
@@ -0,0 +1,29 @@
+import { createMailTransport, type MailMessage, type MailTransport } from './transports';
+
+// Created from the configuration on first use
+let transport: MailTransport | null = null;
+
+/**
+ * Gets the transport mail is sent with
+ * @returns Mail transport
+ */
+export function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+/**
+ * Replaces the transport mail is sent with
+ * @param replacement Mail transport, or null to go back to the configured one
+ */
+export function setMailTransport(replacement: MailTransport | null): void {
+  transport = replacement;
+}
+
+/**
+ * Sends a message with the current transport
+ * @param message Message to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
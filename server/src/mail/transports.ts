@@ -0,0 +1,366 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { v4 as uuidv4 } from 'uuid';
+import { MAIL_CONFIG } from './config';
+
+/**
+ * A plain text email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends email. Transports are interchangeable, so development and tests can capture
+ * mail instead of delivering it.
+ */
+export interface MailTransport {
+  /**
+   * Sends a message
+   * @param message Message to send
+   * @throws If the message could not be handed over for delivery
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Settings of an SMTP server to send mail through
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  // Connect with TLS from the start instead of upgrading with STARTTLS
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+  // Time to wait for each server reply before giving up
+  timeoutMs?: number;
+}
+
+/**
+ * Gets the bare address out of "Name <address>"
+ * @param mailbox Address, with or without a display name
+ * @returns The address
+ */
+function getAddress(mailbox: string): string {
+  return (/<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox).trim();
+}
+
+/**
+ * Keeps a header value on one line, so it can't add headers of its own
+ * @param value Header value
+ * @returns Value without line breaks
+ */
+function toHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Encodes a header value with non-ASCII characters as an RFC 2047 encoded word
+ * @param value Header value
+ * @returns Value that is safe to send as ASCII
+ */
+function encodeHeaderValue(value: string): string {
+  const singleLine = toHeaderValue(value);
+  // eslint-disable-next-line no-control-regex
+  return /^[\x00-\x7f]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Formats a message as an RFC 5322 email with CRLF line endings
+ * @param from Sender
+ * @param message Message to format
+ * @returns The email's headers and body
+ */
+export function formatMailMessage(from: string, message: MailMessage): string {
+  const text = message.text.replace(/\r?\n/g, '\r\n');
+  // eslint-disable-next-line no-control-regex
+  const isAscii = /^[\x00-\x7f]*$/.test(text);
+
+  return [
+    `From: ${toHeaderValue(from)}`,
+    `To: ${toHeaderValue(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${getAddress(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Transfer-Encoding: ${isAscii ? '7bit' : 'base64'}`,
+    '',
+    isAscii ? text : Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+  ].join('\r\n');
+}
+
+/**
+ * Creates a transport that prints messages instead of sending them
+ * @returns Mail transport
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    send: async message => {
+      console.log(`Mail to ${message.to}: ${message.subject}\n\n${message.text}\n`);
+    }
+  };
+}
+
+/**
+ * Creates a transport that writes each message to an .eml file instead of sending it.
+ * Files are named by the time they were written, so they sort in sending order.
+ * @param dir Directory to write messages to, created if missing
+ * @param from Sender
+ * @returns Mail transport
+ */
+export function createFileTransport(dir: string, from: string = MAIL_CONFIG.FROM): MailTransport {
+  // Keeps messages written in the same millisecond in order
+  let sequence = 0;
+
+  return {
+    send: async message => {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const fileName = `${timestamp}-${String(sequence++ % 1000000).padStart(6, '0')}-${uuidv4()}.eml`;
+      await fs.promises.writeFile(path.join(dir, fileName), formatMailMessage(from, message));
+    }
+  };
+}
+
+/**
+ * A reply from an SMTP server: its code and text, with the lines of a multiline reply
+ * joined by newlines
+ */
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * One connection to an SMTP server, sending commands and reading their replies
+ */
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+  private readonly listeners = {
+    data: (chunk: Buffer) => this.receive(chunk.toString('utf8')),
+    error: (error: Error) => this.fail(error),
+    close: () => this.fail(new Error('SMTP connection closed')),
+    timeout: () => {
+      this.fail(new Error('SMTP server timed out'));
+      this.socket.destroy();
+    }
+  };
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  /**
+   * Reads the next reply, checking its code
+   * @param expected Codes that mean success
+   * @param context What the reply is for, to describe a failure
+   * @returns The reply
+   */
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Sends a command and reads its reply, checking its code
+   * @param command Command line, without the line ending
+   * @param expected Codes that mean success
+   * @param context What the command is, to describe a failure without repeating credentials
+   * @returns The reply
+   */
+  async command(command: string, expected: number[], context = command.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${command}\r\n`);
+    return this.expect(expected, context);
+  }
+
+  /**
+   * Switches the connection to TLS after a STARTTLS command was accepted
+   * @param servername Host name the certificate must be for
+   */
+  async upgrade(servername: string): Promise<void> {
+    const plainSocket = this.detach();
+    const secureSocket = tls.connect({ socket: plainSocket, servername });
+
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.detach().destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', this.listeners.data);
+    socket.on('error', this.listeners.error);
+    socket.on('close', this.listeners.close);
+    socket.on('timeout', this.listeners.timeout);
+  }
+
+  private detach(): net.Socket {
+    this.socket.off('data', this.listeners.data);
+    this.socket.off('error', this.listeners.error);
+    this.socket.off('close', this.listeners.close);
+    this.socket.off('timeout', this.listeners.timeout);
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // A reply ends with a line whose code is followed by a space instead of a dash
+  private receive(text: string): void {
+    this.buffer += text;
+
+    let index;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      if (line.charAt(3) !== '-') {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          text: this.lines.map(replyLine => replyLine.slice(4)).join('\n')
+        };
+        this.lines = [];
+
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      this.waiting.reject(this.error);
+      this.waiting = null;
+    }
+  }
+}
+
+/**
+ * Opens a TCP or TLS connection
+ * @param options SMTP server settings
+ * @returns Connected socket
+ */
+function connect(options: SmtpTransportOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Creates a transport that sends mail through an SMTP server, upgrading the connection
+ * with STARTTLS where the server offers it. Each message is sent over a new connection.
+ * @param options SMTP server settings
+ * @returns Mail transport
+ */
+export function createSmtpTransport(options: SmtpTransportOptions): MailTransport {
+  return {
+    send: async message => {
+      const socket = await connect(options);
+      const connection = new SmtpConnection(socket, options.timeoutMs ?? 30 * 1000);
+
+      try {
+        await connection.expect([220], 'greeting');
+        let capabilities = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+        if (!connection.encrypted && /^STARTTLS$/im.test(capabilities.text)) {
+          await connection.command('STARTTLS', [220]);
+          await connection.upgrade(options.host);
+          capabilities = await connection.command(`EHLO ${os.hostname()}`, [250]);
+        }
+
+        if (options.user) {
+          // Never send the password where it can be read on the way
+          if (!connection.encrypted) {
+            throw new Error('SMTP server does not support TLS, refusing to send credentials');
+          }
+          const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`, 'utf8').toString('base64');
+          await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+        }
+
+        await connection.command(`MAIL FROM:<${getAddress(options.from)}>`, [250]);
+        await connection.command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251]);
+        await connection.command('DATA', [354]);
+
+        // Lines starting with a dot are escaped, as a lone dot ends the message
+        const data = formatMailMessage(options.from, message).replace(/^\./gm, '..');
+        await connection.command(`${data}\r\n.`, [250], 'message');
+
+        await connection.command('QUIT', [221]);
+      } finally {
+        connection.close();
+      }
+    }
+  };
+}
+
+/**
+ * Creates the transport selected in the mail configuration
+ * @param config Mail configuration
+ * @returns Mail transport
+ */
+export function createMailTransport(config: typeof MAIL_CONFIG = MAIL_CONFIG): MailTransport {
+  switch (config.TRANSPORT) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        user: config.SMTP_USER,
+        pass: config.SMTP_PASS,
+        from: config.FROM
+      });
+    case 'file':
+      return createFileTransport(config.FILE_DIR, config.FROM);
+    default:
+      return createConsoleTransport();
+  }
+}
@@ -1,5 +1,322 @@
 import { Request, Response, NextFunction } from 'express';
 import { dbUtils } from '../database';
+import { Answer, CrosstabCondition, Poll, Vote, normalizeWriteIn } from '../database/utils';
+import {
+  computeCrossReferenceStatistics,
+  computeScaleStatistics,
+  cramersV,
+  chiSquareTest,
+  rankAnswerPairEffects,
+  CrossReferenceStatistics,
+  ScaleStatistics
+} from '../statistics';
+import { PRIVACY_CONFIG, hasSmallCells, isPopulationTooSmall, suppressSmallBins, suppressSmallCounts } from '../privacy';
+import { tallyRankedBallots, RankedTally } from '../tally';
+import { LIVE_CONFIG, LiveUpdate, PollUpdateHub } from '../live';
+import { canChangeVote, canManagePoll, isPollAuthor } from '../auth';
+import { formatUserVote, getPollStatus, isValueOnScale, parseScheduleTime } from './utils';
+
+// Maximum number of polls that can be intersected in a single crosstab
+const MAX_CROSSTAB_CONDITIONS = 10;
+
+// Default minimum number of shared voters for a poll to be suggested as correlated
+const DEFAULT_MIN_SHARED_VOTERS = 5;
+
+// Number of strongest answer-pair effects returned per correlated poll
+const MAX_CORRELATION_EFFECTS = 3;
+
+// Maximum number of points on a scale poll (e.g. 0 to 100 in steps of 1)
+const MAX_SCALE_POINTS = 101;
+
+// Longest text a voter can write in for a poll's "Other" answer
+const MAX_WRITE_IN_LENGTH = 100;
+
+/**
+ * Sends a 403 if the poll is outside its voting window
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectOutsideVotingWindow = (poll: Poll, res: Response): boolean => {
+  const status = getPollStatus(poll);
+
+  if (status === 'scheduled') {
+    res.status(403).json({
+      error: 'Poll not open',
+      message: `This poll opens for voting at ${poll.opens_at}`,
+      opensAt: poll.opens_at
+    });
+    return true;
+  }
+
+  if (status === 'closed') {
+    res.status(403).json({
+      error: 'Poll closed',
+      message: `This poll closed for voting at ${poll.closes_at}`,
+      closesAt: poll.closes_at
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Reads the selected answers from a vote request body
+ * Accepts either a single answerId or an answerIds array
+ * @returns The selected answer IDs (empty if none were given)
+ */
+const getSelectedAnswerIds = (body: { answerId?: unknown; answerIds?: unknown }): unknown[] => {
+  if (Array.isArray(body.answerIds)) {
+    return body.answerIds;
+  }
+
+  return body.answerId ? [body.answerId] : [];
+};
+
+/**
+ * Tallies a ranked poll by instant runoff and Borda count
+ * @returns The tallies, or undefined for unranked polls
+ */
+const getRankedResults = (pollResult: { poll: Poll; answers: Answer[] }): RankedTally | undefined => {
+  if (pollResult.poll.type !== 'ranked') {
+    return undefined;
+  }
+
+  return tallyRankedBallots(
+    pollResult.answers.map(answer => answer.id),
+    dbUtils.getRankedBallots(pollResult.poll.id)
+  );
+};
+
+/**
+ * Gets the range and step of a scale poll
+ */
+const getScale = (poll: Poll): { min: number; max: number; step: number } => ({
+  min: poll.scale_min!,
+  max: poll.scale_max!,
+  step: poll.scale_step!
+});
+
+/**
+ * Computes the distribution of the values chosen on a scale poll
+ * @returns The statistics, or undefined for other poll types
+ */
+const getScaleResults = (pollResult: { poll: Poll; answers: Answer[] }): ScaleStatistics | undefined => {
+  if (pollResult.poll.type !== 'scale') {
+    return undefined;
+  }
+
+  return computeScaleStatistics(dbUtils.getScaleValues(pollResult.poll.id), getScale(pollResult.poll));
+};
+
+/**
+ * Results of a poll sent to live subscribers
+ */
+interface PollLiveResults {
+  voteCounts: Record<string, number>;
+  respondentCount: number;
+  rankedResults?: RankedTally;
+  scaleResults?: ScaleStatistics;
+}
+
+/**
+ * Loads the results of a poll for its live subscribers
+ * @returns The results, or null if the poll no longer exists
+ */
+const getLiveResults = (pollId: string): PollLiveResults | null => {
+  const pollResult = dbUtils.getPollById(pollId);
+  if (!pollResult) {
+    return null;
+  }
+
+  return {
+    voteCounts: dbUtils.getVoteCounts(pollId),
+    respondentCount: dbUtils.getRespondentCount(pollId),
+    rankedResults: getRankedResults(pollResult),
+    scaleResults: getScaleResults(pollResult)
+  };
+};
+
+// Pushes result updates to the streams of polls whose votes change
+const pollUpdates = new PollUpdateHub(getLiveResults, LIVE_CONFIG.THROTTLE_MS);
+
+/**
+ * Sends a 400 if a new scale poll's scale is not valid: min, max and step must be
+ * numbers, the range must be a whole number of steps, and labels must be text
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectInvalidScale = (scale: unknown, res: Response): boolean => {
+  const { min = 1, max = 5, step = 1, minLabel, maxLabel } = (scale ?? {}) as Record<string, unknown>;
+
+  const reject = (message: string): boolean => {
+    res.status(400).json({
+      error: 'Invalid scale',
+      message
+    });
+    return true;
+  };
+
+  if (typeof scale !== 'object' && scale !== undefined) {
+    return reject('Scale must be an object with min, max and step');
+  }
+
+  if (typeof min !== 'number' || typeof max !== 'number' || typeof step !== 'number' ||
+      ![min, max, step].every(Number.isFinite)) {
+    return reject('Scale min, max and step must be numbers');
+  }
+
+  if (max <= min || step <= 0) {
+    return reject('Scale max must be greater than min, and step must be positive');
+  }
+
+  const points = (max - min) / step + 1;
+  if (Math.abs(points - Math.round(points)) > 1e-9) {
+    return reject('Scale range must be a whole number of steps');
+  }
+
+  if (points > MAX_SCALE_POINTS) {
+    return reject(`Scale cannot have more than ${MAX_SCALE_POINTS} points`);
+  }
+
+  if ([minLabel, maxLabel].some(label => label !== undefined && label !== null && typeof label !== 'string')) {
+    return reject('Scale labels must be text');
+  }
+
+  return false;
+};
+
+/**
+ * Sends a 400 if a value is not on a scale poll's scale
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectInvalidValue = (poll: Poll, value: unknown, res: Response): boolean => {
+  if (isValueOnScale(poll, value)) {
+    return false;
+  }
+
+  res.status(400).json({
+    error: 'Invalid value',
+    message: `Value must be between ${poll.scale_min} and ${poll.scale_max} in steps of ${poll.scale_step}`
+  });
+  return true;
+};
+
+/**
+ * Sends a 400 if the selected answers are not valid for the poll: every answer must
+ * belong to the poll, single-choice polls take one answer, multiple-choice polls take
+ * up to max_choices distinct answers, and ranked polls take a ranking of every answer
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectInvalidSelection = (
+  pollResult: { poll: Poll; answers: Answer[] },
+  answerIds: unknown[],
+  res: Response
+): boolean => {
+  if (answerIds.length === 0) {
+    res.status(400).json({
+      error: 'Missing answer ID',
+      message: 'Answer ID is required'
+    });
+    return true;
+  }
+
+  const invalidAnswerId = answerIds.find(
+    answerId => typeof answerId !== 'string' || !pollResult.answers.some(answer => answer.id === answerId)
+  );
+  if (invalidAnswerId !== undefined) {
+    res.status(400).json({
+      error: 'Invalid answer',
+      message: 'The provided answer ID does not belong to this poll'
+    });
+    return true;
+  }
+
+  if (new Set(answerIds).size !== answerIds.length) {
+    res.status(400).json({
+      error: 'Duplicate answer',
+      message: 'Each answer can only be selected once'
+    });
+    return true;
+  }
+
+  if (pollResult.poll.type === 'ranked') {
+    if (answerIds.length !== pollResult.answers.length) {
+      res.status(400).json({
+        error: 'Incomplete ranking',
+        message: 'Rank every answer of this poll, in order of preference'
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  const maxChoices = pollResult.poll.type === 'multiple' ? pollResult.poll.max_choices ?? pollResult.answers.length : 1;
+  if (answerIds.length > maxChoices) {
+    res.status(400).json({
+      error: 'Too many choices',
+      message: maxChoices === 1
+        ? 'This poll accepts only one answer'
+        : `This poll accepts up to ${maxChoices} answers`
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Reads the optional write-in from a vote request body
+ * @returns The trimmed write-in text, undefined if none was given, or null if it is not text
+ */
+const getWriteIn = (body: { writeIn?: unknown }): string | null | undefined => {
+  if (body.writeIn === undefined || body.writeIn === null || body.writeIn === '') {
+    return undefined;
+  }
+
+  return typeof body.writeIn === 'string' ? body.writeIn.trim() || undefined : null;
+};
+
+/**
+ * Sends a 400 if a write-in does not match the selection: selecting the poll's "Other"
+ * answer requires a write-in of at most MAX_WRITE_IN_LENGTH characters, and a write-in
+ * is only accepted along with the "Other" answer
+ * @returns True if the response was sent and the caller should stop
+ */
+const rejectInvalidWriteIn = (
+  pollResult: { poll: Poll; answers: Answer[] },
+  answerIds: unknown[],
+  writeIn: string | null | undefined,
+  res: Response
+): boolean => {
+  const writeInAnswer = pollResult.answers.find(answer => answer.is_write_in);
+  const selectsWriteIn = writeInAnswer !== undefined && answerIds.includes(writeInAnswer.id);
+
+  if (writeIn === null || (writeIn !== undefined && !selectsWriteIn)) {
+    res.status(400).json({
+      error: 'Invalid write-in',
+      message: 'A write-in must be text and can only be given when selecting "Other"'
+    });
+    return true;
+  }
+
+  if (selectsWriteIn && writeIn === undefined) {
+    res.status(400).json({
+      error: 'Missing write-in',
+      message: 'Write in your answer when selecting "Other"'
+    });
+    return true;
+  }
+
+  if (writeIn !== undefined && writeIn.length > MAX_WRITE_IN_LENGTH) {
+    res.status(400).json({
+      error: 'Write-in too long',
+      message: `A write-in can be at most ${MAX_WRITE_IN_LENGTH} characters`
+    });
+    return true;
+  }
+
+  return false;
+};
 
 /**
  * Creates a new poll
@@ -11,7 +328,17 @@ export const createPoll = async (
 ): Promise<void> => {
   try {
     // Validate request body
-    const { question, answers } = req.body;
+    const {
+      question,
+      answers,
+      opensAt: rawOpensAt,
+      closesAt: rawClosesAt,
+      votesLocked,
+      type = 'single',
+      maxChoices,
+      scale,
+      allowWriteIns
+    } = req.body;
 
     if (!question || !question.trim()) {
       res.status(400).json({
@@ -21,28 +348,111 @@ export const createPoll = async (
       return;
     }
 
-    if (!answers || !Array.isArray(answers) || answers.length < 2) {
+    if (type !== 'single' && type !== 'multiple' && type !== 'ranked' && type !== 'scale') {
+      res.status(400).json({
+        error: 'Invalid poll type',
+        message: "Poll type must be 'single', 'multiple', 'ranked' or 'scale'"
+      });
+      return;
+    }
+
+    if (type === 'scale') {
+      // Scale polls are answered with a number rather than answer options
+      if (answers !== undefined && !(Array.isArray(answers) && answers.length === 0)) {
+        res.status(400).json({
+          error: 'Invalid answers',
+          message: 'Scale polls do not have answer options'
+        });
+        return;
+      }
+
+      if (rejectInvalidScale(scale, res)) {
+        return;
+      }
+    } else {
+      if (!answers || !Array.isArray(answers) || answers.length < 2) {
+        res.status(400).json({
+          error: 'Invalid answers',
+          message: 'Poll must have at least 2 answer options'
+        });
+        return;
+      }
+
+      if (answers.length > 10) {
+        res.status(400).json({
+          error: 'Too many answers',
+          message: 'Poll cannot have more than 10 answer options'
+        });
+        return;
+      }
+
+      // Check if all answers have text
+      const emptyAnswerIndex = answers.findIndex((answer: unknown) => !answer || !(answer as string).trim());
+      if (emptyAnswerIndex !== -1) {
+        res.status(400).json({
+          error: 'Empty answer',
+          message: `Answer option ${emptyAnswerIndex + 1} is empty`
+        });
+        return;
+      }
+    }
+
+    // Validate the optional voting window
+    const opensAt = parseScheduleTime(rawOpensAt);
+    const closesAt = parseScheduleTime(rawClosesAt);
+
+    if (opensAt === undefined || closesAt === undefined) {
+      res.status(400).json({
+        error: 'Invalid schedule',
+        message: 'opensAt and closesAt must be ISO 8601 timestamps'
+      });
+      return;
+    }
+
+    if (closesAt && Date.parse(closesAt) <= Date.now()) {
       res.status(400).json({
-        error: 'Invalid answers',
-        message: 'Poll must have at least 2 answer options'
+        error: 'Invalid schedule',
+        message: 'Closing time must be in the future'
       });
       return;
     }
 
-    if (answers.length > 10) {
+    if (opensAt && closesAt && Date.parse(closesAt) <= Date.parse(opensAt)) {
       res.status(400).json({
-        error: 'Too many answers',
-        message: 'Poll cannot have more than 10 answer options'
+        error: 'Invalid schedule',
+        message: 'Closing time must be after opening time'
+      });
+      return;
+    }
+
+    if (votesLocked !== undefined && typeof votesLocked !== 'boolean') {
+      res.status(400).json({
+        error: 'Invalid votesLocked',
+        message: 'votesLocked must be a boolean'
+      });
+      return;
+    }
+
+    if (
+      allowWriteIns !== undefined &&
+      (typeof allowWriteIns !== 'boolean' || (allowWriteIns && type !== 'single' && type !== 'multiple'))
+    ) {
+      res.status(400).json({
+        error: 'Invalid allowWriteIns',
+        message: 'allowWriteIns must be a boolean, and only single- and multiple-choice polls can have write-ins'
       });
       return;
     }
 
-    // Check if all answers have text
-    const emptyAnswerIndex = answers.findIndex((answer) => !answer || !answer.trim());
-    if (emptyAnswerIndex !== -1) {
+    // The "Other" answer can be selected like any other
+    const answerCount = type === 'scale' ? 0 : answers.length + (allowWriteIns ? 1 : 0);
+    if (
+      maxChoices !== undefined && maxChoices !== null &&
+      (type !== 'multiple' || !Number.isInteger(maxChoices) || maxChoices < 1 || maxChoices > answerCount)
+    ) {
       res.status(400).json({
-        error: 'Empty answer',
-        message: `Answer option ${emptyAnswerIndex + 1} is empty`
+        error: 'Invalid maxChoices',
+        message: `maxChoices must be a whole number between 1 and ${answerCount} on multiple-choice polls`
       });
       return;
     }
@@ -59,7 +469,8 @@ export const createPoll = async (
     const result = dbUtils.createPoll(
       req.user.id,
       question,
-      answers
+      answers ?? [],
+      { opensAt, closesAt, votesLocked, type, maxChoices, scale, allowWriteIns }
     );
 
     // Return the created poll with answers
@@ -74,11 +485,16 @@ export const createPoll = async (
 
 /**
  * Gets a poll by ID, including answers and author info
- * Supports cross-referencing with other polls via query parameters
+ * Supports cross-referencing with other polls via query parameters.
+ * Cross-referenced counts below the privacy threshold are withheld and flagged as suppressed.
+ * A cross-reference matching fewer voters than the threshold is rejected the same way as in
+ * getCrosstab: all of its counts and statistics are withheld, while the others are still answered.
+ * Ranked polls include instant-runoff and Borda tallies, and are cross-referenced by first preference.
+ * Scale polls include the mean, median, standard deviation and histogram of their values, overall and per segment.
  * Format: /api/poll/:id?p1=pollId1&a1=answerId1&p2=pollId2&a2=answerId2
  */
 export const getPollById = async (
-  req: Request,
+  req: Request<{ id: string }>,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
@@ -107,14 +523,14 @@ export const getPollById = async (
     // Get author info
     const author = dbUtils.getUserById(pollResult.poll.author_id);
 
-    // Get vote counts
+    // Get vote counts, and the number of voters behind them for percentages
     const voteCounts = dbUtils.getVoteCounts(id);
+    const respondentCount = dbUtils.getRespondentCount(id);
+    const isMultipleChoice = pollResult.poll.type === 'multiple';
+    const isScale = pollResult.poll.type === 'scale';
 
     // Check if user has voted
-    let userVote = null;
-    if (req.user) {
-      userVote = dbUtils.getUserVote(req.user.id, id);
-    }
+    const userVotes = req.user ? dbUtils.getUserVotes(req.user.id, id) : [];
 
     // Check for cross-reference parameters in the query string
     const crossReferences: {
@@ -123,6 +539,11 @@ export const getPollById = async (
       poll?: { id: string; question: string };
       answer?: { id: string; text: string };
       voteCounts?: Record<string, number>;
+      respondentCount?: number;
+      statistics?: CrossReferenceStatistics;
+      scaleResults?: ScaleStatistics;
+      suppressed: boolean;
+      suppressedAnswerIds: string[];
     }[] = [];
 
     // Parse cross-reference pairs (p1/a1, p2/a2, etc.)
@@ -170,20 +591,105 @@ export const getPollById = async (
         crossPollId,
         crossAnswerId
       );
+
+      const crossPollInfo = {
+        id: crossPoll.poll.id,
+        question: crossPoll.poll.question
+      };
+      const crossAnswerInfo = {
+        id: crossAnswer!.id,
+        text: crossAnswer!.text
+      };
+
+      // Values chosen on a scale poll within the segment
+      const scaleValues = isScale ? dbUtils.getCrossReferencedScaleValues(id, crossPollId, crossAnswerId) : [];
+
+      // Withhold the whole segment if it matches too few voters to stay anonymous.
+      // Multiple-choice voters are spread over several counts, so count them directly.
+      const segmentSize = isScale
+        ? scaleValues.length
+        : isMultipleChoice
+          ? dbUtils.getCrossReferencedRespondentCount(id, crossPollId, crossAnswerId)
+          : Object.values(crossReferencedVoteCounts).reduce((sum, count) => sum + count, 0);
+      if (isPopulationTooSmall(segmentSize)) {
+        crossReferences.push({
+          pollId: crossPollId,
+          answerId: crossAnswerId,
+          poll: crossPollInfo,
+          answer: crossAnswerInfo,
+          voteCounts: {},
+          suppressed: true,
+          suppressedAnswerIds: pollResult.answers.map(answer => answer.id)
+        });
+        continue;
+      }
+
+      // Describe the segment's values on scale polls, withholding histogram bins that are too small
+      if (isScale) {
+        const segmentResults = computeScaleStatistics(scaleValues, getScale(pollResult.poll));
+        const { bins, suppressedValues } = suppressSmallBins(segmentResults.histogram);
+
+        // The summaries are computed from every value, so alongside the count they would
+        // let the withheld bins be solved back. They are left out whenever a bin is withheld.
+        const summaries = suppressedValues.length > 0
+          ? { mean: null, median: null, standardDeviation: null }
+          : {};
+
+        crossReferences.push({
+          pollId: crossPollId,
+          answerId: crossAnswerId,
+          poll: crossPollInfo,
+          answer: crossAnswerInfo,
+          voteCounts: {},
+          respondentCount: segmentSize,
+          scaleResults: { ...segmentResults, ...summaries, histogram: bins },
+          suppressed: suppressedValues.length > 0,
+          suppressedAnswerIds: []
+        });
+        continue;
+      }
+
+      // Otherwise withhold only the counts that are too small
+      const { voteCounts: publishedVoteCounts, suppressedAnswerIds } = suppressSmallCounts(crossReferencedVoteCounts);
+
+      // A chi-square test over a table with small cells would let them be solved back,
+      // so the association is only tested when every cell meets the threshold
+      const answerIds = pollResult.answers.map(answer => answer.id);
+      const crossAnswerIds = crossPoll.answers.map(answer => answer.id);
+      const contingency = dbUtils.getContingencyTable(id, crossPollId);
+      const table = answerIds.map(answerId =>
+        crossAnswerIds.map(otherAnswerId => contingency[answerId]?.[otherAnswerId] || 0)
+      );
+
+      // Compare the segment against the whole poll: significance of the association
+      // between the two polls, confidence intervals per answer, and lift over the baseline
+      const statistics = computeCrossReferenceStatistics(
+        answerIds,
+        crossAnswerIds,
+        contingency,
+        crossReferencedVoteCounts,
+        voteCounts,
+        {
+          sampleSize: segmentSize,
+          baselineTotal: respondentCount,
+          testIndependence: !isMultipleChoice && crossPoll.poll.type !== 'multiple' && !hasSmallCells(table)
+        }
+      );
+      suppressedAnswerIds.forEach(answerId => {
+        delete statistics.answers[answerId];
+      });
       
       // Add to the collection of cross-references
       crossReferences.push({
         pollId: crossPollId,
         answerId: crossAnswerId,
-        poll: {
-          id: crossPoll.poll.id,
-          question: crossPoll.poll.question
-        },
-        answer: {
-          id: crossAnswer!.id,
-          text: crossAnswer!.text
-        },
-        voteCounts: crossReferencedVoteCounts
+        poll: crossPollInfo,
+        answer: crossAnswerInfo,
+        voteCounts: publishedVoteCounts,
+        respondentCount: segmentSize,
+        statistics,
+        suppressed: suppressedAnswerIds.length > 0,
+        suppressedAnswerIds
       });
     }
 
@@ -196,7 +702,12 @@ export const getPollById = async (
         name: author?.name
       },
       voteCounts,
-      userVote: userVote ? { answerId: userVote.answer_id } : null,
+      respondentCount,
+      rankedResults: getRankedResults(pollResult),
+      scaleResults: getScaleResults(pollResult),
+      userVote: formatUserVote(userVotes, req.user ? dbUtils.getUserWriteIn(req.user.id, id) : null),
+      isAuthor: isPollAuthor(req.user, pollResult.poll),
+      status: getPollStatus(pollResult.poll),
       crossReferences: crossReferences.length > 0 ? crossReferences : undefined
     });
   } catch (error) {
@@ -205,102 +716,976 @@ export const getPollById = async (
 };
 
 /**
- * Records a vote for a poll
+ * Updates a poll's question, answer texts and/or vote locking (author only)
+ * Answer texts cannot be changed once the poll has votes, since that would
+ * change the meaning of votes already cast
+ * Body: { question?: string, answers?: { id: string, text: string }[], votesLocked?: boolean }
  */
-export const voteOnPoll = async (
-  req: Request,
+export const updatePoll = async (
+  req: Request<{ id: string }>,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    // User must be authenticated to vote
     if (!req.isAuthenticated || !req.user) {
       res.status(401).json({
         error: 'Authentication required',
-        message: 'You must be logged in to vote'
+        message: 'You must be logged in to edit a poll'
       });
       return;
     }
 
-    const { id: pollId } = req.params;
-    const { answerId } = req.body;
+    const { id } = req.params;
+    const { question, answers, votesLocked } = req.body;
 
-    if (!pollId) {
-      res.status(400).json({
-        error: 'Missing poll ID',
-        message: 'Poll ID is required'
+    const pollResult = dbUtils.getPollById(id);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
       });
       return;
     }
 
-    if (!answerId) {
-      res.status(400).json({
-        error: 'Missing answer ID',
-        message: 'Answer ID is required'
+    if (!canManagePoll(req.user, pollResult.poll, 'edit')) {
+      res.status(403).json({
+        error: 'Not poll author',
+        message: 'Only the author of a poll can edit it'
       });
       return;
     }
 
-    // Check if poll exists
-    const pollResult = dbUtils.getPollById(pollId);
-    if (!pollResult) {
-      res.status(404).json({
-        error: 'Poll not found',
-        message: `No poll found with ID: ${pollId}`
+    if (question === undefined && answers === undefined && votesLocked === undefined) {
+      res.status(400).json({
+        error: 'Nothing to update',
+        message: 'Provide a question, answers and/or votesLocked to update'
       });
       return;
     }
 
-    // Check if answer belongs to this poll
-    const answerBelongsToPoll = pollResult.answers.some(answer => answer.id === answerId);
-    if (!answerBelongsToPoll) {
+    if (votesLocked !== undefined && typeof votesLocked !== 'boolean') {
       res.status(400).json({
-        error: 'Invalid answer',
-        message: 'The provided answer ID does not belong to this poll'
+        error: 'Invalid votesLocked',
+        message: 'votesLocked must be a boolean'
       });
       return;
     }
 
-    // Check if user has already voted on this poll
-    const existingVote = dbUtils.getUserVote(req.user.id, pollId);
-    if (existingVote) {
+    if (question !== undefined && (typeof question !== 'string' || !question.trim())) {
       res.status(400).json({
-        error: 'Already voted',
-        message: 'You have already voted on this poll',
-        vote: {
-          answerId: existingVote.answer_id
-        }
+        error: 'Missing question',
+        message: 'Poll question is required'
       });
       return;
     }
 
-    // Record the vote
-    const vote = dbUtils.createVote(req.user.id, pollId, answerId);
-    
-    if (!vote) {
-      res.status(500).json({
-        error: 'Vote failed',
-        message: 'Failed to record your vote. Please try again.'
-      });
-      return;
+    if (answers !== undefined) {
+      if (!Array.isArray(answers)) {
+        res.status(400).json({
+          error: 'Invalid answers',
+          message: 'Answers must be an array of { id, text } objects'
+        });
+        return;
+      }
+
+      const invalidAnswer = answers.find(
+        answer => !answer || !pollResult.answers.some(existing => existing.id === answer.id)
+      );
+      if (invalidAnswer !== undefined) {
+        res.status(400).json({
+          error: 'Invalid answer',
+          message: 'Every answer must have the ID of an existing answer of this poll'
+        });
+        return;
+      }
+
+      const emptyAnswerIndex = answers.findIndex(answer => typeof answer.text !== 'string' || !answer.text.trim());
+      if (emptyAnswerIndex !== -1) {
+        res.status(400).json({
+          error: 'Empty answer',
+          message: `Answer option ${emptyAnswerIndex + 1} is empty`
+        });
+        return;
+      }
+
+      // Only block edits that actually change an answer
+      const changesAnswerText = answers.some(
+        answer => pollResult.answers.find(existing => existing.id === answer.id)?.text !== answer.text
+      );
+      const totalVotes = Object.values(dbUtils.getVoteCounts(id)).reduce((sum, count) => sum + count, 0);
+      if (changesAnswerText && totalVotes > 0) {
+        res.status(409).json({
+          error: 'Poll has votes',
+          message: 'Answers cannot be edited once a poll has votes'
+        });
+        return;
+      }
     }
 
-    // Get updated vote counts
-    const voteCounts = dbUtils.getVoteCounts(pollId);
+    const result = dbUtils.updatePoll(id, { question, answers, votesLocked });
 
-    // Return success with vote details and updated counts
-    res.status(201).json({
-      success: true,
-      message: 'Vote recorded successfully',
-      vote: {
-        id: vote.id,
-        answerId: vote.answer_id,
-        pollId: vote.poll_id,
-        createdAt: vote.created_at
-      },
-      voteCounts
+    res.json({
+      poll: result!.poll,
+      answers: result!.answers
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Closes a poll to further votes immediately (author or moderator)
+ */
+export const closePoll = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.isAuthenticated || !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to close a poll'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const pollResult = dbUtils.getPollById(id);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (!canManagePoll(req.user, pollResult.poll, 'close')) {
+      res.status(403).json({
+        error: 'Not poll author',
+        message: 'Only the author of a poll or a moderator can close it'
+      });
+      return;
+    }
+
+    if (getPollStatus(pollResult.poll) === 'closed') {
+      res.status(409).json({
+        error: 'Poll already closed',
+        message: `This poll closed at ${pollResult.poll.closes_at}`
+      });
+      return;
+    }
+
+    const poll = dbUtils.closePoll(id);
+
+    res.json({
+      poll,
+      status: getPollStatus(poll!)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Streams a poll's results as Server-Sent Events while the client stays connected
+ * - snapshot: the poll's current results, sent first
+ * - votes: sent as votes change, at most once per LIVE_THROTTLE_MS; voteCounts holds the
+ *   change in each answer's count since the previous event, the other results are current
+ * - deleted: the poll was deleted; the stream ends
+ */
+export const streamPoll = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const send = (event: string, data: object) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const subscription = pollUpdates.subscribe(id, (update: LiveUpdate<PollLiveResults> | null) => {
+      if (update) {
+        send('votes', update);
+        return;
+      }
+
+      send('deleted', { pollId: id });
+      res.end();
+    });
+
+    if (!subscription) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    send('snapshot', subscription.snapshot);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), LIVE_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
     });
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * Deletes a poll along with its answers and votes (author or moderator)
+ */
+export const deletePoll = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.isAuthenticated || !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to delete a poll'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const pollResult = dbUtils.getPollById(id);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (!canManagePoll(req.user, pollResult.poll, 'delete')) {
+      res.status(403).json({
+        error: 'Not poll author',
+        message: 'Only the author of a poll or a moderator can delete it'
+      });
+      return;
+    }
+
+    dbUtils.deletePoll(id);
+    pollUpdates.publish(id);
+
+    res.json({
+      success: true,
+      message: 'Poll deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Records a vote for a poll
+ * Body: { answerId: string } or, for multiple-choice and ranked polls, { answerIds: string[] }
+ * (every answer in order of preference on ranked polls), or { value: number } for scale polls.
+ * Selecting the "Other" answer of a poll with write-ins also takes { writeIn: string }
+ */
+export const voteOnPoll = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // User must be authenticated to vote
+    if (!req.isAuthenticated || !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to vote'
+      });
+      return;
+    }
+
+    const { id: pollId } = req.params;
+    const answerIds = getSelectedAnswerIds(req.body);
+    const writeIn = getWriteIn(req.body);
+
+    if (!pollId) {
+      res.status(400).json({
+        error: 'Missing poll ID',
+        message: 'Poll ID is required'
+      });
+      return;
+    }
+
+    if (answerIds.length === 0 && req.body.value === undefined) {
+      res.status(400).json({
+        error: 'Missing answer ID',
+        message: 'Answer ID is required'
+      });
+      return;
+    }
+
+    // Check if poll exists
+    const pollResult = dbUtils.getPollById(pollId);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${pollId}`
+      });
+      return;
+    }
+
+    // Check the answers belong to this poll and fit its type, or the value is on its scale
+    if (pollResult.poll.type === 'scale'
+      ? rejectInvalidValue(pollResult.poll, req.body.value, res)
+      : rejectInvalidSelection(pollResult, answerIds, res) || rejectInvalidWriteIn(pollResult, answerIds, writeIn, res)) {
+      return;
+    }
+
+    // Check the poll is within its voting window
+    if (rejectOutsideVotingWindow(pollResult.poll, res)) {
+      return;
+    }
+
+    // Check if user has already voted on this poll
+    const existingVote = formatUserVote(dbUtils.getUserVotes(req.user.id, pollId));
+    if (existingVote) {
+      res.status(400).json({
+        error: 'Already voted',
+        message: 'You have already voted on this poll',
+        vote: existingVote
+      });
+      return;
+    }
+
+    // Record the vote
+    let votes: Vote[] | null;
+    if (pollResult.poll.type === 'scale') {
+      const vote = dbUtils.createScaleVote(req.user.id, pollId, req.body.value);
+      votes = vote ? [vote] : null;
+    } else {
+      votes = dbUtils.createVotes(req.user.id, pollId, answerIds as string[], {
+        ranked: pollResult.poll.type === 'ranked',
+        writeIn: writeIn ?? undefined
+      });
+    }
+    
+    if (!votes) {
+      res.status(500).json({
+        error: 'Vote failed',
+        message: 'Failed to record your vote. Please try again.'
+      });
+      return;
+    }
+
+    // Get updated vote counts
+    const voteCounts = dbUtils.getVoteCounts(pollId);
+    pollUpdates.publish(pollId);
+
+    // Return success with vote details and updated counts
+    res.status(201).json({
+      success: true,
+      message: 'Vote recorded successfully',
+      vote: {
+        id: votes[0].id,
+        ...formatUserVote(votes, writeIn ?? null),
+        pollId: votes[0].poll_id,
+        createdAt: votes[0].created_at
+      },
+      voteCounts,
+      respondentCount: dbUtils.getRespondentCount(pollId),
+      rankedResults: getRankedResults(pollResult),
+      scaleResults: getScaleResults(pollResult)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Changes the answer of the user's existing vote on a poll
+ * Not allowed outside the voting window or when the author has locked votes
+ * Body: { answerId: string } or, for multiple-choice and ranked polls, { answerIds: string[] },
+ * or { value: number } for scale polls. Selecting the "Other" answer also takes { writeIn: string }
+ */
+export const changeVote = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.isAuthenticated || !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to change your vote'
+      });
+      return;
+    }
+
+    const { id: pollId } = req.params;
+    const answerIds = getSelectedAnswerIds(req.body);
+    const writeIn = getWriteIn(req.body);
+
+    if (answerIds.length === 0 && req.body.value === undefined) {
+      res.status(400).json({
+        error: 'Missing answer ID',
+        message: 'Answer ID is required'
+      });
+      return;
+    }
+
+    const pollResult = dbUtils.getPollById(pollId);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${pollId}`
+      });
+      return;
+    }
+
+    if (pollResult.poll.type === 'scale'
+      ? rejectInvalidValue(pollResult.poll, req.body.value, res)
+      : rejectInvalidSelection(pollResult, answerIds, res) || rejectInvalidWriteIn(pollResult, answerIds, writeIn, res)) {
+      return;
+    }
+
+    if (rejectOutsideVotingWindow(pollResult.poll, res)) {
+      return;
+    }
+
+    if (!canChangeVote(pollResult.poll)) {
+      res.status(403).json({
+        error: 'Votes locked',
+        message: 'The author of this poll does not allow votes to be changed'
+      });
+      return;
+    }
+
+    let votes: Vote[] | null;
+    if (pollResult.poll.type === 'scale') {
+      const vote = dbUtils.changeScaleVote(req.user.id, pollId, req.body.value);
+      votes = vote ? [vote] : null;
+    } else {
+      votes = pollResult.poll.type === 'ranked'
+        ? dbUtils.changeRanking(req.user.id, pollId, answerIds as string[])
+        : dbUtils.changeVotes(req.user.id, pollId, answerIds as string[], { writeIn: writeIn ?? undefined });
+    }
+    if (!votes) {
+      res.status(404).json({
+        error: 'Vote not found',
+        message: 'You have not voted on this poll'
+      });
+      return;
+    }
+
+    pollUpdates.publish(pollId);
+
+    res.json({
+      success: true,
+      message: 'Vote changed successfully',
+      vote: {
+        id: votes[0].id,
+        ...formatUserVote(votes, writeIn ?? null),
+        pollId: votes[0].poll_id,
+        createdAt: votes[0].created_at
+      },
+      voteCounts: dbUtils.getVoteCounts(pollId),
+      respondentCount: dbUtils.getRespondentCount(pollId),
+      rankedResults: getRankedResults(pollResult),
+      scaleResults: getScaleResults(pollResult)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retracts the user's vote on a poll
+ * Not allowed outside the voting window or when the author has locked votes
+ */
+export const retractVote = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.isAuthenticated || !req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to retract your vote'
+      });
+      return;
+    }
+
+    const { id: pollId } = req.params;
+
+    const pollResult = dbUtils.getPollById(pollId);
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${pollId}`
+      });
+      return;
+    }
+
+    if (rejectOutsideVotingWindow(pollResult.poll, res)) {
+      return;
+    }
+
+    if (!canChangeVote(pollResult.poll)) {
+      res.status(403).json({
+        error: 'Votes locked',
+        message: 'The author of this poll does not allow votes to be retracted'
+      });
+      return;
+    }
+
+    if (!dbUtils.retractVote(req.user.id, pollId)) {
+      res.status(404).json({
+        error: 'Vote not found',
+        message: 'You have not voted on this poll'
+      });
+      return;
+    }
+
+    pollUpdates.publish(pollId);
+
+    res.json({
+      success: true,
+      message: 'Vote retracted successfully',
+      voteCounts: dbUtils.getVoteCounts(pollId),
+      respondentCount: dbUtils.getRespondentCount(pollId),
+      rankedResults: getRankedResults(pollResult),
+      scaleResults: getScaleResults(pollResult)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets the author of a poll with write-ins, for the write-in moderation endpoints
+ * Sends a 401, 404, 403 or 400 if the user is not logged in, the poll does not exist,
+ * the user is neither its author nor a moderator, or the poll does not allow write-ins
+ * @returns The poll and its answers, or null if the response was sent and the caller should stop
+ */
+const getModeratedPoll = (
+  req: Request<{ id: string }>,
+  res: Response
+): { poll: Poll; answers: Answer[] } | null => {
+  if (!req.isAuthenticated || !req.user) {
+    res.status(401).json({
+      error: 'Authentication required',
+      message: 'You must be logged in to review write-ins'
+    });
+    return null;
+  }
+
+  const { id } = req.params;
+
+  const pollResult = dbUtils.getPollById(id);
+  if (!pollResult) {
+    res.status(404).json({
+      error: 'Poll not found',
+      message: `No poll found with ID: ${id}`
+    });
+    return null;
+  }
+
+  if (!canManagePoll(req.user, pollResult.poll, 'review-write-ins')) {
+    res.status(403).json({
+      error: 'Not poll author',
+      message: 'Only the author of a poll or a moderator can review its write-ins'
+    });
+    return null;
+  }
+
+  if (!pollResult.answers.some(answer => answer.is_write_in)) {
+    res.status(400).json({
+      error: 'Write-ins not enabled',
+      message: 'This poll does not allow write-ins'
+    });
+    return null;
+  }
+
+  return pollResult;
+};
+
+/**
+ * Gets the write-ins of a poll grouped by normalized text, most frequent first (author or moderator)
+ */
+export const getWriteIns = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pollResult = getModeratedPoll(req, res);
+    if (!pollResult) {
+      return;
+    }
+
+    res.json({
+      writeIns: dbUtils.getWriteInGroups(pollResult.poll.id).map(group => ({
+        normalizedText: group.normalized_text,
+        text: group.text,
+        count: group.count
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Promotes a group of write-ins to a regular answer of the poll (author or moderator)
+ * The writers' votes for "Other" move to the new answer, or to an existing answer
+ * with the same normalized text
+ * Body: { normalizedText: string, text?: string }
+ */
+export const promoteWriteIn = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pollResult = getModeratedPoll(req, res);
+    if (!pollResult) {
+      return;
+    }
+
+    const { normalizedText, text } = req.body;
+
+    if (typeof normalizedText !== 'string' || !normalizedText) {
+      res.status(400).json({
+        error: 'Missing write-in',
+        message: 'normalizedText of the write-in group is required'
+      });
+      return;
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || text.trim().length > MAX_WRITE_IN_LENGTH)) {
+      res.status(400).json({
+        error: 'Invalid answer',
+        message: `Answer text must be at most ${MAX_WRITE_IN_LENGTH} characters`
+      });
+      return;
+    }
+
+    const group = dbUtils.getWriteInGroups(pollResult.poll.id).find(g => g.normalized_text === normalizedText);
+    if (!group) {
+      res.status(404).json({
+        error: 'Write-in not found',
+        message: 'No write-ins on this poll match the given text'
+      });
+      return;
+    }
+
+    const regularAnswers = pollResult.answers.filter(answer => !answer.is_write_in);
+    const mergesIntoExisting = regularAnswers.some(answer => normalizeWriteIn(answer.text) === normalizedText);
+    if (!mergesIntoExisting && regularAnswers.length >= 10) {
+      res.status(409).json({
+        error: 'Too many answers',
+        message: 'Poll cannot have more than 10 answer options'
+      });
+      return;
+    }
+
+    const result = dbUtils.promoteWriteIn(pollResult.poll.id, normalizedText, text);
+    pollUpdates.publish(pollResult.poll.id);
+
+    res.status(201).json({
+      answer: result!.answer,
+      movedVotes: result!.movedVotes,
+      answers: dbUtils.getPollById(pollResult.poll.id)!.answers,
+      voteCounts: dbUtils.getVoteCounts(pollResult.poll.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets vote counts for a poll among voters matching every cross-reference condition
+ * Unlike getPollById, where each pN/aN pair is an independent filter, the conditions
+ * are intersected. Several answers for one poll are comma-separated and OR'd together.
+ * Conditions matching fewer voters than the privacy threshold are rejected: every count is
+ * withheld, the population size is left out and the response is flagged as suppressed.
+ * Format: /api/poll/:id/crosstab?p1=pollId1&a1=answerId1,answerId2&p2=pollId2&a2=answerId3
+ */
+export const getCrosstab = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get the main poll
+    const pollResult = dbUtils.getPollById(id);
+
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
+      });
+      return;
+    }
+
+    // Parse condition pairs (p1/a1, p2/a2, etc.), merging repeated polls into one OR condition
+    const conditionsByPoll = new Map<string, Set<string>>();
+    const pollParams = Object.keys(req.query).filter(key => /^p\d+$/.test(key));
+
+    for (const pollParam of pollParams) {
+      const index = pollParam.substring(1);
+      const crossPollId = req.query[pollParam];
+      const answerParam = req.query[`a${index}`];
+
+      if (typeof crossPollId !== 'string' || typeof answerParam !== 'string' || !crossPollId || !answerParam) {
+        res.status(400).json({
+          error: 'Invalid crosstab condition',
+          message: `Condition ${index} must have exactly one poll ID (p${index}) and at least one answer ID (a${index})`
+        });
+        return;
+      }
+
+      const answerIds = answerParam.split(',').map(answerId => answerId.trim()).filter(Boolean);
+      const existing = conditionsByPoll.get(crossPollId) ?? new Set<string>();
+      answerIds.forEach(answerId => existing.add(answerId));
+      conditionsByPoll.set(crossPollId, existing);
+    }
+
+    if (conditionsByPoll.size === 0) {
+      res.status(400).json({
+        error: 'Missing crosstab conditions',
+        message: 'At least one poll/answer condition (p1/a1) is required'
+      });
+      return;
+    }
+
+    if (conditionsByPoll.size > MAX_CROSSTAB_CONDITIONS) {
+      res.status(400).json({
+        error: 'Too many crosstab conditions',
+        message: `Crosstab cannot intersect more than ${MAX_CROSSTAB_CONDITIONS} polls`
+      });
+      return;
+    }
+
+    if (conditionsByPoll.has(id)) {
+      res.status(400).json({
+        error: 'Invalid crosstab condition',
+        message: 'A poll cannot be used as a condition on itself'
+      });
+      return;
+    }
+
+    // Verify every condition and collect its poll and answer details
+    const conditions: CrosstabCondition[] = [];
+    const conditionDetails: {
+      poll: { id: string; question: string };
+      answers: { id: string; text: string }[];
+    }[] = [];
+
+    for (const [crossPollId, answerIdSet] of conditionsByPoll) {
+      const crossPoll = dbUtils.getPollById(crossPollId);
+      if (!crossPoll) {
+        res.status(400).json({
+          error: 'Invalid crosstab condition',
+          message: `Condition poll (${crossPollId}) not found`
+        });
+        return;
+      }
+
+      const answerIds = [...answerIdSet];
+      const invalidAnswerId = answerIds.find(
+        answerId => !crossPoll.answers.some(answer => answer.id === answerId)
+      );
+      if (invalidAnswerId) {
+        res.status(400).json({
+          error: 'Invalid crosstab condition',
+          message: `Condition answer (${invalidAnswerId}) does not belong to poll (${crossPollId})`
+        });
+        return;
+      }
+
+      conditions.push({ pollId: crossPollId, answerIds });
+      conditionDetails.push({
+        poll: {
+          id: crossPoll.poll.id,
+          question: crossPoll.poll.question
+        },
+        answers: crossPoll.answers
+          .filter(answer => answerIdSet.has(answer.id))
+          .map(answer => ({ id: answer.id, text: answer.text }))
+      });
+    }
+
+    const result = dbUtils.getCrosstabVoteCounts(id, conditions);
+
+    // Reject filter combinations narrow enough to single out individual voters by
+    // withholding every count, as getPollById does for a segment that is too small
+    if (isPopulationTooSmall(result.populationSize)) {
+      res.json({
+        poll: pollResult.poll,
+        answers: pollResult.answers,
+        conditions: conditionDetails,
+        voteCounts: {},
+        respondentCount: result.respondentCount,
+        suppressed: true,
+        suppressedAnswerIds: pollResult.answers.map(answer => answer.id)
+      });
+      return;
+    }
+
+    const { voteCounts, suppressedAnswerIds } = suppressSmallCounts(result.voteCounts);
+
+    res.json({
+      poll: pollResult.poll,
+      answers: pollResult.answers,
+      conditions: conditionDetails,
+      voteCounts,
+      populationSize: result.populationSize,
+      respondentCount: result.respondentCount,
+      suppressed: suppressedAnswerIds.length > 0,
+      suppressedAnswerIds
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets the polls most strongly associated with a poll, to suggest cross-references
+ * Polls sharing at least `minSharedVoters` voters are ranked by Cramér's V
+ *
+ * Query parameters:
+ * - limit: Maximum number of polls to return (default: 5)
+ * - minSharedVoters: Minimum number of voters in common (default: 5)
+ * - p1, p2, etc.: IDs of already cross-referenced polls to exclude
+ */
+export const getCorrelations = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const pollResult = dbUtils.getPollById(id);
+
+    if (!pollResult) {
+      res.status(404).json({
+        error: 'Poll not found',
+        message: `No poll found with ID: ${id}`
+      });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 5;
+    const minSharedVoters = req.query.minSharedVoters
+      ? parseInt(req.query.minSharedVoters as string, 10)
+      : DEFAULT_MIN_SHARED_VOTERS;
+
+    if (isNaN(limit) || limit < 1 || limit > 20) {
+      res.status(400).json({
+        error: 'Invalid limit',
+        message: 'Limit must be a number between 1 and 20'
+      });
+      return;
+    }
+
+    if (isNaN(minSharedVoters) || minSharedVoters < 1) {
+      res.status(400).json({
+        error: 'Invalid minSharedVoters',
+        message: 'minSharedVoters must be a positive number'
+      });
+      return;
+    }
+
+    // Extract any existing cross-referenced poll IDs to exclude
+    const excludePollIds: string[] = [];
+    Object.keys(req.query).forEach(key => {
+      if (/^p\d+$/.test(key) && typeof req.query[key] === 'string' && req.query[key]) {
+        excludePollIds.push(req.query[key] as string);
+      }
+    });
+
+    const answerIds = pollResult.answers.map(answer => answer.id);
+    const answerTexts = new Map(pollResult.answers.map(answer => [answer.id, answer.text]));
+
+    // Score every poll sharing enough voters, then keep the strongest associations.
+    // Polls, answer pairs and tables with cells below the privacy threshold are never suggested.
+    const candidates = dbUtils.getSharedVoterContingencyTables(id, {
+      minSharedVoters: Math.max(minSharedVoters, PRIVACY_CONFIG.MIN_CELL_SIZE),
+      excludePollIds
+    })
+      .map(({ pollId, sharedVoters, contingency }) => {
+        const crossPoll = dbUtils.getPollById(pollId);
+        if (!crossPoll) return null;
+
+        const crossAnswerIds = crossPoll.answers.map(answer => answer.id);
+        const table = answerIds.map(answerId =>
+          crossAnswerIds.map(crossAnswerId => contingency[answerId]?.[crossAnswerId] || 0)
+        );
+
+        // Association measures over a table with small cells would reveal those cells,
+        // and without one there is nothing to rank the poll by
+        if (hasSmallCells(table)) return null;
+
+        const association = cramersV(table);
+        if (association === null) return null;
+
+        return { crossPoll, sharedVoters, contingency, crossAnswerIds, table, association };
+      })
+      .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null)
+      .sort((a, b) => b.association - a.association)
+      .slice(0, limit);
+
+    const correlations = candidates.map(({ crossPoll, sharedVoters, contingency, crossAnswerIds, table, association }) => {
+      const author = dbUtils.getUserById(crossPoll.poll.author_id);
+      const crossAnswerTexts = new Map(crossPoll.answers.map(answer => [answer.id, answer.text]));
+
+      const effects = rankAnswerPairEffects(
+        answerIds,
+        crossAnswerIds,
+        contingency,
+        Math.max(1, PRIVACY_CONFIG.MIN_CELL_SIZE)
+      )
+        .slice(0, MAX_CORRELATION_EFFECTS)
+        .map(effect => ({
+          ...effect,
+          answerText: answerTexts.get(effect.answerId),
+          crossAnswerText: crossAnswerTexts.get(effect.crossAnswerId)
+        }));
+
+      return {
+        poll: crossPoll.poll,
+        answers: crossPoll.answers,
+        author: {
+          id: author?.id,
+          name: author?.name
+        },
+        sharedVoters,
+        cramersV: association,
+        // Selections on multiple-choice polls are not independent observations
+        pValue: pollResult.poll.type === 'multiple' || crossPoll.poll.type === 'multiple'
+          ? null
+          : chiSquareTest(table)?.pValue ?? null,
+        effects
+      };
+    });
+
+    res.json({ correlations });
+  } catch (error) {
+    next(error);
+  }
+};
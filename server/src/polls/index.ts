@@ -1,9 +1,31 @@
 import pollRoutes from './routes';
-import { createPoll, getPollById, voteOnPoll } from './controllers';
+import {
+  createPoll,
+  getPollById,
+  updatePoll,
+  deletePoll,
+  closePoll,
+  getCrosstab,
+  getCorrelations,
+  voteOnPoll,
+  changeVote,
+  retractVote,
+  getWriteIns,
+  promoteWriteIn
+} from './controllers';
 
 export {
   pollRoutes,
   createPoll,
   getPollById,
-  voteOnPoll
+  updatePoll,
+  deletePoll,
+  closePoll,
+  getCrosstab,
+  getCorrelations,
+  voteOnPoll,
+  changeVote,
+  retractVote,
+  getWriteIns,
+  promoteWriteIn
 };
@@ -1,19 +1,65 @@
 import express from 'express';
-import { createPoll, getPollById, voteOnPoll } from './controllers';
+import {
+  createPoll,
+  getPollById,
+  updatePoll,
+  deletePoll,
+  closePoll,
+  getCrosstab,
+  getCorrelations,
+  voteOnPoll,
+  changeVote,
+  retractVote,
+  getWriteIns,
+  promoteWriteIn,
+  streamPoll
+} from './controllers';
 import { authenticate, requireAuth } from '../auth';
 import { searchCrossReferences } from '../feed/controllers';
 
 const router = express.Router();
 
+// Protected routes name the API key scope they need (see API_KEY_SCOPES)
+
 // GET /api/poll/:id - Get poll by ID with details
 // This route is available to anyone, but authenticated users will get their vote status
 router.get('/:id', getPollById);
 
 // POST /api/poll - Create a new poll (protected route)
-router.post('/', authenticate, requireAuth, createPoll);
+router.post('/', authenticate, requireAuth('polls:write'), createPoll);
+
+// PATCH /api/poll/:id - Edit a poll's question or answers (protected route, author only)
+router.patch('/:id', authenticate, requireAuth('polls:write'), updatePoll);
+
+// DELETE /api/poll/:id - Delete a poll and its votes (protected route, author or moderator)
+router.delete('/:id', authenticate, requireAuth('polls:write'), deletePoll);
+
+// POST /api/poll/:id/close - Close a poll to further votes now (protected route, author or moderator)
+router.post('/:id/close', authenticate, requireAuth('polls:write'), closePoll);
 
 // POST /api/poll/:id/vote - Vote on a poll (protected route)
-router.post('/:id/vote', authenticate, requireAuth, voteOnPoll);
+router.post('/:id/vote', authenticate, requireAuth('votes:write'), voteOnPoll);
+
+// PUT /api/poll/:id/vote - Change the answer of an existing vote (protected route)
+router.put('/:id/vote', authenticate, requireAuth('votes:write'), changeVote);
+
+// DELETE /api/poll/:id/vote - Retract a vote (protected route)
+router.delete('/:id/vote', authenticate, requireAuth('votes:write'), retractVote);
+
+// GET /api/poll/:id/write-ins - Get the poll's write-ins grouped by normalized text (protected route, author or moderator)
+router.get('/:id/write-ins', authenticate, requireAuth('polls:read'), getWriteIns);
+
+// POST /api/poll/:id/write-ins/promote - Promote a group of write-ins to an answer (protected route, author or moderator)
+router.post('/:id/write-ins/promote', authenticate, requireAuth('polls:write'), promoteWriteIn);
+
+// GET /api/poll/:id/stream - Stream the poll's results live as Server-Sent Events
+router.get('/:id/stream', streamPoll);
+
+// GET /api/poll/:id/crosstab - Get vote counts among voters matching several intersected conditions
+router.get('/:id/crosstab', getCrosstab);
+
+// GET /api/poll/:id/correlations - Suggest polls whose voters answered this one most differently
+router.get('/:id/correlations', getCorrelations);
 
 // GET /api/poll/:id/search - Search for polls to cross-reference with a specific poll
 router.get('/:id/search', authenticate, searchCrossReferences);
@@ -0,0 +1,99 @@
+import { Poll, Vote } from '../database/utils';
+
+/**
+ * Whether a poll is accepting votes
+ * - scheduled: opens_at is in the future
+ * - open: within its voting window
+ * - closed: closes_at has passed
+ */
+export type PollStatus = 'scheduled' | 'open' | 'closed';
+
+/**
+ * Gets the voting status of a poll at a point in time
+ * @param poll Poll to check
+ * @param now Time to check against (defaults to now)
+ * @returns The poll's status
+ */
+export function getPollStatus(poll: Pick<Poll, 'opens_at' | 'closes_at'>, now: Date = new Date()): PollStatus {
+  if (poll.closes_at && now.getTime() >= Date.parse(poll.closes_at)) {
+    return 'closed';
+  }
+
+  if (poll.opens_at && now.getTime() < Date.parse(poll.opens_at)) {
+    return 'scheduled';
+  }
+
+  return 'open';
+}
+
+/**
+ * Parses an optional schedule timestamp from a request body
+ * @param value Raw value (ISO 8601 string, null or undefined)
+ * @returns Normalized ISO string, null if absent, or undefined if invalid
+ */
+export function parseScheduleTime(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    return undefined;
+  }
+
+  return new Date(value).toISOString();
+}
+
+/**
+ * Formats a user's votes on a poll for API responses
+ * answerId is kept for single-choice clients; answerIds lists every selected answer
+ * (the full ranking, in order of preference, on ranked polls). Scale polls give the chosen value instead.
+ * writeIn is the text the user wrote in for the poll's "Other" answer, if any.
+ * @param votes The user's votes on the poll
+ * @param writeIn The user's write-in on the poll
+ * @returns The user's selection, or null if they have not voted
+ */
+export function formatUserVote(
+  votes: Vote[],
+  writeIn: string | null = null
+): { answerId: string | null; answerIds: string[]; value?: number; writeIn?: string } | null {
+  if (votes.length === 0) {
+    return null;
+  }
+
+  if (votes[0].value !== null) {
+    return {
+      answerId: null,
+      answerIds: [],
+      value: votes[0].value
+    };
+  }
+
+  return {
+    answerId: votes[0].answer_id,
+    answerIds: votes.map(vote => vote.answer_id!),
+    ...(writeIn !== null && { writeIn })
+  };
+}
+
+/**
+ * Checks whether a value can be chosen on a scale poll: a number within the
+ * scale's range that lands on one of its steps
+ * @param poll Scale poll
+ * @param value Raw value from a request body
+ * @returns True if the value is on the scale
+ */
+export function isValueOnScale(
+  poll: Pick<Poll, 'scale_min' | 'scale_max' | 'scale_step'>,
+  value: unknown
+): value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || poll.scale_min === null || poll.scale_max === null) {
+    return false;
+  }
+
+  if (value < poll.scale_min || value > poll.scale_max) {
+    return false;
+  }
+
+  const steps = (value - poll.scale_min) / (poll.scale_step ?? 1);
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
@@ -0,0 +1,11 @@
+import { parseIntegerEnv } from '../config';
+
+/**
+ * Privacy configuration settings
+ */
+export const PRIVACY_CONFIG = {
+  // Minimum number of voters a cross-referenced count may describe (k in k-anonymity).
+  // Counts below it are suppressed, and filters matching fewer voters are rejected.
+  // 0 disables suppression entirely.
+  MIN_CELL_SIZE: parseIntegerEnv(process.env.PRIVACY_MIN_CELL_SIZE, 5)
+};
@@ -0,0 +1,20 @@
+import { PRIVACY_CONFIG } from './config';
+import {
+  isPopulationTooSmall,
+  hasSmallCells,
+  suppressSmallCounts,
+  suppressSmallBins,
+  type SuppressedVoteCounts,
+  type SuppressedBins
+} from './utils';
+
+export {
+  PRIVACY_CONFIG,
+  isPopulationTooSmall,
+  hasSmallCells,
+  suppressSmallCounts,
+  suppressSmallBins
+};
+
+// Re-export types with correct syntax for isolatedModules
+export type { SuppressedVoteCounts, SuppressedBins };
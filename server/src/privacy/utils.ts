@@ -0,0 +1,110 @@
+import { PRIVACY_CONFIG } from './config';
+
+/**
+ * Vote counts with small cells removed
+ */
+export interface SuppressedVoteCounts {
+  // Counts that are safe to publish
+  voteCounts: Record<string, number>;
+  // Answers whose counts were withheld
+  suppressedAnswerIds: string[];
+}
+
+/**
+ * Checks whether a filtered population is too small to publish anything about
+ * @param populationSize Number of voters matched by the filters
+ * @param minCellSize Minimum publishable cell size
+ * @returns True if the population must be suppressed
+ */
+export function isPopulationTooSmall(
+  populationSize: number,
+  minCellSize: number = PRIVACY_CONFIG.MIN_CELL_SIZE
+): boolean {
+  return populationSize < minCellSize;
+}
+
+/**
+ * Checks whether a contingency table has a cell describing fewer than minCellSize voters.
+ * Statistics computed from the whole table, like a chi-square test or Cramér's V, can be
+ * solved back for such cells from the published totals, so they must be withheld.
+ * @param table Joint vote counts
+ * @param minCellSize Minimum publishable cell size
+ * @returns True if statistics of the table must be withheld
+ */
+export function hasSmallCells(
+  table: number[][],
+  minCellSize: number = PRIVACY_CONFIG.MIN_CELL_SIZE
+): boolean {
+  return table.some(row => row.some(count => count < minCellSize));
+}
+
+/**
+ * Removes vote counts that describe fewer than minCellSize voters.
+ * Zero counts are kept. When only one count is withheld, the smallest remaining
+ * non-zero count is withheld too, so it cannot be recovered by subtracting from the total.
+ * @param voteCounts Vote counts by answer ID
+ * @param minCellSize Minimum publishable cell size
+ * @returns Publishable counts and the withheld answer IDs
+ */
+export function suppressSmallCounts(
+  voteCounts: Record<string, number>,
+  minCellSize: number = PRIVACY_CONFIG.MIN_CELL_SIZE
+): SuppressedVoteCounts {
+  const suppressed = new Set(
+    Object.keys(voteCounts).filter(answerId => voteCounts[answerId] > 0 && voteCounts[answerId] < minCellSize)
+  );
+
+  // Complementary suppression
+  if (suppressed.size === 1) {
+    const smallestVisible = Object.keys(voteCounts)
+      .filter(answerId => !suppressed.has(answerId) && voteCounts[answerId] > 0)
+      .sort((a, b) => voteCounts[a] - voteCounts[b])[0];
+
+    if (smallestVisible) {
+      suppressed.add(smallestVisible);
+    }
+  }
+
+  const visible: Record<string, number> = {};
+  Object.keys(voteCounts).forEach(answerId => {
+    if (!suppressed.has(answerId)) {
+      visible[answerId] = voteCounts[answerId];
+    }
+  });
+
+  return { voteCounts: visible, suppressedAnswerIds: [...suppressed] };
+}
+
+/**
+ * Histogram bins with small bins removed
+ */
+export interface SuppressedBins<T extends { value: number; count: number }> {
+  // Bins that are safe to publish
+  bins: T[];
+  // Values whose bins were withheld
+  suppressedValues: number[];
+}
+
+/**
+ * Removes histogram bins that describe fewer than minCellSize voters,
+ * with the same complementary suppression as suppressSmallCounts
+ * @param bins Histogram bins
+ * @param minCellSize Minimum publishable cell size
+ * @returns Publishable bins and the withheld values
+ */
+export function suppressSmallBins<T extends { value: number; count: number }>(
+  bins: T[],
+  minCellSize: number = PRIVACY_CONFIG.MIN_CELL_SIZE
+): SuppressedBins<T> {
+  const counts: Record<string, number> = {};
+  bins.forEach(bin => {
+    counts[String(bin.value)] = bin.count;
+  });
+
+  const suppressed = new Set(suppressSmallCounts(counts, minCellSize).suppressedAnswerIds);
+
+  return {
+    bins: bins.filter(bin => !suppressed.has(String(bin.value))),
+    suppressedValues: bins.filter(bin => suppressed.has(String(bin.value))).map(bin => bin.value)
+  };
+}
@@ -0,0 +1,18 @@
+import { parseIntegerEnv } from '../config';
+
+/**
+ * Feed ranking configuration settings
+ */
+export const RANKING_CONFIG = {
+  // How often the stored poll scores are recomputed
+  REFRESH_INTERVAL_MS: parseIntegerEnv(process.env.RANKING_REFRESH_INTERVAL_MS, 5 * 60 * 1000, { min: 1 }),
+
+  // Only votes this recent count toward a poll's trending score
+  TRENDING_WINDOW_HOURS: 48,
+
+  // A vote's weight in the trending score halves every this many hours
+  TRENDING_HALF_LIFE_HOURS: 6,
+
+  // How quickly a poll's hot score falls with its age; higher favours newer polls
+  HOT_GRAVITY: 1.8
+};
@@ -0,0 +1,12 @@
+import { RANKING_CONFIG } from './config';
+import { computeTrendingScore, computeHotScore, computePollScores } from './utils';
+import { refreshPollScores, startPollScoreRefresh } from './refresh';
+
+export {
+  RANKING_CONFIG,
+  computeTrendingScore,
+  computeHotScore,
+  computePollScores,
+  refreshPollScores,
+  startPollScoreRefresh
+};
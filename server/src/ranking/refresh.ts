@@ -0,0 +1,47 @@
+import { dbUtils } from '../database';
+import { RANKING_CONFIG } from './config';
+import { computePollScores } from './utils';
+
+/**
+ * Recomputes and stores the feed ranking scores of every poll
+ * @param now Time to score the polls at (defaults to now)
+ * @returns Number of polls scored
+ */
+export function refreshPollScores(now: Date = new Date()): number {
+  const windowStart = new Date(now.getTime() - RANKING_CONFIG.TRENDING_WINDOW_HOURS * 60 * 60 * 1000);
+
+  const scores = computePollScores(
+    dbUtils.getPollVoterTotals(),
+    dbUtils.getPollVoteTimesSince(windowStart.toISOString()),
+    now.getTime(),
+    {
+      windowHours: RANKING_CONFIG.TRENDING_WINDOW_HOURS,
+      halfLifeHours: RANKING_CONFIG.TRENDING_HALF_LIFE_HOURS,
+      gravity: RANKING_CONFIG.HOT_GRAVITY
+    }
+  );
+
+  dbUtils.replacePollScores(scores, now.toISOString());
+  return scores.length;
+}
+
+/**
+ * Refreshes the poll scores now and then every REFRESH_INTERVAL_MS
+ * A failed refresh is logged and retried on the next tick
+ * @returns The interval timer, so the caller can stop it
+ */
+export function startPollScoreRefresh(): NodeJS.Timeout {
+  const refresh = () => {
+    try {
+      refreshPollScores();
+    } catch (error) {
+      console.error('Error refreshing poll scores:', error);
+    }
+  };
+
+  refresh();
+  const timer = setInterval(refresh, RANKING_CONFIG.REFRESH_INTERVAL_MS);
+  // Don't keep the process alive just to refresh scores
+  timer.unref();
+  return timer;
+}
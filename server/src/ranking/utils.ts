@@ -0,0 +1,66 @@
+import { PollScore, PollVoteTime, PollVoterTotal } from '../database/utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Scores how quickly a poll is gaining voters right now
+ * Each vote in the window counts for 1 when cast now, halving every half-life, so the
+ * score is a vote velocity weighted toward the most recent votes
+ * @param voteTimes Times (ms since epoch) of the poll's votes
+ * @param now Current time (ms since epoch)
+ * @param options Window and half-life in hours
+ * @returns Decayed number of recent votes
+ */
+export function computeTrendingScore(
+  voteTimes: number[],
+  now: number,
+  options: { windowHours: number; halfLifeHours: number }
+): number {
+  return voteTimes.reduce((score, votedAt) => {
+    const ageHours = Math.max(0, now - votedAt) / HOUR_MS;
+    return ageHours > options.windowHours ? score : score + Math.pow(0.5, ageHours / options.halfLifeHours);
+  }, 0);
+}
+
+/**
+ * Scores a poll by its voters discounted by its age, so that popular polls sink as
+ * they get older (voters / (age in hours + 2) ^ gravity)
+ * @param voterCount Number of voters on the poll
+ * @param createdAt Creation time of the poll (ms since epoch)
+ * @param now Current time (ms since epoch)
+ * @param gravity How quickly the score falls with age
+ * @returns Hot score
+ */
+export function computeHotScore(voterCount: number, createdAt: number, now: number, gravity: number): number {
+  const ageHours = Math.max(0, now - createdAt) / HOUR_MS;
+  return voterCount / Math.pow(ageHours + 2, gravity);
+}
+
+/**
+ * Computes the feed ranking scores of every poll
+ * @param totals Voters on every poll, with its creation time
+ * @param voteTimes First vote of each recent voter on each poll
+ * @param now Current time (ms since epoch)
+ * @param options Trending window and half-life in hours, and hot gravity
+ * @returns One score per poll
+ */
+export function computePollScores(
+  totals: PollVoterTotal[],
+  voteTimes: PollVoteTime[],
+  now: number,
+  options: { windowHours: number; halfLifeHours: number; gravity: number }
+): PollScore[] {
+  const recentVotes = new Map<string, number[]>();
+  voteTimes.forEach(({ poll_id, voted_at }) => {
+    const times = recentVotes.get(poll_id) ?? [];
+    times.push(Date.parse(voted_at));
+    recentVotes.set(poll_id, times);
+  });
+
+  return totals.map(total => ({
+    poll_id: total.poll_id,
+    voter_count: total.voter_count,
+    trending_score: computeTrendingScore(recentVotes.get(total.poll_id) ?? [], now, options),
+    hot_score: computeHotScore(total.voter_count, Date.parse(total.created_at), now, options.gravity)
+  }));
+}
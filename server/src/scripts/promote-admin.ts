@@ -0,0 +1,39 @@
+import { dbUtils } from '../database';
+import { User } from '../database/utils';
+
+/**
+ * Makes a user an admin. Admins can give roles to others through the API
+ * (PUT /api/auth/user/:id/role), so this is how the first admin is made.
+ * @param identifier ID or email address of the user
+ * @returns The promoted user
+ * @throws If no user who has logged in has that ID or email address
+ */
+export function promoteToAdmin(identifier: string): User {
+  const user = dbUtils.getUserById(identifier)
+    ?? dbUtils.getUserByEmail(identifier.trim());
+
+  // Anonymous users can't log in, so a role would be no use to them
+  if (!user || user.email === null) {
+    throw new Error(`No user who has logged in found with ID or email: ${identifier}`);
+  }
+
+  return dbUtils.setUserRole(user.id, 'admin')!;
+}
+
+// Usage: npm run promote-admin -- <user ID or email>
+if (require.main === module) {
+  const [identifier] = process.argv.slice(2);
+
+  if (!identifier) {
+    console.error('Usage: npm run promote-admin -- <user ID or email>');
+    process.exit(1);
+  }
+
+  try {
+    const user = promoteToAdmin(identifier);
+    console.log(`${user.email} (${user.id}) is now an admin`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -1,6 +1,10 @@
 import { app, PORT } from './app';
+import { startPollScoreRefresh } from './ranking';
 
 // Start server
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+
+  // Keep the trending, hot and most-voted feed orders up to date
+  startPollScoreRefresh();
 });
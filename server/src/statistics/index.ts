@@ -0,0 +1,43 @@
+import {
+  chiSquarePValue,
+  chiSquareTest,
+  cramersV,
+  wilsonInterval,
+  liftRatio,
+  computeCrossReferenceStatistics,
+  rankAnswerPairEffects,
+  computeScaleStatistics,
+  Z_95,
+  SIGNIFICANCE_LEVEL,
+  type ChiSquareResult,
+  type ConfidenceInterval,
+  type AnswerStatistics,
+  type CrossReferenceStatistics,
+  type AnswerPairEffect,
+  type HistogramBin,
+  type ScaleStatistics
+} from './utils';
+
+export {
+  chiSquarePValue,
+  chiSquareTest,
+  cramersV,
+  wilsonInterval,
+  liftRatio,
+  computeCrossReferenceStatistics,
+  rankAnswerPairEffects,
+  computeScaleStatistics,
+  Z_95,
+  SIGNIFICANCE_LEVEL
+};
+
+// Re-export types with correct syntax for isolatedModules
+export type {
+  ChiSquareResult,
+  ConfidenceInterval,
+  AnswerStatistics,
+  CrossReferenceStatistics,
+  AnswerPairEffect,
+  HistogramBin,
+  ScaleStatistics
+};
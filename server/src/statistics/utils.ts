@@ -0,0 +1,404 @@
+/**
+ * Result of a chi-square test of independence
+ */
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  significant: boolean;
+}
+
+/**
+ * A proportion with its confidence interval
+ */
+export interface ConfidenceInterval {
+  proportion: number;
+  lower: number;
+  upper: number;
+}
+
+// z-score for a two-sided 95% confidence level
+export const Z_95 = 1.959963984540054;
+
+// Significance level used to flag chi-square results
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation)
+ * @param x Positive number
+ * @returns ln(Γ(x))
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+
+  if (x < 0.5) {
+    // Reflection formula for small arguments
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = 0.99999999999980993;
+  coefficients.forEach((coefficient, index) => {
+    sum += coefficient / (shifted + index + 1);
+  });
+
+  const t = shifted + coefficients.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ * Uses the series expansion for small x and a continued fraction otherwise
+ * @param a Shape parameter
+ * @param x Upper limit
+ * @returns Q(a, x) in [0, 1]
+ */
+function regularizedUpperGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  const maxIterations = 200;
+  const epsilon = 1e-14;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series expansion of the lower function P(a, x), then Q = 1 - P
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < maxIterations; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * epsilon) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Continued fraction (modified Lentz's method)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < maxIterations; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+/**
+ * Gets the upper-tail probability of the chi-square distribution
+ * @param statistic Chi-square statistic
+ * @param degreesOfFreedom Degrees of freedom
+ * @returns Probability of observing a statistic at least this large
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= 0) return 1;
+  return regularizedUpperGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Runs a chi-square test of independence on a contingency table
+ * Rows and columns without any observations are ignored
+ * @param table Matrix of observed counts
+ * @returns Test result, or null if the table has fewer than two non-empty rows or columns
+ */
+export function chiSquareTest(table: number[][]): ChiSquareResult | null {
+  const rowTotals = table.map(row => row.reduce((sum, count) => sum + count, 0));
+  const columnCount = table.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnTotals = Array.from({ length: columnCount }, (_, column) =>
+    table.reduce((sum, row) => sum + (row[column] || 0), 0)
+  );
+  const total = rowTotals.reduce((sum, count) => sum + count, 0);
+
+  const rows = rowTotals.map((rowTotal, index) => ({ rowTotal, index })).filter(row => row.rowTotal > 0);
+  const columns = columnTotals.map((columnTotal, index) => ({ columnTotal, index })).filter(column => column.columnTotal > 0);
+
+  if (rows.length < 2 || columns.length < 2) {
+    return null;
+  }
+
+  let statistic = 0;
+  for (const row of rows) {
+    for (const column of columns) {
+      const expected = (row.rowTotal * column.columnTotal) / total;
+      const observed = table[row.index][column.index] || 0;
+      statistic += ((observed - expected) ** 2) / expected;
+    }
+  }
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1);
+  const pValue = chiSquarePValue(statistic, degreesOfFreedom);
+
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/**
+ * Computes Cramér's V, a 0-1 measure of association between two categorical variables
+ * @param table Matrix of observed counts
+ * @returns Cramér's V, or null if the table has fewer than two non-empty rows or columns
+ */
+export function cramersV(table: number[][]): number | null {
+  const result = chiSquareTest(table);
+  if (!result) return null;
+
+  const total = table.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+  const nonEmptyRows = table.filter(row => row.some(count => count > 0)).length;
+  const columnCount = table.reduce((max, row) => Math.max(max, row.length), 0);
+  const nonEmptyColumns = Array.from({ length: columnCount }, (_, column) => column)
+    .filter(column => table.some(row => (row[column] || 0) > 0)).length;
+
+  const minDimension = Math.min(nonEmptyRows, nonEmptyColumns) - 1;
+  return Math.min(1, Math.sqrt(result.statistic / (total * minDimension)));
+}
+
+/**
+ * Computes the Wilson score interval for a binomial proportion
+ * Unlike the normal approximation it stays within [0, 1] and behaves well for tiny samples
+ * @param successes Number of observations with the outcome
+ * @param trials Total number of observations
+ * @param z z-score of the confidence level (defaults to 95%)
+ * @returns Observed proportion with the lower and upper bounds of the interval
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): ConfidenceInterval {
+  if (trials <= 0) {
+    return { proportion: 0, lower: 0, upper: 1 };
+  }
+
+  const proportion = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (proportion + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((proportion * (1 - proportion)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    proportion,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Computes the lift of a segment's proportion over the baseline proportion
+ * A lift of 1 means the segment behaves like everyone else
+ * @param segmentCount Count for the answer within the segment
+ * @param segmentTotal Total count within the segment
+ * @param baselineCount Count for the answer across all voters
+ * @param baselineTotal Total count across all voters
+ * @returns Lift ratio, or null when either proportion is undefined or the baseline is zero
+ */
+export function liftRatio(
+  segmentCount: number,
+  segmentTotal: number,
+  baselineCount: number,
+  baselineTotal: number
+): number | null {
+  if (segmentTotal <= 0 || baselineTotal <= 0 || baselineCount <= 0) {
+    return null;
+  }
+
+  return (segmentCount / segmentTotal) / (baselineCount / baselineTotal);
+}
+
+/**
+ * Statistics for one answer of the main poll within a cross-referenced segment
+ */
+export interface AnswerStatistics extends ConfidenceInterval {
+  count: number;
+  lift: number | null;
+}
+
+/**
+ * Statistics describing a cross-referenced segment of a poll
+ */
+export interface CrossReferenceStatistics {
+  // Number of voters in the segment who voted on the main poll
+  sampleSize: number;
+  // Test of independence between the main poll and the cross-referenced poll
+  chiSquare: ChiSquareResult | null;
+  answers: Record<string, AnswerStatistics>;
+}
+
+/**
+ * Computes significance, confidence intervals and lift for a cross-referenced segment
+ * @param answerIds Answer IDs of the main poll
+ * @param crossAnswerIds Answer IDs of the cross-referenced poll
+ * @param contingency Joint vote counts, keyed by main answer ID and then cross answer ID
+ * @param segmentCounts Main poll vote counts within the segment
+ * @param baselineCounts Unfiltered main poll vote counts
+ * @param options Respondent totals to use as denominators instead of the summed counts, needed
+ * when voters can choose several answers, in which case the test of independence is skipped
+ * since its observations are no longer independent
+ * @returns Statistics for the segment
+ */
+export function computeCrossReferenceStatistics(
+  answerIds: string[],
+  crossAnswerIds: string[],
+  contingency: Record<string, Record<string, number>>,
+  segmentCounts: Record<string, number>,
+  baselineCounts: Record<string, number>,
+  options: { sampleSize?: number; baselineTotal?: number; testIndependence?: boolean } = {}
+): CrossReferenceStatistics {
+  const table = answerIds.map(answerId =>
+    crossAnswerIds.map(crossAnswerId => contingency[answerId]?.[crossAnswerId] || 0)
+  );
+
+  const sampleSize = options.sampleSize
+    ?? answerIds.reduce((sum, answerId) => sum + (segmentCounts[answerId] || 0), 0);
+  const baselineTotal = options.baselineTotal
+    ?? answerIds.reduce((sum, answerId) => sum + (baselineCounts[answerId] || 0), 0);
+  const testIndependence = options.testIndependence ?? true;
+
+  const answers: Record<string, AnswerStatistics> = {};
+  answerIds.forEach(answerId => {
+    const count = segmentCounts[answerId] || 0;
+    answers[answerId] = {
+      count,
+      ...wilsonInterval(count, sampleSize),
+      lift: liftRatio(count, sampleSize, baselineCounts[answerId] || 0, baselineTotal),
+    };
+  });
+
+  return {
+    sampleSize,
+    chiSquare: testIndependence ? chiSquareTest(table) : null,
+    answers,
+  };
+}
+
+/**
+ * Association between a pair of answers from two polls
+ */
+export interface AnswerPairEffect {
+  answerId: string;
+  crossAnswerId: string;
+  // Number of voters who chose both answers
+  count: number;
+  // How much more likely voters of the cross answer are to choose the main answer
+  lift: number;
+}
+
+/**
+ * Ranks answer pairs by how far their lift departs from independence
+ * Over- and under-representation are weighted symmetrically (a lift of 2 ranks like 0.5)
+ * @param answerIds Answer IDs of the main poll
+ * @param crossAnswerIds Answer IDs of the cross-referenced poll
+ * @param contingency Joint vote counts, keyed by main answer ID and then cross answer ID
+ * @param minCount Minimum number of joint voters for a pair to be considered
+ * @returns Answer pairs, strongest first
+ */
+export function rankAnswerPairEffects(
+  answerIds: string[],
+  crossAnswerIds: string[],
+  contingency: Record<string, Record<string, number>>,
+  minCount: number = 1
+): AnswerPairEffect[] {
+  const cell = (answerId: string, crossAnswerId: string) => contingency[answerId]?.[crossAnswerId] || 0;
+
+  const total = answerIds.reduce(
+    (sum, answerId) => sum + crossAnswerIds.reduce((rowSum, crossAnswerId) => rowSum + cell(answerId, crossAnswerId), 0),
+    0
+  );
+
+  const effects: AnswerPairEffect[] = [];
+
+  for (const crossAnswerId of crossAnswerIds) {
+    const columnTotal = answerIds.reduce((sum, answerId) => sum + cell(answerId, crossAnswerId), 0);
+
+    for (const answerId of answerIds) {
+      const count = cell(answerId, crossAnswerId);
+      if (count < minCount) continue;
+
+      const rowTotal = crossAnswerIds.reduce((sum, otherCrossAnswerId) => sum + cell(answerId, otherCrossAnswerId), 0);
+      const lift = liftRatio(count, columnTotal, rowTotal, total);
+
+      if (lift !== null) {
+        effects.push({ answerId, crossAnswerId, count, lift });
+      }
+    }
+  }
+
+  return effects.sort((a, b) => Math.abs(Math.log(b.lift)) - Math.abs(Math.log(a.lift)));
+}
+
+/**
+ * Number of values falling on one point of a scale
+ */
+export interface HistogramBin {
+  value: number;
+  count: number;
+}
+
+/**
+ * Distribution of the values chosen on a scale poll
+ */
+export interface ScaleStatistics {
+  // Number of values (one per voter)
+  count: number;
+  mean: number | null;
+  median: number | null;
+  // Population standard deviation of the values
+  standardDeviation: number | null;
+  // One bin per point of the scale, from min to max
+  histogram: HistogramBin[];
+}
+
+/**
+ * Computes the mean, median, standard deviation and histogram of scale values
+ * @param values Chosen values
+ * @param scale Range and step of the scale, which define the histogram bins
+ * @returns Statistics for the values (null summaries when there are none)
+ */
+export function computeScaleStatistics(
+  values: number[],
+  scale: { min: number; max: number; step: number }
+): ScaleStatistics {
+  const binCount = Math.round((scale.max - scale.min) / scale.step) + 1;
+  const histogram: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    // Rounded so fractional steps don't accumulate floating-point error
+    value: Number((scale.min + index * scale.step).toFixed(10)),
+    count: 0,
+  }));
+
+  values.forEach(value => {
+    const index = Math.round((value - scale.min) / scale.step);
+    if (index >= 0 && index < binCount) {
+      histogram[index].count++;
+    }
+  });
+
+  if (values.length === 0) {
+    return { count: 0, mean: null, median: null, standardDeviation: null, histogram };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    count: values.length,
+    mean,
+    median,
+    standardDeviation: Math.sqrt(variance),
+    histogram,
+  };
+}
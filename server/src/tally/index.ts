@@ -0,0 +1,18 @@
+import {
+  instantRunoff,
+  bordaCount,
+  tallyRankedBallots,
+  type RunoffRound,
+  type InstantRunoffResult,
+  type BordaResult,
+  type RankedTally
+} from './utils';
+
+export {
+  instantRunoff,
+  bordaCount,
+  tallyRankedBallots
+};
+
+// Re-export types with correct syntax for isolatedModules
+export type { RunoffRound, InstantRunoffResult, BordaResult, RankedTally };
@@ -0,0 +1,132 @@
+/**
+ * One round of an instant-runoff count
+ */
+export interface RunoffRound {
+  // Ballots counting toward each answer still in the running
+  counts: Record<string, number>;
+  // Ballots that rank none of the answers still in the running
+  exhausted: number;
+  // Answers eliminated at the end of the round (empty in the final round)
+  eliminated: string[];
+}
+
+/**
+ * Result of an instant-runoff count
+ */
+export interface InstantRunoffResult {
+  rounds: RunoffRound[];
+  // Answer with a majority of the continuing ballots, or null if there were no ballots or a tie
+  winner: string | null;
+  // Answers tied in the final round when no winner could be determined
+  tied: string[];
+}
+
+/**
+ * Result of a Borda count
+ */
+export interface BordaResult {
+  // Points per answer: one per answer ranked below it on each ballot
+  scores: Record<string, number>;
+  // Answer IDs by score, highest first (ties keep the poll's answer order)
+  ranking: string[];
+}
+
+/**
+ * Both tallies of a ranked poll
+ */
+export interface RankedTally {
+  ballotCount: number;
+  instantRunoff: InstantRunoffResult;
+  borda: BordaResult;
+}
+
+/**
+ * Counts ranked ballots by instant runoff
+ * Each round counts every ballot toward its highest-ranked answer still in the running.
+ * An answer with more than half of the continuing ballots wins; otherwise the answers
+ * tied for the fewest votes are eliminated together. If every remaining answer is tied,
+ * the count ends in a tie.
+ * @param answerIds Answer IDs of the poll
+ * @param ballots One array of answer IDs per voter, in order of preference
+ * @returns The rounds of the count and the winner
+ */
+export function instantRunoff(answerIds: string[], ballots: string[][]): InstantRunoffResult {
+  const rounds: RunoffRound[] = [];
+  let remaining = [...answerIds];
+
+  while (remaining.length > 0) {
+    const inRunning = new Set(remaining);
+    const counts: Record<string, number> = Object.fromEntries(remaining.map(answerId => [answerId, 0]));
+    let exhausted = 0;
+
+    ballots.forEach(ballot => {
+      const preference = ballot.find(answerId => inRunning.has(answerId));
+      if (preference === undefined) {
+        exhausted++;
+      } else {
+        counts[preference]++;
+      }
+    });
+
+    const round: RunoffRound = { counts, exhausted, eliminated: [] };
+    rounds.push(round);
+
+    const continuing = ballots.length - exhausted;
+    if (continuing === 0) {
+      return { rounds, winner: null, tied: [] };
+    }
+
+    const winner = remaining.find(answerId => counts[answerId] * 2 > continuing);
+    if (winner !== undefined) {
+      return { rounds, winner, tied: [] };
+    }
+
+    const fewest = Math.min(...remaining.map(answerId => counts[answerId]));
+    const trailing = remaining.filter(answerId => counts[answerId] === fewest);
+    if (trailing.length === remaining.length) {
+      return { rounds, winner: null, tied: remaining };
+    }
+
+    round.eliminated = trailing;
+    remaining = remaining.filter(answerId => counts[answerId] !== fewest);
+  }
+
+  return { rounds, winner: null, tied: [] };
+}
+
+/**
+ * Counts ranked ballots by Borda count
+ * With n answers, a first preference scores n - 1 points and a last preference none
+ * @param answerIds Answer IDs of the poll
+ * @param ballots One array of answer IDs per voter, in order of preference
+ * @returns Scores per answer and the resulting order
+ */
+export function bordaCount(answerIds: string[], ballots: string[][]): BordaResult {
+  const scores: Record<string, number> = Object.fromEntries(answerIds.map(answerId => [answerId, 0]));
+
+  ballots.forEach(ballot => {
+    ballot.forEach((answerId, index) => {
+      if (answerId in scores) {
+        scores[answerId] += answerIds.length - 1 - index;
+      }
+    });
+  });
+
+  const ranking = [...answerIds].sort((a, b) => scores[b] - scores[a]);
+
+  return { scores, ranking };
+}
+
+/**
+ * Tallies a ranked poll by both instant runoff and Borda count
+ * @param answerIds Answer IDs of the poll
+ * @param ballots One array of answer IDs per voter, in order of preference
+ * @returns Both tallies and the number of ballots
+ */
+export function tallyRankedBallots(answerIds: string[], ballots: string[][]): RankedTally {
+  return {
+    ballotCount: ballots.length,
+    instantRunoff: instantRunoff(answerIds, ballots),
+    borda: bordaCount(answerIds, ballots),
+  };
+}